@@ -2,6 +2,8 @@
  * React Native App Entry Point
  */
 
+// Spec-compliant URL parsing (origin, pathname, searchParams) for React Native
+import 'react-native-url-polyfill/auto';
 import { AppRegistry } from 'react-native';
 import App from './src/App';
 import { name as appName } from './app.json';
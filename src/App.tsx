@@ -24,6 +24,10 @@ import { store } from './store';
 import { queryClient } from './query/queryClient';
 import RootNavigator from './navigation/RootNavigator';
 import { setAppState } from './store/slices/uiSlice';
+import { hydrateRecords, setUnmergedDuplicates } from './store/slices/recordsSlice';
+import { encryptedRecordStore } from './infrastructure/storage/EncryptedRecordStore';
+import { secureStorage } from './infrastructure/storage/SecureStorage';
+import { startQueryCachePersistence } from './query/queryPersister';
 import { Logger } from './utils/logger';
 import { SnackbarProvider } from './context/SnackbarContext';
 
@@ -36,6 +40,28 @@ if (__DEV__) {
 }
 
 const App: React.FC = () => {
+  // Restore records saved on the device so they are available offline,
+  // only when a session was left signed in
+  useEffect(() => {
+    secureStorage
+      .getAuthTokens()
+      .then(async tokens => {
+        if (!tokens) {
+          return;
+        }
+        const records = await encryptedRecordStore.loadAll();
+        store.dispatch(hydrateRecords(records));
+        store.dispatch(setUnmergedDuplicates(await encryptedRecordStore.getUnmergedDuplicates()));
+        Logger.info('Offline records restored', { providers: records.length });
+      })
+      .catch(error => {
+        Logger.error('Failed to restore offline records', { error: String(error) });
+      });
+  }, []);
+
+  // Restore the encrypted query cache and keep it saved
+  useEffect(() => startQueryCachePersistence(), []);
+
   // Handle app state changes
   useEffect(() => {
     const handleAppStateChange = (nextState: AppStateStatus) => {
@@ -44,11 +70,6 @@ const App: React.FC = () => {
       if (nextState === 'active' || nextState === 'inactive' || nextState === 'background') {
         store.dispatch(setAppState(nextState));
       }
-
-      // Invalidate queries when app comes to foreground
-      if (nextState === 'active') {
-        // Could trigger a background sync here
-      }
     };
 
     const subscription = AppState.addEventListener('change', handleAppStateChange);
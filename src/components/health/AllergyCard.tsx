@@ -0,0 +1,193 @@
+/**
+ * AllergyCard Component
+ *
+ * Displays an allergy or intolerance with its criticality, reactions and onset.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { colors, spacing, borderRadius, typography, shadows } from '../../theme';
+
+export type AllergyCriticalityLevel = 'high' | 'low' | 'unable-to-assess' | 'unknown';
+
+interface AllergyCardProps {
+  substance: string;
+  criticality?: AllergyCriticalityLevel;
+  reactions?: string[];
+  severity?: string;
+  category?: string;
+  onset?: string;
+  onPress?: () => void;
+  testID?: string;
+}
+
+const getCriticalityColor = (criticality: AllergyCriticalityLevel): string => {
+  switch (criticality) {
+    case 'high':
+      return colors.error.main;
+    case 'low':
+      return colors.success.main;
+    case 'unable-to-assess':
+      return colors.warning.dark;
+    default:
+      return colors.neutral[400];
+  }
+};
+
+const getCriticalityLabel = (criticality: AllergyCriticalityLevel): string => {
+  switch (criticality) {
+    case 'high':
+      return 'High Risk';
+    case 'low':
+      return 'Low Risk';
+    case 'unable-to-assess':
+      return 'Unable to Assess';
+    default:
+      return 'Unknown Risk';
+  }
+};
+
+export const AllergyCard: React.FC<AllergyCardProps> = ({
+  substance,
+  criticality = 'unknown',
+  reactions = [],
+  severity,
+  category,
+  onset,
+  onPress,
+  testID,
+}) => {
+  const criticalityColor = getCriticalityColor(criticality);
+
+  const content = (
+    <View
+      style={[styles.container, criticality === 'high' && styles.highCriticality]}
+      testID={testID}
+    >
+      <View style={styles.header}>
+        <View style={styles.iconContainer}>
+          <Text style={styles.icon}>⚠️</Text>
+        </View>
+        <View style={styles.headerContent}>
+          <Text style={styles.name} numberOfLines={2}>
+            {substance}
+          </Text>
+          <View style={[styles.criticalityBadge, { backgroundColor: criticalityColor }]}>
+            <Text style={styles.criticalityText}>{getCriticalityLabel(criticality)}</Text>
+          </View>
+        </View>
+      </View>
+
+      <View style={styles.details}>
+        <View style={styles.detailRow}>
+          <Text style={styles.detailLabel}>Reactions:</Text>
+          <Text style={styles.detailValue}>
+            {reactions.length > 0 ? reactions.join(', ') : 'Not recorded'}
+          </Text>
+        </View>
+        {severity && (
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Severity:</Text>
+            <Text style={styles.detailValue}>{severity}</Text>
+          </View>
+        )}
+        {category && (
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Type:</Text>
+            <Text style={styles.detailValue}>{category}</Text>
+          </View>
+        )}
+        {onset && (
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Onset:</Text>
+            <Text style={styles.detailValue}>{onset}</Text>
+          </View>
+        )}
+      </View>
+    </View>
+  );
+
+  if (onPress) {
+    return (
+      <TouchableOpacity onPress={onPress} activeOpacity={0.7}>
+        {content}
+      </TouchableOpacity>
+    );
+  }
+
+  return content;
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: colors.background.card,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+    ...shadows.sm,
+  },
+  highCriticality: {
+    borderLeftWidth: 4,
+    borderLeftColor: colors.error.main,
+  },
+  header: {
+    flexDirection: 'row',
+    marginBottom: spacing.md,
+  },
+  iconContainer: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: colors.health.allergies + '20',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: spacing.sm,
+  },
+  icon: {
+    fontSize: 24,
+  },
+  headerContent: {
+    flex: 1,
+  },
+  name: {
+    fontSize: typography.fontSize.md,
+    fontWeight: typography.fontWeight.semiBold,
+    color: colors.text.primary,
+    marginBottom: spacing.xs,
+  },
+  criticalityBadge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: spacing.xs,
+    paddingVertical: 2,
+    borderRadius: borderRadius.xs,
+  },
+  criticalityText: {
+    fontSize: typography.fontSize.xs,
+    color: colors.text.inverse,
+    fontWeight: typography.fontWeight.semiBold,
+  },
+  details: {
+    borderTopWidth: 1,
+    borderTopColor: colors.border.light,
+    paddingTop: spacing.sm,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: spacing.xs,
+  },
+  detailLabel: {
+    fontSize: typography.fontSize.sm,
+    color: colors.text.secondary,
+    marginRight: spacing.sm,
+  },
+  detailValue: {
+    flex: 1,
+    textAlign: 'right',
+    fontSize: typography.fontSize.sm,
+    color: colors.text.primary,
+    fontWeight: typography.fontWeight.medium,
+  },
+});
+
+export default AllergyCard;
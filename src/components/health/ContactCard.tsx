@@ -0,0 +1,144 @@
+/**
+ * ContactCard Component
+ *
+ * Displays a practitioner, organization or location with specialties,
+ * address and a tappable phone number.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Linking } from 'react-native';
+import { colors, spacing, borderRadius, typography, shadows } from '../../theme';
+
+interface ContactCardProps {
+  name: string;
+  role?: string;
+  specialties?: string[];
+  organization?: string;
+  address?: string;
+  phone?: string;
+  footer?: string;
+  testID?: string;
+}
+
+export const ContactCard: React.FC<ContactCardProps> = ({
+  name,
+  role,
+  specialties = [],
+  organization,
+  address,
+  phone,
+  footer,
+  testID,
+}) => {
+  const initials = name
+    .split(/\s+/)
+    .filter(part => /^[A-Za-z]/.test(part) && !part.endsWith('.'))
+    .slice(0, 2)
+    .map(part => part[0].toUpperCase())
+    .join('');
+
+  return (
+    <View style={styles.container} testID={testID}>
+      <View style={styles.header}>
+        <View style={styles.avatar}>
+          <Text style={styles.initials}>{initials || '?'}</Text>
+        </View>
+        <View style={styles.headerContent}>
+          <Text style={styles.name} numberOfLines={2}>
+            {name}
+          </Text>
+          {role && <Text style={styles.role}>{role}</Text>}
+          {specialties.length > 0 && (
+            <Text style={styles.specialties}>{specialties.join(', ')}</Text>
+          )}
+        </View>
+      </View>
+
+      {(organization || address || phone) && (
+        <View style={styles.details}>
+          {organization && <Text style={styles.detailText}>{organization}</Text>}
+          {address && <Text style={styles.detailText}>{address}</Text>}
+          {phone && (
+            <TouchableOpacity
+              onPress={() => Linking.openURL(`tel:${phone.replace(/[^\d+]/g, '')}`)}
+              accessibilityRole="link"
+              accessibilityLabel={`Call ${name}`}
+            >
+              <Text style={styles.phone}>{phone}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      {footer && <Text style={styles.footer}>{footer}</Text>}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: colors.background.card,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+    ...shadows.sm,
+  },
+  header: {
+    flexDirection: 'row',
+  },
+  avatar: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: colors.health.encounters + '20',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: spacing.sm,
+  },
+  initials: {
+    fontSize: typography.fontSize.md,
+    fontWeight: typography.fontWeight.semiBold,
+    color: colors.health.encounters,
+  },
+  headerContent: {
+    flex: 1,
+  },
+  name: {
+    fontSize: typography.fontSize.md,
+    fontWeight: typography.fontWeight.semiBold,
+    color: colors.text.primary,
+  },
+  role: {
+    fontSize: typography.fontSize.sm,
+    color: colors.text.secondary,
+    marginTop: spacing.xxs,
+  },
+  specialties: {
+    fontSize: typography.fontSize.sm,
+    color: colors.text.primary,
+    marginTop: spacing.xxs,
+  },
+  details: {
+    borderTopWidth: 1,
+    borderTopColor: colors.border.light,
+    paddingTop: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  detailText: {
+    fontSize: typography.fontSize.sm,
+    color: colors.text.secondary,
+    marginBottom: spacing.xs,
+  },
+  phone: {
+    fontSize: typography.fontSize.sm,
+    fontWeight: typography.fontWeight.medium,
+    color: colors.primary[600],
+  },
+  footer: {
+    fontSize: typography.fontSize.xs,
+    color: colors.text.secondary,
+    marginTop: spacing.sm,
+  },
+});
+
+export default ContactCard;
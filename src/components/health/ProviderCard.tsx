@@ -16,6 +16,7 @@ interface ProviderCardProps {
   logoUrl?: string;
   status?: ProviderConnectionStatus;
   lastSynced?: string;
+  syncProgress?: string;
   recordCount?: number;
   onPress?: () => void;
   onSync?: () => void;
@@ -58,6 +59,7 @@ export const ProviderCard: React.FC<ProviderCardProps> = ({
   logoUrl,
   status = 'disconnected',
   lastSynced,
+  syncProgress,
   recordCount,
   onPress,
   onSync,
@@ -97,7 +99,11 @@ export const ProviderCard: React.FC<ProviderCardProps> = ({
       </View>
 
       <View style={styles.footer}>
-        {lastSynced && <Text style={styles.lastSynced}>Last synced: {lastSynced}</Text>}
+        {status === 'syncing' && syncProgress ? (
+          <Text style={styles.syncProgress}>{syncProgress}</Text>
+        ) : (
+          lastSynced && <Text style={styles.lastSynced}>Last synced: {lastSynced}</Text>
+        )}
         {recordCount !== undefined && recordCount > 0 && (
           <Text style={styles.recordCount}>{recordCount} records</Text>
         )}
@@ -183,6 +189,10 @@ const styles = StyleSheet.create({
     fontSize: typography.fontSize.xs,
     color: colors.text.hint,
   },
+  syncProgress: {
+    fontSize: typography.fontSize.xs,
+    color: colors.info.main,
+  },
   recordCount: {
     fontSize: typography.fontSize.xs,
     color: colors.text.secondary,
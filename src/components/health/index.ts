@@ -10,5 +10,10 @@ export type { VitalStatus } from './VitalCard';
 export { MedicationCard } from './MedicationCard';
 export type { MedicationStatus } from './MedicationCard';
 
+export { AllergyCard } from './AllergyCard';
+export type { AllergyCriticalityLevel } from './AllergyCard';
+
 export { ProviderCard } from './ProviderCard';
 export type { ProviderConnectionStatus } from './ProviderCard';
+
+export { ContactCard } from './ContactCard';
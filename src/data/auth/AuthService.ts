@@ -92,11 +92,27 @@ interface PendingAuth {
   scopes: string[];
 }
 
+/**
+ * Looks up a connected provider by ID
+ */
+export type ProviderLookup = (
+  providerId: string
+) => Provider | null | undefined | Promise<Provider | null | undefined>;
+
 /**
  * SMART on FHIR Authentication Service
  */
 export class AuthService {
   private pendingAuth: PendingAuth | null = null;
+  private pendingRefreshes: Map<string, Promise<ProviderTokens>> = new Map();
+  private providerLookup: ProviderLookup | null = null;
+
+  /**
+   * Set where connected providers are looked up (e.g. the Redux store)
+   */
+  setProviderLookup(lookup: ProviderLookup): void {
+    this.providerLookup = lookup;
+  }
 
   /**
    * Generate random bytes using Math.random() as fallback
@@ -378,8 +394,28 @@ export class AuthService {
 
   /**
    * Refresh access token
+   *
+   * Concurrent calls for the same provider share one request, so a
+   * rotating refresh token is only ever used once.
    */
   async refreshTokens(providerId: string): Promise<ProviderTokens> {
+    const pending = this.pendingRefreshes.get(providerId);
+    if (pending) {
+      return pending;
+    }
+
+    const refresh = this.requestTokenRefresh(providerId).finally(() => {
+      this.pendingRefreshes.delete(providerId);
+    });
+    this.pendingRefreshes.set(providerId, refresh);
+
+    return refresh;
+  }
+
+  /**
+   * Exchange the stored refresh token for new tokens
+   */
+  private async requestTokenRefresh(providerId: string): Promise<ProviderTokens> {
     const currentTokens = await secureStorage.getProviderTokens(providerId);
 
     if (!currentTokens?.refreshToken) {
@@ -387,7 +423,6 @@ export class AuthService {
     }
 
     // Get provider configuration
-    // In production, this would be fetched from provider registry
     const provider = await this.getProvider(providerId);
 
     if (!provider) {
@@ -490,8 +525,26 @@ export class AuthService {
 
   /**
    * Get valid access token, refreshing if necessary
+   *
+   * @param options.forceRefresh - Refresh even if the token looks valid (e.g. after a 401)
+   */
+  async getValidAccessToken(
+    providerId: string,
+    options?: { forceRefresh?: boolean }
+  ): Promise<string | null> {
+    return (await this.getValidTokens(providerId, options))?.accessToken ?? null;
+  }
+
+  /**
+   * Get valid tokens, refreshing if necessary
+   *
+   * Like getValidAccessToken, but includes the expiry so FHIR clients can
+   * refresh again shortly before it.
    */
-  async getValidAccessToken(providerId: string): Promise<string | null> {
+  async getValidTokens(
+    providerId: string,
+    options?: { forceRefresh?: boolean }
+  ): Promise<ProviderTokens | null> {
     const tokens = await secureStorage.getProviderTokens(providerId);
 
     if (!tokens) {
@@ -499,12 +552,11 @@ export class AuthService {
     }
 
     // Check if token is expired
-    if (ProviderHelpers.areTokensExpired(tokens)) {
+    if (options?.forceRefresh || ProviderHelpers.areTokensExpired(tokens)) {
       // Try to refresh
       if (tokens.refreshToken) {
         try {
-          const newTokens = await this.refreshTokens(providerId);
-          return newTokens.accessToken;
+          return await this.refreshTokens(providerId);
         } catch (error) {
           Logger.error('Failed to refresh token', { error: String(error) });
           return null;
@@ -513,18 +565,21 @@ export class AuthService {
       return null;
     }
 
-    return tokens.accessToken;
+    return tokens;
   }
 
   /**
-   * Get provider by ID (stub - should be from provider registry)
+   * Get provider by ID from the configured provider lookup
    */
   private async getProvider(providerId: string): Promise<Provider | null> {
-    // TODO: Implement provider registry lookup
-    // This is a stub that returns null - in production, this would
-    // fetch from the provider registry
     Logger.debug('Getting provider', { providerId });
-    return null;
+
+    if (!this.providerLookup) {
+      Logger.warn('No provider lookup configured', { providerId });
+      return null;
+    }
+
+    return (await this.providerLookup(providerId)) ?? null;
   }
 }
 
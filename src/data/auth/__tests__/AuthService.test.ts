@@ -10,6 +10,7 @@ declare const global: typeof globalThis & {
 };
 
 import { AuthService, BackendAuthService } from '../AuthService';
+import { ProviderHelpers } from '../../../domain/entities/Provider';
 
 // Mock dependencies
 jest.mock('../../../infrastructure/storage/SecureStorage', () => ({
@@ -131,6 +132,69 @@ describe('AuthService', () => {
     });
   });
 
+  describe('refreshTokens', () => {
+    const provider = ProviderHelpers.createFromRegistration(
+      {
+        name: 'Test Hospital',
+        fhirServerUrl: 'https://fhir.example.com',
+        clientId: 'test-client',
+        tokenEndpoint: 'https://auth.example.com/token',
+      },
+      'test-provider'
+    );
+
+    beforeEach(() => {
+      const { secureStorage } = require('../../../infrastructure/storage/SecureStorage');
+      secureStorage.getProviderTokens.mockResolvedValue({
+        accessToken: 'old-token',
+        refreshToken: 'test-refresh',
+        expiresAt: Date.now() + 3600000,
+      });
+      global.fetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          access_token: 'new-token',
+          token_type: 'Bearer',
+          expires_in: 3600,
+          scope: 'patient/*.read',
+        }),
+      });
+    });
+
+    afterEach(() => {
+      const { secureStorage } = require('../../../infrastructure/storage/SecureStorage');
+      secureStorage.getProviderTokens.mockResolvedValue(null);
+    });
+
+    it('should fail without a provider lookup', async () => {
+      await expect(authService.refreshTokens('test-provider')).rejects.toThrow(
+        'Provider not found'
+      );
+    });
+
+    it('should share one refresh between concurrent callers', async () => {
+      authService.setProviderLookup(() => provider);
+
+      const [first, second] = await Promise.all([
+        authService.refreshTokens('test-provider'),
+        authService.refreshTokens('test-provider'),
+      ]);
+
+      expect(first.accessToken).toBe('new-token');
+      expect(second).toBe(first);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refresh a valid token when forced', async () => {
+      authService.setProviderLookup(() => provider);
+
+      expect(await authService.getValidAccessToken('test-provider')).toBe('old-token');
+      expect(await authService.getValidAccessToken('test-provider', { forceRefresh: true })).toBe(
+        'new-token'
+      );
+    });
+  });
+
   describe('revokeTokens', () => {
     it('should clear local tokens even when server revocation fails', async () => {
       const { secureStorage } = require('../../../infrastructure/storage/SecureStorage');
@@ -0,0 +1,141 @@
+/**
+ * FHIR Batch / Transaction Bundle Builder
+ *
+ * Builds `batch` and `transaction` Bundles for FHIRClient.transaction().
+ * - batch: entries are processed independently; each can fail on its own
+ * - transaction: entries succeed or fail together
+ *
+ * @see https://www.hl7.org/fhir/r4/http.html#transaction
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+
+import { Bundle, BundleEntry, FHIRResource } from '../../domain/entities/FHIRTypes';
+
+export type BundleRequestType = 'batch' | 'transaction';
+
+/**
+ * Options for a create entry
+ */
+export interface BundleCreateOptions {
+  /**
+   * Temporary id other entries can reference (defaults to a new urn:uuid).
+   * References to it are rewritten by the server in a transaction.
+   */
+  fullUrl?: string;
+
+  /** Conditional create search, e.g. "identifier=http://system|123" */
+  ifNoneExist?: string;
+}
+
+/**
+ * Options for an update entry
+ */
+export interface BundleUpdateOptions {
+  /**
+   * Expected version ETag, e.g. W/"3". Defaults to the resource's
+   * `meta.versionId`; pass `false` to overwrite unconditionally.
+   */
+  ifMatch?: string | false;
+}
+
+export class BundleBuilder {
+  private readonly type: BundleRequestType;
+  private readonly entries: BundleEntry[] = [];
+
+  constructor(type: BundleRequestType = 'transaction') {
+    this.type = type;
+  }
+
+  /**
+   * Add a create (POST) entry
+   *
+   * @returns The entry fullUrl, for use in references from other entries
+   */
+  create<T extends FHIRResource>(resource: T, options?: BundleCreateOptions): string {
+    const fullUrl = options?.fullUrl ?? `urn:uuid:${uuidv4()}`;
+
+    this.entries.push({
+      fullUrl,
+      resource,
+      request: {
+        method: 'POST',
+        url: resource.resourceType,
+        ifNoneExist: options?.ifNoneExist,
+      },
+    });
+
+    return fullUrl;
+  }
+
+  /**
+   * Add an update (PUT) entry
+   */
+  update<T extends FHIRResource>(resource: T, options?: BundleUpdateOptions): this {
+    if (!resource.id) {
+      throw new Error(`Cannot update ${resource.resourceType} without an id`);
+    }
+
+    const versionId = resource.meta?.versionId;
+    const ifMatch = options?.ifMatch ?? (versionId ? `W/"${versionId}"` : undefined);
+
+    this.entries.push({
+      resource,
+      request: {
+        method: 'PUT',
+        url: `${resource.resourceType}/${resource.id}`,
+        ifMatch: ifMatch || undefined,
+      },
+    });
+
+    return this;
+  }
+
+  /**
+   * Add a delete entry
+   */
+  delete(resourceType: string, id: string): this {
+    this.entries.push({
+      request: {
+        method: 'DELETE',
+        url: `${resourceType}/${id}`,
+      },
+    });
+
+    return this;
+  }
+
+  /**
+   * Add a read (GET) entry
+   */
+  read(resourceType: string, id: string): this {
+    this.entries.push({
+      request: {
+        method: 'GET',
+        url: `${resourceType}/${id}`,
+      },
+    });
+
+    return this;
+  }
+
+  /**
+   * Number of entries added so far
+   */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Build the request Bundle
+   */
+  build(): Bundle {
+    return {
+      resourceType: 'Bundle',
+      type: this.type,
+      entry: this.entries.map(entry => ({ ...entry })),
+    };
+  }
+}
+
+export default BundleBuilder;
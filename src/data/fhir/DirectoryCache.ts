@@ -0,0 +1,72 @@
+/**
+ * Directory Cache
+ *
+ * Keeps Practitioner, PractitionerRole, Organization and Location
+ * resources read from one provider, so names, specialties and contact
+ * details are not fetched again for every encounter or prescription.
+ * Directory data changes rarely; entries expire after a day.
+ */
+
+import { DirectoryResource } from '../../domain/entities/Directory';
+
+/**
+ * How long a directory resource is reused before it is read again
+ */
+export const DIRECTORY_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+interface CachedDirectoryResource {
+  resource: DirectoryResource;
+  cachedAt: number;
+}
+
+/**
+ * Directory resources for a single provider, keyed by "Type/id"
+ */
+export class DirectoryCache {
+  private readonly entries = new Map<string, CachedDirectoryResource>();
+
+  constructor(
+    private readonly ttlMs: number = DIRECTORY_CACHE_TTL_MS,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Get a cached resource by "Type/id", if present and not expired
+   */
+  get(key: string): DirectoryResource | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (this.now() - entry.cachedAt > this.ttlMs) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.resource;
+  }
+
+  /**
+   * Cache a resource under its "Type/id"
+   */
+  set(resource: DirectoryResource): void {
+    if (resource.id) {
+      this.entries.set(`${resource.resourceType}/${resource.id}`, {
+        resource,
+        cachedAt: this.now(),
+      });
+    }
+  }
+
+  /**
+   * Drop every cached resource
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+export default DirectoryCache;
@@ -7,12 +7,18 @@
  * - Diagnostic reports
  * - Encounters
  * - Medication requests
+ * - Appointments and scheduling
+ * - Care plans, goals and care teams
+ * - Insurance coverage and claims (CARIN Blue Button)
+ * - Clinical documents and Binary attachments
+ * - Practitioner, Organization and Location directory lookups (cached per provider)
  * - Consent management
  *
  * Supports multiple providers with per-provider authentication.
  */
 
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { Buffer } from 'buffer';
 
 import { Logger } from '../../utils/logger';
 import { validateResource } from '../../infrastructure/validators/FHIRValidators';
@@ -22,30 +28,202 @@ import { DiagnosticReport } from '../../domain/entities/DiagnosticReport';
 import { Encounter } from '../../domain/entities/Encounter';
 import { MedicationRequest } from '../../domain/entities/MedicationRequest';
 import { Consent } from '../../domain/entities/Consent';
+import { Condition } from '../../domain/entities/Condition';
+import { AllergyIntolerance } from '../../domain/entities/AllergyIntolerance';
+import { Immunization } from '../../domain/entities/Immunization';
+import { ImmunizationRecommendation } from '../../domain/entities/ImmunizationRecommendation';
+import { Procedure } from '../../domain/entities/Procedure';
+import { Appointment } from '../../domain/entities/Appointment';
+import { Schedule } from '../../domain/entities/Schedule';
+import { Slot } from '../../domain/entities/Slot';
+import { CarePlan } from '../../domain/entities/CarePlan';
+import { Goal } from '../../domain/entities/Goal';
+import { CareTeam } from '../../domain/entities/CareTeam';
+import { Coverage } from '../../domain/entities/Coverage';
+import { ExplanationOfBenefit } from '../../domain/entities/ExplanationOfBenefit';
+import { DocumentReference } from '../../domain/entities/DocumentReference';
+import { DirectoryHelpers, DirectoryResource } from '../../domain/entities/Directory';
 import {
+  CapabilityHelpers,
+  CapabilityStatement,
+  ServerCapabilities,
+} from '../../domain/entities/CapabilityStatement';
+import {
+  Attachment,
+  Binary,
   Bundle,
+  BundleEntry,
   FHIRResource,
+  FHIRResourceWithReferences,
   FHIRResourceWithSource,
+  OperationOutcome,
+  OperationOutcomeIssue,
+  ResolvedReferences,
   SourceMetadata,
 } from '../../domain/entities/FHIRTypes';
 import { Provider, ProviderTokens } from '../../domain/entities/Provider';
+import {
+  attachReferences,
+  BundledResource,
+  parseReference,
+  ReferenceResolver,
+} from './ReferenceResolver';
+import { DirectoryCache } from './DirectoryCache';
+import { BundleBuilder } from './BundleBuilder';
+import { FHIRVersionConflictError, getHttpStatus, getOperationOutcome } from './FHIRErrors';
+import { FHIRSearchBuilder } from './FHIRSearchBuilder';
 
 /**
  * FHIR search parameters
+ *
+ * Array values are sent as repeated parameters (e.g. multiple `_include`s).
  */
 export interface FHIRSearchParams {
-  [key: string]: string | number | boolean | undefined;
+  [key: string]: string | number | boolean | string[] | undefined;
+}
+
+/**
+ * Search criteria: a plain parameter map or a typed FHIRSearchBuilder
+ */
+export type FHIRSearchQuery = FHIRSearchParams | FHIRSearchBuilder;
+
+/**
+ * Options controlling how a search follows Bundle paging links
+ */
+export interface FHIRSearchOptions {
+  /** Stop once this many matching records have been collected (default: no cap) */
+  maxRecords?: number;
+
+  /** Called after each Bundle page has been fetched */
+  onPage?: (progress: FHIRSearchProgress) => void;
+}
+
+/**
+ * Progress of a paged search
+ */
+export interface FHIRSearchProgress {
+  resourceType: string;
+  pageNumber: number;
+  recordsFetched: number;
+  /** Total matches reported by the server (Bundle.total), if any */
+  total?: number;
+  hasMore: boolean;
+  /** Server clock when the page was produced (Bundle meta.lastUpdated or the Date header) */
+  serverTime?: string;
+}
+
+/**
+ * A single page of search results
+ */
+export interface FHIRSearchPage<T extends FHIRResource> {
+  resources: FHIRResourceWithSource<T>[];
+  /** Resources returned alongside the matches via _include/_revinclude */
+  included: BundledResource[];
+  /** "Type/id" of resources deleted (history Bundles only) */
+  deleted: string[];
+  progress: FHIRSearchProgress;
+}
+
+/**
+ * Result of a single batch/transaction entry
+ */
+export interface FHIRBundleEntryResult {
+  /** Position of the entry in the request Bundle */
+  index: number;
+  request?: BundleEntry['request'];
+  /** HTTP status code for the entry (0 if the server sent none) */
+  status: number;
+  ok: boolean;
+  location?: string;
+  etag?: string;
+  resource?: FHIRResource;
+  /** OperationOutcome issues caused by this entry */
+  issues: OperationOutcomeIssue[];
+}
+
+/**
+ * Result of a batch/transaction request
+ */
+export interface FHIRTransactionResult {
+  type: 'batch' | 'transaction';
+  /** True when every entry succeeded */
+  ok: boolean;
+  entries: FHIRBundleEntryResult[];
+  /** Issues that could not be attributed to a single entry */
+  issues: OperationOutcomeIssue[];
+}
+
+/**
+ * Options for creating a resource
+ */
+export interface FHIRCreateOptions {
+  /** Conditional create: only create if no resource matches these search params */
+  ifNoneExist?: FHIRSearchQuery;
+}
+
+/**
+ * Options for updating a resource
+ */
+export interface FHIRUpdateOptions {
+  /**
+   * Expected version for optimistic concurrency. Defaults to the resource's
+   * `meta.versionId`; pass `false` to overwrite unconditionally.
+   */
+  ifMatch?: string | false;
+}
+
+/**
+ * Downloaded attachment content
+ */
+export interface FHIRBinaryContent {
+  contentType: string;
+  /** Base64-encoded content */
+  data: string;
+}
+
+/**
+ * Supplies fresh access tokens to FHIRClient (implemented by AuthService)
+ */
+export interface FHIRTokenRefresher {
+  /** Get a valid access token and its expiry, refreshing it if it is about to expire or when forced */
+  getValidTokens(
+    providerId: string,
+    options?: { forceRefresh?: boolean }
+  ): Promise<Pick<ProviderTokens, 'accessToken' | 'expiresAt'> | null>;
+}
+
+/**
+ * Token refresh settings shared by every client a manager creates
+ */
+export interface FHIRTokenRefreshOptions {
+  tokenRefresher?: FHIRTokenRefresher;
+  /** Called when the token cannot be refreshed and the user must reconnect */
+  onTokenExpired?: (providerId: string) => void;
 }
 
 /**
  * FHIR Client configuration
  */
-export interface FHIRClientConfig {
+export interface FHIRClientConfig extends FHIRTokenRefreshOptions {
   baseUrl: string;
   accessToken: string;
   provider: Provider;
+  /** Access token expiry (ms since epoch); the token is refreshed shortly before */
+  tokenExpiresAt?: number;
+  /** Directory resources already read from this provider */
+  directoryCache?: DirectoryCache;
 }
 
+/**
+ * Refresh this long before the access token expires
+ */
+const TOKEN_REFRESH_BUFFER_MS = 60 * 1000;
+
+/**
+ * Marks a request that has already been retried after a 401
+ */
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _authRetried?: boolean };
+
 /**
  * FHIR Client for a single provider
  */
@@ -53,10 +231,18 @@ export class FHIRClient {
   private readonly client: AxiosInstance;
   private readonly provider: Provider;
   private accessToken: string;
+  private tokenExpiresAt?: number;
+  private readonly tokenRefresher?: FHIRTokenRefresher;
+  private readonly onTokenExpired?: (providerId: string) => void;
+  private readonly directoryCache: DirectoryCache;
 
   constructor(config: FHIRClientConfig) {
     this.provider = config.provider;
+    this.directoryCache = config.directoryCache ?? new DirectoryCache();
     this.accessToken = config.accessToken;
+    this.tokenExpiresAt = config.tokenExpiresAt;
+    this.tokenRefresher = config.tokenRefresher;
+    this.onTokenExpired = config.onTokenExpired;
 
     this.client = axios.create({
       baseURL: config.baseUrl.replace(/\/$/, ''),
@@ -67,8 +253,11 @@ export class FHIRClient {
       timeout: 30000,
     });
 
-    // Add auth interceptor
-    this.client.interceptors.request.use(reqConfig => {
+    // Add auth interceptor, refreshing the token shortly before it expires
+    this.client.interceptors.request.use(async reqConfig => {
+      if (this.isTokenExpiring()) {
+        await this.refreshAccessToken();
+      }
       reqConfig.headers.Authorization = `Bearer ${this.accessToken}`;
       return reqConfig;
     });
@@ -82,7 +271,21 @@ export class FHIRClient {
         });
         return response;
       },
-      error => {
+      async (error: AxiosError) => {
+        // Retry once with a refreshed token if the server rejected the current one
+        const request = error.config as RetriableRequestConfig | undefined;
+        if (
+          error.response?.status === 401 &&
+          request &&
+          !request._authRetried &&
+          this.tokenRefresher
+        ) {
+          request._authRetried = true;
+          if (await this.refreshAccessToken(true)) {
+            return this.client.request(request);
+          }
+        }
+
         Logger.error('FHIR Error', {
           url: error.config?.url,
           status: error.response?.status,
@@ -96,8 +299,52 @@ export class FHIRClient {
   /**
    * Update access token (e.g., after refresh)
    */
-  setAccessToken(token: string): void {
+  setAccessToken(token: string, expiresAt?: number): void {
     this.accessToken = token;
+    this.tokenExpiresAt = expiresAt;
+  }
+
+  /**
+   * Whether the access token expires within the refresh buffer
+   */
+  private isTokenExpiring(): boolean {
+    return (
+      !!this.tokenRefresher &&
+      this.tokenExpiresAt !== undefined &&
+      Date.now() >= this.tokenExpiresAt - TOKEN_REFRESH_BUFFER_MS
+    );
+  }
+
+  /**
+   * Get a fresh access token from the token refresher
+   *
+   * Concurrent refreshes for a provider are de-duplicated by the refresher.
+   * If the token cannot be refreshed the provider is reported as expired.
+   *
+   * @returns The new token, or null if refresh failed
+   */
+  private async refreshAccessToken(forceRefresh = false): Promise<string | null> {
+    if (!this.tokenRefresher) {
+      return null;
+    }
+
+    let tokens: Pick<ProviderTokens, 'accessToken' | 'expiresAt'> | null = null;
+    try {
+      tokens = await this.tokenRefresher.getValidTokens(this.provider.id, { forceRefresh });
+    } catch (error) {
+      Logger.warn('FHIR token refresh failed', {
+        providerId: this.provider.id,
+        error: String(error),
+      });
+    }
+
+    if (!tokens) {
+      this.onTokenExpired?.(this.provider.id);
+      return null;
+    }
+
+    this.setAccessToken(tokens.accessToken, tokens.expiresAt);
+    return tokens.accessToken;
   }
 
   /**
@@ -124,27 +371,70 @@ export class FHIRClient {
   }
 
   /**
-   * Generic search operation
+   * Build a query string from search parameters
    */
-  async search<T extends FHIRResource>(
-    resourceType: string,
-    params?: FHIRSearchParams
-  ): Promise<FHIRResourceWithSource<T>[]> {
+  private buildQueryString(params?: FHIRSearchQuery): string {
+    if (params instanceof FHIRSearchBuilder) {
+      return params.toQueryString();
+    }
+
     const queryParams = new URLSearchParams();
 
     if (params) {
       Object.entries(params).forEach(([key, value]) => {
-        if (value !== undefined) {
+        if (Array.isArray(value)) {
+          value.forEach(item => queryParams.append(key, item));
+        } else if (value !== undefined) {
           queryParams.append(key, String(value));
         }
       });
     }
 
-    const url = `/${resourceType}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return queryParams.toString();
+  }
 
-    const response = await this.client.get<Bundle<T>>(url);
-    const bundle = response.data;
+  /**
+   * Build a relative search URL from parameters
+   */
+  private buildSearchUrl(resourceType: string, params?: FHIRSearchQuery): string {
+    const query = this.buildQueryString(params);
+    return `/${resourceType}${query ? `?${query}` : ''}`;
+  }
 
+  /**
+   * Only follow paging links that point back at this provider's server,
+   * so the bearer token is never sent to a different host.
+   *
+   * Relative paths are appended to the base URL (as axios does); absolute
+   * and protocol-relative ("//host") links must have the same origin and a
+   * path under the base path.
+   */
+  private isSameServer(url: string): boolean {
+    try {
+      const base = new URL(`${this.provider.fhirServerUrl.replace(/\/$/, '')}/`);
+      const isAbsolute = /^([a-z][a-z\d+.-]*:)?\/\//i.test(url);
+      const target = new URL(isAbsolute ? url : url.replace(/^\//, ''), base.href);
+      const basePath = base.pathname.replace(/\/$/, '');
+
+      return (
+        target.origin === base.origin &&
+        (target.pathname === basePath || target.pathname.startsWith(base.pathname))
+      );
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Extract, validate and wrap the resources of a Bundle page
+   *
+   * Entries with `search.mode` "include" (from _include/_revinclude) are
+   * returned separately so they are not mistaken for search matches.
+   * DELETE entries in history Bundles are returned as "Type/id" references.
+   */
+  private extractBundleResources<T extends FHIRResource>(
+    bundle: Bundle<T>
+  ): { resources: FHIRResourceWithSource<T>[]; included: BundledResource[]; deleted: string[] } {
     // Validate bundle
     const validation = validateResource(bundle);
     if (!validation.success) {
@@ -153,10 +443,17 @@ export class FHIRClient {
 
     // Extract and wrap resources
     const resources: FHIRResourceWithSource<T>[] = [];
+    const included: BundledResource[] = [];
+    const deleted: string[] = [];
 
     if (bundle.entry) {
       for (const entry of bundle.entry) {
-        if (entry.resource) {
+        if (entry.request?.method === 'DELETE') {
+          const [resourceType, id] = entry.request.url.split('?')[0].split('/');
+          if (resourceType && id) {
+            deleted.push(`${resourceType}/${id}`);
+          }
+        } else if (entry.resource) {
           // Validate each resource
           const resourceValidation = validateResource(entry.resource);
           if (!resourceValidation.success) {
@@ -167,12 +464,164 @@ export class FHIRClient {
             });
           }
 
-          resources.push(this.wrapWithSource(entry.resource));
+          if (entry.search?.mode === 'include') {
+            included.push({ fullUrl: entry.fullUrl, resource: entry.resource });
+          } else if (entry.search?.mode !== 'outcome') {
+            resources.push(this.wrapWithSource(entry.resource));
+          }
         }
       }
     }
 
-    return resources;
+    return { resources, included, deleted };
+  }
+
+  /**
+   * Search and yield one Bundle page at a time, following `next` links
+   *
+   * Use this to stream long result sets into the UI instead of waiting
+   * for the whole search to complete.
+   */
+  async *searchPages<T extends FHIRResource>(
+    resourceType: string,
+    params?: FHIRSearchQuery,
+    options?: FHIRSearchOptions
+  ): AsyncGenerator<FHIRSearchPage<T>> {
+    yield* this.fetchPages<T>(this.buildSearchUrl(resourceType, params), resourceType, options);
+  }
+
+  /**
+   * Fetch a Bundle and every page after it
+   *
+   * @param label - Reported as `resourceType` in page progress
+   */
+  private async *fetchPages<T extends FHIRResource>(
+    firstUrl: string,
+    label: string,
+    options?: FHIRSearchOptions
+  ): AsyncGenerator<FHIRSearchPage<T>> {
+    const maxRecords = options?.maxRecords;
+    const visited = new Set<string>();
+
+    let url: string | undefined = firstUrl;
+    let pageNumber = 0;
+    let recordsFetched = 0;
+
+    while (url) {
+      visited.add(url);
+
+      const response = await this.client.get<Bundle<T>>(url);
+      const bundle: Bundle<T> = response.data;
+
+      const extracted = this.extractBundleResources<T>(bundle);
+      let resources = extracted.resources;
+      if (maxRecords !== undefined && recordsFetched + resources.length > maxRecords) {
+        resources = resources.slice(0, Math.max(maxRecords - recordsFetched, 0));
+      }
+
+      pageNumber += 1;
+      recordsFetched += resources.length;
+
+      const nextUrl: string | undefined = bundle.link?.find(link => link.relation === 'next')?.url;
+      const capReached = maxRecords !== undefined && recordsFetched >= maxRecords;
+
+      url = undefined;
+      if (nextUrl && !capReached) {
+        if (visited.has(nextUrl)) {
+          Logger.warn('Bundle next link repeats a previous page, stopping', { label });
+        } else if (!this.isSameServer(nextUrl)) {
+          Logger.warn('Bundle next link points to another server, stopping', { label });
+        } else {
+          url = nextUrl;
+        }
+      }
+
+      const dateHeader = Date.parse(String(response.headers?.date ?? ''));
+      const progress: FHIRSearchProgress = {
+        resourceType: label,
+        pageNumber,
+        recordsFetched,
+        total: bundle.total,
+        hasMore: url !== undefined,
+        serverTime:
+          bundle.meta?.lastUpdated ??
+          (isNaN(dateHeader) ? undefined : new Date(dateHeader).toISOString()),
+      };
+
+      options?.onPage?.(progress);
+
+      yield { resources, included: extracted.included, deleted: extracted.deleted, progress };
+    }
+  }
+
+  /**
+   * Generic search operation
+   *
+   * Follows every `next` link until the result set (or `maxRecords`) is exhausted.
+   * Contained references and resources bundled via _include/_revinclude are
+   * resolved onto each result; use `resolveReferences` to read the rest.
+   */
+  async search<T extends FHIRResource>(
+    resourceType: string,
+    params?: FHIRSearchQuery,
+    options?: FHIRSearchOptions
+  ): Promise<FHIRResourceWithReferences<T>[]> {
+    return this.collectPages(this.searchPages<T>(resourceType, params, options));
+  }
+
+  /**
+   * Collect all pages, resolving contained and bundled references
+   */
+  private async collectPages<T extends FHIRResource>(
+    pages: AsyncGenerator<FHIRSearchPage<T>>
+  ): Promise<FHIRResourceWithReferences<T>[]> {
+    const resources: FHIRResourceWithSource<T>[] = [];
+    const included: BundledResource[] = [];
+
+    for await (const page of pages) {
+      resources.push(...page.resources);
+      included.push(...page.included);
+    }
+
+    return attachReferences(resources, included);
+  }
+
+  /**
+   * Get the resources of a type deleted since a point in time, via `_history`
+   *
+   * Only use when the CapabilityStatement advertises `history-type`.
+   *
+   * @returns Ids of the deleted resources
+   */
+  async getDeletedSince(
+    resourceType: string,
+    since: string,
+    options?: FHIRSearchOptions
+  ): Promise<string[]> {
+    const query = this.buildQueryString({ _since: since });
+    const deleted = new Set<string>();
+
+    for await (const page of this.fetchPages(
+      `/${resourceType}/_history?${query}`,
+      `${resourceType}/_history`,
+      options
+    )) {
+      page.deleted
+        .filter(reference => reference.startsWith(`${resourceType}/`))
+        .forEach(reference => deleted.add(reference.slice(resourceType.length + 1)));
+    }
+
+    return Array.from(deleted);
+  }
+
+  /**
+   * Resolve references that were not contained or bundled,
+   * reading them from this provider in batched requests
+   */
+  async resolveReferences<T extends FHIRResource>(
+    items: FHIRResourceWithSource<T>[]
+  ): Promise<FHIRResourceWithReferences<T>[]> {
+    return new ReferenceResolver(this).resolve(items);
   }
 
   /**
@@ -197,27 +646,228 @@ export class FHIRClient {
     return this.wrapWithSource(response.data);
   }
 
+  /**
+   * Download raw Binary content
+   *
+   * Accepts a Binary id, a relative "Binary/id" reference or an absolute
+   * URL on this provider's server. Other hosts are refused so the bearer
+   * token is never sent elsewhere.
+   */
+  async readBinary(url: string, contentType?: string): Promise<FHIRBinaryContent> {
+    let path = url;
+    if (!/^https?:\/\//i.test(url)) {
+      path = url.includes('/') ? `/${url.replace(/^\//, '')}` : `/Binary/${url}`;
+    }
+    if (!this.isSameServer(path)) {
+      throw new Error(`Attachment is not hosted on ${this.provider.name}'s FHIR server`);
+    }
+
+    const response = await this.client.get<ArrayBuffer>(path, {
+      responseType: 'arraybuffer',
+      headers: { Accept: contentType || '*/*' },
+    });
+    const bytes = Buffer.from(response.data);
+    const responseType = String(response.headers?.['content-type'] || contentType || '');
+
+    // Servers may ignore Accept and return the Binary resource as JSON
+    if (responseType.includes('application/fhir+json')) {
+      const binary = JSON.parse(bytes.toString('utf-8')) as Binary;
+      return { contentType: binary.contentType, data: binary.data || '' };
+    }
+
+    return {
+      contentType: responseType || 'application/octet-stream',
+      data: bytes.toString('base64'),
+    };
+  }
+
+  /**
+   * Build a weak ETag for a version id
+   */
+  private toETag(versionId: string): string {
+    return versionId.startsWith('W/') ? versionId : `W/"${versionId}"`;
+  }
+
   /**
    * Create a new resource
+   *
+   * With `ifNoneExist`, the server returns the existing match instead of
+   * creating a duplicate.
    */
   async create<T extends FHIRResource>(
     resourceType: string,
-    resource: T
+    resource: T,
+    options?: FHIRCreateOptions
   ): Promise<FHIRResourceWithSource<T>> {
-    const response = await this.client.post<T>(`/${resourceType}`, resource);
+    const headers: Record<string, string> = {};
+    if (options?.ifNoneExist) {
+      headers['If-None-Exist'] = this.buildQueryString(options.ifNoneExist);
+    }
+
+    const response = await this.client.post<T>(`/${resourceType}`, resource, { headers });
     return this.wrapWithSource(response.data);
   }
 
   /**
    * Update an existing resource
+   *
+   * Sends `If-Match` with the resource's version so a concurrent change on the
+   * server is rejected instead of silently overwritten.
+   *
+   * @throws FHIRVersionConflictError if the server version no longer matches
    */
   async update<T extends FHIRResource>(
     resourceType: string,
     id: string,
+    resource: T,
+    options?: FHIRUpdateOptions
+  ): Promise<FHIRResourceWithSource<T>> {
+    const versionId = options?.ifMatch ?? resource.meta?.versionId;
+    const headers: Record<string, string> = {};
+    if (versionId) {
+      headers['If-Match'] = this.toETag(versionId);
+    }
+
+    try {
+      const response = await this.client.put<T>(`/${resourceType}/${id}`, resource, { headers });
+      return this.wrapWithSource(response.data);
+    } catch (error) {
+      if (versionId && getHttpStatus(error) === 412) {
+        throw new FHIRVersionConflictError(resource, id, getOperationOutcome(error));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Conditional update: update the single resource matching the criteria,
+   * or create it if there is no match
+   */
+  async conditionalUpdate<T extends FHIRResource>(
+    resourceType: string,
+    criteria: FHIRSearchQuery,
     resource: T
   ): Promise<FHIRResourceWithSource<T>> {
-    const response = await this.client.put<T>(`/${resourceType}/${id}`, resource);
-    return this.wrapWithSource(response.data);
+    try {
+      const response = await this.client.put<T>(
+        this.buildSearchUrl(resourceType, criteria),
+        resource
+      );
+      return this.wrapWithSource(response.data);
+    } catch (error) {
+      if (getHttpStatus(error) === 412) {
+        throw new Error(`Conditional update of ${resourceType} matched multiple resources`);
+      }
+      throw error;
+    }
+  }
+
+  // ==========================================================================
+  // BATCH / TRANSACTION OPERATIONS
+  // ==========================================================================
+
+  /**
+   * Submit a batch or transaction Bundle (see BundleBuilder)
+   *
+   * A transaction rejected as a whole (4xx/5xx with an OperationOutcome) is
+   * returned as a failed result with its issues mapped back onto the entries
+   * named in `Bundle.entry[n]` expressions, rather than thrown.
+   */
+  async transaction(bundle: Bundle | BundleBuilder): Promise<FHIRTransactionResult> {
+    const request = bundle instanceof BundleBuilder ? bundle.build() : bundle;
+
+    if (request.type !== 'batch' && request.type !== 'transaction') {
+      throw new Error(`Cannot submit a ${request.type} Bundle`);
+    }
+
+    try {
+      const response = await this.client.post<Bundle>('/', request);
+      return this.parseTransactionResponse(request, response.data);
+    } catch (error) {
+      const outcome = getOperationOutcome(error);
+      if (!outcome) {
+        throw error;
+      }
+
+      const status = getHttpStatus(error) ?? 0;
+      Logger.warn('FHIR transaction rejected', {
+        type: request.type,
+        status,
+        issues: outcome.issue?.length ?? 0,
+      });
+
+      return this.parseTransactionFailure(request, status, outcome);
+    }
+  }
+
+  /**
+   * Map a batch-response/transaction-response Bundle to per-entry results
+   */
+  private parseTransactionResponse(request: Bundle, response: Bundle): FHIRTransactionResult {
+    const entries = (request.entry ?? []).map((entry, index): FHIRBundleEntryResult => {
+      const responseEntry = response.entry?.[index];
+      const status = parseInt(responseEntry?.response?.status ?? '', 10) || 0;
+      const outcome = responseEntry?.response?.outcome as OperationOutcome | undefined;
+
+      return {
+        index,
+        request: entry.request,
+        status,
+        ok: status >= 200 && status < 300,
+        location: responseEntry?.response?.location,
+        etag: responseEntry?.response?.etag,
+        resource: responseEntry?.resource,
+        issues: outcome?.issue ?? [],
+      };
+    });
+
+    return {
+      type: request.type === 'batch' ? 'batch' : 'transaction',
+      ok: entries.every(entry => entry.ok),
+      entries,
+      issues: [],
+    };
+  }
+
+  /**
+   * Map a whole-Bundle OperationOutcome to the entries it names
+   */
+  private parseTransactionFailure(
+    request: Bundle,
+    status: number,
+    outcome: OperationOutcome
+  ): FHIRTransactionResult {
+    const entryIssues = new Map<number, OperationOutcomeIssue[]>();
+    const bundleIssues: OperationOutcomeIssue[] = [];
+
+    (outcome.issue ?? []).forEach(issue => {
+      const paths = [...(issue.expression ?? []), ...(issue.location ?? [])];
+      const match = paths.map(path => path.match(/Bundle\.entry\[(\d+)\]/)).find(Boolean);
+
+      if (match) {
+        const index = parseInt(match[1], 10);
+        entryIssues.set(index, [...(entryIssues.get(index) ?? []), issue]);
+      } else {
+        bundleIssues.push(issue);
+      }
+    });
+
+    const entries = (request.entry ?? []).map(
+      (entry, index): FHIRBundleEntryResult => ({
+        index,
+        request: entry.request,
+        status,
+        ok: false,
+        issues: entryIssues.get(index) ?? [],
+      })
+    );
+
+    return {
+      type: request.type === 'batch' ? 'batch' : 'transaction',
+      ok: false,
+      entries,
+      issues: bundleIssues,
+    };
   }
 
   // ==========================================================================
@@ -231,6 +881,33 @@ export class FHIRClient {
     return this.read<Patient>('Patient', patientId);
   }
 
+  /**
+   * Fetch the patient's whole chart with Patient/$everything
+   *
+   * Only use when the CapabilityStatement advertises the operation.
+   *
+   * @param params._since - Only resources updated after this instant
+   * @param params._type - Only these resource types
+   */
+  async getPatientEverything(
+    patientId: string,
+    params?: {
+      _since?: string;
+      _type?: string[];
+      _count?: number;
+    },
+    options?: FHIRSearchOptions
+  ): Promise<FHIRResourceWithReferences<FHIRResource>[]> {
+    const query = this.buildQueryString({
+      _since: params?._since,
+      _type: params?._type?.join(','),
+      _count: params?._count,
+    });
+    const url = `/Patient/${patientId}/$everything${query ? `?${query}` : ''}`;
+
+    return this.collectPages(this.fetchPages(url, 'Patient/$everything', options));
+  }
+
   /**
    * Search patients
    */
@@ -238,7 +915,7 @@ export class FHIRClient {
     name?: string;
     identifier?: string;
     birthdate?: string;
-  }): Promise<FHIRResourceWithSource<Patient>[]> {
+  }): Promise<FHIRResourceWithReferences<Patient>[]> {
     return this.search<Patient>('Patient', params);
   }
 
@@ -257,32 +934,42 @@ export class FHIRClient {
       date?: string;
       _sort?: string;
       _count?: number;
-    }
-  ): Promise<FHIRResourceWithSource<Observation>[]> {
-    return this.search<Observation>('Observation', {
-      patient: patientId,
-      ...params,
-      _sort: params?._sort ?? '-date',
-      _count: params?._count ?? 100,
-    });
+      _include?: string | string[];
+      _revinclude?: string | string[];
+      _lastUpdated?: string;
+    },
+    options?: FHIRSearchOptions
+  ): Promise<FHIRResourceWithReferences<Observation>[]> {
+    return this.search<Observation>(
+      'Observation',
+      {
+        patient: patientId,
+        ...params,
+        _sort: params?._sort ?? '-date',
+        _count: params?._count ?? 100,
+      },
+      options
+    );
   }
 
   /**
    * Get vital signs for a patient
    */
-  async getVitalSigns(patientId: string): Promise<FHIRResourceWithSource<Observation>[]> {
-    return this.getObservations(patientId, {
-      category: 'vital-signs',
-    });
+  async getVitalSigns(
+    patientId: string,
+    options?: FHIRSearchOptions
+  ): Promise<FHIRResourceWithReferences<Observation>[]> {
+    return this.getObservations(patientId, { category: 'vital-signs' }, options);
   }
 
   /**
    * Get lab results for a patient
    */
-  async getLabResults(patientId: string): Promise<FHIRResourceWithSource<Observation>[]> {
-    return this.getObservations(patientId, {
-      category: 'laboratory',
-    });
+  async getLabResults(
+    patientId: string,
+    options?: FHIRSearchOptions
+  ): Promise<FHIRResourceWithReferences<Observation>[]> {
+    return this.getObservations(patientId, { category: 'laboratory' }, options);
   }
 
   // ==========================================================================
@@ -301,14 +988,22 @@ export class FHIRClient {
       status?: string;
       _sort?: string;
       _count?: number;
-    }
-  ): Promise<FHIRResourceWithSource<DiagnosticReport>[]> {
-    return this.search<DiagnosticReport>('DiagnosticReport', {
-      patient: patientId,
-      ...params,
-      _sort: params?._sort ?? '-date',
-      _count: params?._count ?? 50,
-    });
+      _include?: string | string[];
+      _revinclude?: string | string[];
+      _lastUpdated?: string;
+    },
+    options?: FHIRSearchOptions
+  ): Promise<FHIRResourceWithReferences<DiagnosticReport>[]> {
+    return this.search<DiagnosticReport>(
+      'DiagnosticReport',
+      {
+        patient: patientId,
+        ...params,
+        _sort: params?._sort ?? '-date',
+        _count: params?._count ?? 50,
+      },
+      options
+    );
   }
 
   // ==========================================================================
@@ -327,14 +1022,22 @@ export class FHIRClient {
       type?: string;
       _sort?: string;
       _count?: number;
-    }
-  ): Promise<FHIRResourceWithSource<Encounter>[]> {
-    return this.search<Encounter>('Encounter', {
-      patient: patientId,
-      ...params,
-      _sort: params?._sort ?? '-date',
-      _count: params?._count ?? 50,
-    });
+      _include?: string | string[];
+      _revinclude?: string | string[];
+      _lastUpdated?: string;
+    },
+    options?: FHIRSearchOptions
+  ): Promise<FHIRResourceWithReferences<Encounter>[]> {
+    return this.search<Encounter>(
+      'Encounter',
+      {
+        patient: patientId,
+        ...params,
+        _sort: params?._sort ?? '-date',
+        _count: params?._count ?? 50,
+      },
+      options
+    );
   }
 
   // ==========================================================================
@@ -352,25 +1055,497 @@ export class FHIRClient {
       authoredon?: string;
       _sort?: string;
       _count?: number;
-    }
-  ): Promise<FHIRResourceWithSource<MedicationRequest>[]> {
-    return this.search<MedicationRequest>('MedicationRequest', {
-      patient: patientId,
-      ...params,
-      _sort: params?._sort ?? '-authoredon',
-      _count: params?._count ?? 100,
-    });
+      _include?: string | string[];
+      _revinclude?: string | string[];
+      _lastUpdated?: string;
+    },
+    options?: FHIRSearchOptions
+  ): Promise<FHIRResourceWithReferences<MedicationRequest>[]> {
+    return this.search<MedicationRequest>(
+      'MedicationRequest',
+      {
+        patient: patientId,
+        ...params,
+        _sort: params?._sort ?? '-authoredon',
+        _count: params?._count ?? 100,
+      },
+      options
+    );
   }
 
   /**
    * Get active medications for a patient
    */
   async getActiveMedications(
-    patientId: string
-  ): Promise<FHIRResourceWithSource<MedicationRequest>[]> {
-    return this.getMedicationRequests(patientId, {
-      status: 'active',
-    });
+    patientId: string,
+    options?: FHIRSearchOptions
+  ): Promise<FHIRResourceWithReferences<MedicationRequest>[]> {
+    return this.getMedicationRequests(patientId, { status: 'active' }, options);
+  }
+
+  // ==========================================================================
+  // CONDITION OPERATIONS
+  // ==========================================================================
+
+  /**
+   * Get conditions (problem list, diagnoses, health concerns) for a patient
+   */
+  async getConditions(
+    patientId: string,
+    params?: {
+      category?: string;
+      'clinical-status'?: string;
+      'verification-status'?: string;
+      code?: string;
+      'onset-date'?: string;
+      _sort?: string;
+      _count?: number;
+      _include?: string | string[];
+      _revinclude?: string | string[];
+      _lastUpdated?: string;
+    },
+    options?: FHIRSearchOptions
+  ): Promise<FHIRResourceWithReferences<Condition>[]> {
+    return this.search<Condition>(
+      'Condition',
+      {
+        patient: patientId,
+        ...params,
+        _sort: params?._sort ?? '-recorded-date',
+        _count: params?._count ?? 100,
+      },
+      options
+    );
+  }
+
+  /**
+   * Get the patient's problem list
+   */
+  async getProblemList(
+    patientId: string,
+    options?: FHIRSearchOptions
+  ): Promise<FHIRResourceWithReferences<Condition>[]> {
+    return this.getConditions(patientId, { category: 'problem-list-item' }, options);
+  }
+
+  // ==========================================================================
+  // ALLERGY OPERATIONS
+  // ==========================================================================
+
+  /**
+   * Get allergies and intolerances for a patient
+   */
+  async getAllergyIntolerances(
+    patientId: string,
+    params?: {
+      'clinical-status'?: string;
+      'verification-status'?: string;
+      category?: string;
+      criticality?: string;
+      code?: string;
+      _sort?: string;
+      _count?: number;
+      _lastUpdated?: string;
+    },
+    options?: FHIRSearchOptions
+  ): Promise<FHIRResourceWithReferences<AllergyIntolerance>[]> {
+    return this.search<AllergyIntolerance>(
+      'AllergyIntolerance',
+      {
+        patient: patientId,
+        ...params,
+        _count: params?._count ?? 100,
+      },
+      options
+    );
+  }
+
+  // ==========================================================================
+  // IMMUNIZATION OPERATIONS
+  // ==========================================================================
+
+  /**
+   * Get immunization history for a patient
+   */
+  async getImmunizations(
+    patientId: string,
+    params?: {
+      status?: string;
+      'vaccine-code'?: string;
+      date?: string | string[];
+      _sort?: string;
+      _count?: number;
+      _lastUpdated?: string;
+    },
+    options?: FHIRSearchOptions
+  ): Promise<FHIRResourceWithReferences<Immunization>[]> {
+    return this.search<Immunization>(
+      'Immunization',
+      {
+        patient: patientId,
+        ...params,
+        _sort: params?._sort ?? '-date',
+        _count: params?._count ?? 100,
+      },
+      options
+    );
+  }
+
+  /**
+   * Get immunization forecasts for a patient, newest first
+   */
+  async getImmunizationRecommendations(
+    patientId: string,
+    params?: {
+      status?: string;
+      'vaccine-type'?: string;
+      _sort?: string;
+      _count?: number;
+    },
+    options?: FHIRSearchOptions
+  ): Promise<FHIRResourceWithReferences<ImmunizationRecommendation>[]> {
+    return this.search<ImmunizationRecommendation>(
+      'ImmunizationRecommendation',
+      {
+        patient: patientId,
+        ...params,
+        _sort: params?._sort ?? '-date',
+        _count: params?._count ?? 10,
+      },
+      options
+    );
+  }
+
+  // ==========================================================================
+  // PROCEDURE OPERATIONS
+  // ==========================================================================
+
+  /**
+   * Get procedures for a patient
+   */
+  async getProcedures(
+    patientId: string,
+    params?: {
+      status?: string;
+      code?: string;
+      category?: string;
+      encounter?: string;
+      date?: string | string[];
+      _sort?: string;
+      _count?: number;
+      _lastUpdated?: string;
+    },
+    options?: FHIRSearchOptions
+  ): Promise<FHIRResourceWithReferences<Procedure>[]> {
+    return this.search<Procedure>(
+      'Procedure',
+      {
+        patient: patientId,
+        ...params,
+        _sort: params?._sort ?? '-date',
+        _count: params?._count ?? 100,
+      },
+      options
+    );
+  }
+
+  /**
+   * Get the procedures performed during an encounter
+   */
+  async getEncounterProcedures(
+    encounterId: string,
+    options?: FHIRSearchOptions
+  ): Promise<FHIRResourceWithReferences<Procedure>[]> {
+    return this.search<Procedure>(
+      'Procedure',
+      { encounter: `Encounter/${encounterId}`, _sort: '-date' },
+      options
+    );
+  }
+
+  // ==========================================================================
+  // APPOINTMENT OPERATIONS
+  // ==========================================================================
+
+  /**
+   * Get appointments for a patient
+   */
+  async getAppointments(
+    patientId: string,
+    params?: {
+      status?: string;
+      date?: string | string[];
+      _sort?: string;
+      _count?: number;
+      _lastUpdated?: string;
+    },
+    options?: FHIRSearchOptions
+  ): Promise<FHIRResourceWithReferences<Appointment>[]> {
+    return this.search<Appointment>(
+      'Appointment',
+      {
+        patient: patientId,
+        ...params,
+        _sort: params?._sort ?? 'date',
+        _count: params?._count ?? 100,
+      },
+      options
+    );
+  }
+
+  /**
+   * Get bookable schedules (practitioners, locations or services)
+   */
+  async getSchedules(params?: {
+    actor?: string;
+    'service-type'?: string;
+    specialty?: string;
+  }): Promise<FHIRResourceWithReferences<Schedule>[]> {
+    return this.search<Schedule>('Schedule', { active: true, ...params });
+  }
+
+  /**
+   * Get free slots on a schedule between two instants
+   */
+  async getAvailableSlots(
+    scheduleId: string,
+    start: string,
+    end: string,
+    options?: FHIRSearchOptions
+  ): Promise<FHIRResourceWithReferences<Slot>[]> {
+    return this.search<Slot>(
+      'Slot',
+      {
+        schedule: `Schedule/${scheduleId}`,
+        status: 'free',
+        start: [`ge${start}`, `le${end}`],
+        _sort: 'start',
+      },
+      options
+    );
+  }
+
+  // ==========================================================================
+  // CARE PLAN OPERATIONS
+  // ==========================================================================
+
+  /**
+   * Get care plans for a patient
+   */
+  async getCarePlans(
+    patientId: string,
+    params?: {
+      status?: string;
+      category?: string;
+      _sort?: string;
+      _count?: number;
+      _lastUpdated?: string;
+    },
+    options?: FHIRSearchOptions
+  ): Promise<FHIRResourceWithReferences<CarePlan>[]> {
+    return this.search<CarePlan>(
+      'CarePlan',
+      {
+        patient: patientId,
+        ...params,
+        _sort: params?._sort ?? '-date',
+        _count: params?._count ?? 100,
+      },
+      options
+    );
+  }
+
+  /**
+   * Get goals for a patient
+   */
+  async getGoals(
+    patientId: string,
+    params?: {
+      'lifecycle-status'?: string;
+      category?: string;
+      _count?: number;
+      _lastUpdated?: string;
+    },
+    options?: FHIRSearchOptions
+  ): Promise<FHIRResourceWithReferences<Goal>[]> {
+    return this.search<Goal>(
+      'Goal',
+      {
+        patient: patientId,
+        ...params,
+        _count: params?._count ?? 100,
+      },
+      options
+    );
+  }
+
+  /**
+   * Get care teams for a patient
+   */
+  async getCareTeams(
+    patientId: string,
+    params?: {
+      status?: string;
+      category?: string;
+      _lastUpdated?: string;
+    },
+    options?: FHIRSearchOptions
+  ): Promise<FHIRResourceWithReferences<CareTeam>[]> {
+    return this.search<CareTeam>('CareTeam', { patient: patientId, ...params }, options);
+  }
+
+  // ==========================================================================
+  // INSURANCE OPERATIONS
+  // ==========================================================================
+
+  /**
+   * Get insurance coverage for a patient
+   */
+  async getCoverage(
+    patientId: string,
+    params?: {
+      status?: string;
+      _lastUpdated?: string;
+    },
+    options?: FHIRSearchOptions
+  ): Promise<FHIRResourceWithReferences<Coverage>[]> {
+    return this.search<Coverage>('Coverage', { patient: patientId, ...params }, options);
+  }
+
+  /**
+   * Get claims (Explanation of Benefit) for a patient
+   *
+   * CARIN payers are not required to support `_sort`; callers should sort
+   * by date of service themselves.
+   */
+  async getExplanationOfBenefits(
+    patientId: string,
+    params?: {
+      type?: string;
+      'service-date'?: string | string[];
+      _count?: number;
+      _lastUpdated?: string;
+    },
+    options?: FHIRSearchOptions
+  ): Promise<FHIRResourceWithReferences<ExplanationOfBenefit>[]> {
+    return this.search<ExplanationOfBenefit>(
+      'ExplanationOfBenefit',
+      {
+        patient: patientId,
+        ...params,
+        _count: params?._count ?? 50,
+      },
+      options
+    );
+  }
+
+  // ==========================================================================
+  // DOCUMENT OPERATIONS
+  // ==========================================================================
+
+  /**
+   * Get clinical notes and documents for a patient
+   */
+  async getDocumentReferences(
+    patientId: string,
+    params?: {
+      category?: string;
+      type?: string;
+      date?: string | string[];
+      status?: string;
+      _sort?: string;
+      _count?: number;
+      _lastUpdated?: string;
+    },
+    options?: FHIRSearchOptions
+  ): Promise<FHIRResourceWithReferences<DocumentReference>[]> {
+    return this.search<DocumentReference>(
+      'DocumentReference',
+      {
+        patient: patientId,
+        ...params,
+        _sort: params?._sort || '-date',
+        _count: params?._count ?? 50,
+      },
+      options
+    );
+  }
+
+  /**
+   * Get the content of an attachment, downloading it if it is not inline
+   */
+  async getAttachmentContent(attachment: Attachment): Promise<FHIRBinaryContent> {
+    if (attachment.data) {
+      return {
+        contentType: attachment.contentType || 'application/octet-stream',
+        data: attachment.data,
+      };
+    }
+    if (!attachment.url) {
+      throw new Error('Attachment has no content');
+    }
+    return this.readBinary(attachment.url, attachment.contentType);
+  }
+
+  // ==========================================================================
+  // DIRECTORY OPERATIONS
+  // ==========================================================================
+
+  /**
+   * Resolve Practitioner, PractitionerRole, Organization and Location
+   * references, reading only those missing from the directory cache.
+   *
+   * The practitioner, organization and location of a PractitionerRole are
+   * resolved too. Results are keyed by the reference as given and by
+   * "Type/id"; references that cannot be read are left out.
+   */
+  async resolveDirectoryReferences(references: string[]): Promise<ResolvedReferences> {
+    const resolver = new ReferenceResolver(this);
+    const resolved: ResolvedReferences = {};
+
+    const toKey = (reference: string): string | undefined => {
+      const parsed = parseReference(reference, this.provider.fhirServerUrl);
+      return parsed && DirectoryHelpers.getReferenceType(reference)
+        ? `${parsed.resourceType}/${parsed.id}`
+        : undefined;
+    };
+
+    let pending = references;
+    for (let pass = 0; pass < 2 && pending.length > 0; pass++) {
+      const missing = new Map<string, Set<string>>();
+      pending.forEach(reference => {
+        const key = toKey(reference);
+        if (key && !this.directoryCache.get(key)) {
+          const [resourceType, id] = key.split('/');
+          missing.set(resourceType, (missing.get(resourceType) ?? new Set()).add(id));
+        }
+      });
+
+      for (const [resourceType, ids] of missing) {
+        const resources = await resolver.readByIds(resourceType, Array.from(ids));
+        resources.forEach(resource => this.directoryCache.set(resource as DirectoryResource));
+      }
+
+      const next: string[] = [];
+      pending.forEach(reference => {
+        const key = toKey(reference);
+        const resource = key ? this.directoryCache.get(key) : undefined;
+        if (!key || !resource) {
+          return;
+        }
+        resolved[reference] = resource;
+        resolved[key] = resource;
+
+        if (resource.resourceType === 'PractitionerRole') {
+          [resource.practitioner, resource.organization, ...(resource.location || [])].forEach(
+            related => related?.reference && next.push(related.reference)
+          );
+        }
+      });
+      pending = next.filter(reference => !resolved[reference]);
+    }
+
+    return resolved;
   }
 
   // ==========================================================================
@@ -386,7 +1561,7 @@ export class FHIRClient {
       status?: string;
       category?: string;
     }
-  ): Promise<FHIRResourceWithSource<Consent>[]> {
+  ): Promise<FHIRResourceWithReferences<Consent>[]> {
     return this.search<Consent>('Consent', {
       patient: patientId,
       ...params,
@@ -402,6 +1577,8 @@ export class FHIRClient {
 
   /**
    * Update consent status
+   *
+   * @throws FHIRVersionConflictError if the consent changed since it was read
    */
   async updateConsentStatus(
     consentId: string,
@@ -419,6 +1596,22 @@ export class FHIRClient {
     return this.update<Consent>('Consent', consentId, updated);
   }
 
+  /**
+   * Update the status of several consents atomically
+   */
+  async updateConsentStatuses(
+    updates: Array<{ consentId: string; status: Consent['status'] }>
+  ): Promise<FHIRTransactionResult> {
+    const builder = new BundleBuilder('transaction');
+
+    for (const { consentId, status } of updates) {
+      const current = await this.read<Consent>('Consent', consentId);
+      builder.update({ ...current.resource, status });
+    }
+
+    return this.transaction(builder);
+  }
+
   // ==========================================================================
   // CAPABILITY STATEMENT
   // ==========================================================================
@@ -426,10 +1619,23 @@ export class FHIRClient {
   /**
    * Get server capability statement (metadata)
    */
-  async getCapabilityStatement(): Promise<FHIRResource> {
-    const response = await this.client.get('/metadata');
+  async getCapabilityStatement(): Promise<CapabilityStatement> {
+    const response = await this.client.get<CapabilityStatement>('/metadata');
     return response.data;
   }
+
+  /**
+   * Read and summarize what the server supports
+   */
+  async getServerCapabilities(): Promise<ServerCapabilities> {
+    const statement = await this.getCapabilityStatement();
+
+    if (statement?.resourceType !== 'CapabilityStatement') {
+      throw new Error('Server did not return a CapabilityStatement');
+    }
+
+    return CapabilityHelpers.parse(statement);
+  }
 }
 
 /**
@@ -439,6 +1645,22 @@ export class FHIRClient {
  */
 export class FHIRClientManager {
   private clients: Map<string, FHIRClient> = new Map();
+  private directoryCaches: Map<string, DirectoryCache> = new Map();
+  private refreshOptions: FHIRTokenRefreshOptions;
+
+  constructor(refreshOptions: FHIRTokenRefreshOptions = {}) {
+    this.refreshOptions = refreshOptions;
+  }
+
+  /**
+   * Set how clients refresh expiring tokens
+   *
+   * Existing clients are dropped so every client picks up the new settings.
+   */
+  configureTokenRefresh(refreshOptions: FHIRTokenRefreshOptions): void {
+    this.refreshOptions = refreshOptions;
+    this.clients.clear();
+  }
 
   /**
    * Get or create a FHIR client for a provider
@@ -450,29 +1672,49 @@ export class FHIRClientManager {
       client = new FHIRClient({
         baseUrl: provider.fhirServerUrl,
         accessToken: tokens.accessToken,
+        tokenExpiresAt: tokens.expiresAt,
         provider,
+        directoryCache: this.getDirectoryCache(provider.id),
+        ...this.refreshOptions,
       });
       this.clients.set(provider.id, client);
     } else {
       // Update token in case it changed
-      client.setAccessToken(tokens.accessToken);
+      client.setAccessToken(tokens.accessToken, tokens.expiresAt);
     }
 
     return client;
   }
 
   /**
-   * Remove a client (e.g., on disconnect)
+   * Get the directory cache for a provider
+   *
+   * Kept outside the client so cached directory resources survive clients
+   * being recreated (e.g. when token refresh settings change).
+   */
+  private getDirectoryCache(providerId: string): DirectoryCache {
+    let cache = this.directoryCaches.get(providerId);
+    if (!cache) {
+      cache = new DirectoryCache();
+      this.directoryCaches.set(providerId, cache);
+    }
+    return cache;
+  }
+
+  /**
+   * Remove a client and its directory cache (e.g., on disconnect)
    */
   removeClient(providerId: string): void {
     this.clients.delete(providerId);
+    this.directoryCaches.delete(providerId);
   }
 
   /**
-   * Clear all clients
+   * Clear all clients and directory caches
    */
   clearAll(): void {
     this.clients.clear();
+    this.directoryCaches.clear();
   }
 
   /**
@@ -0,0 +1,166 @@
+/**
+ * FHIR Client Repository
+ *
+ * Concrete FHIRRepository backed by FHIRClientManager. Every read goes
+ * through the provider's FHIRClient, so all callers (use cases, query
+ * hooks, sync) share the same validation, token handling and
+ * SourceMetadata on returned resources.
+ */
+
+import { Patient } from '../../domain/entities/Patient';
+import { Observation } from '../../domain/entities/Observation';
+import { DiagnosticReport } from '../../domain/entities/DiagnosticReport';
+import { Encounter } from '../../domain/entities/Encounter';
+import { MedicationRequest } from '../../domain/entities/MedicationRequest';
+import {
+  FHIRResource,
+  FHIRResourceWithReferences,
+  FHIRResourceWithSource,
+} from '../../domain/entities/FHIRTypes';
+import { Provider, ProviderTokens } from '../../domain/entities/Provider';
+import { FHIRRepository } from '../../domain/usecases/FetchPatientRecords';
+import { secureStorage } from '../../infrastructure/storage/SecureStorage';
+import {
+  FHIRClient,
+  FHIRClientManager,
+  fhirClientManager,
+  FHIRSearchOptions,
+  FHIRSearchQuery,
+} from './FHIRClient';
+
+/**
+ * How the repository finds providers and their tokens
+ */
+export interface FHIRClientRepositoryConfig {
+  /** Look up a connected provider (e.g. from the Redux store) */
+  getProvider: (providerId: string) => Provider | null | undefined | Promise<Provider | null>;
+
+  /** Load a provider's tokens (default: secure storage) */
+  getTokens?: (providerId: string) => Promise<ProviderTokens | null>;
+
+  /** Client cache to use (default: the shared fhirClientManager) */
+  clientManager?: FHIRClientManager;
+}
+
+export class FHIRClientRepository implements FHIRRepository {
+  private readonly getProviderById: FHIRClientRepositoryConfig['getProvider'];
+  private readonly getTokens: (providerId: string) => Promise<ProviderTokens | null>;
+  private readonly clientManager: FHIRClientManager;
+
+  constructor(config: FHIRClientRepositoryConfig) {
+    this.getProviderById = config.getProvider;
+    this.getTokens =
+      config.getTokens ?? (providerId => secureStorage.getProviderTokens(providerId));
+    this.clientManager = config.clientManager ?? fhirClientManager;
+  }
+
+  /**
+   * Get the FHIRClient for a provider, with its current tokens
+   */
+  async getClient(providerId: string): Promise<FHIRClient> {
+    const provider = await this.getProviderById(providerId);
+    if (!provider) {
+      throw new Error(`Provider not found: ${providerId}`);
+    }
+
+    const tokens = await this.getTokens(providerId);
+    if (!tokens) {
+      throw new Error(`Provider is not authorized: ${provider.name}`);
+    }
+
+    return this.clientManager.getClient(provider, tokens);
+  }
+
+  // ==========================================================================
+  // GENERIC OPERATIONS
+  // ==========================================================================
+
+  /**
+   * Read a single resource by ID
+   */
+  async read<T extends FHIRResource>(
+    resourceType: string,
+    id: string,
+    providerId: string
+  ): Promise<FHIRResourceWithSource<T>> {
+    const client = await this.getClient(providerId);
+    return client.read<T>(resourceType, id);
+  }
+
+  /**
+   * Search a resource type with plain or typed search parameters
+   */
+  async search<T extends FHIRResource>(
+    resourceType: string,
+    query: FHIRSearchQuery,
+    providerId: string,
+    options?: FHIRSearchOptions
+  ): Promise<FHIRResourceWithReferences<T>[]> {
+    const client = await this.getClient(providerId);
+    return client.search<T>(resourceType, query, options);
+  }
+
+  // ==========================================================================
+  // FHIRRepository
+  // ==========================================================================
+
+  async getPatient(
+    patientId: string,
+    providerId: string
+  ): Promise<FHIRResourceWithSource<Patient>> {
+    const client = await this.getClient(providerId);
+    return client.getPatient(patientId);
+  }
+
+  async searchPatients(
+    query: string,
+    providerId: string
+  ): Promise<FHIRResourceWithSource<Patient>[]> {
+    const client = await this.getClient(providerId);
+    return client.searchPatients({ name: query });
+  }
+
+  async getObservations(
+    patientId: string,
+    providerId: string,
+    category?: string
+  ): Promise<FHIRResourceWithSource<Observation>[]> {
+    const client = await this.getClient(providerId);
+    return client.getObservations(patientId, { category });
+  }
+
+  async getDiagnosticReports(
+    patientId: string,
+    providerId: string
+  ): Promise<FHIRResourceWithSource<DiagnosticReport>[]> {
+    const client = await this.getClient(providerId);
+    return client.getDiagnosticReports(patientId);
+  }
+
+  async getEncounters(
+    patientId: string,
+    providerId: string
+  ): Promise<FHIRResourceWithSource<Encounter>[]> {
+    const client = await this.getClient(providerId);
+    return client.getEncounters(patientId);
+  }
+
+  async getMedicationRequests(
+    patientId: string,
+    providerId: string
+  ): Promise<FHIRResourceWithSource<MedicationRequest>[]> {
+    const client = await this.getClient(providerId);
+    return client.getMedicationRequests(patientId);
+  }
+
+  async getPatientEverything(
+    patientId: string,
+    providerId: string,
+    resourceTypes: string[]
+  ): Promise<FHIRResourceWithSource<FHIRResource>[]> {
+    const client = await this.getClient(providerId);
+    return client.getPatientEverything(patientId, { _type: resourceTypes });
+  }
+}
+
+export default FHIRClientRepository;
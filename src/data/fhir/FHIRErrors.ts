@@ -0,0 +1,61 @@
+/**
+ * FHIR Client Errors
+ *
+ * Typed errors raised by FHIRClient for server responses that callers are
+ * expected to handle, rather than surfacing raw HTTP errors.
+ */
+
+import { FHIRResource, OperationOutcome } from '../../domain/entities/FHIRTypes';
+
+/**
+ * Raised when a version-aware update fails with 412 Precondition Failed
+ * because the resource changed on the server since it was read.
+ *
+ * Carries the rejected local copy so the UI can re-fetch the current
+ * version, merge the user's changes and retry.
+ */
+export class FHIRVersionConflictError<T extends FHIRResource = FHIRResource> extends Error {
+  readonly resourceType: string;
+  readonly resourceId: string;
+  /** The versionId the update was based on */
+  readonly expectedVersionId?: string;
+  /** The resource that was rejected */
+  readonly attempted: T;
+  readonly outcome?: OperationOutcome;
+
+  constructor(attempted: T, resourceId: string, outcome?: OperationOutcome) {
+    super(
+      `${attempted.resourceType}/${resourceId} was modified on the server` +
+        (attempted.meta?.versionId ? ` (expected version ${attempted.meta.versionId})` : '')
+    );
+    this.name = 'FHIRVersionConflictError';
+    this.resourceType = attempted.resourceType;
+    this.resourceId = resourceId;
+    this.expectedVersionId = attempted.meta?.versionId;
+    this.attempted = attempted;
+    this.outcome = outcome;
+
+    Object.setPrototypeOf(this, FHIRVersionConflictError.prototype);
+  }
+}
+
+/**
+ * Check whether an error is a version conflict
+ */
+export const isVersionConflict = (error: unknown): error is FHIRVersionConflictError =>
+  error instanceof FHIRVersionConflictError;
+
+/**
+ * Get the HTTP status of a failed request, if any
+ */
+export const getHttpStatus = (error: unknown): number | undefined =>
+  (error as { response?: { status?: number } } | undefined)?.response?.status;
+
+/**
+ * Get the OperationOutcome returned with a failed request, if any
+ */
+export const getOperationOutcome = (error: unknown): OperationOutcome | undefined => {
+  const data = (error as { response?: { data?: { resourceType?: string } } } | undefined)?.response
+    ?.data;
+  return data?.resourceType === 'OperationOutcome' ? (data as OperationOutcome) : undefined;
+};
@@ -0,0 +1,454 @@
+/**
+ * Typed FHIR Search Builder
+ *
+ * Builds FHIR R4 search queries with:
+ * - Resource-specific parameter names
+ * - Prefixes (ge, lt, ...) and date ranges
+ * - Modifiers (:exact, :missing, :not, ...)
+ * - OR lists (comma separated) and repeated keys (AND)
+ * - Token `system|code`, composite `a$b` and chained parameters
+ *
+ * Used by FHIRClient.search and the query hooks.
+ *
+ * @see https://www.hl7.org/fhir/r4/search.html
+ */
+
+import type { FHIRSearchParams } from './FHIRClient';
+
+/**
+ * Search parameters available on every resource
+ */
+export type CommonSearchParam =
+  | '_id'
+  | '_lastUpdated'
+  | '_tag'
+  | '_profile'
+  | '_security'
+  | '_source'
+  | '_text'
+  | '_content'
+  | '_list';
+
+/**
+ * Resource-specific search parameter names
+ */
+export interface ResourceSearchParams {
+  Patient: 'identifier' | 'name' | 'family' | 'given' | 'birthdate' | 'gender' | 'telecom';
+  Observation:
+    | 'patient'
+    | 'subject'
+    | 'encounter'
+    | 'category'
+    | 'code'
+    | 'date'
+    | 'status'
+    | 'value-quantity'
+    | 'value-concept'
+    | 'code-value-quantity'
+    | 'code-value-concept'
+    | 'component-code'
+    | 'component-code-value-quantity'
+    | 'performer';
+  DiagnosticReport:
+    | 'patient'
+    | 'subject'
+    | 'encounter'
+    | 'category'
+    | 'code'
+    | 'date'
+    | 'issued'
+    | 'status'
+    | 'result'
+    | 'performer';
+  Encounter:
+    | 'patient'
+    | 'subject'
+    | 'date'
+    | 'status'
+    | 'class'
+    | 'type'
+    | 'participant'
+    | 'practitioner'
+    | 'location'
+    | 'service-provider';
+  MedicationRequest:
+    | 'patient'
+    | 'subject'
+    | 'encounter'
+    | 'status'
+    | 'intent'
+    | 'authoredon'
+    | 'medication'
+    | 'code'
+    | 'requester';
+  Consent: 'patient' | 'status' | 'category' | 'date' | 'scope' | 'action' | 'actor';
+  Condition:
+    | 'patient'
+    | 'subject'
+    | 'encounter'
+    | 'category'
+    | 'code'
+    | 'clinical-status'
+    | 'verification-status'
+    | 'severity'
+    | 'onset-date'
+    | 'abatement-date'
+    | 'recorded-date';
+  AllergyIntolerance:
+    | 'patient'
+    | 'clinical-status'
+    | 'verification-status'
+    | 'type'
+    | 'category'
+    | 'criticality'
+    | 'code'
+    | 'onset'
+    | 'date'
+    | 'last-date'
+    | 'manifestation'
+    | 'severity';
+  Immunization:
+    | 'patient'
+    | 'status'
+    | 'vaccine-code'
+    | 'date'
+    | 'target-disease'
+    | 'series'
+    | 'location'
+    | 'performer';
+  ImmunizationRecommendation: 'patient' | 'date' | 'status' | 'vaccine-type' | 'target-disease';
+  Procedure:
+    | 'patient'
+    | 'subject'
+    | 'encounter'
+    | 'status'
+    | 'code'
+    | 'category'
+    | 'date'
+    | 'performer'
+    | 'location'
+    | 'reason-code';
+  Appointment:
+    | 'patient'
+    | 'actor'
+    | 'practitioner'
+    | 'location'
+    | 'date'
+    | 'status'
+    | 'service-type'
+    | 'specialty'
+    | 'slot';
+  Schedule: 'actor' | 'active' | 'date' | 'service-type' | 'specialty';
+  Slot: 'schedule' | 'start' | 'status' | 'service-type' | 'specialty' | 'appointment-type';
+  CarePlan:
+    | 'patient'
+    | 'subject'
+    | 'status'
+    | 'intent'
+    | 'category'
+    | 'date'
+    | 'goal'
+    | 'care-team'
+    | 'activity-code';
+  Goal:
+    | 'patient'
+    | 'subject'
+    | 'lifecycle-status'
+    | 'achievement-status'
+    | 'category'
+    | 'start-date'
+    | 'target-date';
+  CareTeam: 'patient' | 'subject' | 'status' | 'category' | 'participant' | 'date';
+  Coverage: 'patient' | 'beneficiary' | 'subscriber' | 'payor' | 'status' | 'type' | 'identifier';
+  ExplanationOfBenefit:
+    | 'patient'
+    | 'identifier'
+    | 'type'
+    | 'status'
+    | 'created'
+    | 'service-date'
+    | 'service-start-date'
+    | 'billable-period-start'
+    | 'coverage'
+    | 'provider';
+  DocumentReference:
+    | 'patient'
+    | 'subject'
+    | 'category'
+    | 'type'
+    | 'date'
+    | 'period'
+    | 'status'
+    | 'encounter'
+    | 'author'
+    | 'contenttype';
+  Practitioner: 'identifier' | 'name' | 'family' | 'given' | 'active';
+  PractitionerRole: 'practitioner' | 'organization' | 'location' | 'specialty' | 'role' | 'active';
+  Organization: 'identifier' | 'name' | 'type' | 'address' | 'active';
+  Location: 'identifier' | 'name' | 'organization' | 'address' | 'status';
+}
+
+export type SearchableResourceType = keyof ResourceSearchParams;
+
+export type SearchParamName<R extends SearchableResourceType> =
+  | ResourceSearchParams[R]
+  | CommonSearchParam;
+
+/**
+ * Value comparison prefixes for number, date and quantity parameters
+ */
+export type SearchPrefix = 'eq' | 'ne' | 'gt' | 'lt' | 'ge' | 'le' | 'sa' | 'eb' | 'ap';
+
+/**
+ * Search parameter modifiers
+ */
+export type SearchModifier =
+  | 'exact'
+  | 'contains'
+  | 'missing'
+  | 'not'
+  | 'text'
+  | 'in'
+  | 'not-in'
+  | 'below'
+  | 'above'
+  | 'of-type'
+  | 'identifier';
+
+/**
+ * A token value: `system|code`, `code` alone, or `system|` for any code in a system
+ */
+export interface SearchToken {
+  system?: string;
+  code?: string;
+}
+
+/**
+ * Escape FHIR search special characters (`\`, `,`, `$`, `|`) in a single value
+ */
+export const escapeSearchValue = (value: string): string => value.replace(/([\\,$|])/g, '\\$1');
+
+const formatDate = (value: string | Date): string =>
+  value instanceof Date ? value.toISOString() : value;
+
+const formatToken = (token: SearchToken): string => {
+  const code = token.code !== undefined ? escapeSearchValue(token.code) : '';
+  return token.system !== undefined ? `${escapeSearchValue(token.system)}|${code}` : code;
+};
+
+export class FHIRSearchBuilder<R extends SearchableResourceType = SearchableResourceType> {
+  readonly resourceType: R;
+  private readonly entries: Array<[string, string]> = [];
+
+  constructor(resourceType: R) {
+    this.resourceType = resourceType;
+  }
+
+  /**
+   * Add a parameter as-is. Repeating a name ANDs the values.
+   * Undefined values are skipped so optional filters can be chained.
+   */
+  where(
+    name: SearchParamName<R>,
+    value: string | number | boolean | undefined,
+    modifier?: SearchModifier
+  ): this {
+    if (value !== undefined && value !== '') {
+      this.entries.push([modifier ? `${name}:${modifier}` : name, String(value)]);
+    }
+    return this;
+  }
+
+  /**
+   * Match any of the values (OR)
+   */
+  anyOf(name: SearchParamName<R>, values: string[] | undefined, modifier?: SearchModifier): this {
+    if (values && values.length > 0) {
+      this.where(name, values.map(escapeSearchValue).join(','), modifier);
+    }
+    return this;
+  }
+
+  /**
+   * Exact string match (`name:exact=value`)
+   */
+  exact(name: SearchParamName<R>, value: string | undefined): this {
+    return this.where(name, value !== undefined ? escapeSearchValue(value) : undefined, 'exact');
+  }
+
+  /**
+   * Match resources with (false) or without (true) a value for the parameter
+   */
+  missing(name: SearchParamName<R>, isMissing = true): this {
+    return this.where(name, isMissing, 'missing');
+  }
+
+  /**
+   * Token match on `system|code`; pass several tokens to OR them
+   */
+  token(
+    name: SearchParamName<R>,
+    token: SearchToken | SearchToken[] | undefined,
+    modifier?: SearchModifier
+  ): this {
+    const tokens = token === undefined ? [] : Array.isArray(token) ? token : [token];
+    if (tokens.length > 0) {
+      this.where(name, tokens.map(formatToken).join(','), modifier);
+    }
+    return this;
+  }
+
+  /**
+   * Date comparison, e.g. `date=ge2024-01-01`
+   */
+  date(name: SearchParamName<R>, prefix: SearchPrefix, value: string | Date | undefined): this {
+    return this.where(name, value !== undefined ? `${prefix}${formatDate(value)}` : undefined);
+  }
+
+  /**
+   * Inclusive date range; sends the parameter twice (`ge` and `le`)
+   */
+  dateRange(
+    name: SearchParamName<R>,
+    range: { from?: string | Date; to?: string | Date } | undefined
+  ): this {
+    this.date(name, 'ge', range?.from);
+    this.date(name, 'le', range?.to);
+    return this;
+  }
+
+  /**
+   * Number or quantity comparison, e.g. `value-quantity=gt5.4|http://unitsofmeasure.org|mg`
+   */
+  quantity(
+    name: SearchParamName<R>,
+    prefix: SearchPrefix,
+    value: number | undefined,
+    unit?: SearchToken
+  ): this {
+    if (value === undefined) {
+      return this;
+    }
+    const suffix = unit
+      ? `|${escapeSearchValue(unit.system ?? '')}|${escapeSearchValue(unit.code ?? '')}`
+      : '';
+    return this.where(name, `${prefix}${value}${suffix}`);
+  }
+
+  /**
+   * Composite parameter, e.g. `code-value-quantity=http://loinc.org|8480-6$gt140`
+   *
+   * Parts are used as-is; build token parts with `FHIRSearchBuilder.formatToken`.
+   */
+  composite(name: SearchParamName<R>, ...parts: string[]): this {
+    return this.where(name, parts.length > 0 ? parts.join('$') : undefined);
+  }
+
+  /**
+   * Chained parameter on a reference, e.g. `subject:Patient.name=peter`
+   */
+  chain(
+    name: SearchParamName<R>,
+    target: { resourceType?: string; param: string },
+    value: string | undefined
+  ): this {
+    if (value !== undefined) {
+      const typed = target.resourceType ? `:${target.resourceType}` : '';
+      this.entries.push([`${name}${typed}.${target.param}`, value]);
+    }
+    return this;
+  }
+
+  /**
+   * Reverse chain, e.g. `_has:Observation:patient:code=1234-5`
+   */
+  has(resourceType: string, referenceParam: string, param: string, value: string): this {
+    this.entries.push([`_has:${resourceType}:${referenceParam}:${param}`, value]);
+    return this;
+  }
+
+  /**
+   * Only resources changed since an instant (`_lastUpdated=gt...`)
+   */
+  updatedSince(value: string | Date | undefined): this {
+    return this.date('_lastUpdated', 'gt', value);
+  }
+
+  /**
+   * Include referenced resources, e.g. `MedicationRequest:medication`
+   */
+  include(...paths: string[]): this {
+    paths.forEach(path => this.entries.push(['_include', path]));
+    return this;
+  }
+
+  /**
+   * Include resources that reference the matches, e.g. `Provenance:target`
+   */
+  revinclude(...paths: string[]): this {
+    paths.forEach(path => this.entries.push(['_revinclude', path]));
+    return this;
+  }
+
+  /**
+   * Sort order; prefix a field with `-` for descending
+   */
+  sort(...fields: string[]): this {
+    if (fields.length > 0) {
+      this.entries.push(['_sort', fields.join(',')]);
+    }
+    return this;
+  }
+
+  /**
+   * Page size
+   */
+  count(count: number | undefined): this {
+    if (count !== undefined) {
+      this.entries.push(['_count', String(count)]);
+    }
+    return this;
+  }
+
+  /**
+   * Build search params, with repeated names as arrays
+   */
+  build(): FHIRSearchParams {
+    const params: Record<string, string | string[]> = {};
+
+    this.entries.forEach(([key, value]) => {
+      const existing = params[key];
+      if (existing === undefined) {
+        params[key] = value;
+      } else {
+        params[key] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+      }
+    });
+
+    return params;
+  }
+
+  /**
+   * Build the URL query string (without `?`)
+   */
+  toQueryString(): string {
+    const query = new URLSearchParams();
+    this.entries.forEach(([key, value]) => query.append(key, value));
+    return query.toString();
+  }
+
+  /**
+   * Format a token for use in composite parameters
+   */
+  static formatToken(token: SearchToken): string {
+    return formatToken(token);
+  }
+}
+
+/**
+ * Start a typed search for a resource type
+ */
+export const searchFor = <R extends SearchableResourceType>(resourceType: R) =>
+  new FHIRSearchBuilder(resourceType);
+
+export default FHIRSearchBuilder;
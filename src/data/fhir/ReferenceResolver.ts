@@ -0,0 +1,287 @@
+/**
+ * FHIR Reference Resolver
+ *
+ * Resolves `Reference` values on FHIR resources to the resources they point at:
+ * - Contained references ("#id") from the resource's own `contained` list
+ * - Bundled references returned alongside a search via _include/_revinclude
+ * - Remote references, read from the provider in batched `_id` searches
+ */
+
+import { Logger } from '../../utils/logger';
+import {
+  FHIRResource,
+  FHIRResourceWithReferences,
+  FHIRResourceWithSource,
+  ResolvedReferences,
+} from '../../domain/entities/FHIRTypes';
+import type { FHIRClient } from './FHIRClient';
+
+/**
+ * Maximum number of ids requested in a single `_id` search
+ */
+const REMOTE_BATCH_SIZE = 50;
+
+/**
+ * A resource returned in a Bundle, with its entry fullUrl if present
+ */
+export interface BundledResource {
+  fullUrl?: string;
+  resource: FHIRResource;
+}
+
+/**
+ * Lookup of bundled resources by "Type/id" and by fullUrl
+ */
+export type ResourceIndex = Map<string, FHIRResource>;
+
+/**
+ * Collect every reference string in a value, skipping contained resources
+ */
+const walkReferences = (value: unknown, references: Set<string>): void => {
+  if (Array.isArray(value)) {
+    value.forEach(item => walkReferences(item, references));
+    return;
+  }
+
+  if (value && typeof value === 'object') {
+    Object.entries(value).forEach(([key, child]) => {
+      if (key === 'reference' && typeof child === 'string') {
+        references.add(child);
+      } else if (key !== 'contained') {
+        walkReferences(child, references);
+      }
+    });
+  }
+};
+
+/**
+ * Get all reference strings used by a resource
+ */
+export const collectReferences = (resource: FHIRResource): string[] => {
+  const references = new Set<string>();
+  walkReferences(resource, references);
+  return Array.from(references);
+};
+
+/**
+ * Pattern for a relative literal reference, optionally version-specific
+ */
+const RELATIVE_REFERENCE = /^([A-Z][A-Za-z]+)\/([A-Za-z0-9\-.]{1,64})(\/_history\/.+)?$/;
+
+/**
+ * Parse a reference to a resource on the given server into type and id.
+ * Returns null for contained, urn:uuid and other-server references.
+ */
+export const parseReference = (
+  reference: string,
+  serverUrl: string
+): { resourceType: string; id: string } | null => {
+  const baseUrl = serverUrl.replace(/\/$/, '');
+  const relative = reference.startsWith(`${baseUrl}/`)
+    ? reference.slice(baseUrl.length + 1)
+    : reference;
+
+  const match = relative.match(RELATIVE_REFERENCE);
+  return match ? { resourceType: match[1], id: match[2] } : null;
+};
+
+/**
+ * Normalize a reference to "Type/id" when it points at the given server.
+ * Version-specific references ("Type/id/_history/2") resolve to the resource.
+ * Anything else is returned unchanged.
+ */
+export const normalizeReference = (reference: string, serverUrl: string): string => {
+  const parsed = parseReference(reference, serverUrl);
+  return parsed ? `${parsed.resourceType}/${parsed.id}` : reference;
+};
+
+/**
+ * Index bundled resources by "Type/id" and fullUrl
+ */
+export const indexResources = (bundled: BundledResource[]): ResourceIndex => {
+  const index: ResourceIndex = new Map();
+
+  bundled.forEach(({ fullUrl, resource }) => {
+    if (resource.id) {
+      index.set(`${resource.resourceType}/${resource.id}`, resource);
+    }
+    if (fullUrl) {
+      index.set(fullUrl, resource);
+    }
+  });
+
+  return index;
+};
+
+/**
+ * Resolve references that can be answered without a network request
+ *
+ * @returns Resolved references and the references left unresolved
+ */
+export const resolveLocalReferences = (
+  resource: FHIRResource,
+  index: ResourceIndex,
+  serverUrl: string
+): { references: ResolvedReferences; unresolved: string[] } => {
+  const references: ResolvedReferences = {};
+  const unresolved: string[] = [];
+
+  collectReferences(resource).forEach(reference => {
+    const target = reference.startsWith('#')
+      ? resource.contained?.find(contained => contained.id === reference.slice(1))
+      : (index.get(reference) ?? index.get(normalizeReference(reference, serverUrl)));
+
+    if (target) {
+      references[reference] = target;
+    } else {
+      unresolved.push(reference);
+    }
+  });
+
+  return { references, unresolved };
+};
+
+/**
+ * Find bundled resources (e.g. from _revinclude) that reference the given resource
+ */
+export const findReferencedBy = (
+  resource: FHIRResource,
+  bundled: BundledResource[],
+  serverUrl: string
+): FHIRResource[] => {
+  if (!resource.id) {
+    return [];
+  }
+
+  const key = `${resource.resourceType}/${resource.id}`;
+
+  return bundled
+    .filter(({ resource: candidate }) =>
+      collectReferences(candidate).some(
+        reference => normalizeReference(reference, serverUrl) === key
+      )
+    )
+    .map(({ resource: candidate }) => candidate);
+};
+
+/**
+ * Attach locally resolvable references to search results
+ */
+export const attachReferences = <T extends FHIRResource>(
+  items: FHIRResourceWithSource<T>[],
+  bundled: BundledResource[]
+): FHIRResourceWithReferences<T>[] => {
+  const index = indexResources(bundled);
+
+  return items.map(item => ({
+    ...item,
+    references: resolveLocalReferences(item.resource, index, item.source.serverUrl).references,
+    referencedBy: findReferencedBy(item.resource, bundled, item.source.serverUrl),
+  }));
+};
+
+/**
+ * Resolves references on resources from a single provider
+ */
+export class ReferenceResolver {
+  constructor(private readonly client: Pick<FHIRClient, 'search'>) {}
+
+  /**
+   * Resolve contained, bundled and remote references
+   *
+   * Remote references on the provider's own server are read with one `_id`
+   * search per resource type (in batches of REMOTE_BATCH_SIZE). References
+   * that cannot be read are left out of the result rather than failing it.
+   */
+  async resolve<T extends FHIRResource>(
+    items: FHIRResourceWithSource<T>[],
+    bundled: BundledResource[] = []
+  ): Promise<FHIRResourceWithReferences<T>[]> {
+    const index = indexResources(bundled);
+    const remoteIds = new Map<string, Set<string>>();
+
+    const pending = items.map(item => {
+      const existing = 'references' in item ? (item as FHIRResourceWithReferences<T>) : undefined;
+      const local = resolveLocalReferences(item.resource, index, item.source.serverUrl);
+      const references: ResolvedReferences = { ...existing?.references, ...local.references };
+      const unresolved = local.unresolved.filter(reference => !references[reference]);
+
+      unresolved.forEach(reference => {
+        const parsed = parseReference(reference, item.source.serverUrl);
+        if (parsed) {
+          const ids = remoteIds.get(parsed.resourceType) ?? new Set<string>();
+          ids.add(parsed.id);
+          remoteIds.set(parsed.resourceType, ids);
+        }
+      });
+
+      return { item, existing, references, unresolved };
+    });
+
+    await this.fetchRemote(remoteIds, index);
+
+    return pending.map(({ item, existing, references, unresolved }) => {
+      unresolved.forEach(reference => {
+        const target = index.get(normalizeReference(reference, item.source.serverUrl));
+        if (target) {
+          references[reference] = target;
+        }
+      });
+
+      return {
+        ...item,
+        references,
+        referencedBy:
+          existing?.referencedBy ?? findReferencedBy(item.resource, bundled, item.source.serverUrl),
+      };
+    });
+  }
+
+  /**
+   * Read resources of one type by id in batched `_id` searches.
+   * Batches that fail are logged and skipped.
+   */
+  async readByIds(resourceType: string, ids: string[]): Promise<FHIRResource[]> {
+    const resources: FHIRResource[] = [];
+
+    for (let i = 0; i < ids.length; i += REMOTE_BATCH_SIZE) {
+      const batch = ids.slice(i, i + REMOTE_BATCH_SIZE);
+
+      try {
+        const results = await this.client.search(resourceType, {
+          _id: batch.join(','),
+          _count: batch.length,
+        });
+        resources.push(...results.map(({ resource }) => resource));
+      } catch (error) {
+        Logger.warn('Failed to resolve remote references', {
+          resourceType,
+          count: batch.length,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return resources;
+  }
+
+  /**
+   * Read remote resources and add them to the index
+   */
+  private async fetchRemote(
+    remoteIds: Map<string, Set<string>>,
+    index: ResourceIndex
+  ): Promise<void> {
+    for (const [resourceType, ids] of remoteIds) {
+      const resources = await this.readByIds(resourceType, Array.from(ids));
+
+      resources.forEach(resource => {
+        if (resource.id) {
+          index.set(`${resource.resourceType}/${resource.id}`, resource);
+        }
+      });
+    }
+  }
+}
+
+export default ReferenceResolver;
@@ -0,0 +1,414 @@
+/**
+ * FHIR Write Outbox
+ *
+ * Queues FHIR writes (creates and updates) so they survive being offline
+ * and app restarts, and replays them in order once connectivity returns.
+ *
+ * Replaying is safe to repeat:
+ * - Creates carry a `urn:uuid` identifier made from the item id and are sent
+ *   as conditional creates, so a create that reached the server before the
+ *   app lost track of it is not duplicated
+ * - Updates send `If-Match` with the version they were based on; a change on
+ *   the server in the meantime becomes a conflict for the user to resolve
+ *   instead of being overwritten
+ *
+ * The queue is stored encrypted with the device symmetric key.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { v4 as uuidv4 } from 'uuid';
+
+import { FHIRResource, FHIRResourceWithSource, Identifier } from '../../domain/entities/FHIRTypes';
+import { encryption, EncryptedPayload } from '../../infrastructure/encryption/E2EEncryption';
+import { loadDeviceKey } from '../../infrastructure/encryption/deviceKey';
+import { Logger } from '../../utils/logger';
+import { FHIRClient } from './FHIRClient';
+import { getHttpStatus, getOperationOutcome, isVersionConflict } from './FHIRErrors';
+
+// Storage key
+const STORAGE_KEY = 'fhir_outbox';
+
+/**
+ * Identifier system of the idempotency identifier added to queued creates
+ */
+export const OUTBOX_IDENTIFIER_SYSTEM = 'urn:ietf:rfc:3986';
+
+/**
+ * A queued write
+ */
+export type OutboxWrite =
+  | { kind: 'create'; resource: FHIRResource }
+  | {
+      kind: 'update';
+      resource: FHIRResource;
+      /** Overwrite whatever is on the server (after a conflict) */
+      force?: boolean;
+    };
+
+/**
+ * Status of a queued write. Sent writes leave the outbox.
+ */
+export type OutboxItemStatus = 'pending' | 'sending' | 'conflict' | 'failed';
+
+export interface OutboxItem {
+  /** Also the idempotency key of a create */
+  id: string;
+  providerId: string;
+  /** Shown in the pending changes list, e.g. "Update contact details" */
+  description: string;
+  write: OutboxWrite;
+  status: OutboxItemStatus;
+  attempts: number;
+  createdAt: string;
+  lastAttemptAt?: string;
+  error?: string;
+}
+
+/**
+ * Outcome of submitting a write: sent now, or still in the outbox
+ */
+export type OutboxSubmitStatus = 'sent' | OutboxItemStatus;
+
+export interface OutboxReplayResult {
+  sent: number;
+  /** Items left in the outbox (pending, conflict or failed) */
+  remaining: number;
+}
+
+/**
+ * Key-value storage the encrypted queue is written to
+ */
+export type OutboxStorageBackend = Pick<typeof AsyncStorage, 'getItem' | 'setItem' | 'removeItem'>;
+
+export interface WriteOutboxConfig {
+  /** Get the FHIRClient for a provider */
+  getClient: (providerId: string) => Promise<FHIRClient>;
+  /** Called with the server's copy after a write is sent */
+  onSent?: (item: OutboxItem, result: FHIRResourceWithSource) => void;
+  storage?: OutboxStorageBackend;
+  now?: () => number;
+}
+
+/**
+ * Whether a failed request is worth retrying later (offline, timeout,
+ * throttled or a server error) rather than a rejection of the write
+ */
+const isTransientFailure = (error: unknown): boolean => {
+  const status = getHttpStatus(error);
+  return (
+    status === undefined || status === 401 || status === 408 || status === 429 || status >= 500
+  );
+};
+
+const getIdempotencyIdentifier = (itemId: string): Identifier => ({
+  system: OUTBOX_IDENTIFIER_SYSTEM,
+  value: `urn:uuid:${itemId}`,
+});
+
+export class WriteOutbox {
+  private items: OutboxItem[] | null = null;
+  private loading: Promise<OutboxItem[]> | null = null;
+  private replaying: Promise<OutboxReplayResult> | null = null;
+  private readonly listeners = new Set<(items: OutboxItem[]) => void>();
+  private readonly getClient: WriteOutboxConfig['getClient'];
+  private readonly onSent?: WriteOutboxConfig['onSent'];
+  private readonly storage: OutboxStorageBackend;
+  private readonly now: () => number;
+
+  constructor(config: WriteOutboxConfig) {
+    this.getClient = config.getClient;
+    this.onSent = config.onSent;
+    this.storage = config.storage ?? AsyncStorage;
+    this.now = config.now ?? Date.now;
+  }
+
+  // ==========================================================================
+  // QUEUE
+  // ==========================================================================
+
+  /**
+   * Get the queued writes, oldest first
+   */
+  async getItems(): Promise<OutboxItem[]> {
+    return [...(await this.load())];
+  }
+
+  /**
+   * Notify a listener whenever the queue changes
+   */
+  subscribe(listener: (items: OutboxItem[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Add a write to the end of the queue
+   */
+  async enqueue(providerId: string, write: OutboxWrite, description: string): Promise<OutboxItem> {
+    const items = await this.load();
+    const id = uuidv4();
+
+    let queued = write;
+    if (write.kind === 'create') {
+      const identifier = (write.resource as { identifier?: Identifier[] }).identifier ?? [];
+      queued = {
+        kind: 'create',
+        resource: {
+          ...write.resource,
+          identifier: [...identifier, getIdempotencyIdentifier(id)],
+        } as FHIRResource,
+      };
+    }
+
+    const item: OutboxItem = {
+      id,
+      providerId,
+      description,
+      write: queued,
+      status: 'pending',
+      attempts: 0,
+      createdAt: new Date(this.now()).toISOString(),
+    };
+
+    items.push(item);
+    await this.save();
+    return item;
+  }
+
+  /**
+   * Queue a write and try to send the queue right away
+   */
+  async submit(
+    providerId: string,
+    write: OutboxWrite,
+    description: string
+  ): Promise<OutboxSubmitStatus> {
+    const item = await this.enqueue(providerId, write, description);
+    await this.replay();
+
+    const queued = (await this.load()).find(i => i.id === item.id);
+    return queued ? queued.status : 'sent';
+  }
+
+  /**
+   * Queue a conflicted or failed write again
+   *
+   * With `force`, an update is sent without `If-Match`, overwriting the
+   * server's version with the queued one.
+   */
+  async retry(itemId: string, options?: { force?: boolean }): Promise<void> {
+    const item = (await this.load()).find(i => i.id === itemId);
+    if (!item) {
+      return;
+    }
+
+    item.status = 'pending';
+    item.error = undefined;
+    if (options?.force && item.write.kind === 'update') {
+      item.write = { ...item.write, force: true };
+    }
+    await this.save();
+  }
+
+  /**
+   * Drop a queued write without sending it
+   */
+  async discard(itemId: string): Promise<void> {
+    const items = await this.load();
+    this.items = items.filter(i => i.id !== itemId);
+    await this.save();
+  }
+
+  /**
+   * Drop every queued write
+   *
+   * Call this on logout or security events
+   */
+  async clear(): Promise<void> {
+    this.items = [];
+    await this.storage.removeItem(STORAGE_KEY);
+    this.notify();
+  }
+
+  // ==========================================================================
+  // REPLAY
+  // ==========================================================================
+
+  /**
+   * Send pending writes in the order they were queued
+   *
+   * Stops at the first write that fails for connectivity reasons so later
+   * writes never overtake it. Conflicts and rejected writes stay in the
+   * outbox for the user and do not hold up the rest of the queue.
+   */
+  async replay(): Promise<OutboxReplayResult> {
+    if (!this.replaying) {
+      this.replaying = this.replayPending().finally(() => {
+        this.replaying = null;
+      });
+    }
+    return this.replaying;
+  }
+
+  private async replayPending(): Promise<OutboxReplayResult> {
+    await this.load();
+    const attempted = new Set<string>();
+    let sent = 0;
+
+    // Writes queued or discarded during the replay are picked up or skipped
+    for (;;) {
+      const item = (this.items ?? []).find(i => i.status === 'pending' && !attempted.has(i.id));
+      if (!item) {
+        break;
+      }
+      attempted.add(item.id);
+
+      item.status = 'sending';
+      item.attempts += 1;
+      item.lastAttemptAt = new Date(this.now()).toISOString();
+      this.notify();
+
+      try {
+        const result = await this.send(item);
+        this.items = (this.items ?? []).filter(i => i.id !== item.id);
+        this.rebaseLaterUpdates(item, result.resource);
+        await this.save();
+        sent += 1;
+        this.onSent?.(item, result);
+      } catch (error) {
+        if (isVersionConflict(error)) {
+          item.status = 'conflict';
+          item.error = 'Changed on the server since it was edited';
+        } else if (isTransientFailure(error)) {
+          item.status = 'pending';
+          item.error = error instanceof Error ? error.message : 'Network error';
+          await this.save();
+          Logger.info('Outbox replay paused', { attempts: item.attempts });
+          break;
+        } else {
+          item.status = 'failed';
+          item.error =
+            getOperationOutcome(error)?.issue?.[0]?.diagnostics ||
+            (error instanceof Error ? error.message : 'Rejected by the server');
+        }
+        await this.save();
+      }
+    }
+
+    return { sent, remaining: (this.items ?? []).length };
+  }
+
+  private async send(item: OutboxItem): Promise<FHIRResourceWithSource> {
+    const client = await this.getClient(item.providerId);
+    const { write } = item;
+
+    if (write.kind === 'create') {
+      return client.create(write.resource.resourceType, write.resource, {
+        ifNoneExist: {
+          identifier: `${OUTBOX_IDENTIFIER_SYSTEM}|urn:uuid:${item.id}`,
+        },
+      });
+    }
+
+    if (!write.resource.id) {
+      throw new Error(`Cannot update ${write.resource.resourceType} without an id`);
+    }
+    return client.update(
+      write.resource.resourceType,
+      write.resource.id,
+      write.resource,
+      write.force ? { ifMatch: false } : undefined
+    );
+  }
+
+  // Later edits of the same resource were based on the version just replaced
+  private rebaseLaterUpdates(sent: OutboxItem, result: FHIRResource): void {
+    const { resource } = sent.write;
+    if (sent.write.kind !== 'update' || !result.meta?.versionId) {
+      return;
+    }
+
+    (this.items ?? []).forEach(item => {
+      if (
+        item.providerId === sent.providerId &&
+        item.write.kind === 'update' &&
+        item.write.resource.resourceType === resource.resourceType &&
+        item.write.resource.id === resource.id &&
+        item.write.resource.meta?.versionId === resource.meta?.versionId
+      ) {
+        item.write = {
+          ...item.write,
+          resource: {
+            ...item.write.resource,
+            meta: { ...item.write.resource.meta, versionId: result.meta?.versionId },
+          },
+        };
+      }
+    });
+  }
+
+  // ==========================================================================
+  // PERSISTENCE
+  // ==========================================================================
+
+  private load(): Promise<OutboxItem[]> {
+    if (this.items) {
+      return Promise.resolve(this.items);
+    }
+    if (!this.loading) {
+      this.loading = this.read()
+        .then(items => {
+          this.items = items;
+          return items;
+        })
+        .finally(() => {
+          this.loading = null;
+        });
+    }
+    return this.loading;
+  }
+
+  private async read(): Promise<OutboxItem[]> {
+    await loadDeviceKey();
+
+    const stored = await this.storage.getItem(STORAGE_KEY);
+    if (!stored) {
+      return [];
+    }
+
+    let decrypted: string | null = null;
+    try {
+      decrypted = encryption.decryptLocal(JSON.parse(stored) as EncryptedPayload);
+    } catch (error) {
+      // Corrupt payload; treated as unreadable below
+    }
+
+    if (!decrypted) {
+      Logger.error('Outbox unreadable, queued writes were lost');
+      await this.storage.removeItem(STORAGE_KEY);
+      return [];
+    }
+
+    // A write interrupted mid-send is sent again; creates are conditional
+    return (JSON.parse(decrypted) as OutboxItem[]).map(item =>
+      item.status === 'sending' ? { ...item, status: 'pending' } : item
+    );
+  }
+
+  private async save(): Promise<void> {
+    const items = this.items ?? [];
+    // Queued writes never expire
+    const payload = encryption.encryptLocal(JSON.stringify(items));
+    await this.storage.setItem(STORAGE_KEY, JSON.stringify(payload));
+    this.notify();
+  }
+
+  private notify(): void {
+    const items = [...(this.items ?? [])];
+    this.listeners.forEach(listener => listener(items));
+  }
+}
+
+export default WriteOutbox;
@@ -3,7 +3,12 @@
  * @jest-environment node
  */
 
+import { Buffer } from 'buffer';
 import { FHIRClient, FHIRClientManager } from '../FHIRClient';
+import { BundleBuilder } from '../BundleBuilder';
+import { FHIRVersionConflictError } from '../FHIRErrors';
+import { searchFor } from '../FHIRSearchBuilder';
+import { DirectoryCache } from '../DirectoryCache';
 import { Provider } from '../../../domain/entities/Provider';
 
 // Mock axios
@@ -177,6 +182,612 @@ describe('FHIRClient', () => {
     });
   });
 
+  describe('paging', () => {
+    const pageOne = {
+      resourceType: 'Bundle',
+      type: 'searchset',
+      total: 3,
+      link: [{ relation: 'next', url: 'https://fhir.example.com/r4?_getpages=abc&page=2' }],
+      entry: [
+        { resource: { resourceType: 'Observation', id: 'obs-1' } },
+        { resource: { resourceType: 'Observation', id: 'obs-2' } },
+      ],
+    };
+    const pageTwo = {
+      resourceType: 'Bundle',
+      type: 'searchset',
+      total: 3,
+      entry: [{ resource: { resourceType: 'Observation', id: 'obs-3' } }],
+    };
+
+    const createPagedClient = (get: jest.Mock) => {
+      const axiosMock = require('axios');
+      axiosMock.create.mockReturnValue({
+        get,
+        interceptors: {
+          request: { use: jest.fn() },
+          response: { use: jest.fn() },
+        },
+      });
+
+      return new FHIRClient({
+        baseUrl: mockProvider.fhirServerUrl,
+        accessToken: mockAccessToken,
+        provider: mockProvider,
+      });
+    };
+
+    it('should follow next links and report page progress', async () => {
+      const get = jest
+        .fn()
+        .mockResolvedValueOnce({ data: pageOne })
+        .mockResolvedValueOnce({ data: pageTwo });
+      const onPage = jest.fn();
+
+      const results = await createPagedClient(get).search('Observation', {}, { onPage });
+
+      expect(results.map(r => r.resource.id)).toEqual(['obs-1', 'obs-2', 'obs-3']);
+      expect(get).toHaveBeenNthCalledWith(2, pageOne.link[0].url);
+      expect(onPage).toHaveBeenCalledTimes(2);
+      expect(onPage).toHaveBeenLastCalledWith(
+        expect.objectContaining({ pageNumber: 2, recordsFetched: 3, total: 3, hasMore: false })
+      );
+    });
+
+    it('should report the server time of each page', async () => {
+      const get = jest
+        .fn()
+        .mockResolvedValueOnce({
+          data: { ...pageOne, meta: { lastUpdated: '2024-03-01T12:00:00Z' } },
+        })
+        .mockResolvedValueOnce({
+          data: pageTwo,
+          headers: { date: 'Fri, 01 Mar 2024 12:00:05 GMT' },
+        });
+      const onPage = jest.fn();
+
+      await createPagedClient(get).search('Observation', {}, { onPage });
+
+      expect(onPage.mock.calls.map(([progress]) => progress.serverTime)).toEqual([
+        '2024-03-01T12:00:00Z',
+        '2024-03-01T12:00:05.000Z',
+      ]);
+    });
+
+    it('should stop paging once maxRecords is reached', async () => {
+      const get = jest.fn().mockResolvedValueOnce({ data: pageOne });
+
+      const results = await createPagedClient(get).search('Observation', {}, { maxRecords: 1 });
+
+      expect(results).toHaveLength(1);
+      expect(get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not follow next links to another server', async () => {
+      const get = jest.fn().mockResolvedValueOnce({
+        data: { ...pageOne, link: [{ relation: 'next', url: 'https://evil.example.org/page2' }] },
+      });
+
+      const results = await createPagedClient(get).search('Observation');
+
+      expect(results).toHaveLength(2);
+      expect(get).toHaveBeenCalledTimes(1);
+    });
+
+    it.each([
+      '//evil.example.org/r4?page=2',
+      'https://fhir.example.com.evil.org/r4?page=2',
+      'https://fhir.example.com/r4-other/Observation?page=2',
+      'https://fhir.example.com/r4/../admin?page=2',
+    ])('should not follow the next link %s', async nextUrl => {
+      const get = jest.fn().mockResolvedValueOnce({
+        data: { ...pageOne, link: [{ relation: 'next', url: nextUrl }] },
+      });
+
+      await createPagedClient(get).search('Observation');
+
+      expect(get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should follow relative next links', async () => {
+      const get = jest
+        .fn()
+        .mockResolvedValueOnce({
+          data: { ...pageOne, link: [{ relation: 'next', url: '/Observation?page=2' }] },
+        })
+        .mockResolvedValueOnce({ data: pageTwo });
+
+      const results = await createPagedClient(get).search('Observation');
+
+      expect(results).toHaveLength(3);
+    });
+
+    it('should send repeated _include parameters and resolve included resources', async () => {
+      const get = jest.fn().mockResolvedValueOnce({
+        data: {
+          resourceType: 'Bundle',
+          type: 'searchset',
+          entry: [
+            {
+              resource: {
+                resourceType: 'MedicationRequest',
+                id: 'med-req-1',
+                medicationReference: { reference: 'Medication/med-1' },
+              },
+              search: { mode: 'match' },
+            },
+            { resource: { resourceType: 'Medication', id: 'med-1' }, search: { mode: 'include' } },
+          ],
+        },
+      });
+
+      const results = await createPagedClient(get).getMedicationRequests('patient-123', {
+        _include: ['MedicationRequest:medication', 'MedicationRequest:requester'],
+      });
+
+      expect(get.mock.calls[0][0]).toContain(
+        '_include=MedicationRequest%3Amedication&_include=MedicationRequest%3Arequester'
+      );
+      expect(results).toHaveLength(1);
+      expect(results[0].references['Medication/med-1']).toEqual({
+        resourceType: 'Medication',
+        id: 'med-1',
+      });
+    });
+
+    it('should page through Patient/$everything with _since and _type', async () => {
+      const get = jest
+        .fn()
+        .mockResolvedValueOnce({ data: pageOne })
+        .mockResolvedValueOnce({ data: pageTwo });
+
+      const results = await createPagedClient(get).getPatientEverything('patient-123', {
+        _since: '2024-01-01T00:00:00Z',
+        _type: ['Observation', 'Encounter'],
+      });
+
+      expect(get.mock.calls[0][0]).toBe(
+        '/Patient/patient-123/$everything?_since=2024-01-01T00%3A00%3A00Z&_type=Observation%2CEncounter'
+      );
+      expect(results).toHaveLength(3);
+    });
+
+    it('should read deleted ids from _history', async () => {
+      const get = jest.fn().mockResolvedValueOnce({
+        data: {
+          resourceType: 'Bundle',
+          type: 'history',
+          entry: [
+            { request: { method: 'DELETE', url: 'Observation/obs-9/_history/3' } },
+            {
+              resource: { resourceType: 'Observation', id: 'obs-1' },
+              request: { method: 'PUT', url: 'Observation/obs-1' },
+            },
+          ],
+        },
+      });
+
+      const deleted = await createPagedClient(get).getDeletedSince(
+        'Observation',
+        '2024-01-01T00:00:00Z'
+      );
+
+      expect(get.mock.calls[0][0]).toBe('/Observation/_history?_since=2024-01-01T00%3A00%3A00Z');
+      expect(deleted).toEqual(['obs-9']);
+    });
+
+    it('should yield pages from searchPages', async () => {
+      const get = jest
+        .fn()
+        .mockResolvedValueOnce({ data: pageOne })
+        .mockResolvedValueOnce({ data: pageTwo });
+
+      const pageSizes: number[] = [];
+      for await (const page of createPagedClient(get).searchPages('Observation')) {
+        pageSizes.push(page.resources.length);
+      }
+
+      expect(pageSizes).toEqual([2, 1]);
+    });
+
+    it('should accept a typed search builder', async () => {
+      const get = jest.fn().mockResolvedValueOnce({ data: pageTwo });
+
+      await createPagedClient(get).search(
+        'Observation',
+        searchFor('Observation')
+          .where('patient', 'patient-123')
+          .dateRange('date', { from: '2024-01-01', to: '2024-06-30' })
+      );
+
+      expect(get).toHaveBeenCalledWith(
+        '/Observation?patient=patient-123&date=ge2024-01-01&date=le2024-06-30'
+      );
+    });
+  });
+
+  describe('versioned updates', () => {
+    const createWriteClient = (mocks: { get?: jest.Mock; post?: jest.Mock; put?: jest.Mock }) => {
+      const axiosMock = require('axios');
+      axiosMock.create.mockReturnValue({
+        ...mocks,
+        interceptors: {
+          request: { use: jest.fn() },
+          response: { use: jest.fn() },
+        },
+      });
+
+      return new FHIRClient({
+        baseUrl: mockProvider.fhirServerUrl,
+        accessToken: mockAccessToken,
+        provider: mockProvider,
+      });
+    };
+
+    const consent = {
+      resourceType: 'Consent',
+      id: 'consent-1',
+      meta: { versionId: '3' },
+      status: 'active',
+    };
+
+    it('should send If-Match with the resource version', async () => {
+      const put = jest.fn().mockResolvedValue({ data: consent });
+
+      await createWriteClient({ put }).update('Consent', 'consent-1', consent);
+
+      expect(put).toHaveBeenCalledWith('/Consent/consent-1', consent, {
+        headers: { 'If-Match': 'W/"3"' },
+      });
+    });
+
+    it('should raise a version conflict on 412', async () => {
+      const get = jest.fn().mockResolvedValue({ data: consent });
+      const put = jest.fn().mockRejectedValue({ response: { status: 412 } });
+
+      const error = await createWriteClient({ get, put })
+        .updateConsentStatus('consent-1', 'inactive')
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(FHIRVersionConflictError);
+      expect(error.resourceId).toBe('consent-1');
+      expect(error.expectedVersionId).toBe('3');
+      expect(error.attempted.status).toBe('inactive');
+    });
+
+    it('should send If-None-Exist for conditional create', async () => {
+      const post = jest.fn().mockResolvedValue({ data: consent });
+
+      await createWriteClient({ post }).create('Consent', consent, {
+        ifNoneExist: { identifier: 'urn:system|abc' },
+      });
+
+      expect(post).toHaveBeenCalledWith('/Consent', consent, {
+        headers: { 'If-None-Exist': 'identifier=urn%3Asystem%7Cabc' },
+      });
+    });
+  });
+
+  describe('transaction', () => {
+    const createTransactionClient = (post: jest.Mock) => {
+      const axiosMock = require('axios');
+      axiosMock.create.mockReturnValue({
+        post,
+        interceptors: {
+          request: { use: jest.fn() },
+          response: { use: jest.fn() },
+        },
+      });
+
+      return new FHIRClient({
+        baseUrl: mockProvider.fhirServerUrl,
+        accessToken: mockAccessToken,
+        provider: mockProvider,
+      });
+    };
+
+    const buildBundle = () => {
+      const builder = new BundleBuilder('transaction');
+      builder.create({ resourceType: 'Consent' });
+      builder.update({ resourceType: 'Patient', id: 'patient-123' }, { ifMatch: 'W/"2"' });
+      return builder;
+    };
+
+    it('should build transaction entries', () => {
+      const bundle = buildBundle().build();
+
+      expect(bundle.type).toBe('transaction');
+      expect(bundle.entry?.[0].fullUrl).toMatch(/^urn:uuid:/);
+      expect(bundle.entry?.[0].request).toEqual(
+        expect.objectContaining({ method: 'POST', url: 'Consent' })
+      );
+      expect(bundle.entry?.[1].request).toEqual(
+        expect.objectContaining({ method: 'PUT', url: 'Patient/patient-123', ifMatch: 'W/"2"' })
+      );
+    });
+
+    it('should parse per-entry responses', async () => {
+      const post = jest.fn().mockResolvedValue({
+        data: {
+          resourceType: 'Bundle',
+          type: 'batch-response',
+          entry: [
+            { response: { status: '201 Created', location: 'Consent/c-1/_history/1' } },
+            {
+              response: {
+                status: '412 Precondition Failed',
+                outcome: {
+                  resourceType: 'OperationOutcome',
+                  issue: [{ severity: 'error', code: 'conflict' }],
+                },
+              },
+            },
+          ],
+        },
+      });
+
+      const result = await createTransactionClient(post).transaction(buildBundle());
+
+      expect(post).toHaveBeenCalledWith('/', expect.objectContaining({ type: 'transaction' }));
+      expect(result.ok).toBe(false);
+      expect(result.entries[0]).toEqual(
+        expect.objectContaining({ status: 201, ok: true, location: 'Consent/c-1/_history/1' })
+      );
+      expect(result.entries[1].status).toBe(412);
+      expect(result.entries[1].issues[0].code).toBe('conflict');
+    });
+
+    it('should map a rejected transaction back to the failing entry', async () => {
+      const post = jest.fn().mockRejectedValue({
+        response: {
+          status: 400,
+          data: {
+            resourceType: 'OperationOutcome',
+            issue: [
+              { severity: 'error', code: 'required', expression: ['Bundle.entry[1].resource'] },
+              { severity: 'error', code: 'processing', diagnostics: 'Transaction rolled back' },
+            ],
+          },
+        },
+      });
+
+      const result = await createTransactionClient(post).transaction(buildBundle());
+
+      expect(result.ok).toBe(false);
+      expect(result.entries[0].issues).toHaveLength(0);
+      expect(result.entries[1].issues[0].code).toBe('required');
+      expect(result.issues[0].diagnostics).toBe('Transaction rolled back');
+    });
+  });
+
+  describe('token refresh', () => {
+    const freshTokens = { accessToken: 'fresh-token', expiresAt: Date.now() + 3600 * 1000 };
+
+    const createRefreshingClient = (
+      getValidTokens: jest.Mock,
+      tokenExpiresAt = Date.now() + 3600 * 1000
+    ) => {
+      const instance = {
+        request: jest.fn().mockResolvedValue({ data: {} }),
+        interceptors: {
+          request: { use: jest.fn() },
+          response: { use: jest.fn() },
+        },
+      };
+      const axiosMock = require('axios');
+      axiosMock.create.mockReturnValue(instance);
+      const onTokenExpired = jest.fn();
+
+      new FHIRClient({
+        baseUrl: mockProvider.fhirServerUrl,
+        accessToken: mockAccessToken,
+        tokenExpiresAt,
+        provider: mockProvider,
+        tokenRefresher: { getValidTokens },
+        onTokenExpired,
+      });
+
+      const [onRequest] = instance.interceptors.request.use.mock.calls[0];
+      const [, onResponseError] = instance.interceptors.response.use.mock.calls[0];
+
+      return { instance, onRequest, onResponseError, onTokenExpired };
+    };
+
+    it('should refresh the token shortly before it expires', async () => {
+      const getValidTokens = jest.fn().mockResolvedValue(freshTokens);
+      const { onRequest } = createRefreshingClient(getValidTokens, Date.now() + 10 * 1000);
+
+      const request = await onRequest({ headers: {} });
+
+      expect(getValidTokens).toHaveBeenCalledWith('provider-123', { forceRefresh: false });
+      expect(request.headers.Authorization).toBe('Bearer fresh-token');
+    });
+
+    it('should track the refreshed token expiry', async () => {
+      const getValidTokens = jest
+        .fn()
+        .mockResolvedValue({ accessToken: 'fresh-token', expiresAt: Date.now() + 10 * 1000 });
+      const { onRequest } = createRefreshingClient(getValidTokens, Date.now() + 10 * 1000);
+
+      await onRequest({ headers: {} });
+      await onRequest({ headers: {} });
+
+      // The refreshed token also expires within the buffer, so it is refreshed again
+      expect(getValidTokens).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry once after a 401 with a refreshed token', async () => {
+      const getValidTokens = jest.fn().mockResolvedValue(freshTokens);
+      const { instance, onResponseError } = createRefreshingClient(getValidTokens);
+      const config = { url: '/Patient/1', headers: {} };
+
+      await onResponseError({ config, response: { status: 401 } });
+
+      expect(getValidTokens).toHaveBeenCalledWith('provider-123', { forceRefresh: true });
+      expect(instance.request).toHaveBeenCalledWith(expect.objectContaining({ url: '/Patient/1' }));
+
+      const retried = { config: instance.request.mock.calls[0][0], response: { status: 401 } };
+      await expect(onResponseError(retried)).rejects.toBe(retried);
+      expect(getValidTokens).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report the token as expired when refresh fails', async () => {
+      const getValidTokens = jest.fn().mockResolvedValue(null);
+      const { instance, onResponseError, onTokenExpired } = createRefreshingClient(getValidTokens);
+      const error = { config: { headers: {} }, response: { status: 401 } };
+
+      await expect(onResponseError(error)).rejects.toBe(error);
+      expect(onTokenExpired).toHaveBeenCalledWith('provider-123');
+      expect(instance.request).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('readBinary', () => {
+    const createBinaryClient = (get: jest.Mock) => {
+      const axiosMock = require('axios');
+      axiosMock.create.mockReturnValue({
+        get,
+        interceptors: {
+          request: { use: jest.fn() },
+          response: { use: jest.fn() },
+        },
+      });
+
+      return new FHIRClient({
+        baseUrl: mockProvider.fhirServerUrl,
+        accessToken: mockAccessToken,
+        provider: mockProvider,
+      });
+    };
+
+    it('should download raw content as base64', async () => {
+      const get = jest.fn().mockResolvedValue({
+        data: Buffer.from('%PDF-1.4'),
+        headers: { 'content-type': 'application/pdf' },
+      });
+
+      const content = await createBinaryClient(get).readBinary('Binary/doc-1', 'application/pdf');
+
+      expect(get).toHaveBeenCalledWith('/Binary/doc-1', {
+        responseType: 'arraybuffer',
+        headers: { Accept: 'application/pdf' },
+      });
+      expect(content).toEqual({
+        contentType: 'application/pdf',
+        data: Buffer.from('%PDF-1.4').toString('base64'),
+      });
+    });
+
+    it('should unwrap a Binary resource returned as FHIR JSON', async () => {
+      const binary = { resourceType: 'Binary', contentType: 'text/plain', data: 'bm90ZQ==' };
+      const get = jest.fn().mockResolvedValue({
+        data: Buffer.from(JSON.stringify(binary)),
+        headers: { 'content-type': 'application/fhir+json' },
+      });
+
+      const content = await createBinaryClient(get).readBinary(
+        'https://fhir.example.com/r4/Binary/note-1'
+      );
+
+      expect(get).toHaveBeenCalledWith('https://fhir.example.com/r4/Binary/note-1', {
+        responseType: 'arraybuffer',
+        headers: { Accept: '*/*' },
+      });
+      expect(content).toEqual({ contentType: 'text/plain', data: 'bm90ZQ==' });
+    });
+
+    it('should not send the token to another host', async () => {
+      const get = jest.fn();
+
+      await expect(
+        createBinaryClient(get).readBinary('https://files.example.net/Binary/doc-1')
+      ).rejects.toThrow("not hosted on Test Hospital's FHIR server");
+      expect(get).not.toHaveBeenCalled();
+    });
+
+    it.each(['//files.example.net/Binary/doc-1', 'https://fhir.example.com.evil.org/r4/Binary/1'])(
+      'should refuse %s',
+      async url => {
+        const get = jest.fn();
+
+        await expect(createBinaryClient(get).readBinary(url)).rejects.toThrow('not hosted on');
+        expect(get).not.toHaveBeenCalled();
+      }
+    );
+
+    it('should return inline attachment data without a request', async () => {
+      const get = jest.fn();
+
+      const content = await createBinaryClient(get).getAttachmentContent({
+        contentType: 'text/plain',
+        data: 'bm90ZQ==',
+      });
+
+      expect(content).toEqual({ contentType: 'text/plain', data: 'bm90ZQ==' });
+      expect(get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveDirectoryReferences', () => {
+    const practitioner = {
+      resourceType: 'Practitioner',
+      id: 'pr-1',
+      name: [{ given: ['Jane'], family: 'Smith' }],
+    };
+    const role = {
+      resourceType: 'PractitionerRole',
+      id: 'role-1',
+      practitioner: { reference: 'Practitioner/pr-1' },
+    };
+
+    const createDirectoryClient = (directoryCache?: DirectoryCache) => {
+      const directoryClient = new FHIRClient({
+        baseUrl: mockProvider.fhirServerUrl,
+        accessToken: mockAccessToken,
+        provider: mockProvider,
+        directoryCache,
+      });
+      const search = jest
+        .spyOn(directoryClient, 'search')
+        .mockImplementation(async (resourceType: string) =>
+          [role, practitioner]
+            .filter(resource => resource.resourceType === resourceType)
+            .map(resource => ({ resource, source: {} }) as never)
+        );
+      return { directoryClient, search };
+    };
+
+    it('should resolve PractitionerRoles together with their practitioner', async () => {
+      const { directoryClient, search } = createDirectoryClient();
+
+      const resolved = await directoryClient.resolveDirectoryReferences([
+        'https://fhir.example.com/r4/PractitionerRole/role-1',
+        'Patient/p-1',
+      ]);
+
+      expect(search).toHaveBeenCalledWith('PractitionerRole', { _id: 'role-1', _count: 1 });
+      expect(search).toHaveBeenCalledWith('Practitioner', { _id: 'pr-1', _count: 1 });
+      expect(resolved['https://fhir.example.com/r4/PractitionerRole/role-1']).toEqual(role);
+      expect(resolved['PractitionerRole/role-1']).toEqual(role);
+      expect(resolved['Practitioner/pr-1']).toEqual(practitioner);
+      expect(resolved['Patient/p-1']).toBeUndefined();
+    });
+
+    it('should read cached resources from the directory cache until they expire', async () => {
+      let now = 0;
+      const cache = new DirectoryCache(1000, () => now);
+      const { directoryClient, search } = createDirectoryClient(cache);
+
+      await directoryClient.resolveDirectoryReferences(['Practitioner/pr-1']);
+      await directoryClient.resolveDirectoryReferences(['Practitioner/pr-1']);
+      expect(search).toHaveBeenCalledTimes(1);
+
+      now = 2000;
+      await directoryClient.resolveDirectoryReferences(['Practitioner/pr-1']);
+      expect(search).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe('error handling', () => {
     it('should handle 404 errors gracefully', async () => {
       const axiosMock = require('axios');
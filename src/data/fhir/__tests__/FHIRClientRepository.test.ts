@@ -0,0 +1,120 @@
+/**
+ * FHIRClientRepository Tests
+ * @jest-environment node
+ */
+
+import { FHIRClientRepository } from '../FHIRClientRepository';
+import { FHIRClientManager } from '../FHIRClient';
+import { searchFor } from '../FHIRSearchBuilder';
+import { Provider, ProviderTokens } from '../../../domain/entities/Provider';
+
+jest.mock('../../../infrastructure/storage/SecureStorage', () => ({
+  secureStorage: {
+    getProviderTokens: jest.fn().mockResolvedValue(null),
+  },
+}));
+
+jest.mock('../../../utils/logger', () => ({
+  Logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const mockProvider: Provider = {
+  id: 'provider-123',
+  name: 'Test Hospital',
+  fhirServerUrl: 'https://fhir.example.com/r4',
+  authorizationEndpoint: 'https://auth.example.com/authorize',
+  tokenEndpoint: 'https://auth.example.com/token',
+  clientId: 'test-client',
+  redirectUri: 'smartfhirapp://callback',
+  scopes: ['patient/*.read', 'openid'],
+  isConnected: true,
+  isPrimary: true,
+  connectionStatus: 'connected',
+};
+
+const mockTokens: ProviderTokens = {
+  providerId: 'provider-123',
+  accessToken: 'access-token',
+  expiresAt: Date.now() + 3600 * 1000,
+  tokenType: 'Bearer',
+  grantedScopes: ['patient/*.read'],
+};
+
+describe('FHIRClientRepository', () => {
+  const client = {
+    search: jest.fn().mockResolvedValue([]),
+    getObservations: jest.fn().mockResolvedValue([]),
+    getPatientEverything: jest.fn().mockResolvedValue([]),
+  };
+  const clientManager = { getClient: jest.fn().mockReturnValue(client) };
+
+  const createRepository = (providers: Provider[] = [mockProvider]) =>
+    new FHIRClientRepository({
+      getProvider: providerId => providers.find(p => p.id === providerId),
+      getTokens: jest.fn().mockResolvedValue(mockTokens),
+      clientManager: clientManager as unknown as FHIRClientManager,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getClient', () => {
+    it('should get the provider client with its stored tokens', async () => {
+      await createRepository().getClient('provider-123');
+
+      expect(clientManager.getClient).toHaveBeenCalledWith(mockProvider, mockTokens);
+    });
+
+    it('should reject unknown providers', async () => {
+      await expect(createRepository([]).getClient('provider-123')).rejects.toThrow(
+        'Provider not found: provider-123'
+      );
+    });
+
+    it('should reject providers without tokens', async () => {
+      const repository = new FHIRClientRepository({
+        getProvider: () => mockProvider,
+        clientManager: clientManager as unknown as FHIRClientManager,
+      });
+
+      await expect(repository.getClient('provider-123')).rejects.toThrow(
+        'Provider is not authorized: Test Hospital'
+      );
+    });
+  });
+
+  describe('FHIRRepository', () => {
+    it('should fetch observations by category', async () => {
+      await createRepository().getObservations('patient-1', 'provider-123', 'vital-signs');
+
+      expect(client.getObservations).toHaveBeenCalledWith('patient-1', {
+        category: 'vital-signs',
+      });
+    });
+
+    it('should limit Patient/$everything to the requested types', async () => {
+      await createRepository().getPatientEverything('patient-1', 'provider-123', [
+        'Patient',
+        'Encounter',
+      ]);
+
+      expect(client.getPatientEverything).toHaveBeenCalledWith('patient-1', {
+        _type: ['Patient', 'Encounter'],
+      });
+    });
+
+    it('should pass typed searches through to the client', async () => {
+      const query = searchFor('Encounter').where('patient', 'patient-1');
+
+      await createRepository().search('Encounter', query, 'provider-123', { maxRecords: 5 });
+
+      expect(client.search).toHaveBeenCalledWith('Encounter', query, { maxRecords: 5 });
+    });
+  });
+});
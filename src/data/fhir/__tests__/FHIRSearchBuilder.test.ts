@@ -0,0 +1,101 @@
+/**
+ * FHIRSearchBuilder Tests
+ * @jest-environment node
+ */
+
+import { escapeSearchValue, FHIRSearchBuilder, searchFor } from '../FHIRSearchBuilder';
+
+describe('FHIRSearchBuilder', () => {
+  describe('build', () => {
+    it('should send both bounds of a date range', () => {
+      const params = searchFor('Observation')
+        .where('patient', 'patient-123')
+        .dateRange('date', { from: '2024-01-01', to: '2024-12-31' })
+        .build();
+
+      expect(params).toEqual({
+        patient: 'patient-123',
+        date: ['ge2024-01-01', 'le2024-12-31'],
+      });
+    });
+
+    it('should skip undefined values', () => {
+      const params = searchFor('Encounter')
+        .where('patient', 'patient-123')
+        .where('status', undefined)
+        .dateRange('date', { from: undefined, to: '2024-12-31' })
+        .count(undefined)
+        .build();
+
+      expect(params).toEqual({ patient: 'patient-123', date: 'le2024-12-31' });
+    });
+  });
+
+  describe('tokens and modifiers', () => {
+    it('should format system|code tokens as an OR list', () => {
+      const query = searchFor('Observation')
+        .token('code', [
+          { system: 'http://loinc.org', code: '8480-6' },
+          { system: 'http://loinc.org', code: '8462-4' },
+        ])
+        .toQueryString();
+
+      expect(decodeURIComponent(query)).toBe(
+        'code=http://loinc.org|8480-6,http://loinc.org|8462-4'
+      );
+    });
+
+    it('should append modifiers to the parameter name', () => {
+      const params = searchFor('Patient')
+        .exact('family', 'Smith')
+        .missing('birthdate')
+        .token('identifier', { system: 'urn:mrn' }, 'not')
+        .build();
+
+      expect(params).toEqual({
+        'family:exact': 'Smith',
+        'birthdate:missing': 'true',
+        'identifier:not': 'urn:mrn|',
+      });
+    });
+
+    it('should escape separators inside values', () => {
+      expect(escapeSearchValue('a,b$c|d\\e')).toBe('a\\,b\\$c\\|d\\\\e');
+      expect(searchFor('Patient').anyOf('name', ['Smith, Jr', 'Doe']).build()).toEqual({
+        name: 'Smith\\, Jr,Doe',
+      });
+    });
+  });
+
+  describe('composite and chained parameters', () => {
+    it('should join composite parts with $', () => {
+      const params = searchFor('Observation')
+        .composite(
+          'code-value-quantity',
+          FHIRSearchBuilder.formatToken({ system: 'http://loinc.org', code: '8480-6' }),
+          'gt140'
+        )
+        .build();
+
+      expect(params).toEqual({ 'code-value-quantity': 'http://loinc.org|8480-6$gt140' });
+    });
+
+    it('should build chained and reverse-chained parameters', () => {
+      const params = searchFor('Encounter')
+        .chain('subject', { resourceType: 'Patient', param: 'name' }, 'peter')
+        .has('Observation', 'encounter', 'code', '1234-5')
+        .include('Encounter:location')
+        .sort('-date')
+        .count(50)
+        .build();
+
+      expect(params).toEqual({
+        'subject:Patient.name': 'peter',
+        '_has:Observation:encounter:code': '1234-5',
+        _include: 'Encounter:location',
+        _sort: '-date',
+        _count: '50',
+      });
+    });
+  });
+});
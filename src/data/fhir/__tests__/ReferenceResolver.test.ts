@@ -0,0 +1,110 @@
+/**
+ * ReferenceResolver Tests
+ * @jest-environment node
+ */
+
+import { attachReferences, normalizeReference, ReferenceResolver } from '../ReferenceResolver';
+import { FHIRResource, SourceMetadata } from '../../../domain/entities/FHIRTypes';
+
+// Mock logger
+jest.mock('../../../utils/logger', () => ({
+  Logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const serverUrl = 'https://fhir.example.com/r4';
+
+const source: SourceMetadata = {
+  providerId: 'provider-123',
+  providerName: 'Test Hospital',
+  serverUrl,
+  fetchedAt: '2024-01-01T00:00:00Z',
+};
+
+const report: FHIRResource & Record<string, unknown> = {
+  resourceType: 'DiagnosticReport',
+  id: 'report-1',
+  contained: [{ resourceType: 'Specimen', id: 'spec1' }],
+  specimen: [{ reference: '#spec1' }],
+  result: [{ reference: 'Observation/obs-1' }, { reference: `${serverUrl}/Observation/obs-2` }],
+  performer: [{ reference: 'Practitioner/pract-1/_history/3' }],
+};
+
+describe('normalizeReference', () => {
+  it('should strip the server base and version', () => {
+    expect(normalizeReference(`${serverUrl}/Observation/obs-2`, serverUrl)).toBe(
+      'Observation/obs-2'
+    );
+    expect(normalizeReference('Practitioner/pract-1/_history/3', serverUrl)).toBe(
+      'Practitioner/pract-1'
+    );
+  });
+
+  it('should leave other references unchanged', () => {
+    expect(normalizeReference('urn:uuid:1234', serverUrl)).toBe('urn:uuid:1234');
+    expect(normalizeReference('https://other.example.org/Patient/1', serverUrl)).toBe(
+      'https://other.example.org/Patient/1'
+    );
+  });
+});
+
+describe('attachReferences', () => {
+  it('should resolve contained and bundled references', () => {
+    const observation = { resourceType: 'Observation', id: 'obs-1' };
+    const provenance = {
+      resourceType: 'Provenance',
+      id: 'prov-1',
+      target: [{ reference: 'DiagnosticReport/report-1' }],
+    };
+
+    const [result] = attachReferences(
+      [{ resource: report, source }],
+      [{ resource: observation }, { resource: provenance }]
+    );
+
+    expect(result.references['#spec1']).toEqual({ resourceType: 'Specimen', id: 'spec1' });
+    expect(result.references['Observation/obs-1']).toBe(observation);
+    expect(result.references['Observation/obs-2']).toBeUndefined();
+    expect(result.referencedBy).toEqual([provenance]);
+  });
+});
+
+describe('ReferenceResolver', () => {
+  it('should read remote references with one batched search per type', async () => {
+    const search = jest.fn((resourceType: string) =>
+      Promise.resolve(
+        resourceType === 'Observation'
+          ? [
+              { resource: { resourceType: 'Observation', id: 'obs-1' }, source },
+              { resource: { resourceType: 'Observation', id: 'obs-2' }, source },
+            ]
+          : [{ resource: { resourceType: 'Practitioner', id: 'pract-1' }, source }]
+      )
+    );
+
+    const resolver = new ReferenceResolver({ search } as never);
+    const [result] = await resolver.resolve([{ resource: report, source }]);
+
+    expect(search).toHaveBeenCalledTimes(2);
+    expect(search).toHaveBeenCalledWith('Observation', { _id: 'obs-1,obs-2', _count: 2 });
+    expect(result.references[`${serverUrl}/Observation/obs-2`]).toEqual({
+      resourceType: 'Observation',
+      id: 'obs-2',
+    });
+    expect(result.references['Practitioner/pract-1/_history/3']).toBeDefined();
+  });
+
+  it('should keep partial results when a remote read fails', async () => {
+    const search = jest.fn().mockRejectedValue(new Error('Network Error'));
+
+    const resolver = new ReferenceResolver({ search });
+    const [result] = await resolver.resolve([{ resource: report, source }]);
+
+    expect(result.references['#spec1']).toBeDefined();
+    expect(result.references['Observation/obs-1']).toBeUndefined();
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * WriteOutbox Tests
+ * @jest-environment node
+ */
+
+import { WriteOutbox, OutboxStorageBackend, OUTBOX_IDENTIFIER_SYSTEM } from '../WriteOutbox';
+import { FHIRClient } from '../FHIRClient';
+import { FHIRVersionConflictError } from '../FHIRErrors';
+import { FHIRResource } from '../../../domain/entities/FHIRTypes';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// Reversible stand-in for secretbox so stored values can be inspected
+jest.mock('../../../infrastructure/encryption/E2EEncryption', () => ({
+  encryption: {
+    encryptLocal: jest.fn((data: string, ttlMs = 0) => ({
+      ciphertext: data.split('').reverse().join(''),
+      nonce: 'nonce',
+      algorithm: 'nacl-secretbox',
+      encryptedAt: new Date().toISOString(),
+      ttlMs,
+      version: 1,
+    })),
+    decryptLocal: jest.fn((payload: { ciphertext: string }) =>
+      payload.ciphertext.split('').reverse().join('')
+    ),
+  },
+}));
+
+jest.mock('../../../infrastructure/encryption/deviceKey', () => ({
+  loadDeviceKey: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock('../../../utils/logger', () => ({
+  Logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const createBackend = (): OutboxStorageBackend & { data: Map<string, string> } => {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: jest.fn(async (key: string) => data.get(key) ?? null),
+    setItem: jest.fn(async (key: string, value: string) => {
+      data.set(key, value);
+    }),
+    removeItem: jest.fn(async (key: string) => {
+      data.delete(key);
+    }),
+  };
+};
+
+const networkError = () => new Error('Network Error');
+
+const httpError = (status: number, diagnostics?: string) =>
+  Object.assign(new Error(`Request failed with status code ${status}`), {
+    response: {
+      status,
+      data: diagnostics
+        ? { resourceType: 'OperationOutcome', issue: [{ severity: 'error', diagnostics }] }
+        : undefined,
+    },
+  });
+
+const patient = (versionId: string, phone: string): FHIRResource =>
+  ({
+    resourceType: 'Patient',
+    id: 'pat-1',
+    meta: { versionId },
+    telecom: [{ system: 'phone', value: phone }],
+  }) as FHIRResource;
+
+const consent = (status: string): FHIRResource =>
+  ({ resourceType: 'Consent', id: 'c-1', meta: { versionId: '3' }, status }) as FHIRResource;
+
+const withSource = (resource: FHIRResource) => ({
+  resource,
+  source: {
+    providerId: 'p1',
+    providerName: 'General Hospital',
+    serverUrl: 'https://fhir.example.com',
+    fetchedAt: '2024-01-01T00:00:00Z',
+  },
+});
+
+describe('WriteOutbox', () => {
+  let backend: ReturnType<typeof createBackend>;
+  let client: { create: jest.Mock; update: jest.Mock };
+  let onSent: jest.Mock;
+  let outbox: WriteOutbox;
+
+  const createOutbox = () =>
+    new WriteOutbox({
+      getClient: async () => client as unknown as FHIRClient,
+      onSent,
+      storage: backend,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    backend = createBackend();
+    client = {
+      create: jest.fn(async (_type: string, resource: FHIRResource) => withSource(resource)),
+      update: jest.fn(async (_type: string, _id: string, resource: FHIRResource) =>
+        withSource({
+          ...resource,
+          meta: { versionId: String(Number(resource.meta?.versionId) + 1) },
+        })
+      ),
+    };
+    onSent = jest.fn();
+    outbox = createOutbox();
+  });
+
+  it('should send creates as conditional creates keyed by the item id', async () => {
+    const item = await outbox.enqueue(
+      'p1',
+      { kind: 'create', resource: { resourceType: 'Consent', status: 'active' } as FHIRResource },
+      'Share records'
+    );
+
+    expect(await outbox.replay()).toEqual({ sent: 1, remaining: 0 });
+
+    const identifier = { system: OUTBOX_IDENTIFIER_SYSTEM, value: `urn:uuid:${item.id}` };
+    expect(client.create).toHaveBeenCalledWith(
+      'Consent',
+      expect.objectContaining({ identifier: [identifier] }),
+      { ifNoneExist: { identifier: `${OUTBOX_IDENTIFIER_SYSTEM}|urn:uuid:${item.id}` } }
+    );
+    expect(onSent).toHaveBeenCalledWith(
+      item,
+      expect.objectContaining({ resource: expect.any(Object) })
+    );
+  });
+
+  it('should replay in order and stop at the first network failure', async () => {
+    await outbox.enqueue('p1', { kind: 'update', resource: patient('1', '555-0100') }, 'Phone');
+    await outbox.enqueue('p1', { kind: 'update', resource: consent('inactive') }, 'Consent');
+    client.update.mockRejectedValueOnce(networkError());
+
+    expect(await outbox.replay()).toEqual({ sent: 0, remaining: 2 });
+    expect(client.update).toHaveBeenCalledTimes(1);
+    expect((await outbox.getItems()).map(item => [item.status, item.attempts])).toEqual([
+      ['pending', 1],
+      ['pending', 0],
+    ]);
+
+    expect(await outbox.replay()).toEqual({ sent: 2, remaining: 0 });
+    expect(client.update.mock.calls.map(call => call[0])).toEqual([
+      'Patient',
+      'Patient',
+      'Consent',
+    ]);
+  });
+
+  it('should keep conflicts and rejected writes without holding up the queue', async () => {
+    await outbox.enqueue('p1', { kind: 'update', resource: patient('1', '555-0100') }, 'Phone');
+    await outbox.enqueue('p1', { kind: 'update', resource: consent('bogus') }, 'Consent');
+    await outbox.enqueue('p1', { kind: 'create', resource: { resourceType: 'Basic' } }, 'Note');
+    client.update
+      .mockRejectedValueOnce(new FHIRVersionConflictError(patient('1', '555-0100'), 'pat-1'))
+      .mockRejectedValueOnce(httpError(422, 'Invalid consent status'));
+
+    expect(await outbox.replay()).toEqual({ sent: 1, remaining: 2 });
+
+    const items = await outbox.getItems();
+    expect(items.map(item => item.status)).toEqual(['conflict', 'failed']);
+    expect(items[1].error).toBe('Invalid consent status');
+  });
+
+  it('should overwrite the server version when a conflict is resolved with force', async () => {
+    const item = await outbox.enqueue(
+      'p1',
+      { kind: 'update', resource: patient('1', '555-0100') },
+      'Phone'
+    );
+    client.update.mockRejectedValueOnce(
+      new FHIRVersionConflictError(patient('1', '555-0100'), 'pat-1')
+    );
+    await outbox.replay();
+
+    await outbox.retry(item.id, { force: true });
+    await outbox.replay();
+
+    expect(client.update).toHaveBeenLastCalledWith('Patient', 'pat-1', expect.any(Object), {
+      ifMatch: false,
+    });
+    expect(await outbox.getItems()).toEqual([]);
+  });
+
+  it('should rebase later edits of a resource onto the version just written', async () => {
+    await outbox.enqueue('p1', { kind: 'update', resource: patient('1', '555-0100') }, 'Phone');
+    await outbox.enqueue('p1', { kind: 'update', resource: patient('1', '555-0199') }, 'Phone');
+
+    await outbox.replay();
+
+    expect(client.update.mock.calls[1][2].meta.versionId).toBe('2');
+  });
+
+  it('should persist the queue encrypted and resume after a restart', async () => {
+    await outbox.enqueue('p1', { kind: 'update', resource: patient('1', '555-0100') }, 'Phone');
+
+    expect(backend.data.get('fhir_outbox')).not.toContain('555-0100');
+
+    const restarted = createOutbox();
+    expect((await restarted.getItems()).map(item => item.description)).toEqual(['Phone']);
+    expect(await restarted.replay()).toEqual({ sent: 1, remaining: 0 });
+  });
+
+  it('should report whether a submitted write was sent or queued', async () => {
+    expect(
+      await outbox.submit('p1', { kind: 'update', resource: patient('1', '555-0100') }, 'Phone')
+    ).toBe('sent');
+
+    client.update.mockRejectedValueOnce(httpError(503));
+    expect(
+      await outbox.submit('p1', { kind: 'update', resource: patient('2', '555-0199') }, 'Phone')
+    ).toBe('pending');
+  });
+});
@@ -0,0 +1,395 @@
+/**
+ * Sync Scheduler
+ *
+ * Syncs connected providers in the background while the app is in the
+ * foreground, and when it returns to the foreground:
+ * - A provider is due once its last sync is older than the configured interval
+ * - Due providers are synced one at a time, least recently synced first
+ * - A provider whose syncs keep failing is retried with exponential backoff
+ * - Automatic syncs can be held back on metered (cellular) connections
+ *
+ * Every sync, automatic or manual, is added to a per-provider history log.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { Provider } from '../../domain/entities/Provider';
+import { Logger } from '../../utils/logger';
+
+// Storage keys
+const SETTINGS_KEY = 'sync_settings';
+const HISTORY_KEY = 'sync_history';
+
+// How often due providers are looked for while running
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+// Entries kept per provider
+const HISTORY_LIMIT = 20;
+
+// Backoff after consecutive failures: 5 minutes, doubling, at most 6 hours
+export const BACKOFF_BASE_MS = 5 * 60 * 1000;
+export const BACKOFF_MAX_MS = 6 * 60 * 60 * 1000;
+
+export interface SyncSettings {
+  /** Minutes between automatic syncs of a provider; 0 turns them off */
+  intervalMinutes: number;
+  /** Hold automatic syncs back on metered connections */
+  respectMeteredConnection: boolean;
+}
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = {
+  intervalMinutes: 60,
+  respectMeteredConnection: true,
+};
+
+/**
+ * What started a sync
+ */
+export type SyncTrigger = 'manual' | 'interval' | 'resume';
+
+export interface SyncHistoryEntry {
+  trigger: SyncTrigger;
+  status: 'success' | 'failed';
+  /** Set for successful syncs */
+  mode?: 'full' | 'incremental';
+  startedAt: string;
+  finishedAt: string;
+  recordsFetched?: number;
+  recordsDeleted?: number;
+  error?: string;
+}
+
+/**
+ * Outcome of syncing a provider
+ */
+export interface SyncRunResult {
+  mode: 'full' | 'incremental';
+  recordsFetched: number;
+  recordsDeleted: number;
+}
+
+export interface SchedulableProvider {
+  provider: Provider;
+  /** `ProviderRecords.lastSync` */
+  lastSync: string | null;
+}
+
+/**
+ * Key-value storage for settings and history
+ */
+export type SyncStorageBackend = Pick<typeof AsyncStorage, 'getItem' | 'setItem' | 'removeItem'>;
+
+export interface SyncSchedulerConfig {
+  /** Connected providers that can be synced */
+  getProviders: () => SchedulableProvider[];
+  /** Sync one provider, throwing if the sync failed */
+  sync: (provider: Provider, options?: { fullResync?: boolean }) => Promise<SyncRunResult>;
+  getConnection: () => { isOnline: boolean; connectionType: string | null };
+  storage?: SyncStorageBackend;
+  now?: () => number;
+}
+
+/**
+ * Whether a connection type (from NetInfo) is usually metered
+ */
+export const isMeteredConnection = (connectionType: string | null): boolean =>
+  connectionType === 'cellular';
+
+/**
+ * When a provider may be synced automatically again, given its history
+ * (newest first), or null when its last sync did not fail
+ */
+export const getBackoffUntil = (history: SyncHistoryEntry[]): number | null => {
+  const failures = history.findIndex(entry => entry.status !== 'failed');
+  const consecutive = failures === -1 ? history.length : failures;
+  if (consecutive === 0) {
+    return null;
+  }
+
+  const delay = Math.min(BACKOFF_BASE_MS * 2 ** (consecutive - 1), BACKOFF_MAX_MS);
+  return Date.parse(history[0].finishedAt) + delay;
+};
+
+export class SyncScheduler {
+  private settings: SyncSettings | null = null;
+  private history: Record<string, SyncHistoryEntry[]> | null = null;
+  private loading: Promise<void> | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running: Promise<SyncHistoryEntry[]> | null = null;
+  private readonly inFlight = new Map<string, Promise<SyncHistoryEntry>>();
+  private readonly listeners = new Set<() => void>();
+  private readonly config: SyncSchedulerConfig;
+  private readonly storage: SyncStorageBackend;
+  private readonly now: () => number;
+
+  constructor(config: SyncSchedulerConfig) {
+    this.config = config;
+    this.storage = config.storage ?? AsyncStorage;
+    this.now = config.now ?? Date.now;
+  }
+
+  // ==========================================================================
+  // SETTINGS
+  // ==========================================================================
+
+  async getSettings(): Promise<SyncSettings> {
+    await this.load();
+    return { ...(this.settings ?? DEFAULT_SYNC_SETTINGS) };
+  }
+
+  async updateSettings(changes: Partial<SyncSettings>): Promise<SyncSettings> {
+    const settings = { ...(await this.getSettings()), ...changes };
+    this.settings = settings;
+    await this.storage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    this.notify();
+    return { ...settings };
+  }
+
+  // ==========================================================================
+  // HISTORY
+  // ==========================================================================
+
+  /**
+   * Get a provider's sync history, newest first
+   */
+  async getHistory(providerId: string): Promise<SyncHistoryEntry[]> {
+    await this.load();
+    return [...(this.history?.[providerId] ?? [])];
+  }
+
+  /**
+   * Forget a provider's history (e.g. when it is disconnected)
+   */
+  async removeProvider(providerId: string): Promise<void> {
+    await this.load();
+    if (this.history) {
+      delete this.history[providerId];
+    }
+    await this.saveHistory();
+  }
+
+  /**
+   * Forget every provider's history
+   *
+   * Call this on logout
+   */
+  async clearHistory(): Promise<void> {
+    this.history = {};
+    await this.storage.removeItem(HISTORY_KEY);
+    this.notify();
+  }
+
+  /**
+   * Notify a listener whenever settings or history change
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ==========================================================================
+  // SCHEDULING
+  // ==========================================================================
+
+  /**
+   * Sync due providers now and keep checking until stopped
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.runDue('interval').catch(error =>
+        Logger.error('Scheduled sync failed', { error: String(error) })
+      );
+    }, CHECK_INTERVAL_MS);
+
+    this.runDue('resume').catch(error =>
+      Logger.error('Scheduled sync failed', { error: String(error) })
+    );
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Sync every provider that is due and not backing off, least recently
+   * synced first
+   *
+   * Nothing is synced while offline, or on a metered connection when the
+   * settings say so. Returns the history entries of the syncs that ran.
+   */
+  async runDue(trigger: Exclude<SyncTrigger, 'manual'>): Promise<SyncHistoryEntry[]> {
+    if (!this.running) {
+      this.running = this.syncDueProviders(trigger).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Sync a provider right away, ignoring the interval and any backoff
+   *
+   * A sync already running for the provider is joined rather than repeated.
+   */
+  syncNow(
+    provider: Provider,
+    options?: { fullResync?: boolean; trigger?: SyncTrigger }
+  ): Promise<SyncHistoryEntry> {
+    const inFlight = this.inFlight.get(provider.id);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const sync = this.runSync(provider, options?.trigger ?? 'manual', options?.fullResync).finally(
+      () => {
+        this.inFlight.delete(provider.id);
+      }
+    );
+    this.inFlight.set(provider.id, sync);
+    return sync;
+  }
+
+  private async syncDueProviders(
+    trigger: Exclude<SyncTrigger, 'manual'>
+  ): Promise<SyncHistoryEntry[]> {
+    const settings = await this.getSettings();
+    if (settings.intervalMinutes <= 0) {
+      return [];
+    }
+
+    const intervalMs = settings.intervalMinutes * 60 * 1000;
+    // Never synced sorts first
+    const providers = [...this.config.getProviders()].sort((a, b) =>
+      (a.lastSync ?? '').localeCompare(b.lastSync ?? '')
+    );
+    const entries: SyncHistoryEntry[] = [];
+
+    for (const { provider, lastSync } of providers) {
+      if (!this.canSyncAutomatically(settings)) {
+        break;
+      }
+
+      const now = this.now();
+      const isDue = !lastSync || now - Date.parse(lastSync) >= intervalMs;
+      const backoffUntil = getBackoffUntil(this.history?.[provider.id] ?? []);
+      if (!isDue || (backoffUntil !== null && now < backoffUntil)) {
+        continue;
+      }
+
+      entries.push(await this.syncNow(provider, { trigger }));
+    }
+
+    return entries;
+  }
+
+  private canSyncAutomatically(settings: SyncSettings): boolean {
+    const { isOnline, connectionType } = this.config.getConnection();
+    return isOnline && !(settings.respectMeteredConnection && isMeteredConnection(connectionType));
+  }
+
+  private async runSync(
+    provider: Provider,
+    trigger: SyncTrigger,
+    fullResync?: boolean
+  ): Promise<SyncHistoryEntry> {
+    const startedAt = new Date(this.now()).toISOString();
+    let entry: SyncHistoryEntry;
+
+    try {
+      const result = await this.config.sync(provider, { fullResync });
+      entry = {
+        trigger,
+        status: 'success',
+        mode: result.mode,
+        startedAt,
+        finishedAt: new Date(this.now()).toISOString(),
+        recordsFetched: result.recordsFetched,
+        recordsDeleted: result.recordsDeleted,
+      };
+    } catch (error) {
+      entry = {
+        trigger,
+        status: 'failed',
+        startedAt,
+        finishedAt: new Date(this.now()).toISOString(),
+        error: error instanceof Error ? error.message : 'Sync failed',
+      };
+    }
+
+    Logger.info('Provider sync finished', {
+      providerId: provider.id,
+      trigger,
+      status: entry.status,
+    });
+
+    try {
+      await this.load();
+      const history = this.history ?? {};
+      history[provider.id] = [entry, ...(history[provider.id] ?? [])].slice(0, HISTORY_LIMIT);
+      this.history = history;
+      await this.saveHistory();
+    } catch (error) {
+      Logger.warn('Failed to save sync history', { error: String(error) });
+    }
+
+    return entry;
+  }
+
+  // ==========================================================================
+  // PERSISTENCE
+  // ==========================================================================
+
+  private load(): Promise<void> {
+    if (this.settings && this.history) {
+      return Promise.resolve();
+    }
+    if (!this.loading) {
+      this.loading = this.read().finally(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  private async read(): Promise<void> {
+    const [settings, history] = await Promise.all([
+      this.storage.getItem(SETTINGS_KEY),
+      this.storage.getItem(HISTORY_KEY),
+    ]);
+
+    try {
+      this.settings = {
+        ...DEFAULT_SYNC_SETTINGS,
+        ...(settings ? (JSON.parse(settings) as Partial<SyncSettings>) : {}),
+      };
+    } catch (error) {
+      this.settings = { ...DEFAULT_SYNC_SETTINGS };
+    }
+
+    try {
+      this.history = history ? (JSON.parse(history) as Record<string, SyncHistoryEntry[]>) : {};
+    } catch (error) {
+      this.history = {};
+    }
+  }
+
+  private async saveHistory(): Promise<void> {
+    await this.storage.setItem(HISTORY_KEY, JSON.stringify(this.history ?? {}));
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export default SyncScheduler;
@@ -0,0 +1,225 @@
+/**
+ * SyncScheduler Tests
+ * @jest-environment node
+ */
+
+import {
+  BACKOFF_BASE_MS,
+  BACKOFF_MAX_MS,
+  SchedulableProvider,
+  SyncHistoryEntry,
+  SyncScheduler,
+  SyncStorageBackend,
+  getBackoffUntil,
+} from '../SyncScheduler';
+import { Provider } from '../../../domain/entities/Provider';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('../../../utils/logger', () => ({
+  Logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const MINUTE = 60 * 1000;
+const NOW = Date.parse('2024-03-01T12:00:00Z');
+
+const createBackend = (): SyncStorageBackend & { data: Map<string, string> } => {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: jest.fn(async (key: string) => data.get(key) ?? null),
+    setItem: jest.fn(async (key: string, value: string) => {
+      data.set(key, value);
+    }),
+    removeItem: jest.fn(async (key: string) => {
+      data.delete(key);
+    }),
+  };
+};
+
+const provider = (id: string): Provider => ({ id, name: `Provider ${id}` }) as Provider;
+
+const minutesAgo = (minutes: number) => new Date(NOW - minutes * MINUTE).toISOString();
+
+const failure = (finishedAt: string): SyncHistoryEntry => ({
+  trigger: 'interval',
+  status: 'failed',
+  startedAt: finishedAt,
+  finishedAt,
+  error: 'Network Error',
+});
+
+describe('SyncScheduler', () => {
+  let backend: ReturnType<typeof createBackend>;
+  let providers: SchedulableProvider[];
+  let connection: { isOnline: boolean; connectionType: string | null };
+  let now: number;
+  let sync: jest.Mock;
+
+  const createScheduler = () =>
+    new SyncScheduler({
+      getProviders: () => providers,
+      sync,
+      getConnection: () => connection,
+      storage: backend,
+      now: () => now,
+    });
+
+  const syncedIds = () => sync.mock.calls.map(([synced]) => synced.id);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    backend = createBackend();
+    providers = [];
+    connection = { isOnline: true, connectionType: 'wifi' };
+    now = NOW;
+    sync = jest.fn(async () => ({ mode: 'incremental', recordsFetched: 3, recordsDeleted: 1 }));
+  });
+
+  it('should sync due providers least recently synced first', async () => {
+    providers = [
+      { provider: provider('recent'), lastSync: minutesAgo(10) },
+      { provider: provider('stale'), lastSync: minutesAgo(120) },
+      { provider: provider('new'), lastSync: null },
+      { provider: provider('older'), lastSync: minutesAgo(90) },
+    ];
+
+    const entries = await createScheduler().runDue('interval');
+
+    expect(syncedIds()).toEqual(['new', 'stale', 'older']);
+    expect(entries.map(entry => entry.trigger)).toEqual(['interval', 'interval', 'interval']);
+  });
+
+  it('should follow the configured interval and turn off at zero', async () => {
+    providers = [{ provider: provider('a'), lastSync: minutesAgo(20) }];
+    const scheduler = createScheduler();
+
+    await scheduler.updateSettings({ intervalMinutes: 15 });
+    await scheduler.runDue('resume');
+    expect(syncedIds()).toEqual(['a']);
+
+    await scheduler.updateSettings({ intervalMinutes: 0 });
+    await scheduler.runDue('resume');
+    expect(sync).toHaveBeenCalledTimes(1);
+  });
+
+  it('should hold automatic syncs back offline and on metered connections', async () => {
+    providers = [{ provider: provider('a'), lastSync: null }];
+    const scheduler = createScheduler();
+
+    connection = { isOnline: false, connectionType: null };
+    expect(await scheduler.runDue('interval')).toEqual([]);
+
+    connection = { isOnline: true, connectionType: 'cellular' };
+    expect(await scheduler.runDue('interval')).toEqual([]);
+
+    await scheduler.updateSettings({ respectMeteredConnection: false });
+    expect(await scheduler.runDue('interval')).toHaveLength(1);
+  });
+
+  it('should back off a failing provider without holding up the others', async () => {
+    providers = [
+      { provider: provider('failing'), lastSync: null },
+      { provider: provider('ok'), lastSync: null },
+    ];
+    sync.mockImplementation(async (synced: Provider) => {
+      if (synced.id === 'failing') {
+        throw new Error('Request failed with status code 503');
+      }
+      return { mode: 'full', recordsFetched: 0, recordsDeleted: 0 };
+    });
+    const scheduler = createScheduler();
+
+    await scheduler.runDue('interval');
+    expect(syncedIds()).toEqual(['failing', 'ok']);
+
+    sync.mockClear();
+    providers = [{ provider: provider('failing'), lastSync: null }];
+    now = NOW + BACKOFF_BASE_MS - 1;
+    await scheduler.runDue('interval');
+    expect(sync).not.toHaveBeenCalled();
+
+    now = NOW + BACKOFF_BASE_MS;
+    await scheduler.runDue('interval');
+    expect(syncedIds()).toEqual(['failing']);
+  });
+
+  it('should let manual syncs ignore backoff and record them in the history', async () => {
+    const scheduler = createScheduler();
+    sync.mockRejectedValueOnce(new Error('Network Error'));
+
+    const failed = await scheduler.syncNow(provider('a'));
+    const succeeded = await scheduler.syncNow(provider('a'), { fullResync: true });
+
+    expect(sync).toHaveBeenLastCalledWith(provider('a'), { fullResync: true });
+    expect(failed).toMatchObject({ trigger: 'manual', status: 'failed', error: 'Network Error' });
+    expect(succeeded).toMatchObject({ status: 'success', recordsFetched: 3, recordsDeleted: 1 });
+    expect(await scheduler.getHistory('a')).toEqual([succeeded, failed]);
+  });
+
+  it('should join a sync already running for the provider', async () => {
+    let finish: () => void = () => undefined;
+    sync.mockImplementationOnce(
+      () =>
+        new Promise(resolve => {
+          finish = () => resolve({ mode: 'full', recordsFetched: 0, recordsDeleted: 0 });
+        })
+    );
+    const scheduler = createScheduler();
+
+    const first = scheduler.syncNow(provider('a'));
+    const second = scheduler.syncNow(provider('a'));
+    finish();
+
+    expect(await second).toBe(await first);
+    expect(sync).toHaveBeenCalledTimes(1);
+  });
+
+  it('should persist settings and history across restarts', async () => {
+    const scheduler = createScheduler();
+    await scheduler.updateSettings({ intervalMinutes: 30 });
+    await scheduler.syncNow(provider('a'));
+
+    const restarted = createScheduler();
+    expect(await restarted.getSettings()).toEqual({
+      intervalMinutes: 30,
+      respectMeteredConnection: true,
+    });
+    expect(await restarted.getHistory('a')).toHaveLength(1);
+
+    await restarted.removeProvider('a');
+    expect(await createScheduler().getHistory('a')).toEqual([]);
+  });
+});
+
+describe('getBackoffUntil', () => {
+  it('should double the delay for each consecutive failure up to the maximum', () => {
+    const finishedAt = minutesAgo(0);
+
+    expect(getBackoffUntil([])).toBeNull();
+    expect(getBackoffUntil([failure(finishedAt)])).toBe(NOW + BACKOFF_BASE_MS);
+    expect(getBackoffUntil([failure(finishedAt), failure(minutesAgo(10))])).toBe(
+      NOW + 2 * BACKOFF_BASE_MS
+    );
+    expect(getBackoffUntil(Array(12).fill(failure(finishedAt)))).toBe(NOW + BACKOFF_MAX_MS);
+  });
+
+  it('should reset once a sync succeeds', () => {
+    const success: SyncHistoryEntry = {
+      trigger: 'manual',
+      status: 'success',
+      mode: 'full',
+      startedAt: minutesAgo(1),
+      finishedAt: minutesAgo(0),
+    };
+
+    expect(getBackoffUntil([success, failure(minutesAgo(5))])).toBeNull();
+  });
+});
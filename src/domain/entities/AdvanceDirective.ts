@@ -0,0 +1,172 @@
+/**
+ * Advance Directives
+ *
+ * Advance directives (living wills, healthcare powers of attorney, portable
+ * medical orders) are exchanged either as Consent resources with the `acd`
+ * category or as DocumentReferences with an advance-directive LOINC type.
+ * These helpers present both the same way.
+ *
+ * @see https://build.fhir.org/ig/HL7/fhir-pacio-adi/
+ */
+
+import { Attachment } from './FHIRTypes';
+import { Consent, ConsentHelpers } from './Consent';
+import { DocumentReference, DocumentReferenceHelpers } from './DocumentReference';
+
+export type AdvanceDirective = Consent | DocumentReference;
+
+/**
+ * Consent category for advance directives
+ */
+export const ADVANCE_DIRECTIVE_CONSENT_CATEGORY = {
+  system: 'http://terminology.hl7.org/CodeSystem/consentcategorycodes',
+  code: 'acd',
+} as const;
+
+/**
+ * LOINC document types for advance directives
+ */
+export const ADVANCE_DIRECTIVE_DOCUMENT_TYPES = {
+  ADVANCE_HEALTHCARE_DIRECTIVE: '42348-3',
+  ADVANCE_DIRECTIVE: '75320-2',
+  POWER_OF_ATTORNEY: '64298-3',
+  LIVING_WILL: '86533-7',
+  POWER_OF_ATTORNEY_AND_LIVING_WILL: '92664-2',
+  PORTABLE_MEDICAL_ORDER: '93037-0',
+} as const;
+
+/**
+ * The directive the patient chose to surface in an emergency
+ */
+export interface EmergencyDirective {
+  providerId: string;
+  /** "Consent/id" or "DocumentReference/id" */
+  reference: string;
+  title: string;
+  flaggedAt: string;
+}
+
+const LOINC_SYSTEM = 'http://loinc.org';
+
+const ADVANCE_DIRECTIVE_CODES = new Set<string>(Object.values(ADVANCE_DIRECTIVE_DOCUMENT_TYPES));
+
+/**
+ * Helper functions for advance directives
+ */
+export const AdvanceDirectiveHelpers = {
+  /**
+   * Check if a Consent is an advance directive
+   */
+  isAdvanceDirectiveConsent(consent: Consent): boolean {
+    return consent.category.some(category =>
+      category.coding?.some(coding => coding.code === ADVANCE_DIRECTIVE_CONSENT_CATEGORY.code)
+    );
+  },
+
+  /**
+   * Check if a DocumentReference is an advance directive
+   */
+  isAdvanceDirectiveDocument(document: DocumentReference): boolean {
+    return [document.type, ...(document.category || [])].some(concept =>
+      concept?.coding?.some(
+        coding =>
+          (!coding.system || coding.system === LOINC_SYSTEM) &&
+          !!coding.code &&
+          ADVANCE_DIRECTIVE_CODES.has(coding.code)
+      )
+    );
+  },
+
+  /**
+   * Get the "Type/id" reference for a directive
+   */
+  getReference(directive: AdvanceDirective): string | undefined {
+    return directive.id ? `${directive.resourceType}/${directive.id}` : undefined;
+  },
+
+  /**
+   * Get the directive title (e.g. "Living Will")
+   */
+  getTitle(directive: AdvanceDirective): string {
+    if (directive.resourceType === 'DocumentReference') {
+      return DocumentReferenceHelpers.getTitle(directive);
+    }
+    return (
+      directive.sourceAttachment?.title ||
+      directive.policyRule?.text ||
+      directive.policyRule?.coding?.[0]?.display ||
+      'Advance Directive'
+    );
+  },
+
+  /**
+   * Get the date the directive was recorded
+   */
+  getDate(directive: AdvanceDirective): Date | undefined {
+    return directive.resourceType === 'DocumentReference'
+      ? DocumentReferenceHelpers.getDate(directive)
+      : ConsentHelpers.getDateTime(directive);
+  },
+
+  /**
+   * Get status display string
+   */
+  getStatusDisplay(directive: AdvanceDirective): string {
+    if (directive.resourceType === 'Consent') {
+      return ConsentHelpers.getStatusDisplay(directive);
+    }
+    const statusMap: Record<DocumentReference['status'], string> = {
+      current: 'Current',
+      superseded: 'Superseded',
+      'entered-in-error': 'Entered in Error',
+    };
+    return statusMap[directive.status] || directive.status;
+  },
+
+  /**
+   * Check if the directive is in effect
+   */
+  isCurrent(directive: AdvanceDirective): boolean {
+    return directive.resourceType === 'Consent'
+      ? ConsentHelpers.isActive(directive) && !ConsentHelpers.isExpired(directive)
+      : directive.status === 'current';
+  },
+
+  /**
+   * Get the attachments holding the directive document
+   */
+  getAttachments(directive: AdvanceDirective): Attachment[] {
+    if (directive.resourceType === 'DocumentReference') {
+      return DocumentReferenceHelpers.getAttachments(directive);
+    }
+    const attachment = directive.sourceAttachment;
+    return attachment && (attachment.data || attachment.url) ? [attachment] : [];
+  },
+
+  /**
+   * Get the attachment to open: the first one the app can display
+   */
+  getPrimaryAttachment(directive: AdvanceDirective): Attachment | undefined {
+    const attachments = AdvanceDirectiveHelpers.getAttachments(directive);
+    return (
+      attachments.find(attachment =>
+        DocumentReferenceHelpers.getViewerType(attachment.contentType)
+      ) || attachments[0]
+    );
+  },
+
+  /**
+   * Sort directives with those in effect first, then most recent first
+   */
+  sortDirectives(directives: AdvanceDirective[]): AdvanceDirective[] {
+    const getTime = (directive: AdvanceDirective) =>
+      AdvanceDirectiveHelpers.getDate(directive)?.getTime() ?? 0;
+    return [...directives].sort(
+      (a, b) =>
+        Number(AdvanceDirectiveHelpers.isCurrent(b)) -
+          Number(AdvanceDirectiveHelpers.isCurrent(a)) || getTime(b) - getTime(a)
+    );
+  },
+};
+
+export default AdvanceDirectiveHelpers;
@@ -0,0 +1,193 @@
+/**
+ * FHIR R4 AllergyIntolerance Entity
+ *
+ * Represents allergies and intolerances, including their criticality
+ * and recorded reactions
+ *
+ * @see https://www.hl7.org/fhir/r4/allergyintolerance.html
+ */
+
+import {
+  FHIRResource,
+  CodeableConcept,
+  Reference,
+  Identifier,
+  Period,
+  Range,
+  Annotation,
+} from './FHIRTypes';
+
+export type AllergyClinicalStatus = 'active' | 'inactive' | 'resolved';
+
+export type AllergyVerificationStatus =
+  | 'unconfirmed'
+  | 'confirmed'
+  | 'refuted'
+  | 'entered-in-error';
+
+export type AllergyType = 'allergy' | 'intolerance';
+
+export type AllergyCategory = 'food' | 'medication' | 'environment' | 'biologic';
+
+export type AllergyCriticality = 'low' | 'high' | 'unable-to-assess';
+
+export type AllergyReactionSeverity = 'mild' | 'moderate' | 'severe';
+
+export interface AllergyReaction {
+  substance?: CodeableConcept;
+  manifestation: CodeableConcept[];
+  description?: string;
+  onset?: string;
+  severity?: AllergyReactionSeverity;
+  exposureRoute?: CodeableConcept;
+  note?: Annotation[];
+}
+
+export interface AllergyIntolerance extends FHIRResource {
+  resourceType: 'AllergyIntolerance';
+  identifier?: Identifier[];
+  clinicalStatus?: CodeableConcept;
+  verificationStatus?: CodeableConcept;
+  type?: AllergyType;
+  category?: AllergyCategory[];
+  criticality?: AllergyCriticality;
+  code?: CodeableConcept;
+  patient: Reference;
+  encounter?: Reference;
+  onsetDateTime?: string;
+  onsetAge?: { value?: number; unit?: string };
+  onsetPeriod?: Period;
+  onsetRange?: Range;
+  onsetString?: string;
+  recordedDate?: string;
+  recorder?: Reference;
+  asserter?: Reference;
+  lastOccurrence?: string;
+  note?: Annotation[];
+  reaction?: AllergyReaction[];
+}
+
+/**
+ * Helper functions for AllergyIntolerance entity
+ */
+export const AllergyIntoleranceHelpers = {
+  /**
+   * Get the substance display name
+   */
+  getDisplayName(allergy: AllergyIntolerance): string {
+    return (
+      allergy.code?.text ||
+      allergy.code?.coding?.[0]?.display ||
+      allergy.reaction?.[0]?.substance?.text ||
+      allergy.code?.coding?.[0]?.code ||
+      'Unknown substance'
+    );
+  },
+
+  /**
+   * Get the clinical status code
+   */
+  getClinicalStatus(allergy: AllergyIntolerance): AllergyClinicalStatus | undefined {
+    return allergy.clinicalStatus?.coding?.[0]?.code as AllergyClinicalStatus | undefined;
+  },
+
+  /**
+   * Get the verification status code
+   */
+  getVerificationStatus(allergy: AllergyIntolerance): AllergyVerificationStatus | undefined {
+    return allergy.verificationStatus?.coding?.[0]?.code as AllergyVerificationStatus | undefined;
+  },
+
+  /**
+   * Check if the allergy is active (no clinical status means active)
+   */
+  isActive(allergy: AllergyIntolerance): boolean {
+    const status = AllergyIntoleranceHelpers.getClinicalStatus(allergy);
+    return !status || status === 'active';
+  },
+
+  /**
+   * Check if the allergy was ruled out or recorded in error
+   */
+  isRefuted(allergy: AllergyIntolerance): boolean {
+    const status = AllergyIntoleranceHelpers.getVerificationStatus(allergy);
+    return status === 'refuted' || status === 'entered-in-error';
+  },
+
+  /**
+   * Check if the allergy is active, not refuted and of high criticality
+   */
+  isHighCriticality(allergy: AllergyIntolerance): boolean {
+    return (
+      allergy.criticality === 'high' &&
+      AllergyIntoleranceHelpers.isActive(allergy) &&
+      !AllergyIntoleranceHelpers.isRefuted(allergy)
+    );
+  },
+
+  /**
+   * Get criticality display string
+   */
+  getCriticalityDisplay(allergy: AllergyIntolerance): string {
+    const criticalityMap: Record<AllergyCriticality, string> = {
+      low: 'Low Risk',
+      high: 'High Risk',
+      'unable-to-assess': 'Unable to Assess',
+    };
+    return allergy.criticality ? criticalityMap[allergy.criticality] : 'Unknown Risk';
+  },
+
+  /**
+   * Get the distinct reaction manifestations (e.g. "Hives", "Anaphylaxis")
+   */
+  getManifestations(allergy: AllergyIntolerance): string[] {
+    const manifestations = (allergy.reaction || []).flatMap(reaction =>
+      reaction.manifestation.map(m => m.text || m.coding?.[0]?.display || m.coding?.[0]?.code)
+    );
+    return Array.from(new Set(manifestations.filter((m): m is string => !!m)));
+  },
+
+  /**
+   * Get the most severe recorded reaction severity
+   */
+  getMaxReactionSeverity(allergy: AllergyIntolerance): AllergyReactionSeverity | undefined {
+    const order: AllergyReactionSeverity[] = ['severe', 'moderate', 'mild'];
+    const severities = (allergy.reaction || []).map(r => r.severity);
+    return order.find(severity => severities.includes(severity));
+  },
+
+  /**
+   * Get the onset as display string
+   */
+  getOnsetDisplay(allergy: AllergyIntolerance): string | undefined {
+    const onsetDate = allergy.onsetDateTime || allergy.onsetPeriod?.start;
+    if (onsetDate) {
+      return new Date(onsetDate).toLocaleDateString();
+    }
+    if (allergy.onsetAge?.value !== undefined) {
+      return `Age ${allergy.onsetAge.value}`;
+    }
+    return allergy.onsetString;
+  },
+
+  /**
+   * Check if this is a medication allergy
+   */
+  isMedicationAllergy(allergy: AllergyIntolerance): boolean {
+    return allergy.category?.includes('medication') ?? false;
+  },
+
+  /**
+   * Get active, non-refuted allergies sorted with high criticality first
+   */
+  getActiveSorted(allergies: AllergyIntolerance[]): AllergyIntolerance[] {
+    const rank = (allergy: AllergyIntolerance) =>
+      allergy.criticality === 'high' ? 0 : allergy.criticality === 'low' ? 2 : 1;
+
+    return allergies
+      .filter(a => AllergyIntoleranceHelpers.isActive(a) && !AllergyIntoleranceHelpers.isRefuted(a))
+      .sort((a, b) => rank(a) - rank(b));
+  },
+};
+
+export default AllergyIntolerance;
@@ -0,0 +1,253 @@
+/**
+ * FHIR R4 Appointment Entity
+ *
+ * Represents a booking of a healthcare event among patient(s),
+ * practitioner(s), related person(s) and/or device(s) for a specific
+ * date/time.
+ *
+ * @see https://www.hl7.org/fhir/r4/appointment.html
+ */
+
+import { FHIRResource, CodeableConcept, Reference, Identifier, Period } from './FHIRTypes';
+import { Slot } from './Slot';
+
+export type AppointmentStatus =
+  | 'proposed'
+  | 'pending'
+  | 'booked'
+  | 'arrived'
+  | 'fulfilled'
+  | 'cancelled'
+  | 'noshow'
+  | 'entered-in-error'
+  | 'checked-in'
+  | 'waitlist';
+
+export type AppointmentParticipantStatus = 'accepted' | 'declined' | 'tentative' | 'needs-action';
+
+export interface AppointmentParticipant {
+  type?: CodeableConcept[];
+  actor?: Reference;
+  required?: 'required' | 'optional' | 'information-only';
+  status: AppointmentParticipantStatus;
+  period?: Period;
+}
+
+export interface Appointment extends FHIRResource {
+  resourceType: 'Appointment';
+  identifier?: Identifier[];
+  status: AppointmentStatus;
+  cancelationReason?: CodeableConcept;
+  serviceCategory?: CodeableConcept[];
+  serviceType?: CodeableConcept[];
+  specialty?: CodeableConcept[];
+  appointmentType?: CodeableConcept;
+  reasonCode?: CodeableConcept[];
+  reasonReference?: Reference[];
+  priority?: number;
+  description?: string;
+  supportingInformation?: Reference[];
+  start?: string;
+  end?: string;
+  minutesDuration?: number;
+  slot?: Reference[];
+  created?: string;
+  comment?: string;
+  patientInstruction?: string;
+  basedOn?: Reference[];
+  participant: AppointmentParticipant[];
+  requestedPeriod?: Period[];
+}
+
+/**
+ * Statuses after which an appointment can no longer change
+ */
+const CLOSED_STATUSES: AppointmentStatus[] = [
+  'fulfilled',
+  'cancelled',
+  'noshow',
+  'entered-in-error',
+];
+
+/**
+ * Get the resource type of a participant's actor reference
+ */
+const getActorType = (participant: AppointmentParticipant): string | undefined =>
+  participant.actor?.type || participant.actor?.reference?.split('/').slice(-2)[0];
+
+/**
+ * Helper functions for Appointment entity
+ */
+export const AppointmentHelpers = {
+  /**
+   * Get the appointment title
+   */
+  getTitle(appointment: Appointment): string {
+    const serviceType = appointment.serviceType?.[0];
+    return (
+      appointment.description ||
+      serviceType?.text ||
+      serviceType?.coding?.[0]?.display ||
+      appointment.appointmentType?.text ||
+      appointment.appointmentType?.coding?.[0]?.display ||
+      'Appointment'
+    );
+  },
+
+  /**
+   * Get the start time
+   */
+  getStartDate(appointment: Appointment): Date | undefined {
+    return appointment.start ? new Date(appointment.start) : undefined;
+  },
+
+  /**
+   * Get the date and time as display string
+   */
+  getDateTimeDisplay(appointment: Appointment): string {
+    const start = AppointmentHelpers.getStartDate(appointment);
+    if (!start) {
+      return 'Time to be confirmed';
+    }
+
+    const date = start.toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+    const time = start.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+    return `${date} at ${time}`;
+  },
+
+  /**
+   * Get the duration in minutes
+   */
+  getDurationMinutes(appointment: Appointment): number | undefined {
+    if (appointment.minutesDuration) {
+      return appointment.minutesDuration;
+    }
+    if (appointment.start && appointment.end) {
+      const duration = new Date(appointment.end).getTime() - new Date(appointment.start).getTime();
+      return Math.round(duration / 60000);
+    }
+    return undefined;
+  },
+
+  /**
+   * Get the display name of the first participant of a resource type
+   */
+  getParticipantDisplay(appointment: Appointment, resourceType: string): string | undefined {
+    return appointment.participant.find(p => getActorType(p) === resourceType)?.actor?.display;
+  },
+
+  /**
+   * Get the practitioner's display name
+   */
+  getPractitionerDisplay(appointment: Appointment): string | undefined {
+    return AppointmentHelpers.getParticipantDisplay(appointment, 'Practitioner');
+  },
+
+  /**
+   * Get the location display name
+   */
+  getLocationDisplay(appointment: Appointment): string | undefined {
+    return AppointmentHelpers.getParticipantDisplay(appointment, 'Location');
+  },
+
+  /**
+   * Get status display string
+   */
+  getStatusDisplay(appointment: Appointment): string {
+    const statusMap: Record<AppointmentStatus, string> = {
+      proposed: 'Proposed',
+      pending: 'Pending',
+      booked: 'Booked',
+      arrived: 'Arrived',
+      fulfilled: 'Completed',
+      cancelled: 'Cancelled',
+      noshow: 'Missed',
+      'entered-in-error': 'Entered in Error',
+      'checked-in': 'Checked In',
+      waitlist: 'Waitlisted',
+    };
+    return statusMap[appointment.status] || appointment.status;
+  },
+
+  /**
+   * Check if the appointment is still to come (open and not yet started)
+   */
+  isUpcoming(appointment: Appointment, now: Date = new Date()): boolean {
+    if (CLOSED_STATUSES.includes(appointment.status)) {
+      return false;
+    }
+    const start = AppointmentHelpers.getStartDate(appointment);
+    return !start || start.getTime() >= now.getTime();
+  },
+
+  /**
+   * Check if the patient may still cancel the appointment
+   */
+  canCancel(appointment: Appointment, now: Date = new Date()): boolean {
+    return (
+      ['proposed', 'pending', 'booked', 'waitlist'].includes(appointment.status) &&
+      AppointmentHelpers.isUpcoming(appointment, now)
+    );
+  },
+
+  /**
+   * Split appointments into upcoming (soonest first) and past (most recent first)
+   */
+  splitUpcomingPast(
+    appointments: Appointment[],
+    now: Date = new Date()
+  ): { upcoming: Appointment[]; past: Appointment[] } {
+    const getTime = (appointment: Appointment) =>
+      AppointmentHelpers.getStartDate(appointment)?.getTime() ?? Number.MAX_SAFE_INTEGER;
+
+    const visible = appointments.filter(a => a.status !== 'entered-in-error');
+    const upcoming = visible
+      .filter(a => AppointmentHelpers.isUpcoming(a, now))
+      .sort((a, b) => getTime(a) - getTime(b));
+    const past = visible
+      .filter(a => !AppointmentHelpers.isUpcoming(a, now))
+      .sort((a, b) => getTime(b) - getTime(a));
+
+    return { upcoming, past };
+  },
+
+  /**
+   * Build a booking request for a free slot
+   *
+   * The practitioner and location come from the slot's schedule actors.
+   */
+  createBookingRequest(
+    slot: Slot,
+    patient: Reference,
+    scheduleActors: Reference[] = [],
+    comment?: string
+  ): Appointment {
+    return {
+      resourceType: 'Appointment',
+      status: 'proposed',
+      serviceType: slot.serviceType,
+      specialty: slot.specialty,
+      appointmentType: slot.appointmentType,
+      start: slot.start,
+      end: slot.end,
+      slot: [{ reference: `Slot/${slot.id}` }],
+      created: new Date().toISOString(),
+      comment,
+      participant: [
+        { actor: patient, required: 'required', status: 'accepted' },
+        ...scheduleActors.map(actor => ({
+          actor,
+          required: 'required' as const,
+          status: 'needs-action' as const,
+        })),
+      ],
+    };
+  },
+};
+
+export default Appointment;
@@ -0,0 +1,214 @@
+/**
+ * FHIR R4 CapabilityStatement Entity
+ *
+ * Describes what a FHIR server supports. The app reduces it to a
+ * ServerCapabilities summary per provider so features can be skipped
+ * up front instead of failing with 4xx errors.
+ *
+ * @see https://www.hl7.org/fhir/r4/capabilitystatement.html
+ */
+
+import { FHIRResource } from './FHIRTypes';
+
+export type TypeRestfulInteraction =
+  | 'read'
+  | 'vread'
+  | 'update'
+  | 'patch'
+  | 'delete'
+  | 'history-instance'
+  | 'history-type'
+  | 'create'
+  | 'search-type';
+
+export type SystemRestfulInteraction = 'transaction' | 'batch' | 'search-system' | 'history-system';
+
+export interface CapabilityStatementSearchParam {
+  name: string;
+  definition?: string;
+  type: string;
+  documentation?: string;
+}
+
+export interface CapabilityStatementOperation {
+  name: string;
+  definition: string;
+  documentation?: string;
+}
+
+export interface CapabilityStatementResource {
+  type: string;
+  profile?: string;
+  interaction?: Array<{ code: TypeRestfulInteraction; documentation?: string }>;
+  versioning?: 'no-version' | 'versioned' | 'versioned-update';
+  conditionalCreate?: boolean;
+  conditionalUpdate?: boolean;
+  searchInclude?: string[];
+  searchRevInclude?: string[];
+  searchParam?: CapabilityStatementSearchParam[];
+  operation?: CapabilityStatementOperation[];
+}
+
+export interface CapabilityStatementRest {
+  mode: 'client' | 'server';
+  resource?: CapabilityStatementResource[];
+  interaction?: Array<{ code: SystemRestfulInteraction; documentation?: string }>;
+  searchParam?: CapabilityStatementSearchParam[];
+  operation?: CapabilityStatementOperation[];
+}
+
+export interface CapabilityStatement extends FHIRResource {
+  resourceType: 'CapabilityStatement';
+  status: 'draft' | 'active' | 'retired' | 'unknown';
+  date: string;
+  kind: 'instance' | 'capability' | 'requirements';
+  fhirVersion: string;
+  format: string[];
+  software?: { name: string; version?: string };
+  implementation?: { description: string; url?: string };
+  rest?: CapabilityStatementRest[];
+}
+
+/**
+ * What a server supports for a single resource type
+ */
+export interface ResourceCapabilities {
+  interactions: TypeRestfulInteraction[];
+  searchParams: string[];
+  operations: string[];
+  searchInclude: string[];
+  searchRevInclude: string[];
+  conditionalCreate: boolean;
+  conditionalUpdate: boolean;
+}
+
+/**
+ * Summary of a server's CapabilityStatement, stored on the Provider
+ */
+export interface ServerCapabilities {
+  fhirVersion: string;
+  software?: string;
+  /** Capabilities keyed by resource type */
+  resources: Record<string, ResourceCapabilities>;
+  /** System-level interactions (transaction, batch, ...) */
+  interactions: SystemRestfulInteraction[];
+  /** System-level operations (e.g. "export") */
+  operations: string[];
+  /** When the CapabilityStatement was read */
+  fetchedAt: string;
+}
+
+/**
+ * Normalize an operation name ("$everything" and "everything" are the same)
+ */
+const normalizeOperation = (name: string): string => name.replace(/^\$/, '');
+
+/**
+ * Helper functions for CapabilityStatement
+ *
+ * The `supports*` helpers return true when capabilities are unknown, so a
+ * provider whose CapabilityStatement could not be read keeps working as before.
+ */
+export const CapabilityHelpers = {
+  /**
+   * Reduce a CapabilityStatement to the server's capabilities
+   */
+  parse(statement: CapabilityStatement): ServerCapabilities {
+    const rest = statement.rest?.find(r => r.mode === 'server') ?? statement.rest?.[0];
+    const resources: Record<string, ResourceCapabilities> = {};
+
+    rest?.resource?.forEach(resource => {
+      resources[resource.type] = {
+        interactions: resource.interaction?.map(i => i.code) ?? [],
+        searchParams: resource.searchParam?.map(p => p.name) ?? [],
+        operations: resource.operation?.map(o => normalizeOperation(o.name)) ?? [],
+        searchInclude: resource.searchInclude ?? [],
+        searchRevInclude: resource.searchRevInclude ?? [],
+        conditionalCreate: resource.conditionalCreate ?? false,
+        conditionalUpdate: resource.conditionalUpdate ?? false,
+      };
+    });
+
+    return {
+      fhirVersion: statement.fhirVersion,
+      software: statement.software
+        ? [statement.software.name, statement.software.version].filter(Boolean).join(' ')
+        : undefined,
+      resources,
+      interactions: rest?.interaction?.map(i => i.code) ?? [],
+      operations: rest?.operation?.map(o => normalizeOperation(o.name)) ?? [],
+      fetchedAt: new Date().toISOString(),
+    };
+  },
+
+  /**
+   * Get the resource types the server supports
+   */
+  getSupportedResources(capabilities: ServerCapabilities): string[] {
+    return Object.keys(capabilities.resources).sort();
+  },
+
+  /**
+   * Check if the server supports a resource type at all
+   */
+  supportsResource(capabilities: ServerCapabilities | undefined, resourceType: string): boolean {
+    return !capabilities || resourceType in capabilities.resources;
+  },
+
+  /**
+   * Check if the server supports an interaction on a resource type
+   */
+  supportsInteraction(
+    capabilities: ServerCapabilities | undefined,
+    resourceType: string,
+    interaction: TypeRestfulInteraction
+  ): boolean {
+    if (!capabilities) {
+      return true;
+    }
+    return capabilities.resources[resourceType]?.interactions.includes(interaction) ?? false;
+  },
+
+  /**
+   * Check if the server supports searching a resource type
+   */
+  supportsSearch(capabilities: ServerCapabilities | undefined, resourceType: string): boolean {
+    return CapabilityHelpers.supportsInteraction(capabilities, resourceType, 'search-type');
+  },
+
+  /**
+   * Check if the server supports a search parameter on a resource type
+   */
+  supportsSearchParam(
+    capabilities: ServerCapabilities | undefined,
+    resourceType: string,
+    name: string
+  ): boolean {
+    if (!capabilities) {
+      return true;
+    }
+    return capabilities.resources[resourceType]?.searchParams.includes(name) ?? false;
+  },
+
+  /**
+   * Check if the server supports an operation, on a resource type or system-wide
+   */
+  supportsOperation(
+    capabilities: ServerCapabilities | undefined,
+    name: string,
+    resourceType?: string
+  ): boolean {
+    if (!capabilities) {
+      return true;
+    }
+
+    const operation = normalizeOperation(name);
+    const typeOperations = resourceType ? capabilities.resources[resourceType]?.operations : [];
+
+    return (
+      (typeOperations?.includes(operation) ?? false) || capabilities.operations.includes(operation)
+    );
+  },
+};
+
+export default CapabilityStatement;
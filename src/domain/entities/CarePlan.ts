@@ -0,0 +1,228 @@
+/**
+ * FHIR R4 CarePlan Entity
+ *
+ * Describes the intention of how one or more practitioners intend to
+ * deliver care for a patient: its activities, goals and care team.
+ *
+ * @see https://www.hl7.org/fhir/r4/careplan.html
+ */
+
+import {
+  FHIRResource,
+  CodeableConcept,
+  Reference,
+  Identifier,
+  Period,
+  Annotation,
+} from './FHIRTypes';
+
+export type CarePlanStatus =
+  | 'draft'
+  | 'active'
+  | 'on-hold'
+  | 'revoked'
+  | 'completed'
+  | 'entered-in-error'
+  | 'unknown';
+
+export type CarePlanIntent = 'proposal' | 'plan' | 'order' | 'option';
+
+export type CarePlanActivityStatus =
+  | 'not-started'
+  | 'scheduled'
+  | 'in-progress'
+  | 'on-hold'
+  | 'completed'
+  | 'cancelled'
+  | 'stopped'
+  | 'unknown'
+  | 'entered-in-error';
+
+export interface CarePlanActivityDetail {
+  kind?: string;
+  code?: CodeableConcept;
+  reasonCode?: CodeableConcept[];
+  goal?: Reference[];
+  status: CarePlanActivityStatus;
+  statusReason?: CodeableConcept;
+  doNotPerform?: boolean;
+  scheduledPeriod?: Period;
+  scheduledString?: string;
+  location?: Reference;
+  performer?: Reference[];
+  description?: string;
+}
+
+export interface CarePlanActivity {
+  outcomeCodeableConcept?: CodeableConcept[];
+  outcomeReference?: Reference[];
+  progress?: Annotation[];
+  reference?: Reference;
+  detail?: CarePlanActivityDetail;
+}
+
+export interface CarePlan extends FHIRResource {
+  resourceType: 'CarePlan';
+  identifier?: Identifier[];
+  basedOn?: Reference[];
+  replaces?: Reference[];
+  partOf?: Reference[];
+  status: CarePlanStatus;
+  intent: CarePlanIntent;
+  category?: CodeableConcept[];
+  title?: string;
+  description?: string;
+  subject: Reference;
+  encounter?: Reference;
+  period?: Period;
+  created?: string;
+  author?: Reference;
+  contributor?: Reference[];
+  careTeam?: Reference[];
+  addresses?: Reference[];
+  goal?: Reference[];
+  activity?: CarePlanActivity[];
+  note?: Annotation[];
+}
+
+/**
+ * Get the ID from a relative or absolute reference to a resource type
+ */
+const getReferenceId = (reference: Reference, resourceType: string): string | undefined => {
+  const [type, id] = (reference.reference || '').split('/').slice(-2);
+  return type === resourceType ? id : undefined;
+};
+
+/**
+ * Helper functions for CarePlan entity
+ */
+export const CarePlanHelpers = {
+  /**
+   * Get the plan title
+   */
+  getTitle(carePlan: CarePlan): string {
+    const category = carePlan.category?.[0];
+    return (
+      carePlan.title ||
+      category?.text ||
+      category?.coding?.[0]?.display ||
+      carePlan.description ||
+      'Care Plan'
+    );
+  },
+
+  /**
+   * Get status display string
+   */
+  getStatusDisplay(carePlan: CarePlan): string {
+    const statusMap: Record<CarePlanStatus, string> = {
+      draft: 'Draft',
+      active: 'Active',
+      'on-hold': 'On Hold',
+      revoked: 'Revoked',
+      completed: 'Completed',
+      'entered-in-error': 'Entered in Error',
+      unknown: 'Unknown',
+    };
+    return statusMap[carePlan.status] || carePlan.status;
+  },
+
+  /**
+   * Get the period as display string
+   */
+  getPeriodDisplay(carePlan: CarePlan): string | undefined {
+    const { start, end } = carePlan.period || {};
+    if (!start) {
+      return undefined;
+    }
+    const startDisplay = new Date(start).toLocaleDateString();
+    return end
+      ? `${startDisplay} - ${new Date(end).toLocaleDateString()}`
+      : `Since ${startDisplay}`;
+  },
+
+  /**
+   * Check if the plan is in effect
+   */
+  isActive(carePlan: CarePlan): boolean {
+    return carePlan.status === 'active' || carePlan.status === 'on-hold';
+  },
+
+  /**
+   * Get the IDs of the plan's goals
+   */
+  getGoalIds(carePlan: CarePlan): string[] {
+    return (carePlan.goal || [])
+      .map(goal => getReferenceId(goal, 'Goal'))
+      .filter((id): id is string => !!id);
+  },
+
+  /**
+   * Get the IDs of the plan's care teams
+   */
+  getCareTeamIds(carePlan: CarePlan): string[] {
+    return (carePlan.careTeam || [])
+      .map(team => getReferenceId(team, 'CareTeam'))
+      .filter((id): id is string => !!id);
+  },
+
+  /**
+   * Get the activities worth showing (not cancelled or recorded in error)
+   */
+  getActivities(carePlan: CarePlan): CarePlanActivity[] {
+    return (carePlan.activity || []).filter(
+      activity =>
+        activity.detail?.status !== 'entered-in-error' && activity.detail?.status !== 'cancelled'
+    );
+  },
+
+  /**
+   * Get an activity's display name
+   */
+  getActivityName(activity: CarePlanActivity): string {
+    const code = activity.detail?.code;
+    return (
+      code?.text ||
+      code?.coding?.[0]?.display ||
+      activity.detail?.description ||
+      activity.reference?.display ||
+      'Activity'
+    );
+  },
+
+  /**
+   * Get an activity's status display string
+   */
+  getActivityStatusDisplay(activity: CarePlanActivity): string | undefined {
+    const status = activity.detail?.status;
+    if (!status) {
+      return undefined;
+    }
+    const statusMap: Record<CarePlanActivityStatus, string> = {
+      'not-started': 'Not Started',
+      scheduled: 'Scheduled',
+      'in-progress': 'In Progress',
+      'on-hold': 'On Hold',
+      completed: 'Completed',
+      cancelled: 'Cancelled',
+      stopped: 'Stopped',
+      unknown: 'Unknown',
+      'entered-in-error': 'Entered in Error',
+    };
+    return statusMap[status] || status;
+  },
+
+  /**
+   * Get an activity's schedule as display string
+   */
+  getActivityScheduleDisplay(activity: CarePlanActivity): string | undefined {
+    const detail = activity.detail;
+    if (detail?.scheduledString) {
+      return detail.scheduledString;
+    }
+    const start = detail?.scheduledPeriod?.start;
+    return start ? new Date(start).toLocaleDateString() : undefined;
+  },
+};
+
+export default CarePlan;
@@ -0,0 +1,69 @@
+/**
+ * FHIR R4 CareTeam Entity
+ *
+ * The practitioners, relatives and organizations who plan to participate
+ * in the care of a patient.
+ *
+ * @see https://www.hl7.org/fhir/r4/careteam.html
+ */
+
+import { FHIRResource, CodeableConcept, Reference, Identifier, Period } from './FHIRTypes';
+
+export type CareTeamStatus = 'proposed' | 'active' | 'suspended' | 'inactive' | 'entered-in-error';
+
+export interface CareTeamParticipant {
+  role?: CodeableConcept[];
+  member?: Reference;
+  onBehalfOf?: Reference;
+  period?: Period;
+}
+
+export interface CareTeam extends FHIRResource {
+  resourceType: 'CareTeam';
+  identifier?: Identifier[];
+  status?: CareTeamStatus;
+  category?: CodeableConcept[];
+  name?: string;
+  subject?: Reference;
+  encounter?: Reference;
+  period?: Period;
+  participant?: CareTeamParticipant[];
+  reasonCode?: CodeableConcept[];
+  managingOrganization?: Reference[];
+}
+
+/**
+ * A care team member for display
+ */
+export interface CareTeamMember {
+  name: string;
+  role?: string;
+}
+
+/**
+ * Helper functions for CareTeam entity
+ */
+export const CareTeamHelpers = {
+  /**
+   * Get the team name
+   */
+  getName(careTeam: CareTeam): string {
+    return careTeam.name || careTeam.category?.[0]?.coding?.[0]?.display || 'Care Team';
+  },
+
+  /**
+   * Get the named members and their roles
+   */
+  getMembers(careTeam: CareTeam): CareTeamMember[] {
+    return (careTeam.participant || []).flatMap(participant => {
+      const name = participant.member?.display;
+      if (!name) {
+        return [];
+      }
+      const role = participant.role?.[0];
+      return [{ name, role: role?.text || role?.coding?.[0]?.display }];
+    });
+  },
+};
+
+export default CareTeam;
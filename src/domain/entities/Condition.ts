@@ -0,0 +1,257 @@
+/**
+ * FHIR R4 Condition Entity
+ *
+ * Represents problems, diagnoses and health concerns (the problem list)
+ *
+ * @see https://www.hl7.org/fhir/r4/condition.html
+ */
+
+import {
+  FHIRResource,
+  CodeableConcept,
+  Reference,
+  Identifier,
+  Period,
+  Range,
+  Annotation,
+} from './FHIRTypes';
+
+export type ConditionClinicalStatus =
+  | 'active'
+  | 'recurrence'
+  | 'relapse'
+  | 'inactive'
+  | 'remission'
+  | 'resolved';
+
+export type ConditionVerificationStatus =
+  | 'unconfirmed'
+  | 'provisional'
+  | 'differential'
+  | 'confirmed'
+  | 'refuted'
+  | 'entered-in-error';
+
+export interface ConditionStage {
+  summary?: CodeableConcept;
+  assessment?: Reference[];
+  type?: CodeableConcept;
+}
+
+export interface ConditionEvidence {
+  code?: CodeableConcept[];
+  detail?: Reference[];
+}
+
+export interface Condition extends FHIRResource {
+  resourceType: 'Condition';
+  identifier?: Identifier[];
+  clinicalStatus?: CodeableConcept;
+  verificationStatus?: CodeableConcept;
+  category?: CodeableConcept[];
+  severity?: CodeableConcept;
+  code?: CodeableConcept;
+  bodySite?: CodeableConcept[];
+  subject: Reference;
+  encounter?: Reference;
+  onsetDateTime?: string;
+  onsetAge?: { value?: number; unit?: string };
+  onsetPeriod?: Period;
+  onsetRange?: Range;
+  onsetString?: string;
+  abatementDateTime?: string;
+  abatementAge?: { value?: number; unit?: string };
+  abatementPeriod?: Period;
+  abatementRange?: Range;
+  abatementString?: string;
+  recordedDate?: string;
+  recorder?: Reference;
+  asserter?: Reference;
+  stage?: ConditionStage[];
+  evidence?: ConditionEvidence[];
+  note?: Annotation[];
+}
+
+/**
+ * Condition category codes
+ */
+export const ConditionCategories = {
+  PROBLEM_LIST_ITEM: 'problem-list-item',
+  ENCOUNTER_DIAGNOSIS: 'encounter-diagnosis',
+  HEALTH_CONCERN: 'health-concern',
+} as const;
+
+/**
+ * Problem list groups, in display order
+ */
+export type ConditionGroup = 'active' | 'unconfirmed' | 'past';
+
+/**
+ * Helper functions for Condition entity
+ */
+export const ConditionHelpers = {
+  /**
+   * Get the condition display name
+   */
+  getDisplayName(condition: Condition): string {
+    return (
+      condition.code?.text ||
+      condition.code?.coding?.[0]?.display ||
+      condition.code?.coding?.[0]?.code ||
+      'Unknown condition'
+    );
+  },
+
+  /**
+   * Get the clinical status code
+   */
+  getClinicalStatus(condition: Condition): ConditionClinicalStatus | undefined {
+    return condition.clinicalStatus?.coding?.[0]?.code as ConditionClinicalStatus | undefined;
+  },
+
+  /**
+   * Get the verification status code
+   */
+  getVerificationStatus(condition: Condition): ConditionVerificationStatus | undefined {
+    return condition.verificationStatus?.coding?.[0]?.code as
+      | ConditionVerificationStatus
+      | undefined;
+  },
+
+  /**
+   * Get clinical status display string
+   */
+  getClinicalStatusDisplay(condition: Condition): string {
+    const statusMap: Record<ConditionClinicalStatus, string> = {
+      active: 'Active',
+      recurrence: 'Recurrence',
+      relapse: 'Relapse',
+      inactive: 'Inactive',
+      remission: 'Remission',
+      resolved: 'Resolved',
+    };
+    const status = ConditionHelpers.getClinicalStatus(condition);
+    return status ? statusMap[status] || status : 'Unknown';
+  },
+
+  /**
+   * Get verification status display string
+   */
+  getVerificationStatusDisplay(condition: Condition): string {
+    const statusMap: Record<ConditionVerificationStatus, string> = {
+      unconfirmed: 'Unconfirmed',
+      provisional: 'Provisional',
+      differential: 'Differential',
+      confirmed: 'Confirmed',
+      refuted: 'Refuted',
+      'entered-in-error': 'Entered in Error',
+    };
+    const status = ConditionHelpers.getVerificationStatus(condition);
+    return status ? statusMap[status] || status : 'Unknown';
+  },
+
+  /**
+   * Check if the condition is currently active (including recurrence/relapse)
+   */
+  isActive(condition: Condition): boolean {
+    const status = ConditionHelpers.getClinicalStatus(condition);
+    return status === 'active' || status === 'recurrence' || status === 'relapse';
+  },
+
+  /**
+   * Check if the condition is confirmed (no verification status means confirmed)
+   */
+  isConfirmed(condition: Condition): boolean {
+    const status = ConditionHelpers.getVerificationStatus(condition);
+    return !status || status === 'confirmed';
+  },
+
+  /**
+   * Check if the condition was ruled out or recorded in error
+   */
+  isRefuted(condition: Condition): boolean {
+    const status = ConditionHelpers.getVerificationStatus(condition);
+    return status === 'refuted' || status === 'entered-in-error';
+  },
+
+  /**
+   * Get the onset as display string
+   */
+  getOnsetDisplay(condition: Condition): string | undefined {
+    const onsetDate = condition.onsetDateTime || condition.onsetPeriod?.start;
+    if (onsetDate) {
+      return new Date(onsetDate).toLocaleDateString();
+    }
+    if (condition.onsetAge?.value !== undefined) {
+      return `Age ${condition.onsetAge.value}`;
+    }
+    return condition.onsetString;
+  },
+
+  /**
+   * Get the abatement (resolution) date, if any
+   */
+  getAbatementDate(condition: Condition): Date | undefined {
+    const abatement = condition.abatementDateTime || condition.abatementPeriod?.end;
+    return abatement ? new Date(abatement) : undefined;
+  },
+
+  /**
+   * Get the severity display
+   */
+  getSeverityDisplay(condition: Condition): string | undefined {
+    return condition.severity?.text || condition.severity?.coding?.[0]?.display;
+  },
+
+  /**
+   * Get the problem list group for a condition
+   *
+   * Refuted and entered-in-error conditions are not shown.
+   */
+  getGroup(condition: Condition): ConditionGroup | undefined {
+    if (ConditionHelpers.isRefuted(condition)) {
+      return undefined;
+    }
+    if (!ConditionHelpers.isActive(condition)) {
+      return 'past';
+    }
+    return ConditionHelpers.isConfirmed(condition) ? 'active' : 'unconfirmed';
+  },
+
+  /**
+   * Group conditions by clinical and verification status
+   */
+  groupByStatus(conditions: Condition[]): Record<ConditionGroup, Condition[]> {
+    const groups: Record<ConditionGroup, Condition[]> = {
+      active: [],
+      unconfirmed: [],
+      past: [],
+    };
+
+    conditions.forEach(condition => {
+      const group = ConditionHelpers.getGroup(condition);
+      if (group) {
+        groups[group].push(condition);
+      }
+    });
+
+    return groups;
+  },
+
+  /**
+   * Get ICD-10 code if available
+   */
+  getICD10Code(condition: Condition): string | undefined {
+    return condition.code?.coding?.find(c => c.system === 'http://hl7.org/fhir/sid/icd-10-cm')
+      ?.code;
+  },
+
+  /**
+   * Get SNOMED CT code if available
+   */
+  getSNOMEDCode(condition: Condition): string | undefined {
+    return condition.code?.coding?.find(c => c.system === 'http://snomed.info/sct')?.code;
+  },
+};
+
+export default Condition;
@@ -0,0 +1,52 @@
+/**
+ * Contact Details
+ *
+ * Formatting for the Address and ContactPoint data types shared by the
+ * directory resources (Practitioner, Organization, Location, ...).
+ */
+
+import { Address, ContactPoint } from './FHIRTypes';
+
+/**
+ * Helper functions for addresses and telecom
+ */
+export const ContactHelpers = {
+  /**
+   * Format an address on one line
+   */
+  formatAddress(address: Address | undefined): string | undefined {
+    if (!address) {
+      return undefined;
+    }
+    if (address.text) {
+      return address.text;
+    }
+
+    const region = [address.state, address.postalCode].filter(Boolean).join(' ');
+    const parts = [...(address.line || []), address.city, region].filter(Boolean);
+    return parts.join(', ') || undefined;
+  },
+
+  /**
+   * Get the preferred address, skipping old and billing addresses
+   */
+  getPreferredAddress(addresses: Address[] | undefined): Address | undefined {
+    const current = (addresses || []).filter(a => a.use !== 'old' && a.use !== 'billing');
+    return current.find(a => a.use === 'work') || current[0];
+  },
+
+  /**
+   * Get the preferred telecom value for a system (lowest rank, then work)
+   */
+  getTelecom(
+    telecom: ContactPoint[] | undefined,
+    system: ContactPoint['system']
+  ): string | undefined {
+    const candidates = (telecom || [])
+      .filter(t => t.system === system && t.value && t.use !== 'old')
+      .sort((a, b) => (a.rank ?? Infinity) - (b.rank ?? Infinity));
+    return (candidates.find(t => t.use === 'work') || candidates[0])?.value;
+  },
+};
+
+export default ContactHelpers;
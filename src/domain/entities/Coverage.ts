@@ -0,0 +1,130 @@
+/**
+ * FHIR R4 Coverage Entity
+ *
+ * Insurance or medical plan coverage for a patient, as exposed by payers
+ * under the CARIN Blue Button (C4BB) Coverage profile.
+ *
+ * @see https://www.hl7.org/fhir/r4/coverage.html
+ * @see http://hl7.org/fhir/us/carin-bb/StructureDefinition/C4BB-Coverage
+ */
+
+import { FHIRResource, CodeableConcept, Reference, Identifier, Period } from './FHIRTypes';
+
+export type CoverageStatus = 'active' | 'cancelled' | 'draft' | 'entered-in-error';
+
+export interface CoverageClass {
+  type: CodeableConcept;
+  value: string;
+  name?: string;
+}
+
+export interface Coverage extends FHIRResource {
+  resourceType: 'Coverage';
+  identifier?: Identifier[];
+  status: CoverageStatus;
+  type?: CodeableConcept;
+  policyHolder?: Reference;
+  subscriber?: Reference;
+  subscriberId?: string;
+  beneficiary: Reference;
+  dependent?: string;
+  relationship?: CodeableConcept;
+  period?: Period;
+  payor: Reference[];
+  class?: CoverageClass[];
+  order?: number;
+  network?: string;
+}
+
+/**
+ * Identifier type for the member number on the insurance card
+ */
+const MEMBER_IDENTIFIER_TYPE = 'MB';
+
+/**
+ * Helper functions for Coverage entity
+ */
+export const CoverageHelpers = {
+  /**
+   * Get the payer (insurer) name
+   */
+  getPayerName(coverage: Coverage): string {
+    return coverage.payor.find(payor => payor.display)?.display || 'Insurance';
+  },
+
+  /**
+   * Get the member ID, preferring the card's member number
+   */
+  getMemberId(coverage: Coverage): string | undefined {
+    const memberIdentifier = coverage.identifier?.find(identifier =>
+      identifier.type?.coding?.some(c => c.code === MEMBER_IDENTIFIER_TYPE)
+    );
+    return memberIdentifier?.value || coverage.subscriberId;
+  },
+
+  /**
+   * Get a coverage class (e.g. "group", "plan") as display string
+   */
+  getClassDisplay(coverage: Coverage, classType: string): string | undefined {
+    const coverageClass = coverage.class?.find(c =>
+      c.type.coding?.some(coding => coding.code === classType)
+    );
+    if (!coverageClass) {
+      return undefined;
+    }
+    return coverageClass.name
+      ? `${coverageClass.name} (${coverageClass.value})`
+      : coverageClass.value;
+  },
+
+  /**
+   * Get the group name and number
+   */
+  getGroupDisplay(coverage: Coverage): string | undefined {
+    return CoverageHelpers.getClassDisplay(coverage, 'group');
+  },
+
+  /**
+   * Get the plan name and number
+   */
+  getPlanDisplay(coverage: Coverage): string | undefined {
+    return CoverageHelpers.getClassDisplay(coverage, 'plan');
+  },
+
+  /**
+   * Get the coverage type display (e.g. "PPO", "Medicare Part A")
+   */
+  getTypeDisplay(coverage: Coverage): string | undefined {
+    return coverage.type?.text || coverage.type?.coding?.[0]?.display;
+  },
+
+  /**
+   * Get the coverage period as display string
+   */
+  getPeriodDisplay(coverage: Coverage): string | undefined {
+    const { start, end } = coverage.period || {};
+    if (!start && !end) {
+      return undefined;
+    }
+    const startDisplay = start ? new Date(start).toLocaleDateString() : 'Unknown';
+    return end
+      ? `${startDisplay} - ${new Date(end).toLocaleDateString()}`
+      : `Since ${startDisplay}`;
+  },
+
+  /**
+   * Check if the coverage is active and its period includes a date
+   */
+  isActive(coverage: Coverage, now: Date = new Date()): boolean {
+    if (coverage.status !== 'active') {
+      return false;
+    }
+    const { start, end } = coverage.period || {};
+    return (
+      (!start || new Date(start).getTime() <= now.getTime()) &&
+      (!end || new Date(end).getTime() >= now.getTime())
+    );
+  },
+};
+
+export default Coverage;
@@ -0,0 +1,251 @@
+/**
+ * Provider Directory
+ *
+ * Resolves references to the directory resources (Practitioner,
+ * PractitionerRole, Organization, Location) into display entries with
+ * names, specialties, addresses and phone numbers, and builds the
+ * patient's care team from encounter participants.
+ */
+
+import { Reference, ResolvedReferences } from './FHIRTypes';
+import type { Encounter } from './Encounter';
+import { Practitioner, PractitionerHelpers } from './Practitioner';
+import { PractitionerRole, PractitionerRoleHelpers } from './PractitionerRole';
+import { Organization, OrganizationHelpers } from './Organization';
+import { Location, LocationHelpers } from './Location';
+
+export const DIRECTORY_RESOURCE_TYPES = [
+  'Practitioner',
+  'PractitionerRole',
+  'Organization',
+  'Location',
+] as const;
+
+export type DirectoryResourceType = (typeof DIRECTORY_RESOURCE_TYPES)[number];
+
+export type DirectoryResource = Practitioner | PractitionerRole | Organization | Location;
+
+/**
+ * A resolved directory reference for display
+ */
+export interface DirectoryEntry {
+  /** The reference as written on the source resource */
+  reference?: string;
+  resourceType?: DirectoryResourceType;
+  name: string;
+  specialties: string[];
+  organization?: string;
+  address?: string;
+  phone?: string;
+}
+
+/**
+ * A practitioner the patient has seen, built from encounter participants
+ */
+export interface CareTeamContact extends DirectoryEntry {
+  visitCount: number;
+  lastSeen?: Date;
+}
+
+const DIRECTORY_REFERENCE = new RegExp(
+  `(?:^|/)(${DIRECTORY_RESOURCE_TYPES.join('|')})/[A-Za-z0-9\\-.]{1,64}(?:/_history/[^/]+)?$`
+);
+
+const lookup = <T extends DirectoryResource>(
+  reference: Reference | undefined,
+  references: ResolvedReferences,
+  resourceType: T['resourceType']
+): T | undefined => {
+  const resource = reference?.reference ? references[reference.reference] : undefined;
+  return resource?.resourceType === resourceType ? (resource as T) : undefined;
+};
+
+const fromPractitionerRole = (
+  role: PractitionerRole,
+  references: ResolvedReferences
+): Omit<DirectoryEntry, 'name'> & { name?: string } => {
+  const practitioner = lookup<Practitioner>(role.practitioner, references, 'Practitioner');
+  const organization = lookup<Organization>(role.organization, references, 'Organization');
+  const location = lookup<Location>(role.location?.[0], references, 'Location');
+
+  return {
+    name: (practitioner && PractitionerHelpers.getName(practitioner)) || role.practitioner?.display,
+    specialties: PractitionerRoleHelpers.getSpecialties(role),
+    organization:
+      (organization && OrganizationHelpers.getName(organization)) || role.organization?.display,
+    address:
+      (location && LocationHelpers.getAddress(location)) ||
+      (organization && OrganizationHelpers.getAddress(organization)),
+    phone:
+      PractitionerRoleHelpers.getPhone(role) ||
+      (practitioner && PractitionerHelpers.getPhone(practitioner)) ||
+      (location && LocationHelpers.getPhone(location)) ||
+      (organization && OrganizationHelpers.getPhone(organization)),
+  };
+};
+
+/**
+ * Helper functions for directory references
+ */
+export const DirectoryHelpers = {
+  /**
+   * Get the directory resource type a reference points at, if any
+   */
+  getReferenceType(reference: string | undefined): DirectoryResourceType | undefined {
+    const match = reference?.match(DIRECTORY_REFERENCE);
+    return match ? (match[1] as DirectoryResourceType) : undefined;
+  },
+
+  /**
+   * Resolve a reference into a display entry, falling back to its display text
+   */
+  getEntry(
+    reference: Reference | undefined,
+    references: ResolvedReferences = {}
+  ): DirectoryEntry | undefined {
+    if (!reference) {
+      return undefined;
+    }
+
+    const resource = reference.reference ? references[reference.reference] : undefined;
+    const base = {
+      reference: reference.reference,
+      resourceType: DirectoryHelpers.getReferenceType(reference.reference),
+      specialties: [] as string[],
+    };
+    let details: Omit<DirectoryEntry, 'name'> & { name?: string } = base;
+
+    switch (resource?.resourceType) {
+      case 'Practitioner': {
+        const practitioner = resource as Practitioner;
+        details = {
+          ...base,
+          name: PractitionerHelpers.getName(practitioner),
+          specialties: PractitionerHelpers.getQualifications(practitioner),
+          address: PractitionerHelpers.getAddress(practitioner),
+          phone: PractitionerHelpers.getPhone(practitioner),
+        };
+        break;
+      }
+      case 'PractitionerRole':
+        details = { ...base, ...fromPractitionerRole(resource as PractitionerRole, references) };
+        break;
+      case 'Organization': {
+        const organization = resource as Organization;
+        details = {
+          ...base,
+          name: OrganizationHelpers.getName(organization),
+          address: OrganizationHelpers.getAddress(organization),
+          phone: OrganizationHelpers.getPhone(organization),
+        };
+        break;
+      }
+      case 'Location': {
+        const location = resource as Location;
+        const organization = lookup<Organization>(
+          location.managingOrganization,
+          references,
+          'Organization'
+        );
+        details = {
+          ...base,
+          name: LocationHelpers.getName(location),
+          organization:
+            (organization && OrganizationHelpers.getName(organization)) ||
+            location.managingOrganization?.display,
+          address: LocationHelpers.getAddress(location),
+          phone: LocationHelpers.getPhone(location),
+        };
+        break;
+      }
+    }
+
+    const name = details.name || reference.display;
+    return name ? { ...details, name } : undefined;
+  },
+
+  /**
+   * Get the display name for a reference
+   */
+  getDisplay(
+    reference: Reference | undefined,
+    references: ResolvedReferences = {}
+  ): string | undefined {
+    return DirectoryHelpers.getEntry(reference, references)?.name;
+  },
+
+  /**
+   * Collect the directory references on encounters (participants, locations,
+   * service providers) for resolving in one request
+   */
+  getEncounterReferences(encounters: Encounter[]): string[] {
+    const references = encounters.flatMap(encounter => [
+      ...(encounter.participant || []).map(p => p.individual?.reference),
+      ...(encounter.location || []).map(l => l.location.reference),
+      encounter.serviceProvider?.reference,
+    ]);
+    return Array.from(
+      new Set(
+        references.filter(
+          (reference): reference is string => !!DirectoryHelpers.getReferenceType(reference)
+        )
+      )
+    );
+  },
+
+  /**
+   * Build the patient's care team from the practitioners on their encounters,
+   * most recently seen first
+   */
+  getCareTeam(encounters: Encounter[], references: ResolvedReferences = {}): CareTeamContact[] {
+    const contacts = new Map<string, CareTeamContact>();
+
+    encounters
+      .filter(
+        encounter => encounter.status !== 'cancelled' && encounter.status !== 'entered-in-error'
+      )
+      .forEach(encounter => {
+        const date = encounter.period?.start ? new Date(encounter.period.start) : undefined;
+        const seen = new Set<string>();
+
+        (encounter.participant || []).forEach(participant => {
+          const type = DirectoryHelpers.getReferenceType(participant.individual?.reference);
+          if (type !== 'Practitioner' && type !== 'PractitionerRole') {
+            return;
+          }
+          const entry = DirectoryHelpers.getEntry(participant.individual, references);
+          if (!entry) {
+            return;
+          }
+
+          // The same person may appear through different roles
+          const key = entry.name.toLowerCase();
+          if (seen.has(key)) {
+            return;
+          }
+          seen.add(key);
+
+          const existing = contacts.get(key);
+          if (!existing) {
+            contacts.set(key, { ...entry, visitCount: 1, lastSeen: date });
+            return;
+          }
+
+          const isNewer = !!date && (!existing.lastSeen || date > existing.lastSeen);
+          contacts.set(key, {
+            ...(isNewer ? entry : existing),
+            specialties: Array.from(new Set([...existing.specialties, ...entry.specialties])),
+            phone: (isNewer ? entry.phone : existing.phone) || existing.phone || entry.phone,
+            visitCount: existing.visitCount + 1,
+            lastSeen: isNewer ? date : existing.lastSeen,
+          });
+        });
+      });
+
+    return Array.from(contacts.values()).sort(
+      (a, b) => (b.lastSeen?.getTime() ?? 0) - (a.lastSeen?.getTime() ?? 0)
+    );
+  },
+};
+
+export default DirectoryHelpers;
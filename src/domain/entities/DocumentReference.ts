@@ -0,0 +1,165 @@
+/**
+ * FHIR R4 DocumentReference Entity
+ *
+ * Clinical notes and scanned documents. The document itself is an
+ * attachment, either inline or stored as a Binary on the server.
+ *
+ * @see https://www.hl7.org/fhir/r4/documentreference.html
+ */
+
+import {
+  FHIRResource,
+  CodeableConcept,
+  Reference,
+  Identifier,
+  Period,
+  Attachment,
+} from './FHIRTypes';
+
+export type DocumentReferenceStatus = 'current' | 'superseded' | 'entered-in-error';
+
+export type DocumentViewerType = 'pdf' | 'image' | 'text' | 'html';
+
+export interface DocumentReferenceContent {
+  attachment: Attachment;
+  format?: { system?: string; code?: string; display?: string };
+}
+
+export interface DocumentReference extends FHIRResource {
+  resourceType: 'DocumentReference';
+  masterIdentifier?: Identifier;
+  identifier?: Identifier[];
+  status: DocumentReferenceStatus;
+  docStatus?: 'preliminary' | 'final' | 'amended' | 'entered-in-error';
+  type?: CodeableConcept;
+  category?: CodeableConcept[];
+  subject?: Reference;
+  date?: string;
+  author?: Reference[];
+  authenticator?: Reference;
+  custodian?: Reference;
+  description?: string;
+  securityLabel?: CodeableConcept[];
+  content: DocumentReferenceContent[];
+  context?: {
+    encounter?: Reference[];
+    event?: CodeableConcept[];
+    period?: Period;
+    facilityType?: CodeableConcept;
+    practiceSetting?: CodeableConcept;
+  };
+}
+
+/**
+ * Viewers in order of preference when a document has several renditions
+ */
+const VIEWER_PREFERENCE: DocumentViewerType[] = ['pdf', 'html', 'text', 'image'];
+
+/**
+ * Helper functions for DocumentReference entity
+ */
+export const DocumentReferenceHelpers = {
+  /**
+   * Get document title
+   */
+  getTitle(document: DocumentReference): string {
+    return (
+      document.description ||
+      document.type?.text ||
+      document.type?.coding?.[0]?.display ||
+      document.content[0]?.attachment.title ||
+      'Document'
+    );
+  },
+
+  /**
+   * Get document category display (e.g. "Clinical Note")
+   */
+  getCategoryDisplay(document: DocumentReference): string | undefined {
+    const category = document.category?.[0];
+    return category?.text || category?.coding?.[0]?.display;
+  },
+
+  /**
+   * Get the document date
+   */
+  getDate(document: DocumentReference): Date | undefined {
+    const date = document.date || document.context?.period?.start;
+    return date ? new Date(date) : undefined;
+  },
+
+  /**
+   * Get the author names
+   */
+  getAuthorDisplay(document: DocumentReference): string | undefined {
+    const names = (document.author || []).flatMap(author => author.display || []);
+    return names.length > 0 ? names.join(', ') : undefined;
+  },
+
+  /**
+   * Get the viewer for a content type, if the app can display it
+   */
+  getViewerType(contentType: string | undefined): DocumentViewerType | undefined {
+    const mimeType = contentType?.split(';')[0].trim().toLowerCase();
+    if (!mimeType) {
+      return undefined;
+    }
+    if (mimeType === 'application/pdf') {
+      return 'pdf';
+    }
+    if (mimeType.startsWith('image/')) {
+      return 'image';
+    }
+    if (mimeType === 'text/html' || mimeType === 'application/xhtml+xml') {
+      return 'html';
+    }
+    if (mimeType === 'text/plain') {
+      return 'text';
+    }
+    return undefined;
+  },
+
+  /**
+   * Get the attachments that have content to download
+   */
+  getAttachments(document: DocumentReference): Attachment[] {
+    return document.content
+      .map(content => content.attachment)
+      .filter(attachment => attachment.data || attachment.url);
+  },
+
+  /**
+   * Get the attachment to open: the first rendition the app can display
+   */
+  getPrimaryAttachment(document: DocumentReference): Attachment | undefined {
+    const attachments = DocumentReferenceHelpers.getAttachments(document);
+
+    for (const viewer of VIEWER_PREFERENCE) {
+      const match = attachments.find(
+        attachment => DocumentReferenceHelpers.getViewerType(attachment.contentType) === viewer
+      );
+      if (match) {
+        return match;
+      }
+    }
+    return undefined;
+  },
+
+  /**
+   * Check if the document has content the app can display
+   */
+  canView(document: DocumentReference): boolean {
+    return !!DocumentReferenceHelpers.getPrimaryAttachment(document);
+  },
+
+  /**
+   * Sort documents by date, most recent first
+   */
+  sortByDate(documents: DocumentReference[]): DocumentReference[] {
+    const getTime = (document: DocumentReference) =>
+      DocumentReferenceHelpers.getDate(document)?.getTime() ?? 0;
+    return [...documents].sort((a, b) => getTime(b) - getTime(a));
+  },
+};
+
+export default DocumentReference;
@@ -6,7 +6,16 @@
  * @see https://www.hl7.org/fhir/r4/encounter.html
  */
 
-import { FHIRResource, CodeableConcept, Reference, Identifier, Period, Coding } from './FHIRTypes';
+import {
+  FHIRResource,
+  CodeableConcept,
+  Reference,
+  Identifier,
+  Period,
+  Coding,
+  ResolvedReferences,
+} from './FHIRTypes';
+import { DirectoryHelpers } from './Directory';
 
 export type EncounterStatus =
   | 'planned'
@@ -209,20 +218,34 @@ export const EncounterHelpers = {
   },
 
   /**
-   * Get the primary practitioner/participant
+   * Get the primary performer or attender reference
    */
-  getPrimaryPractitioner(encounter: Encounter): string | undefined {
+  getPrimaryPractitionerReference(encounter: Encounter): Reference | undefined {
     const practitioner = encounter.participant?.find(p =>
       p.type?.some(t => t.coding?.some((c: Coding) => c.code === 'PPRF' || c.code === 'ATND'))
     );
-    return practitioner?.individual?.display;
+    return practitioner?.individual;
   },
 
   /**
-   * Get the primary location
+   * Get the primary practitioner/participant, using resolved directory
+   * references when available
    */
-  getPrimaryLocation(encounter: Encounter): string | undefined {
-    return encounter.location?.[0]?.location?.display;
+  getPrimaryPractitioner(
+    encounter: Encounter,
+    references?: ResolvedReferences
+  ): string | undefined {
+    return DirectoryHelpers.getDisplay(
+      EncounterHelpers.getPrimaryPractitionerReference(encounter),
+      references
+    );
+  },
+
+  /**
+   * Get the primary location, using resolved directory references when available
+   */
+  getPrimaryLocation(encounter: Encounter, references?: ResolvedReferences): string | undefined {
+    return DirectoryHelpers.getDisplay(encounter.location?.[0]?.location, references);
   },
 
   /**
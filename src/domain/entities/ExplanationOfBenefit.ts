@@ -0,0 +1,184 @@
+/**
+ * FHIR R4 ExplanationOfBenefit Entity
+ *
+ * A processed insurance claim: what was billed, what the payer allowed
+ * and paid, and what the patient owes. Payers expose these under the
+ * CARIN Blue Button (C4BB) ExplanationOfBenefit profiles.
+ *
+ * @see https://www.hl7.org/fhir/r4/explanationofbenefit.html
+ * @see http://hl7.org/fhir/us/carin-bb/
+ */
+
+import { FHIRResource, CodeableConcept, Reference, Identifier, Period, Money } from './FHIRTypes';
+
+export type ExplanationOfBenefitStatus = 'active' | 'cancelled' | 'draft' | 'entered-in-error';
+
+export interface EOBAdjudication {
+  category: CodeableConcept;
+  reason?: CodeableConcept;
+  amount?: Money;
+  value?: number;
+}
+
+export interface EOBItem {
+  sequence: number;
+  revenue?: CodeableConcept;
+  productOrService: CodeableConcept;
+  servicedDate?: string;
+  servicedPeriod?: Period;
+  locationCodeableConcept?: CodeableConcept;
+  quantity?: { value?: number; unit?: string };
+  net?: Money;
+  adjudication?: EOBAdjudication[];
+}
+
+export interface EOBTotal {
+  category: CodeableConcept;
+  amount: Money;
+}
+
+export interface ExplanationOfBenefit extends FHIRResource {
+  resourceType: 'ExplanationOfBenefit';
+  identifier?: Identifier[];
+  status: ExplanationOfBenefitStatus;
+  type: CodeableConcept;
+  subType?: CodeableConcept;
+  use: 'claim' | 'preauthorization' | 'predetermination';
+  patient: Reference;
+  billablePeriod?: Period;
+  created: string;
+  insurer: Reference;
+  provider: Reference;
+  facility?: Reference;
+  outcome: 'queued' | 'complete' | 'error' | 'partial';
+  insurance: Array<{ focal: boolean; coverage: Reference }>;
+  item?: EOBItem[];
+  total?: EOBTotal[];
+  payment?: { type?: CodeableConcept; date?: string; amount?: Money };
+}
+
+/**
+ * Adjudication categories for the claim totals.
+ *
+ * Billed, allowed and paid use the base FHIR adjudication codes; patient
+ * responsibility uses the CARIN code (older payers send `paidbypatient`).
+ */
+export const EOBTotalCategories = {
+  BILLED: ['submitted'],
+  ALLOWED: ['eligible'],
+  PAID_BY_PAYER: ['benefit', 'paidtoprovider'],
+  PATIENT_RESPONSIBILITY: ['memberliability', 'paidbypatient'],
+} as const;
+
+type EOBTotalCategory = keyof typeof EOBTotalCategories;
+
+const hasCategory = (concept: CodeableConcept, codes: readonly string[]): boolean =>
+  concept.coding?.some(c => !!c.code && codes.includes(c.code)) ?? false;
+
+const addMoney = (amounts: Money[]): Money | undefined => {
+  const valued = amounts.filter(amount => amount.value !== undefined);
+  if (valued.length === 0) {
+    return undefined;
+  }
+  const total = valued.reduce((sum, amount) => sum + (amount.value ?? 0), 0);
+  return { value: Math.round(total * 100) / 100, currency: valued[0].currency };
+};
+
+/**
+ * Helper functions for ExplanationOfBenefit entity
+ */
+export const ExplanationOfBenefitHelpers = {
+  /**
+   * Get a claim total; sums the line item adjudications when the payer
+   * sends no claim-level total for the category
+   */
+  getTotal(eob: ExplanationOfBenefit, category: EOBTotalCategory): Money | undefined {
+    const codes = EOBTotalCategories[category];
+    const total = eob.total?.find(t => hasCategory(t.category, codes));
+    if (total) {
+      return total.amount;
+    }
+
+    const adjudications = (eob.item || []).flatMap(item =>
+      (item.adjudication || []).filter(a => hasCategory(a.category, codes) && a.amount)
+    );
+    return addMoney(adjudications.map(a => a.amount as Money));
+  },
+
+  /**
+   * Add up a total across several claims
+   */
+  sumTotals(eobs: ExplanationOfBenefit[], category: EOBTotalCategory): Money | undefined {
+    return addMoney(eobs.flatMap(eob => ExplanationOfBenefitHelpers.getTotal(eob, category) || []));
+  },
+
+  /**
+   * Format an amount as currency (e.g. "$1,234.50")
+   */
+  formatMoney(amount: Money | undefined): string {
+    if (amount?.value === undefined) {
+      return '—';
+    }
+    return amount.value.toLocaleString('en-US', {
+      style: 'currency',
+      currency: amount.currency || 'USD',
+    });
+  },
+
+  /**
+   * Get the claim type display (e.g. "Professional", "Pharmacy")
+   */
+  getTypeDisplay(eob: ExplanationOfBenefit): string {
+    const coding = eob.type.coding?.[0];
+    const display = eob.type.text || coding?.display || coding?.code || 'Claim';
+    return display.charAt(0).toUpperCase() + display.slice(1);
+  },
+
+  /**
+   * Get the billing provider or facility name
+   */
+  getProviderDisplay(eob: ExplanationOfBenefit): string | undefined {
+    return eob.provider.display || eob.facility?.display;
+  },
+
+  /**
+   * Get the date of service (start of the billable period or first item)
+   */
+  getServiceDate(eob: ExplanationOfBenefit): Date | undefined {
+    const item = eob.item?.[0];
+    const date =
+      eob.billablePeriod?.start || item?.servicedDate || item?.servicedPeriod?.start || eob.created;
+    return date ? new Date(date) : undefined;
+  },
+
+  /**
+   * Get the claim number
+   */
+  getClaimNumber(eob: ExplanationOfBenefit): string | undefined {
+    return eob.identifier?.[0]?.value;
+  },
+
+  /**
+   * Get the services on the claim
+   */
+  getServices(eob: ExplanationOfBenefit): string[] {
+    return (eob.item || []).map(
+      item =>
+        item.productOrService.text ||
+        item.productOrService.coding?.[0]?.display ||
+        item.productOrService.coding?.[0]?.code ||
+        'Service'
+    );
+  },
+
+  /**
+   * Sort claims by date of service, most recent first
+   */
+  sortByServiceDate(eobs: ExplanationOfBenefit[]): ExplanationOfBenefit[] {
+    const getTime = (eob: ExplanationOfBenefit) =>
+      ExplanationOfBenefitHelpers.getServiceDate(eob)?.getTime() ?? 0;
+    return [...eobs].sort((a, b) => getTime(b) - getTime(a));
+  },
+};
+
+export default ExplanationOfBenefit;
@@ -181,6 +181,29 @@ export interface Range {
   high?: Quantity;
 }
 
+/**
+ * An amount of economic utility in some recognized currency
+ */
+export interface Money {
+  value?: number;
+  currency?: string;
+}
+
+/**
+ * Content in a format defined elsewhere (e.g. a PDF or scanned image),
+ * either inline as base64 `data` or at a `url`
+ */
+export interface Attachment {
+  contentType?: string;
+  language?: string;
+  data?: string;
+  url?: string;
+  size?: number;
+  hash?: string;
+  title?: string;
+  creation?: string;
+}
+
 /**
  * Annotation for adding notes and explanations
  */
@@ -298,6 +321,13 @@ export interface Bundle<T extends FHIRResource = FHIRResource> {
   }>;
 }
 
+/**
+ * A single Bundle entry
+ */
+export type BundleEntry<T extends FHIRResource = FHIRResource> = NonNullable<
+  Bundle<T>['entry']
+>[number];
+
 /**
  * Source metadata for multi-provider support
  * This is a custom extension to track which provider/EMR each record came from
@@ -318,3 +348,57 @@ export interface FHIRResourceWithSource<T extends FHIRResource = FHIRResource> {
   resource: T;
   source: SourceMetadata;
 }
+
+/**
+ * Resolved references keyed by the reference string as it appears in the resource
+ * (e.g. "#med1", "Medication/123" or an absolute URL)
+ */
+export type ResolvedReferences = Record<string, FHIRResource>;
+
+/**
+ * Source-tracked FHIR resource with its references resolved
+ */
+export interface FHIRResourceWithReferences<
+  T extends FHIRResource = FHIRResource,
+> extends FHIRResourceWithSource<T> {
+  /** Resources this resource points at (contained, bundled via _include, or fetched) */
+  references: ResolvedReferences;
+
+  /** Resources pointing at this resource (returned via _revinclude) */
+  referencedBy: FHIRResource[];
+}
+
+/**
+ * A single issue reported in an OperationOutcome
+ */
+export interface OperationOutcomeIssue {
+  severity: 'fatal' | 'error' | 'warning' | 'information';
+  code: string;
+  details?: CodeableConcept;
+  diagnostics?: string;
+  /** @deprecated in R4 in favour of expression, but still sent by many servers */
+  location?: string[];
+  expression?: string[];
+}
+
+/**
+ * Errors, warnings and information returned by a FHIR server
+ *
+ * @see https://www.hl7.org/fhir/r4/operationoutcome.html
+ */
+export interface OperationOutcome extends FHIRResource {
+  resourceType: 'OperationOutcome';
+  issue: OperationOutcomeIssue[];
+}
+
+/**
+ * Raw content (a document, image, etc.) stored on a FHIR server
+ *
+ * @see https://www.hl7.org/fhir/r4/binary.html
+ */
+export interface Binary extends FHIRResource {
+  resourceType: 'Binary';
+  contentType: string;
+  securityContext?: Reference;
+  data?: string;
+}
@@ -0,0 +1,319 @@
+/**
+ * FHIR R4 Goal Entity
+ *
+ * Describes the intended objective(s) for a patient, e.g. a target
+ * blood pressure or weight, often as part of a CarePlan.
+ *
+ * @see https://www.hl7.org/fhir/r4/goal.html
+ */
+
+import {
+  FHIRResource,
+  CodeableConcept,
+  Reference,
+  Identifier,
+  Quantity,
+  Range,
+  Annotation,
+} from './FHIRTypes';
+import { Observation, ObservationHelpers } from './Observation';
+
+export type GoalLifecycleStatus =
+  | 'proposed'
+  | 'planned'
+  | 'accepted'
+  | 'active'
+  | 'on-hold'
+  | 'completed'
+  | 'cancelled'
+  | 'entered-in-error'
+  | 'rejected';
+
+export interface GoalTarget {
+  measure?: CodeableConcept;
+  detailQuantity?: Quantity;
+  detailRange?: Range;
+  detailCodeableConcept?: CodeableConcept;
+  detailString?: string;
+  detailBoolean?: boolean;
+  detailInteger?: number;
+  dueDate?: string;
+}
+
+export interface Goal extends FHIRResource {
+  resourceType: 'Goal';
+  identifier?: Identifier[];
+  lifecycleStatus: GoalLifecycleStatus;
+  achievementStatus?: CodeableConcept;
+  category?: CodeableConcept[];
+  priority?: CodeableConcept;
+  description: CodeableConcept;
+  subject: Reference;
+  startDate?: string;
+  target?: GoalTarget[];
+  statusDate?: string;
+  statusReason?: string;
+  expressedBy?: Reference;
+  addresses?: Reference[];
+  note?: Annotation[];
+}
+
+/**
+ * Where the patient stands against a measurable goal target
+ */
+export interface GoalProgress {
+  /** LOINC code of the measured observation */
+  measureCode: string;
+  measureName: string;
+  targetDisplay: string;
+  dueDate?: string;
+  /** Latest observed value */
+  current?: Quantity;
+  observedAt?: Date;
+  /** Whether the latest value meets the target (undefined without data) */
+  isMet?: boolean;
+  /** Percent of the way from the first observed value to the target (0-100) */
+  percent?: number;
+}
+
+const LOINC_SYSTEM = 'http://loinc.org';
+
+/**
+ * Units match when either side is unitless or both name the same unit
+ */
+const unitsMatch = (value: Quantity, target: Quantity | undefined): boolean => {
+  const targetUnit = target?.code || target?.unit;
+  const valueUnit = value.code || value.unit;
+  return !targetUnit || !valueUnit || targetUnit === valueUnit;
+};
+
+const formatQuantity = (quantity: Quantity): string =>
+  [quantity.comparator, quantity.value, quantity.unit].filter(v => v !== undefined).join(' ');
+
+/**
+ * Get an observation's value for a LOINC code, from the observation itself
+ * or one of its components (e.g. systolic pressure in a blood pressure panel)
+ */
+const getMeasuredValue = (observation: Observation, loincCode: string): Quantity | undefined => {
+  if (ObservationHelpers.getLoincCode(observation) === loincCode) {
+    return observation.valueQuantity;
+  }
+  return observation.component?.find(component =>
+    component.code.coding?.some(c => c.system === LOINC_SYSTEM && c.code === loincCode)
+  )?.valueQuantity;
+};
+
+/**
+ * Percent of the distance covered from a baseline toward the nearest target
+ * bound, or undefined if the baseline already sat on the bound
+ */
+const getPercentToward = (
+  target: GoalTarget,
+  baseline: number,
+  current: number
+): number | undefined => {
+  const bounds = [
+    target.detailQuantity?.value,
+    target.detailRange?.low?.value,
+    target.detailRange?.high?.value,
+  ].filter((v): v is number => v !== undefined);
+
+  if (bounds.length === 0) {
+    return undefined;
+  }
+
+  const goalValue = bounds.reduce((nearest, bound) =>
+    Math.abs(bound - baseline) < Math.abs(nearest - baseline) ? bound : nearest
+  );
+  if (goalValue === baseline) {
+    return undefined;
+  }
+
+  const percent = ((baseline - current) / (baseline - goalValue)) * 100;
+  return Math.round(Math.min(100, Math.max(0, percent)));
+};
+
+/**
+ * Helper functions for Goal entity
+ */
+export const GoalHelpers = {
+  /**
+   * Get the goal description
+   */
+  getDescription(goal: Goal): string {
+    return goal.description.text || goal.description.coding?.[0]?.display || 'Goal';
+  },
+
+  /**
+   * Get lifecycle status display string
+   */
+  getLifecycleDisplay(goal: Goal): string {
+    const statusMap: Record<GoalLifecycleStatus, string> = {
+      proposed: 'Proposed',
+      planned: 'Planned',
+      accepted: 'Accepted',
+      active: 'Active',
+      'on-hold': 'On Hold',
+      completed: 'Completed',
+      cancelled: 'Cancelled',
+      'entered-in-error': 'Entered in Error',
+      rejected: 'Rejected',
+    };
+    return statusMap[goal.lifecycleStatus] || goal.lifecycleStatus;
+  },
+
+  /**
+   * Get the achievement status display (e.g. "In Progress", "Achieved")
+   */
+  getAchievementDisplay(goal: Goal): string | undefined {
+    const achievement = goal.achievementStatus;
+    return achievement?.text || achievement?.coding?.[0]?.display || achievement?.coding?.[0]?.code;
+  },
+
+  /**
+   * Check if the goal is still being worked on
+   */
+  isActive(goal: Goal): boolean {
+    return ['proposed', 'planned', 'accepted', 'active', 'on-hold'].includes(goal.lifecycleStatus);
+  },
+
+  /**
+   * Get the LOINC code a target is measured by, if any
+   */
+  getMeasureCode(target: GoalTarget): string | undefined {
+    return target.measure?.coding?.find(c => c.system === LOINC_SYSTEM)?.code;
+  },
+
+  /**
+   * Get a target as display string (e.g. "< 140 mm[Hg]", "4 - 5.6 %")
+   */
+  getTargetDisplay(target: GoalTarget): string {
+    if (target.detailQuantity) {
+      return formatQuantity(target.detailQuantity);
+    }
+    if (target.detailRange) {
+      const { low, high } = target.detailRange;
+      const unit = high?.unit || low?.unit;
+      if (low?.value !== undefined && high?.value !== undefined) {
+        return `${low.value} - ${high.value}${unit ? ` ${unit}` : ''}`;
+      }
+      if (low?.value !== undefined) {
+        return `>= ${formatQuantity(low)}`;
+      }
+      if (high?.value !== undefined) {
+        return `<= ${formatQuantity(high)}`;
+      }
+    }
+    if (target.detailCodeableConcept) {
+      return (
+        target.detailCodeableConcept.text ||
+        target.detailCodeableConcept.coding?.[0]?.display ||
+        'See plan'
+      );
+    }
+    if (target.detailString) {
+      return target.detailString;
+    }
+    if (target.detailInteger !== undefined) {
+      return String(target.detailInteger);
+    }
+    if (target.detailBoolean !== undefined) {
+      return target.detailBoolean ? 'Yes' : 'No';
+    }
+    return 'See plan';
+  },
+
+  /**
+   * Check if a value meets a quantity or range target
+   *
+   * A quantity target without a comparator must be reached exactly.
+   * Returns undefined when the target is not numeric or the units differ.
+   */
+  meetsTarget(target: GoalTarget, value: Quantity): boolean | undefined {
+    if (value.value === undefined) {
+      return undefined;
+    }
+
+    const quantity = target.detailQuantity;
+    if (quantity?.value !== undefined) {
+      if (!unitsMatch(value, quantity)) {
+        return undefined;
+      }
+      switch (quantity.comparator) {
+        case '<':
+          return value.value < quantity.value;
+        case '<=':
+          return value.value <= quantity.value;
+        case '>':
+          return value.value > quantity.value;
+        case '>=':
+          return value.value >= quantity.value;
+        default:
+          return value.value === quantity.value;
+      }
+    }
+
+    const range = target.detailRange;
+    if (range && (range.low?.value !== undefined || range.high?.value !== undefined)) {
+      if (!unitsMatch(value, range.low) || !unitsMatch(value, range.high)) {
+        return undefined;
+      }
+      return (
+        (range.low?.value === undefined || value.value >= range.low.value) &&
+        (range.high?.value === undefined || value.value <= range.high.value)
+      );
+    }
+
+    return undefined;
+  },
+
+  /**
+   * Measure progress on each of a goal's targets that names a LOINC code,
+   * using the patient's observations for that code since the goal started
+   */
+  getProgress(goal: Goal, observations: Observation[]): GoalProgress[] {
+    const startTime = goal.startDate ? new Date(goal.startDate).getTime() : 0;
+
+    return (goal.target || []).flatMap(target => {
+      const measureCode = GoalHelpers.getMeasureCode(target);
+      if (!measureCode) {
+        return [];
+      }
+
+      const readings = observations
+        .filter(o => o.status !== 'entered-in-error' && o.status !== 'cancelled')
+        .flatMap(o => {
+          const quantity = getMeasuredValue(o, measureCode);
+          const date = ObservationHelpers.getEffectiveDate(o);
+          return quantity?.value !== undefined &&
+            date &&
+            date.getTime() >= startTime &&
+            GoalHelpers.meetsTarget(target, quantity) !== undefined
+            ? [{ quantity, value: quantity.value, date }]
+            : [];
+        })
+        .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+      const latest = readings[readings.length - 1];
+      const progress: GoalProgress = {
+        measureCode,
+        measureName: target.measure?.text || target.measure?.coding?.[0]?.display || 'Measurement',
+        targetDisplay: GoalHelpers.getTargetDisplay(target),
+        dueDate: target.dueDate,
+        current: latest?.quantity,
+        observedAt: latest?.date,
+        isMet: latest ? GoalHelpers.meetsTarget(target, latest.quantity) : undefined,
+      };
+
+      if (latest && readings.length > 1) {
+        progress.percent = progress.isMet
+          ? 100
+          : getPercentToward(target, readings[0].value, latest.value);
+      }
+
+      return [progress];
+    });
+  },
+};
+
+export default Goal;
@@ -0,0 +1,175 @@
+/**
+ * FHIR R4 Immunization Entity
+ *
+ * Represents a vaccine administration (or a record that one was not given)
+ *
+ * @see https://www.hl7.org/fhir/r4/immunization.html
+ */
+
+import {
+  FHIRResource,
+  CodeableConcept,
+  Reference,
+  Identifier,
+  Quantity,
+  Annotation,
+} from './FHIRTypes';
+
+export type ImmunizationStatus = 'completed' | 'entered-in-error' | 'not-done';
+
+export interface ImmunizationPerformer {
+  function?: CodeableConcept;
+  actor: Reference;
+}
+
+export interface ImmunizationProtocolApplied {
+  series?: string;
+  authority?: Reference;
+  targetDisease?: CodeableConcept[];
+  doseNumberPositiveInt?: number;
+  doseNumberString?: string;
+  seriesDosesPositiveInt?: number;
+  seriesDosesString?: string;
+}
+
+export interface Immunization extends FHIRResource {
+  resourceType: 'Immunization';
+  identifier?: Identifier[];
+  status: ImmunizationStatus;
+  statusReason?: CodeableConcept;
+  vaccineCode: CodeableConcept;
+  patient: Reference;
+  encounter?: Reference;
+  occurrenceDateTime?: string;
+  occurrenceString?: string;
+  recorded?: string;
+  primarySource?: boolean;
+  location?: Reference;
+  manufacturer?: Reference;
+  lotNumber?: string;
+  expirationDate?: string;
+  site?: CodeableConcept;
+  route?: CodeableConcept;
+  doseQuantity?: Quantity;
+  performer?: ImmunizationPerformer[];
+  note?: Annotation[];
+  isSubpotent?: boolean;
+  protocolApplied?: ImmunizationProtocolApplied[];
+}
+
+/**
+ * CVX vaccine code system
+ */
+export const CVX_SYSTEM = 'http://hl7.org/fhir/sid/cvx';
+
+/**
+ * Administered doses of one vaccine, oldest first
+ */
+export interface VaccineDoseGroup {
+  vaccineCode: string;
+  vaccineName: string;
+  doses: Immunization[];
+}
+
+/**
+ * Helper functions for Immunization entity
+ */
+export const ImmunizationHelpers = {
+  /**
+   * Get the vaccine display name
+   */
+  getVaccineName(immunization: Immunization): string {
+    return (
+      immunization.vaccineCode.text ||
+      immunization.vaccineCode.coding?.[0]?.display ||
+      immunization.vaccineCode.coding?.[0]?.code ||
+      'Unknown vaccine'
+    );
+  },
+
+  /**
+   * Get the CVX code if available
+   */
+  getCVXCode(immunization: Immunization): string | undefined {
+    return immunization.vaccineCode.coding?.find(c => c.system === CVX_SYSTEM)?.code;
+  },
+
+  /**
+   * Get the administration date
+   */
+  getOccurrenceDate(immunization: Immunization): Date | undefined {
+    return immunization.occurrenceDateTime ? new Date(immunization.occurrenceDateTime) : undefined;
+  },
+
+  /**
+   * Get the administration date as display string
+   */
+  getOccurrenceDisplay(immunization: Immunization): string {
+    const date = ImmunizationHelpers.getOccurrenceDate(immunization);
+    return date ? date.toLocaleDateString() : immunization.occurrenceString || 'Date unknown';
+  },
+
+  /**
+   * Get the dose number within its series, if recorded
+   */
+  getDoseNumber(immunization: Immunization): number | string | undefined {
+    const protocol = immunization.protocolApplied?.[0];
+    return protocol?.doseNumberPositiveInt ?? protocol?.doseNumberString;
+  },
+
+  /**
+   * Get dose display string, e.g. "Dose 2 of 3"
+   */
+  getDoseDisplay(immunization: Immunization): string | undefined {
+    const protocol = immunization.protocolApplied?.[0];
+    const doseNumber = ImmunizationHelpers.getDoseNumber(immunization);
+    if (doseNumber === undefined) {
+      return undefined;
+    }
+    const seriesDoses = protocol?.seriesDosesPositiveInt ?? protocol?.seriesDosesString;
+    return seriesDoses !== undefined
+      ? `Dose ${doseNumber} of ${seriesDoses}`
+      : `Dose ${doseNumber}`;
+  },
+
+  /**
+   * Check if the vaccine was given
+   */
+  isCompleted(immunization: Immunization): boolean {
+    return immunization.status === 'completed';
+  },
+
+  /**
+   * Group administered doses by vaccine (CVX code when present),
+   * most recently given vaccine first
+   */
+  groupByVaccine(immunizations: Immunization[]): VaccineDoseGroup[] {
+    const groups = new Map<string, VaccineDoseGroup>();
+
+    immunizations.filter(ImmunizationHelpers.isCompleted).forEach(immunization => {
+      const vaccineCode =
+        ImmunizationHelpers.getCVXCode(immunization) ||
+        ImmunizationHelpers.getVaccineName(immunization);
+      const group = groups.get(vaccineCode);
+      if (group) {
+        group.doses.push(immunization);
+      } else {
+        groups.set(vaccineCode, {
+          vaccineCode,
+          vaccineName: ImmunizationHelpers.getVaccineName(immunization),
+          doses: [immunization],
+        });
+      }
+    });
+
+    const getTime = (immunization: Immunization) =>
+      ImmunizationHelpers.getOccurrenceDate(immunization)?.getTime() ?? 0;
+    const lastDose = (group: VaccineDoseGroup) => getTime(group.doses[group.doses.length - 1]);
+
+    return Array.from(groups.values())
+      .map(group => ({ ...group, doses: [...group.doses].sort((a, b) => getTime(a) - getTime(b)) }))
+      .sort((a, b) => lastDose(b) - lastDose(a));
+  },
+};
+
+export default Immunization;
@@ -0,0 +1,153 @@
+/**
+ * FHIR R4 ImmunizationRecommendation Entity
+ *
+ * Represents a server-generated vaccination forecast for a patient
+ *
+ * @see https://www.hl7.org/fhir/r4/immunizationrecommendation.html
+ */
+
+import { FHIRResource, CodeableConcept, Reference, Identifier } from './FHIRTypes';
+
+export interface ImmunizationRecommendationDateCriterion {
+  code: CodeableConcept;
+  value: string;
+}
+
+export interface ImmunizationRecommendationItem {
+  vaccineCode?: CodeableConcept[];
+  targetDisease?: CodeableConcept;
+  contraindicatedVaccineCode?: CodeableConcept[];
+  forecastStatus: CodeableConcept;
+  forecastReason?: CodeableConcept[];
+  dateCriterion?: ImmunizationRecommendationDateCriterion[];
+  description?: string;
+  series?: string;
+  doseNumberPositiveInt?: number;
+  doseNumberString?: string;
+  seriesDosesPositiveInt?: number;
+  seriesDosesString?: string;
+  supportingImmunization?: Reference[];
+  supportingPatientInformation?: Reference[];
+}
+
+export interface ImmunizationRecommendation extends FHIRResource {
+  resourceType: 'ImmunizationRecommendation';
+  identifier?: Identifier[];
+  patient: Reference;
+  date: string;
+  authority?: Reference;
+  recommendation: ImmunizationRecommendationItem[];
+}
+
+/**
+ * LOINC codes for recommendation date criteria
+ */
+export const ImmunizationDateCriteria = {
+  EARLIEST_DATE: '30981-5',
+  DUE_DATE: '30980-7',
+  LATEST_DATE: '59777-3',
+  OVERDUE_DATE: '59778-1',
+} as const;
+
+export type VaccineForecastStatus = 'due' | 'overdue';
+
+/**
+ * A vaccine that is due or overdue, flattened from a recommendation
+ */
+export interface VaccineForecast {
+  vaccineName: string;
+  status: VaccineForecastStatus;
+  dueDate?: Date;
+  doseNumber?: number | string;
+  description?: string;
+}
+
+/**
+ * Helper functions for ImmunizationRecommendation entity
+ */
+export const ImmunizationRecommendationHelpers = {
+  /**
+   * Get the vaccine (or target disease) display name of a recommendation
+   */
+  getVaccineName(item: ImmunizationRecommendationItem): string {
+    const concept = item.vaccineCode?.[0] || item.targetDisease;
+    return (
+      concept?.text || concept?.coding?.[0]?.display || concept?.coding?.[0]?.code || 'Vaccine'
+    );
+  },
+
+  /**
+   * Get the forecast status code (due, overdue, immune, complete, ...)
+   */
+  getForecastStatus(item: ImmunizationRecommendationItem): string | undefined {
+    return item.forecastStatus.coding?.[0]?.code || item.forecastStatus.text?.toLowerCase();
+  },
+
+  /**
+   * Get a date criterion by LOINC code
+   */
+  getDateCriterion(item: ImmunizationRecommendationItem, code: string): Date | undefined {
+    const criterion = item.dateCriterion?.find(c => c.code.coding?.some(cd => cd.code === code));
+    return criterion ? new Date(criterion.value) : undefined;
+  },
+
+  /**
+   * Get the due date of a recommendation
+   */
+  getDueDate(item: ImmunizationRecommendationItem): Date | undefined {
+    return (
+      ImmunizationRecommendationHelpers.getDateCriterion(item, ImmunizationDateCriteria.DUE_DATE) ||
+      ImmunizationRecommendationHelpers.getDateCriterion(
+        item,
+        ImmunizationDateCriteria.EARLIEST_DATE
+      )
+    );
+  },
+
+  /**
+   * Get due and overdue vaccines across recommendations, soonest first.
+   *
+   * A due recommendation whose overdue date has passed is reported as overdue.
+   */
+  getForecasts(
+    recommendations: ImmunizationRecommendation[],
+    now: Date = new Date()
+  ): VaccineForecast[] {
+    const forecasts: VaccineForecast[] = [];
+
+    recommendations.forEach(resource => {
+      resource.recommendation.forEach(item => {
+        const status = ImmunizationRecommendationHelpers.getForecastStatus(item);
+        if (status !== 'due' && status !== 'overdue') {
+          return;
+        }
+
+        const overdueDate = ImmunizationRecommendationHelpers.getDateCriterion(
+          item,
+          ImmunizationDateCriteria.OVERDUE_DATE
+        );
+        const isOverdue = status === 'overdue' || (!!overdueDate && overdueDate <= now);
+
+        forecasts.push({
+          vaccineName: ImmunizationRecommendationHelpers.getVaccineName(item),
+          status: isOverdue ? 'overdue' : 'due',
+          dueDate: ImmunizationRecommendationHelpers.getDueDate(item),
+          doseNumber: item.doseNumberPositiveInt ?? item.doseNumberString,
+          description: item.description,
+        });
+      });
+    });
+
+    const getTime = (forecast: VaccineForecast) =>
+      forecast.dueDate?.getTime() ?? Number.MAX_SAFE_INTEGER;
+
+    return forecasts.sort((a, b) => {
+      if (a.status !== b.status) {
+        return a.status === 'overdue' ? -1 : 1;
+      }
+      return getTime(a) - getTime(b);
+    });
+  },
+};
+
+export default ImmunizationRecommendation;
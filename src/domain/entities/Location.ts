@@ -0,0 +1,64 @@
+/**
+ * FHIR R4 Location Entity
+ *
+ * A physical place where care is provided (a clinic, ward, room, etc.)
+ *
+ * @see https://www.hl7.org/fhir/r4/location.html
+ */
+
+import {
+  FHIRResource,
+  CodeableConcept,
+  Coding,
+  Reference,
+  Identifier,
+  ContactPoint,
+  Address,
+} from './FHIRTypes';
+import { ContactHelpers } from './ContactDetails';
+
+export interface Location extends FHIRResource {
+  resourceType: 'Location';
+  identifier?: Identifier[];
+  status?: 'active' | 'suspended' | 'inactive';
+  operationalStatus?: Coding;
+  name?: string;
+  alias?: string[];
+  description?: string;
+  mode?: 'instance' | 'kind';
+  type?: CodeableConcept[];
+  telecom?: ContactPoint[];
+  address?: Address;
+  physicalType?: CodeableConcept;
+  position?: { longitude: number; latitude: number; altitude?: number };
+  managingOrganization?: Reference;
+  partOf?: Reference;
+}
+
+/**
+ * Helper functions for Location entity
+ */
+export const LocationHelpers = {
+  /**
+   * Get the location name
+   */
+  getName(location: Location): string | undefined {
+    return location.name || location.alias?.[0] || location.description;
+  },
+
+  /**
+   * Get the street address
+   */
+  getAddress(location: Location): string | undefined {
+    return ContactHelpers.formatAddress(location.address);
+  },
+
+  /**
+   * Get the phone number
+   */
+  getPhone(location: Location): string | undefined {
+    return ContactHelpers.getTelecom(location.telecom, 'phone');
+  },
+};
+
+export default Location;
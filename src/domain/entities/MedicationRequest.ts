@@ -15,7 +15,9 @@ import {
   Quantity,
   Dosage,
   Annotation,
+  ResolvedReferences,
 } from './FHIRTypes';
+import { DirectoryHelpers } from './Directory';
 
 export type MedicationRequestStatus =
   | 'active'
@@ -200,10 +202,13 @@ export const MedicationRequestHelpers = {
   },
 
   /**
-   * Get the prescriber name
+   * Get the prescriber name, using resolved directory references when available
    */
-  getPrescriberName(medicationRequest: MedicationRequest): string | undefined {
-    return medicationRequest.requester?.display;
+  getPrescriberName(
+    medicationRequest: MedicationRequest,
+    references?: ResolvedReferences
+  ): string | undefined {
+    return DirectoryHelpers.getDisplay(medicationRequest.requester, references);
   },
 
   /**
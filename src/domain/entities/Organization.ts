@@ -0,0 +1,57 @@
+/**
+ * FHIR R4 Organization Entity
+ *
+ * A hospital, clinic, practice or other group providing care.
+ *
+ * @see https://www.hl7.org/fhir/r4/organization.html
+ */
+
+import {
+  FHIRResource,
+  CodeableConcept,
+  Reference,
+  Identifier,
+  ContactPoint,
+  Address,
+} from './FHIRTypes';
+import { ContactHelpers } from './ContactDetails';
+
+export interface Organization extends FHIRResource {
+  resourceType: 'Organization';
+  identifier?: Identifier[];
+  active?: boolean;
+  type?: CodeableConcept[];
+  name?: string;
+  alias?: string[];
+  telecom?: ContactPoint[];
+  address?: Address[];
+  partOf?: Reference;
+}
+
+/**
+ * Helper functions for Organization entity
+ */
+export const OrganizationHelpers = {
+  /**
+   * Get the organization name
+   */
+  getName(organization: Organization): string | undefined {
+    return organization.name || organization.alias?.[0];
+  },
+
+  /**
+   * Get the main address
+   */
+  getAddress(organization: Organization): string | undefined {
+    return ContactHelpers.formatAddress(ContactHelpers.getPreferredAddress(organization.address));
+  },
+
+  /**
+   * Get the main phone number
+   */
+  getPhone(organization: Organization): string | undefined {
+    return ContactHelpers.getTelecom(organization.telecom, 'phone');
+  },
+};
+
+export default Organization;
@@ -0,0 +1,93 @@
+/**
+ * FHIR R4 Practitioner Entity
+ *
+ * A person directly or indirectly involved in providing care.
+ *
+ * @see https://www.hl7.org/fhir/r4/practitioner.html
+ */
+
+import {
+  FHIRResource,
+  CodeableConcept,
+  Reference,
+  Identifier,
+  Period,
+  HumanName,
+  ContactPoint,
+  Address,
+} from './FHIRTypes';
+import { ContactHelpers } from './ContactDetails';
+
+export interface PractitionerQualification {
+  identifier?: Identifier[];
+  code: CodeableConcept;
+  period?: Period;
+  issuer?: Reference;
+}
+
+export interface Practitioner extends FHIRResource {
+  resourceType: 'Practitioner';
+  identifier?: Identifier[];
+  active?: boolean;
+  name?: HumanName[];
+  telecom?: ContactPoint[];
+  address?: Address[];
+  gender?: 'male' | 'female' | 'other' | 'unknown';
+  birthDate?: string;
+  qualification?: PractitionerQualification[];
+  communication?: CodeableConcept[];
+}
+
+/**
+ * Helper functions for Practitioner entity
+ */
+export const PractitionerHelpers = {
+  /**
+   * Get the practitioner's name with prefix and suffix (e.g. "Dr. Jane Smith, MD")
+   */
+  getName(practitioner: Practitioner): string | undefined {
+    const name =
+      practitioner.name?.find(n => n.use === 'official') ||
+      practitioner.name?.find(n => n.use !== 'old') ||
+      practitioner.name?.[0];
+    if (!name) {
+      return undefined;
+    }
+    if (name.text) {
+      return name.text;
+    }
+
+    const fullName = [...(name.prefix || []), ...(name.given || []), name.family]
+      .filter(Boolean)
+      .join(' ');
+    if (!fullName) {
+      return undefined;
+    }
+    return name.suffix?.length ? `${fullName}, ${name.suffix.join(', ')}` : fullName;
+  },
+
+  /**
+   * Get the qualification names (degrees, licenses, certifications)
+   */
+  getQualifications(practitioner: Practitioner): string[] {
+    return (practitioner.qualification || []).flatMap(
+      q => q.code.text || q.code.coding?.[0]?.display || q.code.coding?.[0]?.code || []
+    );
+  },
+
+  /**
+   * Get the work phone number
+   */
+  getPhone(practitioner: Practitioner): string | undefined {
+    return ContactHelpers.getTelecom(practitioner.telecom, 'phone');
+  },
+
+  /**
+   * Get the work address
+   */
+  getAddress(practitioner: Practitioner): string | undefined {
+    return ContactHelpers.formatAddress(ContactHelpers.getPreferredAddress(practitioner.address));
+  },
+};
+
+export default Practitioner;
@@ -0,0 +1,63 @@
+/**
+ * FHIR R4 PractitionerRole Entity
+ *
+ * The roles, specialties and locations a practitioner works at for an
+ * organization.
+ *
+ * @see https://www.hl7.org/fhir/r4/practitionerrole.html
+ */
+
+import {
+  FHIRResource,
+  CodeableConcept,
+  Reference,
+  Identifier,
+  Period,
+  ContactPoint,
+} from './FHIRTypes';
+import { ContactHelpers } from './ContactDetails';
+
+export interface PractitionerRole extends FHIRResource {
+  resourceType: 'PractitionerRole';
+  identifier?: Identifier[];
+  active?: boolean;
+  period?: Period;
+  practitioner?: Reference;
+  organization?: Reference;
+  code?: CodeableConcept[];
+  specialty?: CodeableConcept[];
+  location?: Reference[];
+  healthcareService?: Reference[];
+  telecom?: ContactPoint[];
+}
+
+const getConceptDisplay = (concept: CodeableConcept): string | undefined =>
+  concept.text || concept.coding?.[0]?.display;
+
+/**
+ * Helper functions for PractitionerRole entity
+ */
+export const PractitionerRoleHelpers = {
+  /**
+   * Get the role names (e.g. "Doctor", "Nurse")
+   */
+  getRoles(role: PractitionerRole): string[] {
+    return (role.code || []).flatMap(code => getConceptDisplay(code) || []);
+  },
+
+  /**
+   * Get the specialty names (e.g. "Cardiology")
+   */
+  getSpecialties(role: PractitionerRole): string[] {
+    return (role.specialty || []).flatMap(specialty => getConceptDisplay(specialty) || []);
+  },
+
+  /**
+   * Get the phone number for this role
+   */
+  getPhone(role: PractitionerRole): string | undefined {
+    return ContactHelpers.getTelecom(role.telecom, 'phone');
+  },
+};
+
+export default PractitionerRole;
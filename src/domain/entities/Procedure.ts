@@ -0,0 +1,170 @@
+/**
+ * FHIR R4 Procedure Entity
+ *
+ * Represents an action performed on or for a patient (surgery,
+ * diagnostic procedure, counselling, etc.)
+ *
+ * @see https://www.hl7.org/fhir/r4/procedure.html
+ */
+
+import {
+  FHIRResource,
+  CodeableConcept,
+  Reference,
+  Identifier,
+  Period,
+  Annotation,
+} from './FHIRTypes';
+
+export type ProcedureStatus =
+  | 'preparation'
+  | 'in-progress'
+  | 'not-done'
+  | 'on-hold'
+  | 'stopped'
+  | 'completed'
+  | 'entered-in-error'
+  | 'unknown';
+
+export interface ProcedurePerformer {
+  function?: CodeableConcept;
+  actor: Reference;
+  onBehalfOf?: Reference;
+}
+
+export interface Procedure extends FHIRResource {
+  resourceType: 'Procedure';
+  identifier?: Identifier[];
+  basedOn?: Reference[];
+  partOf?: Reference[];
+  status: ProcedureStatus;
+  statusReason?: CodeableConcept;
+  category?: CodeableConcept;
+  code?: CodeableConcept;
+  subject: Reference;
+  encounter?: Reference;
+  performedDateTime?: string;
+  performedPeriod?: Period;
+  performedString?: string;
+  recorder?: Reference;
+  asserter?: Reference;
+  performer?: ProcedurePerformer[];
+  location?: Reference;
+  reasonCode?: CodeableConcept[];
+  reasonReference?: Reference[];
+  bodySite?: CodeableConcept[];
+  outcome?: CodeableConcept;
+  report?: Reference[];
+  complication?: CodeableConcept[];
+  followUp?: CodeableConcept[];
+  note?: Annotation[];
+}
+
+/**
+ * Helper functions for Procedure entity
+ */
+export const ProcedureHelpers = {
+  /**
+   * Get the procedure display name
+   */
+  getDisplayName(procedure: Procedure): string {
+    return (
+      procedure.code?.text ||
+      procedure.code?.coding?.[0]?.display ||
+      procedure.code?.coding?.[0]?.code ||
+      'Unknown procedure'
+    );
+  },
+
+  /**
+   * Get the date the procedure was performed (start of the period, if any)
+   */
+  getPerformedDate(procedure: Procedure): Date | undefined {
+    const performed = procedure.performedDateTime || procedure.performedPeriod?.start;
+    return performed ? new Date(performed) : undefined;
+  },
+
+  /**
+   * Get the performed date as display string
+   */
+  getPerformedDisplay(procedure: Procedure): string {
+    const date = ProcedureHelpers.getPerformedDate(procedure);
+    return date ? date.toLocaleDateString() : procedure.performedString || 'Date unknown';
+  },
+
+  /**
+   * Get status display string
+   */
+  getStatusDisplay(procedure: Procedure): string {
+    const statusMap: Record<ProcedureStatus, string> = {
+      preparation: 'Preparation',
+      'in-progress': 'In Progress',
+      'not-done': 'Not Done',
+      'on-hold': 'On Hold',
+      stopped: 'Stopped',
+      completed: 'Completed',
+      'entered-in-error': 'Entered in Error',
+      unknown: 'Unknown',
+    };
+    return statusMap[procedure.status] || procedure.status;
+  },
+
+  /**
+   * Get the primary performer's display name
+   */
+  getPerformerDisplay(procedure: Procedure): string | undefined {
+    return procedure.performer?.[0]?.actor.display;
+  },
+
+  /**
+   * Get the location display name
+   */
+  getLocationDisplay(procedure: Procedure): string | undefined {
+    return procedure.location?.display;
+  },
+
+  /**
+   * Get the reason display
+   */
+  getReasonDisplay(procedure: Procedure): string | undefined {
+    const reason = procedure.reasonCode?.[0];
+    return reason?.text || reason?.coding?.[0]?.display || procedure.reasonReference?.[0]?.display;
+  },
+
+  /**
+   * Get the ID of the encounter the procedure was performed in
+   */
+  getEncounterId(procedure: Procedure): string | undefined {
+    const reference = procedure.encounter?.reference;
+    if (!reference) {
+      return undefined;
+    }
+    const [type, id] = reference.split('/').slice(-2);
+    return type === 'Encounter' ? id : undefined;
+  },
+
+  /**
+   * Check if the procedure was performed
+   */
+  isCompleted(procedure: Procedure): boolean {
+    return procedure.status === 'completed';
+  },
+
+  /**
+   * Check if the procedure should be shown in history
+   */
+  isDisplayable(procedure: Procedure): boolean {
+    return procedure.status !== 'entered-in-error' && procedure.status !== 'not-done';
+  },
+
+  /**
+   * Sort procedures by performed date, most recent first
+   */
+  sortByDate(procedures: Procedure[]): Procedure[] {
+    const getTime = (procedure: Procedure) =>
+      ProcedureHelpers.getPerformedDate(procedure)?.getTime() ?? 0;
+    return [...procedures].sort((a, b) => getTime(b) - getTime(a));
+  },
+};
+
+export default Procedure;
@@ -5,6 +5,12 @@
  * Supports multi-provider architecture with authentication state tracking.
  */
 
+import {
+  CapabilityHelpers,
+  ServerCapabilities,
+  TypeRestfulInteraction,
+} from './CapabilityStatement';
+
 export interface Provider {
   /** Unique identifier for the provider (UUID) */
   id: string;
@@ -75,6 +81,9 @@ export interface ProviderMetadata {
   /** Supported FHIR resources */
   supportedResources?: string[];
 
+  /** Capabilities parsed from the server's CapabilityStatement */
+  capabilities?: ServerCapabilities;
+
   /** Supported SMART on FHIR capabilities */
   smartCapabilities?: string[];
 
@@ -224,6 +233,45 @@ export const ProviderHelpers = {
     return `${baseUrl}/metadata`;
   },
 
+  /**
+   * Record the server's capabilities on the provider
+   */
+  withCapabilities(provider: Provider, capabilities: ServerCapabilities): Provider {
+    return {
+      ...provider,
+      metadata: {
+        ...provider.metadata,
+        fhirVersion: capabilities.fhirVersion,
+        supportedResources: CapabilityHelpers.getSupportedResources(capabilities),
+        capabilities,
+      },
+    };
+  },
+
+  /**
+   * Check if the provider supports searching a resource type
+   * (true until its capabilities are known)
+   */
+  supportsSearch(provider: Provider, resourceType: string): boolean {
+    return CapabilityHelpers.supportsSearch(provider.metadata?.capabilities, resourceType);
+  },
+
+  /**
+   * Check if the provider supports an interaction (create, update, ...) on a
+   * resource type (true until its capabilities are known)
+   */
+  supportsInteraction(
+    provider: Provider,
+    resourceType: string,
+    interaction: TypeRestfulInteraction
+  ): boolean {
+    return CapabilityHelpers.supportsInteraction(
+      provider.metadata?.capabilities,
+      resourceType,
+      interaction
+    );
+  },
+
   /**
    * Build the scopes string for authorization
    */
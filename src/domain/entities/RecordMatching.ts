@@ -0,0 +1,267 @@
+/**
+ * Record Matching
+ *
+ * Finds the same clinical record arriving from more than one provider
+ * (e.g. shared through a health information exchange) and merges the
+ * copies into one logical record that keeps every source.
+ *
+ * Copies from different providers match when they:
+ * - share a business identifier (system and value), or
+ * - have a code in common, the same clinical time (to the minute, or the
+ *   day for dates) and the same value
+ *
+ * A merged record never holds two records from the same provider; those
+ * are distinct records on that server.
+ */
+
+import {
+  CodeableConcept,
+  FHIRResource,
+  FHIRResourceWithSource,
+  Identifier,
+  Quantity,
+  SourceMetadata,
+} from './FHIRTypes';
+import type { Observation } from './Observation';
+import type { DiagnosticReport } from './DiagnosticReport';
+import type { Encounter } from './Encounter';
+import type { MedicationRequest } from './MedicationRequest';
+import type { Condition } from './Condition';
+
+/**
+ * Why copies were merged
+ */
+export type DuplicateMatchReason = 'identifier' | 'clinical';
+
+/**
+ * One logical record and the copies it was merged from
+ */
+export interface MergedRecord<T extends FHIRResource = FHIRResource> {
+  /** The copy shown for the record: the most recently updated */
+  resource: T;
+  /** Where each copy came from, the shown copy first */
+  sources: SourceMetadata[];
+  /** Every copy, the shown copy first; just the record itself when nothing matched */
+  copies: FHIRResourceWithSource<T>[];
+  /** Record keys of the copies, in the same order */
+  keys: string[];
+  matchedOn: DuplicateMatchReason[];
+}
+
+/**
+ * Key identifying a record across providers, e.g. "epic/Observation/123"
+ */
+export const getRecordKey = ({ resource, source }: FHIRResourceWithSource): string =>
+  `${source.providerId}/${resource.resourceType}/${resource.id}`;
+
+// Minute precision for instants; dates are compared as written
+const normalizeTime = (value?: string): string | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  if (/^\d{4}(-\d{2}(-\d{2})?)?$/.test(value)) {
+    return value;
+  }
+  const time = Date.parse(value);
+  return isNaN(time) ? undefined : new Date(time).toISOString().slice(0, 16);
+};
+
+const quantityKey = (quantity?: Quantity): string =>
+  quantity?.value === undefined
+    ? ''
+    : `${Number(quantity.value)} ${(quantity.code || quantity.unit || '').toLowerCase()}`;
+
+const conceptKey = (concept?: CodeableConcept): string =>
+  (concept?.coding ?? [])
+    .map(coding => `${coding.system}|${coding.code}`)
+    .sort()
+    .join(',');
+
+const observationValue = (observation: Observation): string => {
+  const value =
+    quantityKey(observation.valueQuantity) ||
+    conceptKey(observation.valueCodeableConcept) ||
+    observation.valueString?.trim().toLowerCase() ||
+    (observation.valueBoolean ?? observation.valueInteger ?? '').toString();
+
+  // Panels such as blood pressure carry their values in components
+  const components = (observation.component ?? [])
+    .map(
+      component =>
+        `${conceptKey(component.code)}=${
+          quantityKey(component.valueQuantity) || conceptKey(component.valueCodeableConcept)
+        }`
+    )
+    .sort()
+    .join(';');
+
+  return [value, components].filter(Boolean).join(';');
+};
+
+interface ClinicalFacts {
+  codes: CodeableConcept[];
+  time?: string;
+  value: string;
+}
+
+// Code, clinical time and value of the resource types that are matched clinically
+const getClinicalFacts = (resource: FHIRResource): ClinicalFacts | undefined => {
+  switch (resource.resourceType) {
+    case 'Observation': {
+      const observation = resource as Observation;
+      return {
+        codes: [observation.code],
+        time:
+          observation.effectiveDateTime ||
+          observation.effectiveInstant ||
+          observation.effectivePeriod?.start ||
+          observation.issued,
+        value: observationValue(observation),
+      };
+    }
+    case 'DiagnosticReport': {
+      const report = resource as DiagnosticReport;
+      return {
+        codes: [report.code],
+        time: report.effectiveDateTime || report.effectivePeriod?.start || report.issued,
+        value: '',
+      };
+    }
+    case 'MedicationRequest': {
+      const medication = resource as MedicationRequest;
+      return {
+        codes: medication.medicationCodeableConcept ? [medication.medicationCodeableConcept] : [],
+        time: medication.authoredOn,
+        value: quantityKey(medication.dosageInstruction?.[0]?.doseAndRate?.[0]?.doseQuantity),
+      };
+    }
+    case 'Encounter': {
+      const encounter = resource as Encounter;
+      return {
+        codes: encounter.type ?? [],
+        time: encounter.period?.start,
+        value: encounter.class?.code ?? '',
+      };
+    }
+    case 'Condition': {
+      const condition = resource as Condition;
+      return {
+        codes: condition.code ? [condition.code] : [],
+        time: condition.onsetDateTime || condition.recordedDate,
+        value: '',
+      };
+    }
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Keys two copies of the same record have in common
+ */
+const getMatchKeys = (resource: FHIRResource): Array<[string, DuplicateMatchReason]> => {
+  const keys: Array<[string, DuplicateMatchReason]> = [];
+
+  ((resource as { identifier?: Identifier[] }).identifier ?? []).forEach(identifier => {
+    if (identifier.system && identifier.value) {
+      keys.push([
+        `${resource.resourceType}|${identifier.system}|${identifier.value}`,
+        'identifier',
+      ]);
+    }
+  });
+
+  const facts = getClinicalFacts(resource);
+  const time = normalizeTime(facts?.time);
+  if (facts && time) {
+    facts.codes
+      .flatMap(code => code.coding ?? [])
+      .forEach(coding => {
+        if (coding.system && coding.code) {
+          keys.push([
+            `${resource.resourceType}|${coding.system}|${coding.code}|${time}|${facts.value}`,
+            'clinical',
+          ]);
+        }
+      });
+  }
+
+  return keys;
+};
+
+// Most recently updated copy first, then the most recently fetched
+const compareCopies = (a: FHIRResourceWithSource, b: FHIRResourceWithSource): number => {
+  const updated = (record: FHIRResourceWithSource) =>
+    Date.parse(record.resource.meta?.lastUpdated ?? '') || 0;
+  const fetched = (record: FHIRResourceWithSource) => Date.parse(record.source.fetchedAt) || 0;
+
+  return updated(b) - updated(a) || fetched(b) - fetched(a);
+};
+
+/**
+ * Merge copies of the same record from different providers
+ *
+ * Records come back in the order given, with each merged record in the
+ * place of its first copy. `keptApart` lists groups of record keys the
+ * user has unmerged; records in the same group are never merged again.
+ */
+export function mergeDuplicates<T extends FHIRResource>(
+  records: FHIRResourceWithSource<T>[],
+  keptApart: string[][] = []
+): MergedRecord<T>[] {
+  const keys = records.map(getRecordKey);
+  const parent = records.map((_, index) => index);
+  const members = records.map((_, index) => [index]);
+  const reasons = records.map(() => new Set<DuplicateMatchReason>());
+
+  const find = (index: number): number =>
+    parent[index] === index ? index : (parent[index] = find(parent[index]));
+
+  const apartGroups = new Map<string, number[]>();
+  keptApart.forEach((group, groupIndex) =>
+    group.forEach(key => apartGroups.set(key, [...(apartGroups.get(key) ?? []), groupIndex]))
+  );
+  const isKeptApart = (a: number, b: number) =>
+    (apartGroups.get(keys[a]) ?? []).some(group => apartGroups.get(keys[b])?.includes(group));
+
+  const canMerge = (a: number, b: number) =>
+    members[a].every(i =>
+      members[b].every(
+        j => records[i].source.providerId !== records[j].source.providerId && !isKeptApart(i, j)
+      )
+    );
+
+  const seen = new Map<string, number[]>();
+  records.forEach((record, index) => {
+    getMatchKeys(record.resource).forEach(([key, reason]) => {
+      const matches = seen.get(key) ?? [];
+      matches.forEach(other => {
+        const a = find(index);
+        const b = find(other);
+        if (a !== b && canMerge(a, b)) {
+          const [root, child] = a < b ? [a, b] : [b, a];
+          parent[child] = root;
+          members[root] = [...members[root], ...members[child]];
+          reasons[root] = new Set([...reasons[root], ...reasons[child], reason]);
+        } else if (a === b) {
+          reasons[a].add(reason);
+        }
+      });
+      seen.set(key, [...matches, index]);
+    });
+  });
+
+  return records
+    .map((_, index) => index)
+    .filter(index => find(index) === index)
+    .map(root => {
+      const copies = members[root].map(index => records[index]).sort(compareCopies);
+      return {
+        resource: copies[0].resource,
+        sources: copies.map(copy => copy.source),
+        copies,
+        keys: copies.map(getRecordKey),
+        matchedOn: copies.length > 1 ? Array.from(reasons[root]) : [],
+      };
+    });
+}
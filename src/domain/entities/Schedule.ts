@@ -0,0 +1,57 @@
+/**
+ * FHIR R4 Schedule Entity
+ *
+ * A container for slots of time that may be available for booking
+ * appointments with a practitioner, location or service.
+ *
+ * @see https://www.hl7.org/fhir/r4/schedule.html
+ */
+
+import { FHIRResource, CodeableConcept, Reference, Identifier, Period } from './FHIRTypes';
+
+export interface Schedule extends FHIRResource {
+  resourceType: 'Schedule';
+  identifier?: Identifier[];
+  active?: boolean;
+  serviceCategory?: CodeableConcept[];
+  serviceType?: CodeableConcept[];
+  specialty?: CodeableConcept[];
+  actor: Reference[];
+  planningHorizon?: Period;
+  comment?: string;
+}
+
+/**
+ * Helper functions for Schedule entity
+ */
+export const ScheduleHelpers = {
+  /**
+   * Get the schedule display name (its practitioner, location or service)
+   */
+  getDisplayName(schedule: Schedule): string {
+    const serviceType = schedule.serviceType?.[0];
+    return (
+      schedule.actor.find(actor => actor.display)?.display ||
+      serviceType?.text ||
+      serviceType?.coding?.[0]?.display ||
+      'Schedule'
+    );
+  },
+
+  /**
+   * Get the specialty display
+   */
+  getSpecialtyDisplay(schedule: Schedule): string | undefined {
+    const specialty = schedule.specialty?.[0];
+    return specialty?.text || specialty?.coding?.[0]?.display;
+  },
+
+  /**
+   * Check if the schedule is accepting bookings (active unless marked otherwise)
+   */
+  isActive(schedule: Schedule): boolean {
+    return schedule.active !== false;
+  },
+};
+
+export default Schedule;
@@ -0,0 +1,96 @@
+/**
+ * FHIR R4 Slot Entity
+ *
+ * A slot of time on a schedule that may be available for booking
+ * appointments.
+ *
+ * @see https://www.hl7.org/fhir/r4/slot.html
+ */
+
+import { FHIRResource, CodeableConcept, Reference, Identifier } from './FHIRTypes';
+
+export type SlotStatus =
+  | 'busy'
+  | 'free'
+  | 'busy-unavailable'
+  | 'busy-tentative'
+  | 'entered-in-error';
+
+export interface Slot extends FHIRResource {
+  resourceType: 'Slot';
+  identifier?: Identifier[];
+  serviceCategory?: CodeableConcept[];
+  serviceType?: CodeableConcept[];
+  specialty?: CodeableConcept[];
+  appointmentType?: CodeableConcept;
+  schedule: Reference;
+  status: SlotStatus;
+  start: string;
+  end: string;
+  overbooked?: boolean;
+  comment?: string;
+}
+
+/**
+ * Free slots for a single day
+ */
+export interface SlotDay {
+  /** Local date key (YYYY-MM-DD) */
+  date: string;
+  slots: Slot[];
+}
+
+/**
+ * Helper functions for Slot entity
+ */
+export const SlotHelpers = {
+  /**
+   * Check if the slot can be booked
+   */
+  isFree(slot: Slot, now: Date = new Date()): boolean {
+    return slot.status === 'free' && new Date(slot.start).getTime() > now.getTime();
+  },
+
+  /**
+   * Get the start time as display string
+   */
+  getTimeDisplay(slot: Slot): string {
+    return new Date(slot.start).toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+  },
+
+  /**
+   * Get the ID of the schedule the slot belongs to
+   */
+  getScheduleId(slot: Slot): string | undefined {
+    const [type, id] = (slot.schedule.reference || '').split('/').slice(-2);
+    return type === 'Schedule' ? id : undefined;
+  },
+
+  /**
+   * Group free slots by local day, earliest first
+   */
+  groupByDay(slots: Slot[], now: Date = new Date()): SlotDay[] {
+    const days = new Map<string, Slot[]>();
+
+    const sorted = slots
+      .filter(slot => SlotHelpers.isFree(slot, now))
+      .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+
+    for (const slot of sorted) {
+      const start = new Date(slot.start);
+      const date = [
+        start.getFullYear(),
+        String(start.getMonth() + 1).padStart(2, '0'),
+        String(start.getDate()).padStart(2, '0'),
+      ].join('-');
+      days.set(date, [...(days.get(date) || []), slot]);
+    }
+
+    return Array.from(days, ([date, daySlots]) => ({ date, slots: daySlots }));
+  },
+};
+
+export default Slot;
@@ -0,0 +1,119 @@
+/**
+ * Advance Directive Tests
+ *
+ * Tests for advance directives recorded as Consent or DocumentReference
+ * resources.
+ */
+
+import { AdvanceDirectiveHelpers } from '../AdvanceDirective';
+import { Consent } from '../Consent';
+import { DocumentReference } from '../DocumentReference';
+
+const LOINC_SYSTEM = 'http://loinc.org';
+
+const consentDirective: Consent = {
+  resourceType: 'Consent',
+  id: 'acd-1',
+  status: 'active',
+  scope: { coding: [{ code: 'adr' }] },
+  category: [
+    {
+      coding: [
+        { system: 'http://terminology.hl7.org/CodeSystem/consentcategorycodes', code: 'acd' },
+      ],
+    },
+  ],
+  dateTime: '2022-05-01',
+  sourceAttachment: { contentType: 'application/pdf', url: 'Binary/acd-1', title: 'Living Will' },
+};
+
+const documentDirective: DocumentReference = {
+  resourceType: 'DocumentReference',
+  id: 'doc-1',
+  status: 'current',
+  type: { coding: [{ system: LOINC_SYSTEM, code: '64298-3', display: 'Power of attorney' }] },
+  date: '2023-02-01',
+  content: [
+    { attachment: { contentType: 'application/msword', url: 'Binary/doc-1-word' } },
+    { attachment: { contentType: 'application/pdf', url: 'Binary/doc-1' } },
+  ],
+};
+
+describe('AdvanceDirectiveHelpers', () => {
+  it('should recognise advance directive consents and documents', () => {
+    expect(AdvanceDirectiveHelpers.isAdvanceDirectiveConsent(consentDirective)).toBe(true);
+    expect(
+      AdvanceDirectiveHelpers.isAdvanceDirectiveConsent({
+        ...consentDirective,
+        category: [{ coding: [{ code: '57016-8' }] }],
+      })
+    ).toBe(false);
+
+    expect(AdvanceDirectiveHelpers.isAdvanceDirectiveDocument(documentDirective)).toBe(true);
+    expect(
+      AdvanceDirectiveHelpers.isAdvanceDirectiveDocument({
+        ...documentDirective,
+        type: { coding: [{ system: LOINC_SYSTEM, code: '11506-3' }] },
+        category: [{ coding: [{ system: LOINC_SYSTEM, code: '42348-3' }] }],
+      })
+    ).toBe(true);
+    expect(
+      AdvanceDirectiveHelpers.isAdvanceDirectiveDocument({
+        ...documentDirective,
+        type: { coding: [{ system: LOINC_SYSTEM, code: '11506-3' }] },
+      })
+    ).toBe(false);
+  });
+
+  it('should present consents and documents the same way', () => {
+    expect(AdvanceDirectiveHelpers.getTitle(consentDirective)).toBe('Living Will');
+    expect(AdvanceDirectiveHelpers.getTitle(documentDirective)).toBe('Power of attorney');
+    expect(AdvanceDirectiveHelpers.getReference(consentDirective)).toBe('Consent/acd-1');
+    expect(AdvanceDirectiveHelpers.getStatusDisplay(consentDirective)).toBe('Active');
+    expect(AdvanceDirectiveHelpers.getStatusDisplay(documentDirective)).toBe('Current');
+  });
+
+  it('should prefer an attachment the app can display', () => {
+    expect(AdvanceDirectiveHelpers.getAttachments(documentDirective)).toHaveLength(2);
+    expect(AdvanceDirectiveHelpers.getPrimaryAttachment(documentDirective)?.url).toBe(
+      'Binary/doc-1'
+    );
+    expect(
+      AdvanceDirectiveHelpers.getAttachments({ ...consentDirective, sourceAttachment: undefined })
+    ).toEqual([]);
+  });
+
+  it('should treat expired or superseded directives as not in effect', () => {
+    expect(AdvanceDirectiveHelpers.isCurrent(consentDirective)).toBe(true);
+    expect(
+      AdvanceDirectiveHelpers.isCurrent({
+        ...consentDirective,
+        provision: { period: { end: '2020-01-01' } },
+      })
+    ).toBe(false);
+    expect(AdvanceDirectiveHelpers.isCurrent({ ...documentDirective, status: 'superseded' })).toBe(
+      false
+    );
+  });
+
+  it('should sort directives in effect first, then most recent', () => {
+    const superseded: DocumentReference = {
+      ...documentDirective,
+      id: 'doc-0',
+      status: 'superseded',
+      date: '2024-01-01',
+    };
+
+    const sorted = AdvanceDirectiveHelpers.sortDirectives([
+      superseded,
+      consentDirective,
+      documentDirective,
+    ]);
+
+    expect(sorted.map(AdvanceDirectiveHelpers.getReference)).toEqual([
+      'DocumentReference/doc-1',
+      'Consent/acd-1',
+      'DocumentReference/doc-0',
+    ]);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * AllergyIntolerance Entity Tests
+ *
+ * Tests for the AllergyIntolerance FHIR R4 entity and helper functions.
+ */
+
+import { AllergyIntolerance, AllergyIntoleranceHelpers } from '../AllergyIntolerance';
+
+const CLINICAL_STATUS_SYSTEM = 'http://terminology.hl7.org/CodeSystem/allergyintolerance-clinical';
+
+const createAllergy = (
+  id: string,
+  overrides: Partial<AllergyIntolerance> = {}
+): AllergyIntolerance => ({
+  resourceType: 'AllergyIntolerance',
+  id,
+  patient: { reference: 'Patient/test-patient-123' },
+  ...overrides,
+});
+
+describe('AllergyIntolerance Entity', () => {
+  const mockAllergy: AllergyIntolerance = createAllergy('allergy-1', {
+    clinicalStatus: { coding: [{ system: CLINICAL_STATUS_SYSTEM, code: 'active' }] },
+    category: ['medication'],
+    criticality: 'high',
+    code: {
+      coding: [{ system: 'http://www.nlm.nih.gov/research/umls/rxnorm', code: '7980' }],
+      text: 'Penicillin G',
+    },
+    onsetDateTime: '2010-03-01',
+    reaction: [
+      {
+        manifestation: [{ text: 'Hives' }, { coding: [{ display: 'Anaphylaxis' }] }],
+        severity: 'severe',
+      },
+      {
+        manifestation: [{ text: 'Hives' }],
+        severity: 'mild',
+      },
+    ],
+  });
+
+  describe('AllergyIntoleranceHelpers', () => {
+    it('should get the substance display name', () => {
+      expect(AllergyIntoleranceHelpers.getDisplayName(mockAllergy)).toBe('Penicillin G');
+      expect(AllergyIntoleranceHelpers.getDisplayName(createAllergy('a'))).toBe(
+        'Unknown substance'
+      );
+    });
+
+    it('should list distinct reaction manifestations', () => {
+      expect(AllergyIntoleranceHelpers.getManifestations(mockAllergy)).toEqual([
+        'Hives',
+        'Anaphylaxis',
+      ]);
+    });
+
+    it('should return the most severe reaction', () => {
+      expect(AllergyIntoleranceHelpers.getMaxReactionSeverity(mockAllergy)).toBe('severe');
+      expect(AllergyIntoleranceHelpers.getMaxReactionSeverity(createAllergy('a'))).toBeUndefined();
+    });
+
+    it('should display criticality', () => {
+      expect(AllergyIntoleranceHelpers.getCriticalityDisplay(mockAllergy)).toBe('High Risk');
+      expect(AllergyIntoleranceHelpers.getCriticalityDisplay(createAllergy('a'))).toBe(
+        'Unknown Risk'
+      );
+    });
+
+    it('should identify medication allergies', () => {
+      expect(AllergyIntoleranceHelpers.isMedicationAllergy(mockAllergy)).toBe(true);
+      expect(
+        AllergyIntoleranceHelpers.isMedicationAllergy(createAllergy('a', { category: ['food'] }))
+      ).toBe(false);
+    });
+
+    describe('isHighCriticality', () => {
+      it('should flag active high-criticality allergies', () => {
+        expect(AllergyIntoleranceHelpers.isHighCriticality(mockAllergy)).toBe(true);
+      });
+
+      it('should ignore resolved and refuted allergies', () => {
+        const resolved = createAllergy('resolved', {
+          criticality: 'high',
+          clinicalStatus: { coding: [{ code: 'resolved' }] },
+        });
+        const refuted = createAllergy('refuted', {
+          criticality: 'high',
+          verificationStatus: { coding: [{ code: 'refuted' }] },
+        });
+
+        expect(AllergyIntoleranceHelpers.isHighCriticality(resolved)).toBe(false);
+        expect(AllergyIntoleranceHelpers.isHighCriticality(refuted)).toBe(false);
+      });
+    });
+
+    it('should sort active allergies with high criticality first', () => {
+      const sorted = AllergyIntoleranceHelpers.getActiveSorted([
+        createAllergy('low', { criticality: 'low' }),
+        createAllergy('unknown'),
+        createAllergy('inactive', {
+          criticality: 'high',
+          clinicalStatus: { coding: [{ code: 'inactive' }] },
+        }),
+        createAllergy('high', { criticality: 'high' }),
+      ]);
+
+      expect(sorted.map(a => a.id)).toEqual(['high', 'unknown', 'low']);
+    });
+  });
+});
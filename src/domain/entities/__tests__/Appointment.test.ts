@@ -0,0 +1,136 @@
+/**
+ * Appointment Entity Tests
+ *
+ * Tests for the Appointment and Slot FHIR R4 entities and scheduling helpers.
+ */
+
+import { Appointment, AppointmentHelpers } from '../Appointment';
+import { Slot, SlotHelpers } from '../Slot';
+
+const createAppointment = (
+  id: string,
+  start: string | undefined,
+  overrides: Partial<Appointment> = {}
+): Appointment => ({
+  resourceType: 'Appointment',
+  id,
+  status: 'booked',
+  start,
+  participant: [{ actor: { reference: 'Patient/test-patient-123' }, status: 'accepted' }],
+  ...overrides,
+});
+
+const createSlot = (id: string, start: string, overrides: Partial<Slot> = {}): Slot => ({
+  resourceType: 'Slot',
+  id,
+  schedule: { reference: 'Schedule/schedule-1' },
+  status: 'free',
+  start,
+  end: new Date(new Date(start).getTime() + 30 * 60 * 1000).toISOString(),
+  ...overrides,
+});
+
+describe('Appointment Entity', () => {
+  const now = new Date('2024-06-01T12:00:00Z');
+
+  describe('AppointmentHelpers', () => {
+    const mockAppointment = createAppointment('appointment-1', '2024-06-10T09:00:00Z', {
+      serviceType: [{ coding: [{ display: 'Annual Physical' }] }],
+      end: '2024-06-10T09:45:00Z',
+      participant: [
+        { actor: { reference: 'Patient/test-patient-123' }, status: 'accepted' },
+        { actor: { reference: 'Practitioner/1', display: 'Dr. Smith' }, status: 'accepted' },
+        { actor: { reference: 'Location/1', display: 'Main Clinic' }, status: 'accepted' },
+      ],
+    });
+
+    it('should get display fields', () => {
+      expect(AppointmentHelpers.getTitle(mockAppointment)).toBe('Annual Physical');
+      expect(AppointmentHelpers.getPractitionerDisplay(mockAppointment)).toBe('Dr. Smith');
+      expect(AppointmentHelpers.getLocationDisplay(mockAppointment)).toBe('Main Clinic');
+      expect(AppointmentHelpers.getDurationMinutes(mockAppointment)).toBe(45);
+      expect(AppointmentHelpers.getStatusDisplay(mockAppointment)).toBe('Booked');
+    });
+
+    it('should split upcoming (soonest first) from past (most recent first)', () => {
+      const { upcoming, past } = AppointmentHelpers.splitUpcomingPast(
+        [
+          createAppointment('later', '2024-07-01T09:00:00Z'),
+          createAppointment('old', '2024-01-01T09:00:00Z', { status: 'fulfilled' }),
+          createAppointment('soon', '2024-06-02T09:00:00Z'),
+          createAppointment('cancelled', '2024-06-05T09:00:00Z', { status: 'cancelled' }),
+          createAppointment('recent', '2024-05-01T09:00:00Z'),
+          createAppointment('error', '2024-06-03T09:00:00Z', { status: 'entered-in-error' }),
+        ],
+        now
+      );
+
+      expect(upcoming.map(a => a.id)).toEqual(['soon', 'later']);
+      expect(past.map(a => a.id)).toEqual(['cancelled', 'recent', 'old']);
+    });
+
+    it('should treat requests without a time as upcoming', () => {
+      expect(
+        AppointmentHelpers.isUpcoming(
+          createAppointment('p', undefined, { status: 'proposed' }),
+          now
+        )
+      ).toBe(true);
+    });
+
+    it('should only allow cancelling open upcoming appointments', () => {
+      expect(AppointmentHelpers.canCancel(mockAppointment, now)).toBe(true);
+      expect(
+        AppointmentHelpers.canCancel(createAppointment('p', '2024-05-01T09:00:00Z'), now)
+      ).toBe(false);
+      expect(
+        AppointmentHelpers.canCancel(
+          createAppointment('p', '2024-06-10T09:00:00Z', { status: 'checked-in' }),
+          now
+        )
+      ).toBe(false);
+    });
+
+    it('should build a booking request from a slot and its schedule actors', () => {
+      const request = AppointmentHelpers.createBookingRequest(
+        createSlot('slot-1', '2024-06-10T09:00:00Z'),
+        { reference: 'Patient/test-patient-123' },
+        [{ reference: 'Practitioner/1', display: 'Dr. Smith' }]
+      );
+
+      expect(request).toMatchObject({
+        status: 'proposed',
+        start: '2024-06-10T09:00:00Z',
+        slot: [{ reference: 'Slot/slot-1' }],
+      });
+      expect(request.participant.map(p => [p.actor?.reference, p.status])).toEqual([
+        ['Patient/test-patient-123', 'accepted'],
+        ['Practitioner/1', 'needs-action'],
+      ]);
+    });
+  });
+
+  describe('SlotHelpers', () => {
+    it('should group free future slots by day, earliest first', () => {
+      const days = SlotHelpers.groupByDay(
+        [
+          createSlot('b', '2024-06-03T15:00:00'),
+          createSlot('a', '2024-06-03T09:00:00'),
+          createSlot('busy', '2024-06-03T10:00:00', { status: 'busy' }),
+          createSlot('past', '2024-05-30T09:00:00'),
+          createSlot('c', '2024-06-04T09:00:00'),
+        ],
+        now
+      );
+
+      expect(days.map(d => [d.date, d.slots.map(s => s.id)])).toEqual([
+        ['2024-06-03', ['a', 'b']],
+        ['2024-06-04', ['c']],
+      ]);
+    });
+
+    it('should read the schedule id', () => {
+      expect(SlotHelpers.getScheduleId(createSlot('a', '2024-06-03T09:00:00Z'))).toBe('schedule-1');
+    });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * CapabilityStatement Entity Tests
+ *
+ * Tests for parsing a server CapabilityStatement and the capability checks.
+ */
+
+import { CapabilityHelpers, CapabilityStatement } from '../CapabilityStatement';
+import { Provider, ProviderHelpers } from '../Provider';
+
+describe('CapabilityStatement Entity', () => {
+  const statement: CapabilityStatement = {
+    resourceType: 'CapabilityStatement',
+    status: 'active',
+    date: '2024-01-01',
+    kind: 'instance',
+    fhirVersion: '4.0.1',
+    format: ['json'],
+    software: { name: 'Test EHR', version: '2.1' },
+    rest: [
+      {
+        mode: 'server',
+        interaction: [{ code: 'transaction' }],
+        resource: [
+          {
+            type: 'Patient',
+            interaction: [{ code: 'read' }, { code: 'search-type' }],
+            operation: [
+              {
+                name: 'everything',
+                definition: 'http://hl7.org/fhir/OperationDefinition/Patient-everything',
+              },
+            ],
+          },
+          {
+            type: 'Observation',
+            interaction: [{ code: 'read' }, { code: 'search-type' }],
+            searchParam: [
+              { name: 'patient', type: 'reference' },
+              { name: 'category', type: 'token' },
+            ],
+          },
+          {
+            type: 'Encounter',
+            interaction: [{ code: 'read' }],
+          },
+        ],
+      },
+    ],
+  };
+
+  const capabilities = CapabilityHelpers.parse(statement);
+
+  describe('parse', () => {
+    it('should summarize resources, interactions and operations', () => {
+      expect(capabilities.fhirVersion).toBe('4.0.1');
+      expect(capabilities.software).toBe('Test EHR 2.1');
+      expect(capabilities.interactions).toEqual(['transaction']);
+      expect(CapabilityHelpers.getSupportedResources(capabilities)).toEqual([
+        'Encounter',
+        'Observation',
+        'Patient',
+      ]);
+      expect(capabilities.resources.Observation.searchParams).toEqual(['patient', 'category']);
+    });
+  });
+
+  describe('supports checks', () => {
+    it('should check search support per resource type', () => {
+      expect(CapabilityHelpers.supportsSearch(capabilities, 'Observation')).toBe(true);
+      expect(CapabilityHelpers.supportsSearch(capabilities, 'Encounter')).toBe(false);
+      expect(CapabilityHelpers.supportsSearch(capabilities, 'MedicationRequest')).toBe(false);
+    });
+
+    it('should check search params and operations', () => {
+      expect(CapabilityHelpers.supportsSearchParam(capabilities, 'Observation', 'code')).toBe(
+        false
+      );
+      expect(CapabilityHelpers.supportsOperation(capabilities, '$everything', 'Patient')).toBe(
+        true
+      );
+      expect(CapabilityHelpers.supportsOperation(capabilities, 'everything', 'Encounter')).toBe(
+        false
+      );
+    });
+
+    it('should treat unknown capabilities as supported', () => {
+      expect(CapabilityHelpers.supportsSearch(undefined, 'MedicationRequest')).toBe(true);
+    });
+  });
+
+  describe('ProviderHelpers.withCapabilities', () => {
+    it('should fill supportedResources on the provider metadata', () => {
+      const provider = ProviderHelpers.createFromRegistration(
+        { name: 'Test', fhirServerUrl: 'https://fhir.example.com', clientId: 'client' },
+        'provider-1'
+      );
+
+      const negotiated: Provider = ProviderHelpers.withCapabilities(provider, capabilities);
+
+      expect(negotiated.metadata?.supportedResources).toEqual([
+        'Encounter',
+        'Observation',
+        'Patient',
+      ]);
+      expect(ProviderHelpers.supportsSearch(negotiated, 'Encounter')).toBe(false);
+      expect(ProviderHelpers.supportsSearch(provider, 'Encounter')).toBe(true);
+    });
+  });
+});
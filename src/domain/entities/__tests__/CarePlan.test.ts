@@ -0,0 +1,73 @@
+/**
+ * CarePlan Entity Tests
+ *
+ * Tests for the CarePlan and CareTeam FHIR R4 entities and helper functions.
+ */
+
+import { CarePlan, CarePlanHelpers } from '../CarePlan';
+import { CareTeam, CareTeamHelpers } from '../CareTeam';
+
+describe('CarePlan Entity', () => {
+  const mockCarePlan: CarePlan = {
+    resourceType: 'CarePlan',
+    id: 'careplan-1',
+    status: 'active',
+    intent: 'plan',
+    category: [{ coding: [{ display: 'Diabetes self management plan' }] }],
+    subject: { reference: 'Patient/test-patient-123' },
+    goal: [{ reference: 'Goal/goal-1' }, { reference: 'https://fhir.example.com/r4/Goal/goal-2' }],
+    careTeam: [{ reference: 'CareTeam/team-1' }],
+    activity: [
+      {
+        detail: {
+          code: { coding: [{ display: 'Check blood glucose' }] },
+          status: 'in-progress',
+          scheduledString: 'Daily',
+        },
+      },
+      { detail: { description: 'Old referral', status: 'cancelled' } },
+      { reference: { reference: 'ServiceRequest/1', display: 'Dietitian referral' } },
+    ],
+  };
+
+  describe('CarePlanHelpers', () => {
+    it('should fall back to the category for the title', () => {
+      expect(CarePlanHelpers.getTitle(mockCarePlan)).toBe('Diabetes self management plan');
+    });
+
+    it('should read goal and care team ids', () => {
+      expect(CarePlanHelpers.getGoalIds(mockCarePlan)).toEqual(['goal-1', 'goal-2']);
+      expect(CarePlanHelpers.getCareTeamIds(mockCarePlan)).toEqual(['team-1']);
+    });
+
+    it('should list activities that were not cancelled', () => {
+      const activities = CarePlanHelpers.getActivities(mockCarePlan);
+
+      expect(activities.map(CarePlanHelpers.getActivityName)).toEqual([
+        'Check blood glucose',
+        'Dietitian referral',
+      ]);
+      expect(CarePlanHelpers.getActivityStatusDisplay(activities[0])).toBe('In Progress');
+      expect(CarePlanHelpers.getActivityScheduleDisplay(activities[0])).toBe('Daily');
+    });
+  });
+
+  describe('CareTeamHelpers', () => {
+    it('should list named members with their roles', () => {
+      const careTeam: CareTeam = {
+        resourceType: 'CareTeam',
+        id: 'team-1',
+        participant: [
+          { role: [{ text: 'Primary care physician' }], member: { display: 'Dr. Smith' } },
+          { member: { reference: 'Practitioner/2' } },
+          { member: { display: 'Jane Doe' } },
+        ],
+      };
+
+      expect(CareTeamHelpers.getMembers(careTeam)).toEqual([
+        { name: 'Dr. Smith', role: 'Primary care physician' },
+        { name: 'Jane Doe', role: undefined },
+      ]);
+    });
+  });
+});
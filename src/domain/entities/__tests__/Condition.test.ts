@@ -0,0 +1,112 @@
+/**
+ * Condition Entity Tests
+ *
+ * Tests for the Condition FHIR R4 entity and problem list helpers.
+ */
+
+import { Condition, ConditionHelpers } from '../Condition';
+
+const CLINICAL_STATUS_SYSTEM = 'http://terminology.hl7.org/CodeSystem/condition-clinical';
+const VERIFICATION_STATUS_SYSTEM = 'http://terminology.hl7.org/CodeSystem/condition-ver-status';
+
+const createCondition = (
+  id: string,
+  clinicalStatus?: string,
+  verificationStatus?: string
+): Condition => ({
+  resourceType: 'Condition',
+  id,
+  subject: { reference: 'Patient/test-patient-123' },
+  clinicalStatus: clinicalStatus
+    ? { coding: [{ system: CLINICAL_STATUS_SYSTEM, code: clinicalStatus }] }
+    : undefined,
+  verificationStatus: verificationStatus
+    ? { coding: [{ system: VERIFICATION_STATUS_SYSTEM, code: verificationStatus }] }
+    : undefined,
+});
+
+describe('Condition Entity', () => {
+  const mockCondition: Condition = {
+    ...createCondition('condition-1', 'active', 'confirmed'),
+    code: {
+      coding: [
+        {
+          system: 'http://snomed.info/sct',
+          code: '44054006',
+          display: 'Diabetes mellitus type 2',
+        },
+        {
+          system: 'http://hl7.org/fhir/sid/icd-10-cm',
+          code: 'E11.9',
+          display: 'Type 2 diabetes mellitus without complications',
+        },
+      ],
+      text: 'Type 2 Diabetes',
+    },
+    severity: { coding: [{ code: '6736007', display: 'Moderate' }] },
+    onsetAge: { value: 45, unit: 'a' },
+  };
+
+  describe('ConditionHelpers', () => {
+    describe('getDisplayName', () => {
+      it('should prefer code text', () => {
+        expect(ConditionHelpers.getDisplayName(mockCondition)).toBe('Type 2 Diabetes');
+      });
+
+      it('should fall back to a default name', () => {
+        expect(ConditionHelpers.getDisplayName(createCondition('c'))).toBe('Unknown condition');
+      });
+    });
+
+    describe('status displays', () => {
+      it('should display clinical and verification status', () => {
+        expect(ConditionHelpers.getClinicalStatusDisplay(mockCondition)).toBe('Active');
+        expect(ConditionHelpers.getVerificationStatusDisplay(mockCondition)).toBe('Confirmed');
+      });
+
+      it('should display unknown when status is missing', () => {
+        expect(ConditionHelpers.getClinicalStatusDisplay(createCondition('c'))).toBe('Unknown');
+      });
+    });
+
+    describe('isActive', () => {
+      it('should treat recurrence and relapse as active', () => {
+        expect(ConditionHelpers.isActive(createCondition('a', 'recurrence'))).toBe(true);
+        expect(ConditionHelpers.isActive(createCondition('b', 'relapse'))).toBe(true);
+      });
+
+      it('should treat resolved conditions as inactive', () => {
+        expect(ConditionHelpers.isActive(createCondition('c', 'resolved'))).toBe(false);
+      });
+    });
+
+    describe('codes', () => {
+      it('should return the ICD-10 and SNOMED codes', () => {
+        expect(ConditionHelpers.getICD10Code(mockCondition)).toBe('E11.9');
+        expect(ConditionHelpers.getSNOMEDCode(mockCondition)).toBe('44054006');
+      });
+    });
+
+    it('should format onset age and severity', () => {
+      expect(ConditionHelpers.getOnsetDisplay(mockCondition)).toBe('Age 45');
+      expect(ConditionHelpers.getSeverityDisplay(mockCondition)).toBe('Moderate');
+    });
+
+    describe('groupByStatus', () => {
+      it('should group conditions by clinical and verification status', () => {
+        const groups = ConditionHelpers.groupByStatus([
+          createCondition('active', 'active', 'confirmed'),
+          createCondition('no-verification', 'active'),
+          createCondition('provisional', 'active', 'provisional'),
+          createCondition('resolved', 'resolved', 'confirmed'),
+          createCondition('refuted', 'active', 'refuted'),
+          createCondition('error', 'inactive', 'entered-in-error'),
+        ]);
+
+        expect(groups.active.map(c => c.id)).toEqual(['active', 'no-verification']);
+        expect(groups.unconfirmed.map(c => c.id)).toEqual(['provisional']);
+        expect(groups.past.map(c => c.id)).toEqual(['resolved']);
+      });
+    });
+  });
+});
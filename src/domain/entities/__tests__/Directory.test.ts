@@ -0,0 +1,193 @@
+/**
+ * Directory Entity Tests
+ *
+ * Tests for resolving Practitioner, PractitionerRole, Organization and
+ * Location references and building the care team from encounters.
+ */
+
+import { DirectoryHelpers } from '../Directory';
+import { Encounter, EncounterHelpers } from '../Encounter';
+import { MedicationRequest, MedicationRequestHelpers } from '../MedicationRequest';
+import { Practitioner } from '../Practitioner';
+import { PractitionerRole } from '../PractitionerRole';
+import { Organization } from '../Organization';
+import { Location } from '../Location';
+import { ResolvedReferences } from '../FHIRTypes';
+
+const practitioner: Practitioner = {
+  resourceType: 'Practitioner',
+  id: 'pr-1',
+  name: [{ use: 'official', prefix: ['Dr.'], given: ['Jane'], family: 'Smith', suffix: ['MD'] }],
+  qualification: [{ code: { coding: [{ code: 'MD', display: 'Doctor of Medicine' }] } }],
+  telecom: [
+    { system: 'email', value: 'jsmith@example.com' },
+    { system: 'phone', value: '555-0100', use: 'work' },
+  ],
+};
+
+const organization: Organization = {
+  resourceType: 'Organization',
+  id: 'org-1',
+  name: 'General Hospital',
+  address: [{ line: ['1 Main St'], city: 'Springfield', state: 'IL', postalCode: '62701' }],
+  telecom: [{ system: 'phone', value: '555-0199' }],
+};
+
+const location: Location = {
+  resourceType: 'Location',
+  id: 'loc-1',
+  name: 'Cardiology Clinic',
+  address: { line: ['2 Heart Ave'], city: 'Springfield', state: 'IL' },
+  managingOrganization: { reference: 'Organization/org-1' },
+};
+
+const role: PractitionerRole = {
+  resourceType: 'PractitionerRole',
+  id: 'role-1',
+  practitioner: { reference: 'Practitioner/pr-1' },
+  organization: { reference: 'Organization/org-1' },
+  location: [{ reference: 'Location/loc-1' }],
+  specialty: [{ coding: [{ code: '394579002', display: 'Cardiology' }] }],
+};
+
+const references: ResolvedReferences = {
+  'Practitioner/pr-1': practitioner,
+  'PractitionerRole/role-1': role,
+  'Organization/org-1': organization,
+  'Location/loc-1': location,
+};
+
+const createEncounter = (
+  id: string,
+  start: string,
+  participants: Array<{ reference?: string; display?: string }>,
+  status: Encounter['status'] = 'finished'
+): Encounter => ({
+  resourceType: 'Encounter',
+  id,
+  status,
+  class: { code: 'AMB' },
+  period: { start },
+  participant: participants.map(individual => ({
+    type: [{ coding: [{ code: 'ATND' }] }],
+    individual,
+  })),
+  location: [{ location: { reference: 'Location/loc-1' } }],
+  serviceProvider: { reference: 'Organization/org-1' },
+});
+
+describe('DirectoryHelpers', () => {
+  it('should detect directory reference types', () => {
+    expect(DirectoryHelpers.getReferenceType('Practitioner/pr-1')).toBe('Practitioner');
+    expect(DirectoryHelpers.getReferenceType('https://fhir.example.com/r4/Location/loc-1')).toBe(
+      'Location'
+    );
+    expect(DirectoryHelpers.getReferenceType('Patient/p-1')).toBeUndefined();
+    expect(DirectoryHelpers.getReferenceType(undefined)).toBeUndefined();
+  });
+
+  it('should build an entry from a Practitioner', () => {
+    const entry = DirectoryHelpers.getEntry({ reference: 'Practitioner/pr-1' }, references);
+
+    expect(entry).toEqual(
+      expect.objectContaining({
+        resourceType: 'Practitioner',
+        name: 'Dr. Jane Smith, MD',
+        specialties: ['Doctor of Medicine'],
+        phone: '555-0100',
+      })
+    );
+  });
+
+  it('should combine a PractitionerRole with its practitioner, organization and location', () => {
+    const entry = DirectoryHelpers.getEntry({ reference: 'PractitionerRole/role-1' }, references);
+
+    expect(entry).toEqual(
+      expect.objectContaining({
+        name: 'Dr. Jane Smith, MD',
+        specialties: ['Cardiology'],
+        organization: 'General Hospital',
+        address: '2 Heart Ave, Springfield, IL',
+        phone: '555-0100',
+      })
+    );
+  });
+
+  it('should fall back to the display text for unresolved references', () => {
+    expect(
+      DirectoryHelpers.getEntry({ reference: 'Practitioner/unknown', display: 'Dr. Who' })
+    ).toEqual(expect.objectContaining({ name: 'Dr. Who', specialties: [] }));
+    expect(DirectoryHelpers.getEntry({ reference: 'Practitioner/unknown' })).toBeUndefined();
+  });
+
+  it('should collect unique directory references from encounters', () => {
+    const encounters = [
+      createEncounter('e1', '2024-01-01', [{ reference: 'Practitioner/pr-1' }]),
+      createEncounter('e2', '2024-02-01', [
+        { reference: 'Practitioner/pr-1' },
+        { reference: 'Patient/p-1' },
+      ]),
+    ];
+
+    expect(DirectoryHelpers.getEncounterReferences(encounters).sort()).toEqual([
+      'Location/loc-1',
+      'Organization/org-1',
+      'Practitioner/pr-1',
+    ]);
+  });
+
+  it('should build the care team, most recently seen first', () => {
+    const encounters = [
+      createEncounter('e1', '2024-01-10', [{ reference: 'Practitioner/pr-1' }]),
+      createEncounter('e2', '2024-03-05', [{ reference: 'PractitionerRole/role-1' }]),
+      createEncounter('e3', '2024-06-01', [{ display: 'Nurse Joy' }]),
+      createEncounter('e4', '2024-02-01', [{ reference: 'Practitioner/pr-2', display: 'Dr. Lee' }]),
+      createEncounter(
+        'e5',
+        '2024-07-01',
+        [{ reference: 'Practitioner/pr-3', display: 'Dr. Gone' }],
+        'cancelled'
+      ),
+    ];
+
+    const careTeam = DirectoryHelpers.getCareTeam(encounters, references);
+
+    expect(careTeam.map(contact => contact.name)).toEqual(['Dr. Jane Smith, MD', 'Dr. Lee']);
+    expect(careTeam[0]).toEqual(
+      expect.objectContaining({
+        visitCount: 2,
+        lastSeen: new Date('2024-03-05'),
+        specialties: ['Doctor of Medicine', 'Cardiology'],
+        organization: 'General Hospital',
+      })
+    );
+  });
+});
+
+describe('Resolved references on clinical resources', () => {
+  it('should resolve the encounter practitioner and location', () => {
+    const encounter = createEncounter('e1', '2024-01-01', [{ reference: 'Practitioner/pr-1' }]);
+
+    expect(EncounterHelpers.getPrimaryPractitioner(encounter)).toBeUndefined();
+    expect(EncounterHelpers.getPrimaryPractitioner(encounter, references)).toBe(
+      'Dr. Jane Smith, MD'
+    );
+    expect(EncounterHelpers.getPrimaryLocation(encounter, references)).toBe('Cardiology Clinic');
+  });
+
+  it('should resolve the prescriber name', () => {
+    const medicationRequest: MedicationRequest = {
+      resourceType: 'MedicationRequest',
+      status: 'active',
+      intent: 'order',
+      subject: { reference: 'Patient/p-1' },
+      medicationCodeableConcept: { text: 'Lisinopril 10 mg' },
+      requester: { reference: 'PractitionerRole/role-1', display: 'J. Smith' },
+    };
+
+    expect(MedicationRequestHelpers.getPrescriberName(medicationRequest)).toBe('J. Smith');
+    expect(MedicationRequestHelpers.getPrescriberName(medicationRequest, references)).toBe(
+      'Dr. Jane Smith, MD'
+    );
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * DocumentReference Entity Tests
+ *
+ * Tests for the DocumentReference FHIR R4 entity and helper functions.
+ */
+
+import { DocumentReference, DocumentReferenceHelpers } from '../DocumentReference';
+
+describe('DocumentReference Entity', () => {
+  const mockDocument: DocumentReference = {
+    resourceType: 'DocumentReference',
+    id: 'doc-1',
+    status: 'current',
+    type: { coding: [{ system: 'http://loinc.org', code: '11506-3', display: 'Progress note' }] },
+    category: [{ coding: [{ display: 'Clinical Note' }] }],
+    subject: { reference: 'Patient/test-patient-123' },
+    date: '2024-03-01T10:00:00Z',
+    author: [{ display: 'Dr. Smith' }, { reference: 'Practitioner/2' }],
+    content: [
+      { attachment: { contentType: 'application/msword', url: 'Binary/doc-1-word' } },
+      { attachment: { contentType: 'text/html; charset=utf-8', url: 'Binary/doc-1-html' } },
+      { attachment: { contentType: 'application/pdf', url: 'Binary/doc-1-pdf' } },
+    ],
+  };
+
+  describe('DocumentReferenceHelpers', () => {
+    it('should read the title, category and authors', () => {
+      expect(DocumentReferenceHelpers.getTitle(mockDocument)).toBe('Progress note');
+      expect(DocumentReferenceHelpers.getCategoryDisplay(mockDocument)).toBe('Clinical Note');
+      expect(DocumentReferenceHelpers.getAuthorDisplay(mockDocument)).toBe('Dr. Smith');
+    });
+
+    it('should pick a viewer by content type', () => {
+      expect(DocumentReferenceHelpers.getViewerType('application/pdf')).toBe('pdf');
+      expect(DocumentReferenceHelpers.getViewerType('image/jpeg')).toBe('image');
+      expect(DocumentReferenceHelpers.getViewerType('text/html; charset=utf-8')).toBe('html');
+      expect(DocumentReferenceHelpers.getViewerType('text/plain')).toBe('text');
+      expect(DocumentReferenceHelpers.getViewerType('application/msword')).toBeUndefined();
+    });
+
+    it('should prefer the PDF rendition and skip formats it cannot display', () => {
+      expect(DocumentReferenceHelpers.getPrimaryAttachment(mockDocument)?.url).toBe(
+        'Binary/doc-1-pdf'
+      );
+
+      const wordOnly = { ...mockDocument, content: mockDocument.content.slice(0, 1) };
+      expect(DocumentReferenceHelpers.canView(wordOnly)).toBe(false);
+    });
+
+    it('should index only attachments with content to download', () => {
+      const withEmpty: DocumentReference = {
+        ...mockDocument,
+        content: [{ attachment: { contentType: 'text/plain' } }, ...mockDocument.content],
+      };
+
+      const attachments = DocumentReferenceHelpers.getAttachments(withEmpty);
+      expect(attachments.map(attachment => attachment.url)).toEqual([
+        'Binary/doc-1-word',
+        'Binary/doc-1-html',
+        'Binary/doc-1-pdf',
+      ]);
+      expect(attachments.indexOf(DocumentReferenceHelpers.getPrimaryAttachment(withEmpty)!)).toBe(
+        2
+      );
+    });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Goal Entity Tests
+ *
+ * Tests for goal targets and progress measured from observations.
+ */
+
+import { Goal, GoalHelpers, GoalTarget } from '../Goal';
+import { Observation } from '../Observation';
+
+const LOINC_SYSTEM = 'http://loinc.org';
+
+const createGoal = (target: GoalTarget[], overrides: Partial<Goal> = {}): Goal => ({
+  resourceType: 'Goal',
+  id: 'goal-1',
+  lifecycleStatus: 'active',
+  description: { text: 'Lower blood pressure' },
+  subject: { reference: 'Patient/test-patient-123' },
+  target,
+  ...overrides,
+});
+
+const createObservation = (
+  id: string,
+  code: string,
+  value: number,
+  effectiveDateTime: string,
+  unit = 'mm[Hg]'
+): Observation => ({
+  resourceType: 'Observation',
+  id,
+  status: 'final',
+  code: { coding: [{ system: LOINC_SYSTEM, code }] },
+  effectiveDateTime,
+  valueQuantity: { value, unit, code: unit },
+});
+
+const systolicTarget: GoalTarget = {
+  measure: { coding: [{ system: LOINC_SYSTEM, code: '8480-6', display: 'Systolic BP' }] },
+  detailQuantity: { value: 130, comparator: '<', unit: 'mm[Hg]', code: 'mm[Hg]' },
+};
+
+describe('Goal Entity', () => {
+  describe('meetsTarget', () => {
+    it('should compare against quantity comparators and ranges', () => {
+      expect(GoalHelpers.meetsTarget(systolicTarget, { value: 125, code: 'mm[Hg]' })).toBe(true);
+      expect(GoalHelpers.meetsTarget(systolicTarget, { value: 130, code: 'mm[Hg]' })).toBe(false);
+
+      const range: GoalTarget = { detailRange: { low: { value: 4 }, high: { value: 5.6 } } };
+      expect(GoalHelpers.meetsTarget(range, { value: 5.1 })).toBe(true);
+      expect(GoalHelpers.meetsTarget(range, { value: 6.2 })).toBe(false);
+    });
+
+    it('should not compare values in different units', () => {
+      expect(GoalHelpers.meetsTarget(systolicTarget, { value: 17, code: 'kPa' })).toBeUndefined();
+    });
+  });
+
+  describe('getProgress', () => {
+    it('should measure the latest value and progress from the first reading', () => {
+      const [progress] = GoalHelpers.getProgress(createGoal([systolicTarget]), [
+        createObservation('latest', '8480-6', 140, '2024-03-01'),
+        createObservation('first', '8480-6', 160, '2024-01-01'),
+        createObservation('other', '8462-4', 90, '2024-03-01'),
+      ]);
+
+      expect(progress).toMatchObject({
+        measureCode: '8480-6',
+        measureName: 'Systolic BP',
+        targetDisplay: '< 130 mm[Hg]',
+        current: { value: 140 },
+        isMet: false,
+        percent: 67,
+      });
+    });
+
+    it('should read values from observation components', () => {
+      const panel: Observation = {
+        resourceType: 'Observation',
+        id: 'bp',
+        status: 'final',
+        code: { coding: [{ system: LOINC_SYSTEM, code: '85354-9' }] },
+        effectiveDateTime: '2024-03-01',
+        component: [
+          {
+            code: { coding: [{ system: LOINC_SYSTEM, code: '8480-6' }] },
+            valueQuantity: { value: 124, unit: 'mm[Hg]', code: 'mm[Hg]' },
+          },
+        ],
+      };
+
+      const [progress] = GoalHelpers.getProgress(createGoal([systolicTarget]), [panel]);
+
+      expect(progress.current?.value).toBe(124);
+      expect(progress.isMet).toBe(true);
+      expect(progress.percent).toBeUndefined();
+    });
+
+    it('should ignore readings from before the goal started', () => {
+      const [progress] = GoalHelpers.getProgress(
+        createGoal([systolicTarget], { startDate: '2024-02-01' }),
+        [createObservation('old', '8480-6', 150, '2024-01-01')]
+      );
+
+      expect(progress.current).toBeUndefined();
+      expect(progress.isMet).toBeUndefined();
+    });
+
+    it('should skip targets without a LOINC measure', () => {
+      const goal = createGoal([{ detailString: 'Walk 30 minutes a day' }]);
+
+      expect(GoalHelpers.getProgress(goal, [])).toEqual([]);
+      expect(GoalHelpers.getTargetDisplay(goal.target![0])).toBe('Walk 30 minutes a day');
+    });
+  });
+});
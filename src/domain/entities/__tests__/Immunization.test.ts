@@ -0,0 +1,76 @@
+/**
+ * Immunization Entity Tests
+ *
+ * Tests for the Immunization FHIR R4 entity and vaccine history helpers.
+ */
+
+import { Immunization, ImmunizationHelpers, CVX_SYSTEM } from '../Immunization';
+
+const createImmunization = (
+  id: string,
+  cvx: string,
+  display: string,
+  occurrenceDateTime: string,
+  overrides: Partial<Immunization> = {}
+): Immunization => ({
+  resourceType: 'Immunization',
+  id,
+  status: 'completed',
+  vaccineCode: { coding: [{ system: CVX_SYSTEM, code: cvx, display }] },
+  patient: { reference: 'Patient/test-patient-123' },
+  occurrenceDateTime,
+  ...overrides,
+});
+
+describe('Immunization Entity', () => {
+  const hepB2 = createImmunization('hepb-2', '08', 'Hep B', '2020-02-01', {
+    protocolApplied: [{ doseNumberPositiveInt: 2, seriesDosesPositiveInt: 3 }],
+  });
+
+  describe('ImmunizationHelpers', () => {
+    it('should get the vaccine name and CVX code', () => {
+      expect(ImmunizationHelpers.getVaccineName(hepB2)).toBe('Hep B');
+      expect(ImmunizationHelpers.getCVXCode(hepB2)).toBe('08');
+    });
+
+    describe('getDoseDisplay', () => {
+      it('should show the dose within its series', () => {
+        expect(ImmunizationHelpers.getDoseDisplay(hepB2)).toBe('Dose 2 of 3');
+      });
+
+      it('should show the dose number without a series size', () => {
+        const dose = createImmunization('flu', '141', 'Influenza', '2023-10-01', {
+          protocolApplied: [{ doseNumberString: '1' }],
+        });
+        expect(ImmunizationHelpers.getDoseDisplay(dose)).toBe('Dose 1');
+      });
+
+      it('should be undefined when no protocol is recorded', () => {
+        const dose = createImmunization('flu', '141', 'Influenza', '2023-10-01');
+        expect(ImmunizationHelpers.getDoseDisplay(dose)).toBeUndefined();
+      });
+    });
+
+    describe('groupByVaccine', () => {
+      it('should group doses by CVX code, oldest dose first', () => {
+        const groups = ImmunizationHelpers.groupByVaccine([
+          hepB2,
+          createImmunization('flu', '141', 'Influenza', '2023-10-01'),
+          createImmunization('hepb-1', '08', 'Hepatitis B vaccine', '2020-01-01'),
+        ]);
+
+        expect(groups.map(g => g.vaccineCode)).toEqual(['141', '08']);
+        expect(groups[1].doses.map(d => d.id)).toEqual(['hepb-1', 'hepb-2']);
+      });
+
+      it('should skip doses that were not given', () => {
+        const groups = ImmunizationHelpers.groupByVaccine([
+          createImmunization('not-done', '141', 'Influenza', '2023-10-01', { status: 'not-done' }),
+          createImmunization('error', '08', 'Hep B', '2020-01-01', { status: 'entered-in-error' }),
+        ]);
+
+        expect(groups).toEqual([]);
+      });
+    });
+  });
+});
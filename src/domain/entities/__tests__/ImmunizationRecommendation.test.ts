@@ -0,0 +1,94 @@
+/**
+ * ImmunizationRecommendation Entity Tests
+ *
+ * Tests for the vaccine forecast helpers.
+ */
+
+import {
+  ImmunizationRecommendation,
+  ImmunizationRecommendationItem,
+  ImmunizationRecommendationHelpers,
+  ImmunizationDateCriteria,
+} from '../ImmunizationRecommendation';
+
+const LOINC_SYSTEM = 'http://loinc.org';
+
+const createItem = (
+  vaccine: string,
+  forecastStatus: string,
+  dates: Record<string, string> = {}
+): ImmunizationRecommendationItem => ({
+  vaccineCode: [{ text: vaccine }],
+  forecastStatus: { coding: [{ code: forecastStatus }] },
+  dateCriterion: Object.entries(dates).map(([code, value]) => ({
+    code: { coding: [{ system: LOINC_SYSTEM, code }] },
+    value,
+  })),
+});
+
+const createRecommendation = (
+  recommendation: ImmunizationRecommendationItem[]
+): ImmunizationRecommendation => ({
+  resourceType: 'ImmunizationRecommendation',
+  id: 'recommendation-1',
+  patient: { reference: 'Patient/test-patient-123' },
+  date: '2024-01-01',
+  recommendation,
+});
+
+describe('ImmunizationRecommendation Entity', () => {
+  const now = new Date('2024-06-01T00:00:00Z');
+
+  describe('getForecasts', () => {
+    it('should return only due and overdue vaccines, overdue first', () => {
+      const forecasts = ImmunizationRecommendationHelpers.getForecasts(
+        [
+          createRecommendation([
+            createItem('Influenza', 'due', { [ImmunizationDateCriteria.DUE_DATE]: '2024-09-01' }),
+            createItem('MMR', 'complete'),
+            createItem('Tdap', 'overdue', { [ImmunizationDateCriteria.DUE_DATE]: '2024-02-01' }),
+            createItem('Hep A', 'immune'),
+          ]),
+        ],
+        now
+      );
+
+      expect(forecasts.map(f => [f.vaccineName, f.status])).toEqual([
+        ['Tdap', 'overdue'],
+        ['Influenza', 'due'],
+      ]);
+      expect(forecasts[1].dueDate).toEqual(new Date('2024-09-01'));
+    });
+
+    it('should mark due vaccines past their overdue date as overdue', () => {
+      const [forecast] = ImmunizationRecommendationHelpers.getForecasts(
+        [
+          createRecommendation([
+            createItem('Zoster', 'due', {
+              [ImmunizationDateCriteria.DUE_DATE]: '2024-01-01',
+              [ImmunizationDateCriteria.OVERDUE_DATE]: '2024-03-01',
+            }),
+          ]),
+        ],
+        now
+      );
+
+      expect(forecast.status).toBe('overdue');
+    });
+
+    it('should fall back to the target disease name', () => {
+      const item: ImmunizationRecommendationItem = {
+        targetDisease: { coding: [{ display: 'Pertussis' }] },
+        forecastStatus: { text: 'Due' },
+      };
+
+      const [forecast] = ImmunizationRecommendationHelpers.getForecasts(
+        [createRecommendation([item])],
+        now
+      );
+
+      expect(forecast).toMatchObject({ vaccineName: 'Pertussis', status: 'due' });
+      expect(forecast.dueDate).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Insurance Entity Tests
+ *
+ * Tests for the Coverage and ExplanationOfBenefit (CARIN Blue Button)
+ * FHIR R4 entities and helper functions.
+ */
+
+import { Coverage, CoverageHelpers } from '../Coverage';
+import { ExplanationOfBenefit, ExplanationOfBenefitHelpers } from '../ExplanationOfBenefit';
+
+const ADJUDICATION_SYSTEM = 'http://terminology.hl7.org/CodeSystem/adjudication';
+const CARIN_ADJUDICATION_SYSTEM = 'http://hl7.org/fhir/us/carin-bb/CodeSystem/C4BBAdjudication';
+
+describe('Coverage Entity', () => {
+  const mockCoverage: Coverage = {
+    resourceType: 'Coverage',
+    id: 'coverage-1',
+    status: 'active',
+    identifier: [
+      { value: 'internal-1' },
+      { type: { coding: [{ code: 'MB' }] }, value: 'MBR-12345' },
+    ],
+    subscriberId: 'SUB-1',
+    beneficiary: { reference: 'Patient/test-patient-123' },
+    payor: [{ reference: 'Organization/payer-1', display: 'Acme Health Plan' }],
+    period: { start: '2024-01-01', end: '2024-12-31' },
+    class: [
+      { type: { coding: [{ code: 'group' }] }, value: 'GRP-100', name: 'Acme Corp' },
+      { type: { coding: [{ code: 'plan' }] }, value: 'PPO-1' },
+    ],
+  };
+
+  it('should read the card fields', () => {
+    expect(CoverageHelpers.getPayerName(mockCoverage)).toBe('Acme Health Plan');
+    expect(CoverageHelpers.getMemberId(mockCoverage)).toBe('MBR-12345');
+    expect(CoverageHelpers.getGroupDisplay(mockCoverage)).toBe('Acme Corp (GRP-100)');
+    expect(CoverageHelpers.getPlanDisplay(mockCoverage)).toBe('PPO-1');
+  });
+
+  it('should fall back to the subscriber id for the member id', () => {
+    expect(CoverageHelpers.getMemberId({ ...mockCoverage, identifier: undefined })).toBe('SUB-1');
+  });
+
+  it('should only be active within the coverage period', () => {
+    expect(CoverageHelpers.isActive(mockCoverage, new Date('2024-06-01'))).toBe(true);
+    expect(CoverageHelpers.isActive(mockCoverage, new Date('2025-06-01'))).toBe(false);
+    expect(
+      CoverageHelpers.isActive({ ...mockCoverage, status: 'cancelled' }, new Date('2024-06-01'))
+    ).toBe(false);
+  });
+});
+
+describe('ExplanationOfBenefit Entity', () => {
+  const createClaim = (overrides: Partial<ExplanationOfBenefit> = {}): ExplanationOfBenefit => ({
+    resourceType: 'ExplanationOfBenefit',
+    id: 'eob-1',
+    status: 'active',
+    type: { coding: [{ code: 'professional' }] },
+    use: 'claim',
+    patient: { reference: 'Patient/test-patient-123' },
+    created: '2024-03-10',
+    billablePeriod: { start: '2024-03-01' },
+    insurer: { display: 'Acme Health Plan' },
+    provider: { display: 'City Clinic' },
+    outcome: 'complete',
+    insurance: [{ focal: true, coverage: { reference: 'Coverage/coverage-1' } }],
+    total: [
+      {
+        category: { coding: [{ system: ADJUDICATION_SYSTEM, code: 'submitted' }] },
+        amount: { value: 250, currency: 'USD' },
+      },
+      {
+        category: { coding: [{ system: ADJUDICATION_SYSTEM, code: 'eligible' }] },
+        amount: { value: 180, currency: 'USD' },
+      },
+      {
+        category: { coding: [{ system: CARIN_ADJUDICATION_SYSTEM, code: 'memberliability' }] },
+        amount: { value: 30.5, currency: 'USD' },
+      },
+    ],
+    ...overrides,
+  });
+
+  it('should read the claim totals', () => {
+    const claim = createClaim();
+
+    expect(ExplanationOfBenefitHelpers.getTotal(claim, 'BILLED')?.value).toBe(250);
+    expect(ExplanationOfBenefitHelpers.getTotal(claim, 'ALLOWED')?.value).toBe(180);
+    expect(ExplanationOfBenefitHelpers.getTotal(claim, 'PATIENT_RESPONSIBILITY')?.value).toBe(30.5);
+    expect(ExplanationOfBenefitHelpers.getTotal(claim, 'PAID_BY_PAYER')).toBeUndefined();
+  });
+
+  it('should sum line item adjudications when there is no claim total', () => {
+    const adjudication = (code: string, value: number) => ({
+      category: { coding: [{ system: ADJUDICATION_SYSTEM, code }] },
+      amount: { value, currency: 'USD' },
+    });
+    const claim = createClaim({
+      total: undefined,
+      item: [
+        {
+          sequence: 1,
+          productOrService: { text: 'Office visit' },
+          adjudication: [adjudication('submitted', 100.1)],
+        },
+        {
+          sequence: 2,
+          productOrService: { text: 'Lab panel' },
+          adjudication: [adjudication('submitted', 50.2), adjudication('eligible', 40)],
+        },
+      ],
+    });
+
+    expect(ExplanationOfBenefitHelpers.getTotal(claim, 'BILLED')?.value).toBe(150.3);
+    expect(ExplanationOfBenefitHelpers.getServices(claim)).toEqual(['Office visit', 'Lab panel']);
+  });
+
+  it('should sum totals across claims and format them as currency', () => {
+    const total = ExplanationOfBenefitHelpers.sumTotals(
+      [createClaim(), createClaim({ id: 'eob-2' })],
+      'PATIENT_RESPONSIBILITY'
+    );
+
+    expect(total?.value).toBe(61);
+    expect(ExplanationOfBenefitHelpers.formatMoney(total)).toBe('$61.00');
+    expect(ExplanationOfBenefitHelpers.formatMoney(undefined)).toBe('—');
+  });
+
+  it('should sort claims by date of service', () => {
+    const older = createClaim({ id: 'older', billablePeriod: { start: '2023-11-01' } });
+    const newer = createClaim({ id: 'newer' });
+
+    expect(ExplanationOfBenefitHelpers.sortByServiceDate([older, newer]).map(c => c.id)).toEqual([
+      'newer',
+      'older',
+    ]);
+    expect(ExplanationOfBenefitHelpers.getTypeDisplay(newer)).toBe('Professional');
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Procedure Entity Tests
+ *
+ * Tests for the Procedure FHIR R4 entity and helper functions.
+ */
+
+import { Procedure, ProcedureHelpers } from '../Procedure';
+
+const createProcedure = (id: string, overrides: Partial<Procedure> = {}): Procedure => ({
+  resourceType: 'Procedure',
+  id,
+  status: 'completed',
+  subject: { reference: 'Patient/test-patient-123' },
+  ...overrides,
+});
+
+describe('Procedure Entity', () => {
+  const mockProcedure = createProcedure('procedure-1', {
+    code: {
+      coding: [{ system: 'http://snomed.info/sct', code: '80146002', display: 'Appendectomy' }],
+    },
+    encounter: { reference: 'Encounter/encounter-1' },
+    performedPeriod: { start: '2021-06-10T08:00:00Z', end: '2021-06-10T10:00:00Z' },
+    performer: [{ actor: { reference: 'Practitioner/1', display: 'Dr. Smith' } }],
+    location: { display: 'General Hospital' },
+  });
+
+  describe('ProcedureHelpers', () => {
+    it('should get display fields', () => {
+      expect(ProcedureHelpers.getDisplayName(mockProcedure)).toBe('Appendectomy');
+      expect(ProcedureHelpers.getPerformerDisplay(mockProcedure)).toBe('Dr. Smith');
+      expect(ProcedureHelpers.getLocationDisplay(mockProcedure)).toBe('General Hospital');
+      expect(ProcedureHelpers.getStatusDisplay(mockProcedure)).toBe('Completed');
+    });
+
+    it('should use the start of the performed period', () => {
+      expect(ProcedureHelpers.getPerformedDate(mockProcedure)).toEqual(
+        new Date('2021-06-10T08:00:00Z')
+      );
+      expect(
+        ProcedureHelpers.getPerformedDisplay(createProcedure('p', { performedString: 'Childhood' }))
+      ).toBe('Childhood');
+    });
+
+    describe('getEncounterId', () => {
+      it('should read relative and absolute encounter references', () => {
+        expect(ProcedureHelpers.getEncounterId(mockProcedure)).toBe('encounter-1');
+        expect(
+          ProcedureHelpers.getEncounterId(
+            createProcedure('p', {
+              encounter: { reference: 'https://fhir.example.com/r4/Encounter/abc' },
+            })
+          )
+        ).toBe('abc');
+      });
+
+      it('should be undefined without an encounter reference', () => {
+        expect(ProcedureHelpers.getEncounterId(createProcedure('p'))).toBeUndefined();
+      });
+    });
+
+    it('should hide procedures that were not done or recorded in error', () => {
+      expect(ProcedureHelpers.isDisplayable(mockProcedure)).toBe(true);
+      expect(ProcedureHelpers.isDisplayable(createProcedure('p', { status: 'not-done' }))).toBe(
+        false
+      );
+      expect(
+        ProcedureHelpers.isDisplayable(createProcedure('p', { status: 'entered-in-error' }))
+      ).toBe(false);
+    });
+
+    it('should sort procedures most recent first', () => {
+      const sorted = ProcedureHelpers.sortByDate([
+        createProcedure('old', { performedDateTime: '2019-01-01' }),
+        createProcedure('undated'),
+        createProcedure('new', { performedDateTime: '2023-03-01' }),
+      ]);
+
+      expect(sorted.map(p => p.id)).toEqual(['new', 'old', 'undated']);
+    });
+  });
+});
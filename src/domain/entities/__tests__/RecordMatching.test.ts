@@ -0,0 +1,116 @@
+/**
+ * Record Matching Tests
+ *
+ * Tests for merging copies of the same record from different providers.
+ */
+
+import { FHIRResourceWithSource } from '../FHIRTypes';
+import { getRecordKey, mergeDuplicates } from '../RecordMatching';
+import { Observation } from '../Observation';
+import { MedicationRequest } from '../MedicationRequest';
+
+const LOINC_SYSTEM = 'http://loinc.org';
+
+const withSource = <T extends Observation | MedicationRequest>(
+  providerId: string,
+  resource: T,
+  fetchedAt = '2024-03-01T12:00:00Z'
+): FHIRResourceWithSource<T> => ({
+  resource,
+  source: {
+    providerId,
+    providerName: `Provider ${providerId}`,
+    serverUrl: `https://${providerId}.example.com/fhir`,
+    fetchedAt,
+  },
+});
+
+const glucose = (id: string, overrides: Partial<Observation> = {}): Observation => ({
+  resourceType: 'Observation',
+  id,
+  status: 'final',
+  code: { coding: [{ system: LOINC_SYSTEM, code: '2345-7', display: 'Glucose' }] },
+  effectiveDateTime: '2024-02-10T08:30:00Z',
+  valueQuantity: { value: 95, unit: 'mg/dL', code: 'mg/dL' },
+  ...overrides,
+});
+
+describe('mergeDuplicates', () => {
+  it('should merge copies sharing a business identifier', () => {
+    const identifier = [{ system: 'urn:oid:2.16.840.1.113883.3.1', value: 'RX-42' }];
+    const merged = mergeDuplicates<MedicationRequest>([
+      withSource('a', {
+        resourceType: 'MedicationRequest',
+        id: 'm1',
+        status: 'active',
+        intent: 'order',
+        subject: { reference: 'Patient/1' },
+        identifier,
+      }),
+      withSource('b', {
+        resourceType: 'MedicationRequest',
+        id: 'x9',
+        status: 'active',
+        intent: 'order',
+        subject: { reference: 'Patient/7' },
+        identifier,
+      }),
+    ]);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].matchedOn).toEqual(['identifier']);
+  });
+
+  it('should merge copies with the same code, time to the minute and value', () => {
+    const merged = mergeDuplicates([
+      withSource('a', glucose('g1')),
+      withSource('b', glucose('g2', { effectiveDateTime: '2024-02-10T03:30:45-05:00' })),
+    ]);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].matchedOn).toEqual(['clinical']);
+    expect(merged[0].keys.sort()).toEqual(['a/Observation/g1', 'b/Observation/g2']);
+  });
+
+  it('should keep records with different values apart', () => {
+    const merged = mergeDuplicates([
+      withSource('a', glucose('g1')),
+      withSource('b', glucose('g2', { valueQuantity: { value: 110, code: 'mg/dL' } })),
+    ]);
+
+    expect(merged).toHaveLength(2);
+    expect(merged.every(record => record.copies.length === 1)).toBe(true);
+  });
+
+  it('should never merge two records from the same provider', () => {
+    const merged = mergeDuplicates([
+      withSource('a', glucose('g1')),
+      withSource('a', glucose('g2')),
+      withSource('b', glucose('g3')),
+    ]);
+
+    expect(merged).toHaveLength(2);
+    expect(merged[0].keys.sort()).toEqual(['a/Observation/g1', 'b/Observation/g3']);
+    expect(merged[1].keys).toEqual(['a/Observation/g2']);
+  });
+
+  it('should not merge copies the user kept apart', () => {
+    const records = [withSource('a', glucose('g1')), withSource('b', glucose('g2'))];
+
+    expect(mergeDuplicates(records, [records.map(getRecordKey)])).toHaveLength(2);
+  });
+
+  it('should show the most recently updated copy and keep every source', () => {
+    const merged = mergeDuplicates([
+      withSource('a', glucose('g1', { meta: { lastUpdated: '2024-02-11T00:00:00Z' } })),
+      withSource(
+        'b',
+        glucose('g2', { meta: { lastUpdated: '2024-02-12T00:00:00Z' } }),
+        '2024-03-01T08:00:00Z'
+      ),
+    ]);
+
+    expect(merged[0].resource.id).toBe('g2');
+    expect(merged[0].sources.map(source => source.providerId)).toEqual(['b', 'a']);
+  });
+});
@@ -14,6 +14,29 @@ export * from './DiagnosticReport';
 export * from './Encounter';
 export * from './MedicationRequest';
 export * from './Consent';
+export * from './Condition';
+export * from './AllergyIntolerance';
+export * from './Immunization';
+export * from './ImmunizationRecommendation';
+export * from './Procedure';
+export * from './Appointment';
+export * from './Schedule';
+export * from './Slot';
+export * from './CarePlan';
+export * from './Goal';
+export * from './CareTeam';
+export * from './Coverage';
+export * from './ExplanationOfBenefit';
+export * from './DocumentReference';
+export * from './Practitioner';
+export * from './PractitionerRole';
+export * from './Organization';
+export * from './Location';
+export * from './ContactDetails';
+export * from './Directory';
+export * from './AdvanceDirective';
+export * from './CapabilityStatement';
+export * from './RecordMatching';
 
 // Provider entity for multi-source support
 export * from './Provider';
@@ -6,11 +6,12 @@
  */
 
 import { Patient } from '../entities/Patient';
-import { Observation } from '../entities/Observation';
+import { Observation, ObservationHelpers } from '../entities/Observation';
 import { DiagnosticReport } from '../entities/DiagnosticReport';
 import { Encounter } from '../entities/Encounter';
 import { MedicationRequest } from '../entities/MedicationRequest';
-import { FHIRResourceWithSource, SourceMetadata } from '../entities/FHIRTypes';
+import { FHIRResource, FHIRResourceWithSource, SourceMetadata } from '../entities/FHIRTypes';
+import { CapabilityHelpers, ServerCapabilities } from '../entities/CapabilityStatement';
 
 /**
  * Repository interface for FHIR data access
@@ -47,6 +48,13 @@ export interface FHIRRepository {
     patientId: string,
     providerId: string
   ): Promise<FHIRResourceWithSource<MedicationRequest>[]>;
+
+  /** Fetch the whole chart via Patient/$everything, limited to the given types */
+  getPatientEverything?(
+    patientId: string,
+    providerId: string,
+    resourceTypes: string[]
+  ): Promise<FHIRResourceWithSource<FHIRResource>[]>;
 }
 
 /**
@@ -84,6 +92,8 @@ export interface ConnectedProvider {
   iconUrl?: string;
   patientId: string;
   isConnected: boolean;
+  /** Server capabilities, if the CapabilityStatement has been read */
+  capabilities?: ServerCapabilities;
 }
 
 /**
@@ -108,6 +118,16 @@ export interface FetchPatientRecordsInput {
 
 export type RecordCategory = 'vitals' | 'labs' | 'medications' | 'encounters' | 'all';
 
+/**
+ * FHIR resource type searched for each record category
+ */
+const CATEGORY_RESOURCE_TYPES: Record<Exclude<RecordCategory, 'all'>, string> = {
+  vitals: 'Observation',
+  labs: 'DiagnosticReport',
+  medications: 'MedicationRequest',
+  encounters: 'Encounter',
+};
+
 /**
  * Output of fetching patient records
  */
@@ -133,6 +153,9 @@ export interface FetchPatientRecordsOutput {
   /** Errors encountered per provider */
   errors: ProviderError[];
 
+  /** Categories skipped because the provider's server does not support them */
+  skipped: Array<{ providerId: string; category: RecordCategory }>;
+
   /** Fetch metadata */
   metadata: {
     fetchedAt: string;
@@ -141,6 +164,14 @@ export interface FetchPatientRecordsOutput {
   };
 }
 
+/**
+ * Records fetched from one provider, before they are added to the output
+ */
+type FetchedRecords = Pick<
+  FetchPatientRecordsOutput,
+  'patients' | 'vitals' | 'labs' | 'medications' | 'encounters'
+>;
+
 export interface ProviderError {
   providerId: string;
   providerName: string;
@@ -174,6 +205,7 @@ export class FetchPatientRecordsUseCase {
       encounters: [],
       requiresConsent: [],
       errors: [],
+      skipped: [],
       metadata: {
         fetchedAt: new Date().toISOString(),
         totalRecords: 0,
@@ -242,8 +274,47 @@ export class FetchPatientRecordsUseCase {
     categories: RecordCategory[],
     output: FetchPatientRecordsOutput
   ): Promise<void> {
-    const shouldFetch = (cat: RecordCategory) =>
-      categories.includes('all') || categories.includes(cat);
+    const isRequested = (cat: Exclude<RecordCategory, 'all'>) => {
+      if (!categories.includes('all') && !categories.includes(cat)) {
+        return false;
+      }
+
+      // Skip categories the server does not support instead of failing with a 4xx
+      if (!CapabilityHelpers.supportsSearch(provider.capabilities, CATEGORY_RESOURCE_TYPES[cat])) {
+        output.skipped.push({ providerId: provider.id, category: cat });
+        return false;
+      }
+
+      return true;
+    };
+
+    const wanted = (
+      Object.keys(CATEGORY_RESOURCE_TYPES) as Array<Exclude<RecordCategory, 'all'>>
+    ).filter(isRequested);
+    const shouldFetch = (cat: Exclude<RecordCategory, 'all'>) => wanted.includes(cat);
+
+    // Fast path: one paged Patient/$everything instead of a search per category
+    if (
+      this.fhirRepository.getPatientEverything &&
+      provider.capabilities &&
+      CapabilityHelpers.supportsOperation(provider.capabilities, 'everything', 'Patient')
+    ) {
+      let everything: FetchedRecords | undefined;
+      try {
+        everything = await this.fetchEverything(provider, wanted);
+      } catch (error) {
+        // Fall back to per-category searches
+      }
+
+      if (everything) {
+        output.patients.push(...everything.patients);
+        output.vitals.push(...everything.vitals);
+        output.labs.push(...everything.labs);
+        output.medications.push(...everything.medications);
+        output.encounters.push(...everything.encounters);
+        return;
+      }
+    }
 
     // Fetch patient first
     const patient = await this.fhirRepository.getPatient(provider.patientId, provider.id);
@@ -289,6 +360,59 @@ export class FetchPatientRecordsUseCase {
     await Promise.all(promises);
   }
 
+  /**
+   * Fetch a provider's records with Patient/$everything and sort them into categories
+   */
+  private async fetchEverything(
+    provider: ConnectedProvider,
+    categories: Array<Exclude<RecordCategory, 'all'>>
+  ): Promise<FetchedRecords> {
+    const output: FetchedRecords = {
+      patients: [],
+      vitals: [],
+      labs: [],
+      medications: [],
+      encounters: [],
+    };
+    if (!this.fhirRepository.getPatientEverything) {
+      return output;
+    }
+
+    const resourceTypes = ['Patient', ...categories.map(cat => CATEGORY_RESOURCE_TYPES[cat])];
+    const results = await this.fhirRepository.getPatientEverything(
+      provider.patientId,
+      provider.id,
+      resourceTypes
+    );
+
+    const ofType = <T extends FHIRResource>(resourceType: string) =>
+      results.filter(r => r.resource.resourceType === resourceType) as FHIRResourceWithSource<T>[];
+
+    const patient = ofType<Patient>('Patient').find(r => r.resource.id === provider.patientId);
+    output.patients.push(
+      patient ?? (await this.fhirRepository.getPatient(provider.patientId, provider.id))
+    );
+
+    if (categories.includes('vitals')) {
+      output.vitals.push(
+        ...ofType<Observation>('Observation').filter(r =>
+          ObservationHelpers.isVitalSign(r.resource)
+        )
+      );
+    }
+    if (categories.includes('labs')) {
+      output.labs.push(...ofType<DiagnosticReport>('DiagnosticReport'));
+    }
+    if (categories.includes('medications')) {
+      output.medications.push(...ofType<MedicationRequest>('MedicationRequest'));
+    }
+    if (categories.includes('encounters')) {
+      output.encounters.push(...ofType<Encounter>('Encounter'));
+    }
+
+    return output;
+  }
+
   /**
    * Sort results by date (most recent first)
    */
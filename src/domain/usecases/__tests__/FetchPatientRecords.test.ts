@@ -0,0 +1,115 @@
+/**
+ * FetchPatientRecords Use Case Tests
+ */
+
+import {
+  ConnectedProvider,
+  ConsentRepository,
+  FetchPatientRecordsUseCase,
+  FHIRRepository,
+  ProviderRepository,
+} from '../FetchPatientRecords';
+import { ResourceCapabilities, ServerCapabilities } from '../../entities/CapabilityStatement';
+
+const withSource = <T extends { resourceType: string; id: string }>(resource: T) => ({
+  resource,
+  source: {
+    providerId: 'p1',
+    providerName: 'General Hospital',
+    serverUrl: 'https://fhir.example.com/r4',
+    fetchedAt: '2024-03-01T12:00:00Z',
+  },
+});
+
+const patient = withSource({ resourceType: 'Patient' as const, id: 'patient-1' });
+const encounter = withSource({
+  resourceType: 'Encounter' as const,
+  id: 'e1',
+  status: 'finished' as const,
+  class: { code: 'AMB' },
+});
+
+const resource = (
+  interactions: ResourceCapabilities['interactions'],
+  operations: string[] = []
+): ResourceCapabilities => ({
+  interactions,
+  searchParams: [],
+  operations,
+  searchInclude: [],
+  searchRevInclude: [],
+  conditionalCreate: false,
+  conditionalUpdate: false,
+});
+
+const capabilities: ServerCapabilities = {
+  fhirVersion: '4.0.1',
+  resources: {
+    Patient: resource(['read'], ['everything']),
+    Encounter: resource(['search-type']),
+  },
+  interactions: [],
+  operations: [],
+  fetchedAt: '2024-03-01T12:00:00Z',
+};
+
+const provider: ConnectedProvider = {
+  id: 'p1',
+  name: 'General Hospital',
+  patientId: 'patient-1',
+  isConnected: true,
+  capabilities,
+};
+
+describe('FetchPatientRecordsUseCase', () => {
+  let fhirRepository: jest.Mocked<Required<FHIRRepository>>;
+  let useCase: FetchPatientRecordsUseCase;
+
+  beforeEach(() => {
+    fhirRepository = {
+      getPatient: jest.fn().mockResolvedValue(patient),
+      searchPatients: jest.fn().mockResolvedValue([]),
+      getObservations: jest.fn().mockResolvedValue([]),
+      getDiagnosticReports: jest.fn().mockResolvedValue([]),
+      getEncounters: jest.fn().mockResolvedValue([encounter]),
+      getMedicationRequests: jest.fn().mockResolvedValue([]),
+      getPatientEverything: jest.fn(),
+    } as unknown as jest.Mocked<Required<FHIRRepository>>;
+
+    const consentRepository: ConsentRepository = {
+      hasConsent: jest.fn().mockResolvedValue(true),
+      getPendingConsents: jest.fn().mockResolvedValue([]),
+    };
+    const providerRepository: ProviderRepository = {
+      getConnectedProviders: jest.fn().mockResolvedValue([provider]),
+      getProvider: jest.fn().mockResolvedValue(provider),
+    };
+
+    useCase = new FetchPatientRecordsUseCase(fhirRepository, consentRepository, providerRepository);
+  });
+
+  it('should read the chart with Patient/$everything when supported', async () => {
+    fhirRepository.getPatientEverything.mockResolvedValue([patient, encounter]);
+
+    const output = await useCase.execute({ categories: ['encounters'] });
+
+    expect(fhirRepository.getPatientEverything).toHaveBeenCalledWith('patient-1', 'p1', [
+      'Patient',
+      'Encounter',
+    ]);
+    expect(fhirRepository.getEncounters).not.toHaveBeenCalled();
+    expect(output.encounters.map(r => r.resource.id)).toEqual(['e1']);
+    expect(output.patients).toHaveLength(1);
+  });
+
+  it('should fall back to searches when $everything fails', async () => {
+    fhirRepository.getPatientEverything.mockRejectedValue(new Error('Operation not supported'));
+
+    const output = await useCase.execute({ categories: ['encounters'] });
+
+    expect(fhirRepository.getEncounters).toHaveBeenCalledTimes(1);
+    expect(output.encounters.map(r => r.resource.id)).toEqual(['e1']);
+    expect(output.patients).toHaveLength(1);
+    expect(output.errors).toEqual([]);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * useAuth Hook Tests
+ * @jest-environment node
+ */
+
+import { useAuth } from '../useAuth';
+import { store } from '../../store';
+import { hydrateRecords, setUnmergedDuplicates } from '../../store/slices/recordsSlice';
+import { loginSuccess } from '../../store/slices/authSlice';
+import { encryptedRecordStore } from '../../infrastructure/storage/EncryptedRecordStore';
+import { secureStorage } from '../../infrastructure/storage/SecureStorage';
+import { writeOutbox } from '../../query/writeOutbox';
+import { Logger } from '../../utils/logger';
+
+// Call the hook outside a component: callbacks are returned as-is and the
+// store hooks use the real store
+jest.mock('react', () => ({
+  ...jest.requireActual('react'),
+  useCallback: (callback: unknown) => callback,
+}));
+
+jest.mock('../../store', () => {
+  const actual = jest.requireActual('../../store');
+  return {
+    ...actual,
+    useAppDispatch: () => actual.store.dispatch,
+    useAppSelector: (selector: (state: unknown) => unknown) => selector(actual.store.getState()),
+  };
+});
+
+jest.mock('../../infrastructure/storage/SecureStorage', () => ({
+  secureStorage: {
+    clearAuthTokens: jest.fn().mockResolvedValue(true),
+    clearEmergencyDirective: jest.fn().mockResolvedValue(true),
+  },
+}));
+
+jest.mock('../../infrastructure/storage/EncryptedRecordStore', () => ({
+  encryptedRecordStore: { clear: jest.fn().mockResolvedValue(undefined) },
+}));
+
+jest.mock('../../query/queryPersister', () => ({
+  clearPersistedQueryCache: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock('../../query/writeOutbox', () => ({
+  writeOutbox: { clear: jest.fn().mockResolvedValue(undefined) },
+}));
+
+jest.mock('../../query/syncScheduler', () => ({
+  syncScheduler: { clearHistory: jest.fn().mockResolvedValue(undefined) },
+}));
+
+jest.mock('../../utils/logger', () => ({
+  Logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+describe('useAuth', () => {
+  it('should wipe offline records on logout', async () => {
+    store.dispatch(
+      hydrateRecords([
+        {
+          providerId: 'p1',
+          providerName: 'General Hospital',
+          lastSync: null,
+          resources: [{ resourceType: 'Condition', id: 'c1' }],
+        },
+      ])
+    );
+    store.dispatch(setUnmergedDuplicates([['p1/Condition/c1', 'p2/Condition/c9']]));
+
+    await useAuth().logout();
+
+    expect(encryptedRecordStore.clear).toHaveBeenCalled();
+    expect(store.getState().records.recordsByProvider).toEqual({});
+    expect(store.getState().records.unmergedDuplicates).toEqual([]);
+  });
+
+  it('should forget the flagged emergency directive on logout', async () => {
+    await useAuth().logout();
+
+    expect(secureStorage.clearEmergencyDirective).toHaveBeenCalledWith();
+  });
+
+  it('should sign out even when a wipe fails', async () => {
+    store.dispatch(
+      loginSuccess({
+        patient: { resourceType: 'Patient', id: 'patient-1' },
+        tokens: { accessToken: 'access-token' },
+        session: { id: 'session-1' },
+        providerId: 'p1',
+      } as Parameters<typeof loginSuccess>[0])
+    );
+    (encryptedRecordStore.clear as jest.Mock).mockRejectedValueOnce(new Error('Storage full'));
+
+    await useAuth().logout();
+
+    expect(writeOutbox.clear).toHaveBeenCalled();
+    expect(Logger.error).toHaveBeenCalledWith('Logout wipe failed', {
+      data: 'offline records',
+      error: 'Error: Storage full',
+    });
+    expect(store.getState().auth.isAuthenticated).toBe(false);
+    expect(store.getState().auth.isLoading).toBe(false);
+  });
+});
@@ -9,3 +9,7 @@ export { useBiometric } from './useBiometric';
 export { useNetworkStatus } from './useNetworkStatus';
 export { useSecureStorage } from './useSecureStorage';
 export { useDebounce } from './useDebounce';
+export { useAttachmentViewer } from './useAttachmentViewer';
+export { useOutbox, useOutboxReplay } from './useOutbox';
+export { useSyncScheduler, useSyncSettings, useSyncHistory } from './useSyncScheduler';
+export { useDuplicateMerges } from './useDuplicateMerges';
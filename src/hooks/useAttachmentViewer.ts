@@ -0,0 +1,33 @@
+/**
+ * useAttachmentViewer Hook
+ *
+ * Opens an attachment in the document viewer, which downloads it and hands
+ * PDFs and images to the existing modals. Only the attachment's location is passed through
+ * navigation so document content never ends up in navigation state.
+ */
+
+import { useCallback } from 'react';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+
+import type { AttachmentLocation } from '../query/useFHIRData';
+import type { RootStackParamList } from '../navigation/types';
+
+interface UseAttachmentViewerReturn {
+  open: (location: Omit<AttachmentLocation, 'providerId'>, title: string) => void;
+}
+
+export function useAttachmentViewer(providerId: string): UseAttachmentViewerReturn {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+
+  const open = useCallback(
+    (location: Omit<AttachmentLocation, 'providerId'>, title: string) => {
+      navigation.navigate('DocumentViewer', { title, providerId, ...location });
+    },
+    [navigation, providerId]
+  );
+
+  return { open };
+}
+
+export default useAttachmentViewer;
@@ -20,7 +20,12 @@ import {
   logout as logoutAction,
   setBiometricEnabled,
 } from '../store/slices/authSlice';
+import { resetRecords } from '../store/slices/recordsSlice';
 import { secureStorage } from '../infrastructure/storage/SecureStorage';
+import { encryptedRecordStore } from '../infrastructure/storage/EncryptedRecordStore';
+import { clearPersistedQueryCache } from '../query/queryPersister';
+import { writeOutbox } from '../query/writeOutbox';
+import { syncScheduler } from '../query/syncScheduler';
 import { Logger } from '../utils/logger';
 
 interface UseAuthReturn {
@@ -76,19 +81,36 @@ export const useAuth = (): UseAuthReturn => {
   const logout = useCallback(async () => {
     dispatch(setLoading(true));
 
-    try {
-      // Clear tokens from secure storage
-      await secureStorage.clearAuthTokens();
+    // Everything this session stored on the device. Each wipe runs even if
+    // another fails, so a storage error never leaves the user signed in.
+    const wipes: [string, () => Promise<unknown>][] = [
+      ['auth tokens', () => secureStorage.clearAuthTokens()],
+      // Cached query data, in memory and on disk
+      ['query cache', () => clearPersistedQueryCache()],
+      // Queued writes and sync history belong to this session
+      ['write outbox', () => writeOutbox.clear()],
+      ['sync history', () => syncScheduler.clearHistory()],
+      // Records saved for offline use, including unmerged duplicates
+      ['offline records', () => encryptedRecordStore.clear()],
+      ['emergency directive', () => secureStorage.clearEmergencyDirective()],
+    ];
+
+    const results = await Promise.allSettled(wipes.map(([, wipe]) => wipe()));
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        Logger.error('Logout wipe failed', {
+          data: wipes[index][0],
+          error: String(result.reason),
+        });
+      }
+    });
 
-      // Update Redux state
-      dispatch(logoutAction());
+    // Update Redux state
+    dispatch(resetRecords());
+    dispatch(logoutAction());
+    dispatch(setLoading(false));
 
-      Logger.info('Logout successful');
-    } catch (err) {
-      Logger.error('Logout error', { error: String(err) });
-    } finally {
-      dispatch(setLoading(false));
-    }
+    Logger.info('Logout complete');
   }, [dispatch]);
 
   const refreshToken = useCallback(async (): Promise<boolean> => {
@@ -0,0 +1,57 @@
+/**
+ * useDuplicateMerges Hook
+ *
+ * Records merged from copies at more than one provider, and the copies
+ * the user unmerged, with actions to unmerge and merge again. Choices are
+ * saved with the offline records so they survive a restart.
+ */
+
+import { useCallback } from 'react';
+import { useStore } from 'react-redux';
+
+import { RootState, useAppDispatch, useAppSelector } from '../store';
+import {
+  remergeDuplicates,
+  selectDuplicateMerges,
+  selectUnmergedCopies,
+  selectUnmergedDuplicates,
+  unmergeDuplicates,
+} from '../store/slices/recordsSlice';
+import { encryptedRecordStore } from '../infrastructure/storage/EncryptedRecordStore';
+import { Logger } from '../utils/logger';
+
+export function useDuplicateMerges() {
+  const dispatch = useAppDispatch();
+  const store = useStore<RootState>();
+
+  const merges = useAppSelector(selectDuplicateMerges);
+  const unmerged = useAppSelector(selectUnmergedCopies);
+
+  const save = useCallback(() => {
+    encryptedRecordStore
+      .saveUnmergedDuplicates(selectUnmergedDuplicates(store.getState()))
+      .catch(error => Logger.warn('Failed to save unmerged records', { error: String(error) }));
+  }, [store]);
+
+  /** Show the copies of a merged record separately */
+  const unmerge = useCallback(
+    (keys: string[]) => {
+      dispatch(unmergeDuplicates(keys));
+      save();
+    },
+    [dispatch, save]
+  );
+
+  /** Merge copies the user unmerged again */
+  const remerge = useCallback(
+    (keys: string[]) => {
+      dispatch(remergeDuplicates(keys));
+      save();
+    },
+    [dispatch, save]
+  );
+
+  return { merges, unmerged, unmerge, remerge };
+}
+
+export default useDuplicateMerges;
@@ -0,0 +1,117 @@
+/**
+ * useOutbox Hook
+ *
+ * Queued FHIR writes and their status, with actions to retry, overwrite or
+ * discard them. `useOutboxReplay` sends the queue whenever the device comes
+ * back online.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+
+import { useAppSelector } from '../store';
+import { selectIsOnline } from '../store/slices/uiSlice';
+import { selectIsAuthenticated } from '../store/slices/authSlice';
+import { writeOutbox } from '../query/writeOutbox';
+import { OutboxItem, OutboxReplayResult } from '../data/fhir/WriteOutbox';
+import { Logger } from '../utils/logger';
+
+interface UseOutboxReturn {
+  items: OutboxItem[];
+  /** Writes waiting to be sent */
+  pendingCount: number;
+  /** Writes that need the user (conflicts and rejected writes) */
+  attentionCount: number;
+  isReplaying: boolean;
+  replay: () => Promise<OutboxReplayResult | null>;
+  retry: (itemId: string) => Promise<void>;
+  /** Send a conflicting update anyway, replacing the server's version */
+  overwrite: (itemId: string) => Promise<void>;
+  discard: (itemId: string) => Promise<void>;
+}
+
+export function useOutbox(): UseOutboxReturn {
+  const [items, setItems] = useState<OutboxItem[]>([]);
+  const [isReplaying, setIsReplaying] = useState(false);
+
+  useEffect(() => {
+    let mounted = true;
+    const unsubscribe = writeOutbox.subscribe(setItems);
+    writeOutbox
+      .getItems()
+      .then(loaded => mounted && setItems(loaded))
+      .catch(error => Logger.error('Failed to load outbox', { error: String(error) }));
+
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  const replay = useCallback(async () => {
+    setIsReplaying(true);
+    try {
+      return await writeOutbox.replay();
+    } catch (error) {
+      Logger.error('Outbox replay failed', { error: String(error) });
+      return null;
+    } finally {
+      setIsReplaying(false);
+    }
+  }, []);
+
+  const retry = useCallback(
+    async (itemId: string) => {
+      await writeOutbox.retry(itemId);
+      await replay();
+    },
+    [replay]
+  );
+
+  const overwrite = useCallback(
+    async (itemId: string) => {
+      await writeOutbox.retry(itemId, { force: true });
+      await replay();
+    },
+    [replay]
+  );
+
+  const discard = useCallback((itemId: string) => writeOutbox.discard(itemId), []);
+
+  return {
+    items,
+    pendingCount: items.filter(item => item.status === 'pending' || item.status === 'sending')
+      .length,
+    attentionCount: items.filter(item => item.status === 'conflict' || item.status === 'failed')
+      .length,
+    isReplaying,
+    replay,
+    retry,
+    overwrite,
+    discard,
+  };
+}
+
+/**
+ * Send queued writes when the app starts and whenever connectivity returns
+ */
+export function useOutboxReplay(): void {
+  const isOnline = useAppSelector(selectIsOnline);
+  const isAuthenticated = useAppSelector(selectIsAuthenticated);
+
+  useEffect(() => {
+    if (!isOnline || !isAuthenticated) {
+      return;
+    }
+
+    writeOutbox
+      .replay()
+      .then(({ sent, remaining }) => {
+        if (sent > 0 || remaining > 0) {
+          Logger.info('Outbox replayed', { sent, remaining });
+        }
+      })
+      .catch(error => Logger.error('Outbox replay failed', { error: String(error) }));
+  }, [isOnline, isAuthenticated]);
+}
+
+export default useOutbox;
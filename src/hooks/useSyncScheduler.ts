@@ -0,0 +1,108 @@
+/**
+ * useSyncScheduler Hook
+ *
+ * Runs the background sync scheduler while the user is signed in and the
+ * app is in the foreground. `useSyncSettings` and `useSyncHistory` expose
+ * its settings and per-provider history to screens.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+
+import { useAppSelector } from '../store';
+import { selectAppState } from '../store/slices/uiSlice';
+import { selectIsAuthenticated } from '../store/slices/authSlice';
+import { syncScheduler } from '../query/syncScheduler';
+import {
+  DEFAULT_SYNC_SETTINGS,
+  SyncHistoryEntry,
+  SyncSettings,
+  getBackoffUntil,
+} from '../data/sync/SyncScheduler';
+import { Logger } from '../utils/logger';
+
+/**
+ * Sync due providers on resume and at the configured interval
+ */
+export function useSyncScheduler(): void {
+  const isAuthenticated = useAppSelector(selectIsAuthenticated);
+  const appState = useAppSelector(selectAppState);
+
+  useEffect(() => {
+    if (!isAuthenticated || appState !== 'active') {
+      return;
+    }
+
+    syncScheduler.start();
+    return () => syncScheduler.stop();
+  }, [isAuthenticated, appState]);
+}
+
+interface UseSyncSettingsReturn {
+  settings: SyncSettings;
+  updateSettings: (changes: Partial<SyncSettings>) => Promise<void>;
+}
+
+export function useSyncSettings(): UseSyncSettingsReturn {
+  const [settings, setSettings] = useState<SyncSettings>(DEFAULT_SYNC_SETTINGS);
+
+  useEffect(() => {
+    let mounted = true;
+    const load = () =>
+      syncScheduler
+        .getSettings()
+        .then(loaded => mounted && setSettings(loaded))
+        .catch(error => Logger.error('Failed to load sync settings', { error: String(error) }));
+
+    const unsubscribe = syncScheduler.subscribe(load);
+    load();
+
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  const updateSettings = useCallback(async (changes: Partial<SyncSettings>) => {
+    try {
+      await syncScheduler.updateSettings(changes);
+    } catch (error) {
+      Logger.error('Failed to save sync settings', { error: String(error) });
+    }
+  }, []);
+
+  return { settings, updateSettings };
+}
+
+interface UseSyncHistoryReturn {
+  /** Newest first */
+  history: SyncHistoryEntry[];
+  /** When automatic syncs resume after repeated failures */
+  backoffUntil: Date | null;
+}
+
+export function useSyncHistory(providerId: string): UseSyncHistoryReturn {
+  const [history, setHistory] = useState<SyncHistoryEntry[]>([]);
+
+  useEffect(() => {
+    let mounted = true;
+    const load = () =>
+      syncScheduler
+        .getHistory(providerId)
+        .then(loaded => mounted && setHistory(loaded))
+        .catch(error => Logger.error('Failed to load sync history', { error: String(error) }));
+
+    const unsubscribe = syncScheduler.subscribe(load);
+    load();
+
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, [providerId]);
+
+  const backoffUntil = getBackoffUntil(history);
+
+  return { history, backoffUntil: backoffUntil !== null ? new Date(backoffUntil) : null };
+}
+
+export default useSyncScheduler;
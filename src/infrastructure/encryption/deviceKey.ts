@@ -0,0 +1,28 @@
+/**
+ * Device Encryption Key
+ *
+ * Loads the symmetric key used for data encrypted at rest on this device
+ * (offline records, the persisted query cache) into the encryption
+ * service, creating it in secure storage on first use.
+ */
+
+import { secureStorage } from '../storage/SecureStorage';
+import { encryption } from './E2EEncryption';
+
+/**
+ * Load the device symmetric key, generating and storing it if none exists
+ */
+export async function loadDeviceKey(): Promise<void> {
+  const key = await secureStorage.getSymmetricKey();
+  if (key) {
+    encryption.loadSymmetricKey(key);
+    return;
+  }
+
+  const generated = encryption.generateSymmetricKey();
+  if (!(await secureStorage.storeSymmetricKey(generated))) {
+    throw new Error('Failed to store the device encryption key');
+  }
+}
+
+export default loadDeviceKey;
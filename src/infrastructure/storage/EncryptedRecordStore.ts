@@ -0,0 +1,502 @@
+/**
+ * Encrypted Record Store
+ *
+ * Persists synced FHIR resources on the device so records are available
+ * offline and after a restart.
+ *
+ * SECURITY NOTES:
+ * - Each resource is encrypted on its own (XSalsa20-Poly1305) with the
+ *   device symmetric key held in SecureStorage
+ * - Payloads expire after ENCRYPTED_DATA_TTL_HOURS and are wiped on load
+ * - The index (provider, resource type, date, expiry) is encrypted too,
+ *   since record dates are PHI
+ * - If the key is lost (e.g. secure storage cleared) nothing can be
+ *   decrypted and the whole store is wiped
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { Logger } from '../../utils/logger';
+import { DerivedConfig } from '../../utils/config';
+import { FHIRResource } from '../../domain/entities/FHIRTypes';
+import { encryption, EncryptedPayload } from '../encryption/E2EEncryption';
+import { loadDeviceKey } from '../encryption/deviceKey';
+
+// Storage keys
+const INDEX_KEY = 'fhir_records.index';
+const RECORD_KEY_PREFIX = 'fhir_records.';
+
+/**
+ * Key-value storage the encrypted payloads are written to
+ */
+export type RecordStorageBackend = Pick<
+  typeof AsyncStorage,
+  'getItem' | 'setItem' | 'getAllKeys' | 'multiGet' | 'multiSet' | 'multiRemove'
+>;
+
+/**
+ * Index entry for one stored resource
+ */
+export interface StoredRecordEntry {
+  providerId: string;
+  resourceType: string;
+  id: string;
+  /** Clinically relevant date of the resource (ISO 8601), if any */
+  date?: string;
+  /** Epoch milliseconds after which the payload is wiped */
+  expiresAt: number;
+}
+
+/**
+ * Per-provider details needed to rebuild the records state
+ */
+export interface StoredProviderInfo {
+  providerName: string;
+  /** Sync cursor; reset when any of the provider's records expire */
+  lastSync: string | null;
+}
+
+/**
+ * Filter for listing stored records
+ */
+export interface StoredRecordQuery {
+  providerId?: string;
+  resourceType?: string;
+  /** Only records dated on or after this (ISO 8601) */
+  from?: string;
+  /** Only records dated on or before this (ISO 8601) */
+  to?: string;
+}
+
+/**
+ * All stored resources of one provider
+ */
+export interface StoredProviderRecords extends StoredProviderInfo {
+  providerId: string;
+  resources: FHIRResource[];
+}
+
+interface RecordIndex {
+  providers: Record<string, StoredProviderInfo>;
+  entries: Record<string, StoredRecordEntry>;
+  /** Record keys ("providerId/Type/id") of duplicates the user unmerged */
+  unmergedDuplicates?: string[][];
+}
+
+// Date fields checked in order when indexing a resource
+const DATE_FIELDS = [
+  'effectiveDateTime',
+  'effectivePeriod.start',
+  'issued',
+  'period.start',
+  'authoredOn',
+  'onsetDateTime',
+  'recordedDate',
+  'occurrenceDateTime',
+  'dateTime',
+  'date',
+  'meta.lastUpdated',
+];
+
+/**
+ * Get the date a resource is indexed by (e.g. effectiveDateTime of an Observation)
+ */
+export const getRecordDate = (resource: FHIRResource): string | undefined => {
+  for (const field of DATE_FIELDS) {
+    const value = field
+      .split('.')
+      .reduce<unknown>(
+        (node, key) =>
+          node && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined,
+        resource
+      );
+    if (typeof value === 'string' && value) {
+      return value;
+    }
+  }
+  return undefined;
+};
+
+const getRecordKey = (providerId: string, resourceType: string, id: string): string =>
+  `${RECORD_KEY_PREFIX}${providerId}/${resourceType}/${id}`;
+
+/**
+ * Encrypted Record Store Service
+ */
+export class EncryptedRecordStore {
+  private index: RecordIndex | null = null;
+  private loading: Promise<RecordIndex> | null = null;
+  // Writes run one at a time so index updates are never lost
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly storage: RecordStorageBackend = AsyncStorage,
+    private readonly ttlMs: number = DerivedConfig.ENCRYPTED_DATA_TTL_MS,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  // ==========================================================================
+  // READ
+  // ==========================================================================
+
+  /**
+   * Load every stored record, grouped by provider
+   *
+   * Call this at launch to hydrate the records state.
+   */
+  async loadAll(): Promise<StoredProviderRecords[]> {
+    const index = await this.ready();
+    const byProvider = new Map<string, StoredProviderRecords>();
+
+    Object.entries(index.providers).forEach(([providerId, info]) => {
+      byProvider.set(providerId, { providerId, ...info, resources: [] });
+    });
+
+    const records = await this.readEntries(Object.keys(index.entries));
+    records.forEach(({ entry, resource }) => {
+      byProvider.get(entry.providerId)?.resources.push(resource);
+    });
+
+    return Array.from(byProvider.values());
+  }
+
+  /**
+   * Get the duplicates the user unmerged, as lists of record keys
+   */
+  async getUnmergedDuplicates(): Promise<string[][]> {
+    const index = await this.ready();
+    return index.unmergedDuplicates ?? [];
+  }
+
+  /**
+   * List index entries matching a query, most recent first
+   *
+   * Nothing is decrypted except the index.
+   */
+  async list(query: StoredRecordQuery = {}): Promise<StoredRecordEntry[]> {
+    const index = await this.ready();
+
+    return Object.values(index.entries)
+      .filter(
+        entry =>
+          (!query.providerId || entry.providerId === query.providerId) &&
+          (!query.resourceType || entry.resourceType === query.resourceType) &&
+          (!query.from || (!!entry.date && entry.date >= query.from)) &&
+          (!query.to || (!!entry.date && entry.date <= query.to))
+      )
+      .sort((a, b) => (b.date ?? '').localeCompare(a.date ?? ''));
+  }
+
+  /**
+   * Get the resources matching a query, most recent first
+   */
+  async query<T extends FHIRResource = FHIRResource>(query: StoredRecordQuery = {}): Promise<T[]> {
+    const entries = await this.list(query);
+    const records = await this.readEntries(
+      entries.map(entry => getRecordKey(entry.providerId, entry.resourceType, entry.id))
+    );
+    return records.map(({ resource }) => resource as T);
+  }
+
+  /**
+   * Get a single resource
+   */
+  async get<T extends FHIRResource = FHIRResource>(
+    providerId: string,
+    resourceType: string,
+    id: string
+  ): Promise<T | null> {
+    const index = await this.ready();
+    const key = getRecordKey(providerId, resourceType, id);
+    if (!index.entries[key]) {
+      return null;
+    }
+
+    const [record] = await this.readEntries([key]);
+    return (record?.resource as T) ?? null;
+  }
+
+  // ==========================================================================
+  // WRITE
+  // ==========================================================================
+
+  /**
+   * Store or update a provider's name and sync cursor
+   */
+  async saveProviderInfo(providerId: string, info: StoredProviderInfo): Promise<void> {
+    return this.write(async index => {
+      index.providers[providerId] = info;
+    });
+  }
+
+  /**
+   * Store the duplicates the user unmerged
+   */
+  async saveUnmergedDuplicates(unmerged: string[][]): Promise<void> {
+    return this.write(async index => {
+      index.unmergedDuplicates = unmerged;
+    });
+  }
+
+  /**
+   * Encrypt and store resources, replacing earlier versions by id
+   */
+  async putResources(providerId: string, resources: FHIRResource[]): Promise<void> {
+    return this.write(index => this.putEntries(index, providerId, resources));
+  }
+
+  /**
+   * Replace every stored resource of one type (after a full sync)
+   */
+  async replaceResources(
+    providerId: string,
+    resourceType: string,
+    resources: FHIRResource[]
+  ): Promise<void> {
+    return this.write(async index => {
+      const keep = new Set(resources.map(resource => resource.id));
+      const stale = Object.keys(index.entries).filter(key => {
+        const entry = index.entries[key];
+        return (
+          entry.providerId === providerId &&
+          entry.resourceType === resourceType &&
+          !keep.has(entry.id)
+        );
+      });
+
+      await this.removeEntries(index, stale);
+      await this.putEntries(index, providerId, resources);
+    });
+  }
+
+  /**
+   * Remove resources by "Type/id" (e.g. deleted on the server)
+   */
+  async removeResources(providerId: string, references: string[]): Promise<void> {
+    return this.write(index =>
+      this.removeEntries(
+        index,
+        references.map(reference => `${RECORD_KEY_PREFIX}${providerId}/${reference}`)
+      )
+    );
+  }
+
+  /**
+   * Remove everything stored for a provider
+   */
+  async removeProvider(providerId: string): Promise<void> {
+    return this.write(async index => {
+      const keys = Object.keys(index.entries).filter(
+        key => index.entries[key].providerId === providerId
+      );
+
+      delete index.providers[providerId];
+      index.unmergedDuplicates = index.unmergedDuplicates
+        ?.map(group => group.filter(key => !key.startsWith(`${providerId}/`)))
+        .filter(group => group.length > 1);
+      await this.removeEntries(index, keys);
+    });
+  }
+
+  // ==========================================================================
+  // EXPIRY
+  // ==========================================================================
+
+  /**
+   * Wipe expired payloads
+   *
+   * Providers that lost records have their sync cursor reset, so the next
+   * sync downloads everything again instead of only recent changes.
+   */
+  async purgeExpired(): Promise<number> {
+    let purged = 0;
+
+    await this.write(async index => {
+      const now = this.now();
+      const expired = Object.keys(index.entries).filter(key => index.entries[key].expiresAt <= now);
+
+      expired.forEach(key => {
+        const info = index.providers[index.entries[key].providerId];
+        if (info) {
+          info.lastSync = null;
+        }
+      });
+
+      await this.removeEntries(index, expired);
+      purged = expired.length;
+    });
+
+    if (purged > 0) {
+      Logger.info('Encrypted record store: expired records wiped', { count: purged });
+    }
+    return purged;
+  }
+
+  // ==========================================================================
+  // CLEAR ALL
+  // ==========================================================================
+
+  /**
+   * Wipe every stored record
+   *
+   * Call this on logout or security events
+   */
+  async clear(): Promise<void> {
+    await this.enqueue(() => this.wipe());
+    Logger.info('Encrypted record store cleared');
+  }
+
+  // ==========================================================================
+  // INTERNALS
+  // ==========================================================================
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  // Apply a change to the index and save it once the change is written
+  private write(change: (index: RecordIndex) => Promise<void>): Promise<void> {
+    return this.enqueue(async () => {
+      const index = await this.load();
+      await change(index);
+      await this.saveIndex(index);
+    });
+  }
+
+  // The index, with expired records already wiped
+  private async ready(): Promise<RecordIndex> {
+    await this.purgeExpired();
+    return this.load();
+  }
+
+  private async putEntries(
+    index: RecordIndex,
+    providerId: string,
+    resources: FHIRResource[]
+  ): Promise<void> {
+    const expiresAt = this.now() + this.ttlMs;
+    const pairs: Array<[string, string]> = [];
+
+    resources.forEach(resource => {
+      if (!resource.id) {
+        return;
+      }
+      const key = getRecordKey(providerId, resource.resourceType, resource.id);
+      const payload = encryption.encryptLocal(JSON.stringify(resource), this.ttlMs);
+      pairs.push([key, JSON.stringify(payload)]);
+      index.entries[key] = {
+        providerId,
+        resourceType: resource.resourceType,
+        id: resource.id,
+        date: getRecordDate(resource),
+        expiresAt,
+      };
+    });
+
+    if (pairs.length > 0) {
+      await this.storage.multiSet(pairs);
+    }
+  }
+
+  private async removeEntries(index: RecordIndex, keys: string[]): Promise<void> {
+    const stored = keys.filter(key => index.entries[key]);
+    stored.forEach(key => delete index.entries[key]);
+    if (stored.length > 0) {
+      await this.storage.multiRemove(stored);
+    }
+  }
+
+  private load(): Promise<RecordIndex> {
+    if (this.index) {
+      return Promise.resolve(this.index);
+    }
+    if (!this.loading) {
+      this.loading = this.openIndex()
+        .then(index => {
+          this.index = index;
+          return index;
+        })
+        .finally(() => {
+          this.loading = null;
+        });
+    }
+    return this.loading;
+  }
+
+  private async openIndex(): Promise<RecordIndex> {
+    await loadDeviceKey();
+
+    const stored = await this.storage.getItem(INDEX_KEY);
+    if (!stored) {
+      return { providers: {}, entries: {} };
+    }
+
+    const decrypted = this.decrypt(stored);
+    if (!decrypted) {
+      Logger.warn('Encrypted record store: index unreadable, wiping stored records');
+      await this.wipe();
+      return { providers: {}, entries: {} };
+    }
+
+    return JSON.parse(decrypted) as RecordIndex;
+  }
+
+  // Decrypt a stored payload; null if expired, tampered with or corrupt
+  private decrypt(stored: string): string | null {
+    try {
+      return encryption.decryptLocal(JSON.parse(stored) as EncryptedPayload);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private async saveIndex(index: RecordIndex): Promise<void> {
+    const payload = encryption.encryptLocal(JSON.stringify(index));
+    await this.storage.setItem(INDEX_KEY, JSON.stringify(payload));
+  }
+
+  private async readEntries(
+    keys: string[]
+  ): Promise<Array<{ entry: StoredRecordEntry; resource: FHIRResource }>> {
+    if (keys.length === 0) {
+      return [];
+    }
+
+    const index = await this.load();
+    const pairs = await this.storage.multiGet(keys);
+    const records: Array<{ entry: StoredRecordEntry; resource: FHIRResource }> = [];
+    const unreadable: string[] = [];
+
+    pairs.forEach(([key, value]) => {
+      const entry = index.entries[key];
+      const decrypted = value ? this.decrypt(value) : null;
+      if (entry && decrypted) {
+        records.push({ entry, resource: JSON.parse(decrypted) as FHIRResource });
+      } else if (entry) {
+        unreadable.push(key);
+      }
+    });
+
+    if (unreadable.length > 0) {
+      // Unreadable payloads are dropped; the next sync fetches them again
+      await this.write(current => this.removeEntries(current, unreadable));
+    }
+
+    return records;
+  }
+
+  private async wipe(): Promise<void> {
+    const keys = (await this.storage.getAllKeys()).filter(key => key.startsWith(RECORD_KEY_PREFIX));
+    if (keys.length > 0) {
+      await this.storage.multiRemove(keys);
+    }
+    this.index = { providers: {}, entries: {} };
+  }
+}
+
+// Singleton instance
+export const encryptedRecordStore = new EncryptedRecordStore();
+
+export default EncryptedRecordStore;
@@ -26,6 +26,7 @@ import * as Keychain from 'react-native-keychain';
 import { Logger } from '../../utils/logger';
 import { AuthTokens, BiometricCredentials } from '../../domain/entities/AuthEntities';
 import { ProviderTokens } from '../../domain/entities/Provider';
+import { EmergencyDirective } from '../../domain/entities/AdvanceDirective';
 
 // Storage keys
 const STORAGE_KEYS = {
@@ -36,6 +37,7 @@ const STORAGE_KEYS = {
   BIOMETRIC_CREDENTIALS: 'biometric_credentials',
   DEVICE_ID: 'device_id',
   PROVIDER_TOKENS_PREFIX: 'provider_tokens_',
+  EMERGENCY_DIRECTIVE: 'emergency_directive',
 } as const;
 
 // Service name for Keychain
@@ -255,6 +257,37 @@ export class SecureStorage {
     return this.delete(key);
   }
 
+  // ==========================================================================
+  // EMERGENCY DIRECTIVE
+  // ==========================================================================
+
+  /**
+   * Store the advance directive flagged for the emergency view
+   */
+  async storeEmergencyDirective(directive: EmergencyDirective): Promise<boolean> {
+    return this.setJSON(STORAGE_KEYS.EMERGENCY_DIRECTIVE, directive);
+  }
+
+  /**
+   * Get the advance directive flagged for the emergency view
+   */
+  async getEmergencyDirective(): Promise<EmergencyDirective | null> {
+    return this.getJSON<EmergencyDirective>(STORAGE_KEYS.EMERGENCY_DIRECTIVE);
+  }
+
+  /**
+   * Clear the flagged advance directive, or only one flagged from the given provider
+   */
+  async clearEmergencyDirective(providerId?: string): Promise<boolean> {
+    if (providerId) {
+      const directive = await this.getEmergencyDirective();
+      if (directive?.providerId !== providerId) {
+        return true;
+      }
+    }
+    return this.delete(STORAGE_KEYS.EMERGENCY_DIRECTIVE);
+  }
+
   // ==========================================================================
   // DEVICE ID
   // ==========================================================================
@@ -292,6 +325,7 @@ export class SecureStorage {
       STORAGE_KEYS.ENCRYPTION_KEYPAIR,
       STORAGE_KEYS.SYMMETRIC_KEY,
       STORAGE_KEYS.BIOMETRIC_CREDENTIALS,
+      STORAGE_KEYS.EMERGENCY_DIRECTIVE,
       // Note: DEVICE_ID is intentionally NOT cleared
     ];
 
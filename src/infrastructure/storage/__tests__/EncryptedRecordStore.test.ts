@@ -0,0 +1,221 @@
+/**
+ * EncryptedRecordStore Tests
+ * @jest-environment node
+ */
+
+import { EncryptedRecordStore, RecordStorageBackend, getRecordDate } from '../EncryptedRecordStore';
+import { encryption } from '../../encryption/E2EEncryption';
+import { secureStorage } from '../SecureStorage';
+import { FHIRResource } from '../../../domain/entities/FHIRTypes';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// Reversible stand-in for secretbox so stored values can be inspected
+jest.mock('../../encryption/E2EEncryption', () => ({
+  encryption: {
+    loadSymmetricKey: jest.fn(),
+    generateSymmetricKey: jest.fn(() => 'generated-key'),
+    encryptLocal: jest.fn((data: string, ttlMs = 0) => ({
+      ciphertext: data.split('').reverse().join(''),
+      nonce: 'nonce',
+      algorithm: 'nacl-secretbox',
+      encryptedAt: new Date().toISOString(),
+      ttlMs,
+      version: 1,
+    })),
+    decryptLocal: jest.fn((payload: { ciphertext: string }) =>
+      payload.ciphertext.split('').reverse().join('')
+    ),
+  },
+}));
+
+jest.mock('../SecureStorage', () => ({
+  secureStorage: {
+    getSymmetricKey: jest.fn(),
+    storeSymmetricKey: jest.fn(),
+  },
+}));
+
+jest.mock('../../../utils/logger', () => ({
+  Logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const TTL_MS = 60 * 60 * 1000;
+
+const createBackend = (): RecordStorageBackend & { data: Map<string, string> } => {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: jest.fn(async (key: string) => data.get(key) ?? null),
+    setItem: jest.fn(async (key: string, value: string) => {
+      data.set(key, value);
+    }),
+    getAllKeys: jest.fn(async () => Array.from(data.keys())),
+    multiGet: jest.fn(async (keys: readonly string[]) =>
+      keys.map(key => [key, data.get(key) ?? null] as [string, string | null])
+    ),
+    multiSet: jest.fn(async (pairs: ReadonlyArray<readonly [string, string]>) => {
+      pairs.forEach(([key, value]) => data.set(key, value));
+    }),
+    multiRemove: jest.fn(async (keys: readonly string[]) => {
+      keys.forEach(key => data.delete(key));
+    }),
+  };
+};
+
+const observation = (id: string, effectiveDateTime: string): FHIRResource =>
+  ({
+    resourceType: 'Observation',
+    id,
+    status: 'final',
+    code: { text: 'Hemoglobin A1c' },
+    effectiveDateTime,
+  }) as FHIRResource;
+
+const condition: FHIRResource = {
+  resourceType: 'Condition',
+  id: 'c1',
+  recordedDate: '2023-06-01',
+} as FHIRResource;
+
+describe('EncryptedRecordStore', () => {
+  let backend: ReturnType<typeof createBackend>;
+  let now: number;
+  let store: EncryptedRecordStore;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    backend = createBackend();
+    now = Date.parse('2024-01-01T00:00:00Z');
+    store = new EncryptedRecordStore(backend, TTL_MS, () => now);
+    (secureStorage.getSymmetricKey as jest.Mock).mockResolvedValue('device-key');
+  });
+
+  it('should encrypt each resource with the device key and TTL', async () => {
+    await store.putResources('p1', [observation('o1', '2023-01-01'), condition]);
+
+    expect(encryption.loadSymmetricKey).toHaveBeenCalledWith('device-key');
+    expect(encryption.encryptLocal).toHaveBeenCalledWith(expect.any(String), TTL_MS);
+    expect(backend.data.has('fhir_records.p1/Observation/o1')).toBe(true);
+    expect(backend.data.has('fhir_records.p1/Condition/c1')).toBe(true);
+    backend.data.forEach(value => expect(value).not.toContain('Hemoglobin'));
+  });
+
+  it('should create and save a device key on first use', async () => {
+    (secureStorage.getSymmetricKey as jest.Mock).mockResolvedValue(null);
+    (secureStorage.storeSymmetricKey as jest.Mock).mockResolvedValue(true);
+
+    await store.putResources('p1', [condition]);
+
+    expect(encryption.generateSymmetricKey).toHaveBeenCalled();
+    expect(secureStorage.storeSymmetricKey).toHaveBeenCalledWith('generated-key');
+  });
+
+  it('should load records grouped by provider for hydration', async () => {
+    await store.putResources('p1', [observation('o1', '2023-01-01')]);
+    await store.putResources('p2', [condition]);
+    await store.saveProviderInfo('p1', { providerName: 'General Hospital', lastSync: 'cursor' });
+    await store.saveProviderInfo('p2', { providerName: 'City Clinic', lastSync: null });
+
+    // A new instance reads everything back from storage
+    const records = await new EncryptedRecordStore(backend, TTL_MS, () => now).loadAll();
+
+    expect(records).toEqual([
+      {
+        providerId: 'p1',
+        providerName: 'General Hospital',
+        lastSync: 'cursor',
+        resources: [observation('o1', '2023-01-01')],
+      },
+      { providerId: 'p2', providerName: 'City Clinic', lastSync: null, resources: [condition] },
+    ]);
+  });
+
+  it('should list and query records by provider, type and date', async () => {
+    await store.putResources('p1', [
+      observation('o1', '2023-01-01'),
+      observation('o2', '2023-05-01'),
+      condition,
+    ]);
+    await store.putResources('p2', [observation('o3', '2023-03-01')]);
+
+    const entries = await store.list({ resourceType: 'Observation' });
+    expect(entries.map(entry => entry.id)).toEqual(['o2', 'o3', 'o1']);
+
+    const inRange = await store.query({ providerId: 'p1', from: '2023-02-01', to: '2023-12-31' });
+    expect(inRange.map(resource => resource.id)).toEqual(['c1', 'o2']);
+
+    expect(await store.get('p2', 'Observation', 'o3')).toEqual(observation('o3', '2023-03-01'));
+    expect(await store.get('p2', 'Observation', 'missing')).toBeNull();
+  });
+
+  it('should replace and remove resources', async () => {
+    await store.putResources('p1', [observation('o1', '2023-01-01'), condition]);
+
+    await store.replaceResources('p1', 'Observation', [observation('o2', '2023-02-01')]);
+    expect((await store.list({ providerId: 'p1' })).map(entry => entry.id)).toEqual(['c1', 'o2']);
+    expect(backend.data.has('fhir_records.p1/Observation/o1')).toBe(false);
+
+    await store.removeResources('p1', ['Condition/c1']);
+    await store.removeProvider('p1');
+    expect(Array.from(backend.data.keys())).toEqual(['fhir_records.index']);
+  });
+
+  it('should wipe expired payloads and reset the sync cursor', async () => {
+    await store.putResources('p1', [observation('o1', '2023-01-01')]);
+    await store.saveProviderInfo('p1', { providerName: 'General Hospital', lastSync: 'cursor' });
+
+    now += TTL_MS / 2;
+    await store.putResources('p1', [observation('o2', '2023-02-01')]);
+
+    now += TTL_MS / 2;
+    expect(await store.purgeExpired()).toBe(1);
+
+    const [records] = await store.loadAll();
+    expect(records.resources.map(resource => resource.id)).toEqual(['o2']);
+    expect(records.lastSync).toBeNull();
+    expect(backend.data.has('fhir_records.p1/Observation/o1')).toBe(false);
+  });
+
+  it('should wipe records and unmerged duplicates on clear', async () => {
+    await store.putResources('p1', [condition]);
+    await store.saveUnmergedDuplicates([['p1/Condition/c1', 'p2/Condition/c9']]);
+
+    await store.clear();
+    expect(backend.data.size).toBe(0);
+
+    const reloaded = new EncryptedRecordStore(backend, TTL_MS, () => now);
+    expect(await reloaded.loadAll()).toEqual([]);
+    expect(await reloaded.getUnmergedDuplicates()).toEqual([]);
+  });
+
+  it('should wipe the store when the index cannot be decrypted', async () => {
+    await store.putResources('p1', [condition]);
+    (encryption.decryptLocal as jest.Mock).mockReturnValueOnce(null);
+
+    const records = await new EncryptedRecordStore(backend, TTL_MS, () => now).loadAll();
+
+    expect(records).toEqual([]);
+    expect(backend.data.has('fhir_records.p1/Condition/c1')).toBe(false);
+  });
+
+  it('should index resources by their clinical date', () => {
+    expect(getRecordDate(observation('o1', '2023-01-01'))).toBe('2023-01-01');
+    expect(getRecordDate(condition)).toBe('2023-06-01');
+    expect(
+      getRecordDate({
+        resourceType: 'Encounter',
+        period: { start: '2023-04-01' },
+        meta: { lastUpdated: '2024-01-01' },
+      } as FHIRResource)
+    ).toBe('2023-04-01');
+    expect(getRecordDate({ resourceType: 'Patient' })).toBeUndefined();
+  });
+});
@@ -201,6 +201,52 @@ describe('SecureStorage', () => {
     });
   });
 
+  describe('Emergency Directive', () => {
+    it('should store the flagged directive under its own key', async () => {
+      const Keychain = require('react-native-keychain');
+      const directive = {
+        providerId: 'provider-123',
+        reference: 'Consent/acd-1',
+        title: 'Living Will',
+        flaggedAt: '2024-01-01T00:00:00Z',
+      };
+
+      await storage.storeEmergencyDirective(directive);
+
+      expect(Keychain.setGenericPassword).toHaveBeenCalledWith(
+        'emergency_directive',
+        JSON.stringify(directive),
+        expect.objectContaining({ service: 'com.smartfhir.app.emergency_directive' })
+      );
+    });
+
+    it('should clear the directive only when it is from the given provider', async () => {
+      const Keychain = require('react-native-keychain');
+      Keychain.getGenericPassword.mockResolvedValue({
+        username: 'emergency_directive',
+        password: JSON.stringify({ providerId: 'provider-123', reference: 'Consent/acd-1' }),
+      });
+
+      await storage.clearEmergencyDirective('provider-456');
+      expect(Keychain.resetGenericPassword).not.toHaveBeenCalled();
+
+      await storage.clearEmergencyDirective('provider-123');
+      expect(Keychain.resetGenericPassword).toHaveBeenCalledWith({
+        service: 'com.smartfhir.app.emergency_directive',
+      });
+    });
+
+    it('should be cleared with the rest of the secure storage', async () => {
+      const Keychain = require('react-native-keychain');
+
+      await storage.clearAll();
+
+      expect(Keychain.resetGenericPassword).toHaveBeenCalledWith({
+        service: 'com.smartfhir.app.emergency_directive',
+      });
+    });
+  });
+
   describe('Biometric Support', () => {
     it('should check biometric support', async () => {
       const result = await storage.hasBiometricSupport();
@@ -343,6 +343,626 @@ export const ConsentSchema = z.object({
     .optional(),
 });
 
+/**
+ * Condition Resource Schema
+ */
+export const ConditionSchema = z.object({
+  resourceType: z.literal('Condition'),
+  id: z.string().optional(),
+  meta: MetaSchema.optional(),
+  identifier: z.array(IdentifierSchema).optional(),
+  clinicalStatus: CodeableConceptSchema.optional(),
+  verificationStatus: CodeableConceptSchema.optional(),
+  category: z.array(CodeableConceptSchema).optional(),
+  severity: CodeableConceptSchema.optional(),
+  code: CodeableConceptSchema.optional(),
+  bodySite: z.array(CodeableConceptSchema).optional(),
+  subject: ReferenceSchema,
+  encounter: ReferenceSchema.optional(),
+  onsetDateTime: z.string().optional(),
+  onsetPeriod: PeriodSchema.optional(),
+  onsetString: z.string().optional(),
+  abatementDateTime: z.string().optional(),
+  abatementPeriod: PeriodSchema.optional(),
+  abatementString: z.string().optional(),
+  recordedDate: z.string().optional(),
+  recorder: ReferenceSchema.optional(),
+  asserter: ReferenceSchema.optional(),
+  note: z.array(z.object({ text: z.string() })).optional(),
+});
+
+/**
+ * AllergyIntolerance Resource Schema
+ */
+export const AllergyIntoleranceSchema = z.object({
+  resourceType: z.literal('AllergyIntolerance'),
+  id: z.string().optional(),
+  meta: MetaSchema.optional(),
+  identifier: z.array(IdentifierSchema).optional(),
+  clinicalStatus: CodeableConceptSchema.optional(),
+  verificationStatus: CodeableConceptSchema.optional(),
+  type: z.enum(['allergy', 'intolerance']).optional(),
+  category: z.array(z.enum(['food', 'medication', 'environment', 'biologic'])).optional(),
+  criticality: z.enum(['low', 'high', 'unable-to-assess']).optional(),
+  code: CodeableConceptSchema.optional(),
+  patient: ReferenceSchema,
+  encounter: ReferenceSchema.optional(),
+  onsetDateTime: z.string().optional(),
+  onsetPeriod: PeriodSchema.optional(),
+  onsetString: z.string().optional(),
+  recordedDate: z.string().optional(),
+  recorder: ReferenceSchema.optional(),
+  asserter: ReferenceSchema.optional(),
+  lastOccurrence: z.string().optional(),
+  note: z.array(z.object({ text: z.string() })).optional(),
+  reaction: z
+    .array(
+      z.object({
+        substance: CodeableConceptSchema.optional(),
+        manifestation: z.array(CodeableConceptSchema),
+        description: z.string().optional(),
+        onset: z.string().optional(),
+        severity: z.enum(['mild', 'moderate', 'severe']).optional(),
+        exposureRoute: CodeableConceptSchema.optional(),
+      })
+    )
+    .optional(),
+});
+
+/**
+ * Immunization Resource Schema
+ */
+export const ImmunizationSchema = z.object({
+  resourceType: z.literal('Immunization'),
+  id: z.string().optional(),
+  meta: MetaSchema.optional(),
+  identifier: z.array(IdentifierSchema).optional(),
+  status: z.enum(['completed', 'entered-in-error', 'not-done']),
+  statusReason: CodeableConceptSchema.optional(),
+  vaccineCode: CodeableConceptSchema,
+  patient: ReferenceSchema,
+  encounter: ReferenceSchema.optional(),
+  occurrenceDateTime: z.string().optional(),
+  occurrenceString: z.string().optional(),
+  recorded: z.string().optional(),
+  primarySource: z.boolean().optional(),
+  location: ReferenceSchema.optional(),
+  manufacturer: ReferenceSchema.optional(),
+  lotNumber: z.string().optional(),
+  site: CodeableConceptSchema.optional(),
+  route: CodeableConceptSchema.optional(),
+  doseQuantity: QuantitySchema.optional(),
+  protocolApplied: z
+    .array(
+      z.object({
+        series: z.string().optional(),
+        targetDisease: z.array(CodeableConceptSchema).optional(),
+        doseNumberPositiveInt: z.number().int().positive().optional(),
+        doseNumberString: z.string().optional(),
+        seriesDosesPositiveInt: z.number().int().positive().optional(),
+        seriesDosesString: z.string().optional(),
+      })
+    )
+    .optional(),
+});
+
+/**
+ * ImmunizationRecommendation Resource Schema
+ */
+export const ImmunizationRecommendationSchema = z.object({
+  resourceType: z.literal('ImmunizationRecommendation'),
+  id: z.string().optional(),
+  meta: MetaSchema.optional(),
+  identifier: z.array(IdentifierSchema).optional(),
+  patient: ReferenceSchema,
+  date: z.string(),
+  authority: ReferenceSchema.optional(),
+  recommendation: z
+    .array(
+      z.object({
+        vaccineCode: z.array(CodeableConceptSchema).optional(),
+        targetDisease: CodeableConceptSchema.optional(),
+        forecastStatus: CodeableConceptSchema,
+        forecastReason: z.array(CodeableConceptSchema).optional(),
+        dateCriterion: z
+          .array(z.object({ code: CodeableConceptSchema, value: z.string() }))
+          .optional(),
+        description: z.string().optional(),
+        series: z.string().optional(),
+        doseNumberPositiveInt: z.number().int().positive().optional(),
+        doseNumberString: z.string().optional(),
+        seriesDosesPositiveInt: z.number().int().positive().optional(),
+        seriesDosesString: z.string().optional(),
+        supportingImmunization: z.array(ReferenceSchema).optional(),
+      })
+    )
+    .min(1),
+});
+
+/**
+ * Procedure Resource Schema
+ */
+export const ProcedureSchema = z.object({
+  resourceType: z.literal('Procedure'),
+  id: z.string().optional(),
+  meta: MetaSchema.optional(),
+  identifier: z.array(IdentifierSchema).optional(),
+  basedOn: z.array(ReferenceSchema).optional(),
+  partOf: z.array(ReferenceSchema).optional(),
+  status: z.enum([
+    'preparation',
+    'in-progress',
+    'not-done',
+    'on-hold',
+    'stopped',
+    'completed',
+    'entered-in-error',
+    'unknown',
+  ]),
+  statusReason: CodeableConceptSchema.optional(),
+  category: CodeableConceptSchema.optional(),
+  code: CodeableConceptSchema.optional(),
+  subject: ReferenceSchema,
+  encounter: ReferenceSchema.optional(),
+  performedDateTime: z.string().optional(),
+  performedPeriod: PeriodSchema.optional(),
+  performedString: z.string().optional(),
+  recorder: ReferenceSchema.optional(),
+  asserter: ReferenceSchema.optional(),
+  performer: z
+    .array(
+      z.object({
+        function: CodeableConceptSchema.optional(),
+        actor: ReferenceSchema,
+        onBehalfOf: ReferenceSchema.optional(),
+      })
+    )
+    .optional(),
+  location: ReferenceSchema.optional(),
+  reasonCode: z.array(CodeableConceptSchema).optional(),
+  reasonReference: z.array(ReferenceSchema).optional(),
+  bodySite: z.array(CodeableConceptSchema).optional(),
+  outcome: CodeableConceptSchema.optional(),
+  report: z.array(ReferenceSchema).optional(),
+  note: z.array(z.object({ text: z.string() })).optional(),
+});
+
+/**
+ * Appointment Resource Schema
+ */
+export const AppointmentSchema = z.object({
+  resourceType: z.literal('Appointment'),
+  id: z.string().optional(),
+  meta: MetaSchema.optional(),
+  identifier: z.array(IdentifierSchema).optional(),
+  status: z.enum([
+    'proposed',
+    'pending',
+    'booked',
+    'arrived',
+    'fulfilled',
+    'cancelled',
+    'noshow',
+    'entered-in-error',
+    'checked-in',
+    'waitlist',
+  ]),
+  cancelationReason: CodeableConceptSchema.optional(),
+  serviceCategory: z.array(CodeableConceptSchema).optional(),
+  serviceType: z.array(CodeableConceptSchema).optional(),
+  specialty: z.array(CodeableConceptSchema).optional(),
+  appointmentType: CodeableConceptSchema.optional(),
+  reasonCode: z.array(CodeableConceptSchema).optional(),
+  reasonReference: z.array(ReferenceSchema).optional(),
+  description: z.string().optional(),
+  start: z.string().optional(),
+  end: z.string().optional(),
+  minutesDuration: z.number().optional(),
+  slot: z.array(ReferenceSchema).optional(),
+  created: z.string().optional(),
+  comment: z.string().optional(),
+  patientInstruction: z.string().optional(),
+  participant: z.array(
+    z.object({
+      type: z.array(CodeableConceptSchema).optional(),
+      actor: ReferenceSchema.optional(),
+      required: z.enum(['required', 'optional', 'information-only']).optional(),
+      status: z.enum(['accepted', 'declined', 'tentative', 'needs-action']),
+      period: PeriodSchema.optional(),
+    })
+  ),
+  requestedPeriod: z.array(PeriodSchema).optional(),
+});
+
+/**
+ * Schedule Resource Schema
+ */
+export const ScheduleSchema = z.object({
+  resourceType: z.literal('Schedule'),
+  id: z.string().optional(),
+  meta: MetaSchema.optional(),
+  identifier: z.array(IdentifierSchema).optional(),
+  active: z.boolean().optional(),
+  serviceCategory: z.array(CodeableConceptSchema).optional(),
+  serviceType: z.array(CodeableConceptSchema).optional(),
+  specialty: z.array(CodeableConceptSchema).optional(),
+  actor: z.array(ReferenceSchema),
+  planningHorizon: PeriodSchema.optional(),
+  comment: z.string().optional(),
+});
+
+/**
+ * Slot Resource Schema
+ */
+export const SlotSchema = z.object({
+  resourceType: z.literal('Slot'),
+  id: z.string().optional(),
+  meta: MetaSchema.optional(),
+  identifier: z.array(IdentifierSchema).optional(),
+  serviceCategory: z.array(CodeableConceptSchema).optional(),
+  serviceType: z.array(CodeableConceptSchema).optional(),
+  specialty: z.array(CodeableConceptSchema).optional(),
+  appointmentType: CodeableConceptSchema.optional(),
+  schedule: ReferenceSchema,
+  status: z.enum(['busy', 'free', 'busy-unavailable', 'busy-tentative', 'entered-in-error']),
+  start: z.string(),
+  end: z.string(),
+  overbooked: z.boolean().optional(),
+  comment: z.string().optional(),
+});
+
+/**
+ * CarePlan Resource Schema
+ */
+export const CarePlanSchema = z.object({
+  resourceType: z.literal('CarePlan'),
+  id: z.string().optional(),
+  meta: MetaSchema.optional(),
+  identifier: z.array(IdentifierSchema).optional(),
+  status: z.enum([
+    'draft',
+    'active',
+    'on-hold',
+    'revoked',
+    'completed',
+    'entered-in-error',
+    'unknown',
+  ]),
+  intent: z.enum(['proposal', 'plan', 'order', 'option']),
+  category: z.array(CodeableConceptSchema).optional(),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  subject: ReferenceSchema,
+  encounter: ReferenceSchema.optional(),
+  period: PeriodSchema.optional(),
+  created: z.string().optional(),
+  author: ReferenceSchema.optional(),
+  careTeam: z.array(ReferenceSchema).optional(),
+  addresses: z.array(ReferenceSchema).optional(),
+  goal: z.array(ReferenceSchema).optional(),
+  activity: z
+    .array(
+      z.object({
+        reference: ReferenceSchema.optional(),
+        detail: z
+          .object({
+            kind: z.string().optional(),
+            code: CodeableConceptSchema.optional(),
+            goal: z.array(ReferenceSchema).optional(),
+            status: z.enum([
+              'not-started',
+              'scheduled',
+              'in-progress',
+              'on-hold',
+              'completed',
+              'cancelled',
+              'stopped',
+              'unknown',
+              'entered-in-error',
+            ]),
+            doNotPerform: z.boolean().optional(),
+            scheduledPeriod: PeriodSchema.optional(),
+            scheduledString: z.string().optional(),
+            location: ReferenceSchema.optional(),
+            performer: z.array(ReferenceSchema).optional(),
+            description: z.string().optional(),
+          })
+          .optional(),
+      })
+    )
+    .optional(),
+  note: z.array(z.object({ text: z.string() })).optional(),
+});
+
+/**
+ * Goal Resource Schema
+ */
+export const GoalSchema = z.object({
+  resourceType: z.literal('Goal'),
+  id: z.string().optional(),
+  meta: MetaSchema.optional(),
+  identifier: z.array(IdentifierSchema).optional(),
+  lifecycleStatus: z.enum([
+    'proposed',
+    'planned',
+    'accepted',
+    'active',
+    'on-hold',
+    'completed',
+    'cancelled',
+    'entered-in-error',
+    'rejected',
+  ]),
+  achievementStatus: CodeableConceptSchema.optional(),
+  category: z.array(CodeableConceptSchema).optional(),
+  priority: CodeableConceptSchema.optional(),
+  description: CodeableConceptSchema,
+  subject: ReferenceSchema,
+  startDate: z.string().optional(),
+  target: z
+    .array(
+      z.object({
+        measure: CodeableConceptSchema.optional(),
+        detailQuantity: QuantitySchema.optional(),
+        detailRange: z
+          .object({ low: QuantitySchema.optional(), high: QuantitySchema.optional() })
+          .optional(),
+        detailCodeableConcept: CodeableConceptSchema.optional(),
+        detailString: z.string().optional(),
+        detailBoolean: z.boolean().optional(),
+        detailInteger: z.number().optional(),
+        dueDate: z.string().optional(),
+      })
+    )
+    .optional(),
+  statusDate: z.string().optional(),
+  statusReason: z.string().optional(),
+  expressedBy: ReferenceSchema.optional(),
+  addresses: z.array(ReferenceSchema).optional(),
+  note: z.array(z.object({ text: z.string() })).optional(),
+});
+
+/**
+ * CareTeam Resource Schema
+ */
+export const CareTeamSchema = z.object({
+  resourceType: z.literal('CareTeam'),
+  id: z.string().optional(),
+  meta: MetaSchema.optional(),
+  identifier: z.array(IdentifierSchema).optional(),
+  status: z.enum(['proposed', 'active', 'suspended', 'inactive', 'entered-in-error']).optional(),
+  category: z.array(CodeableConceptSchema).optional(),
+  name: z.string().optional(),
+  subject: ReferenceSchema.optional(),
+  period: PeriodSchema.optional(),
+  participant: z
+    .array(
+      z.object({
+        role: z.array(CodeableConceptSchema).optional(),
+        member: ReferenceSchema.optional(),
+        onBehalfOf: ReferenceSchema.optional(),
+        period: PeriodSchema.optional(),
+      })
+    )
+    .optional(),
+  managingOrganization: z.array(ReferenceSchema).optional(),
+});
+
+/**
+ * Coverage Resource Schema
+ */
+export const CoverageSchema = z.object({
+  resourceType: z.literal('Coverage'),
+  id: z.string().optional(),
+  meta: MetaSchema.optional(),
+  identifier: z.array(IdentifierSchema).optional(),
+  status: z.enum(['active', 'cancelled', 'draft', 'entered-in-error']),
+  type: CodeableConceptSchema.optional(),
+  policyHolder: ReferenceSchema.optional(),
+  subscriber: ReferenceSchema.optional(),
+  subscriberId: z.string().optional(),
+  beneficiary: ReferenceSchema,
+  dependent: z.string().optional(),
+  relationship: CodeableConceptSchema.optional(),
+  period: PeriodSchema.optional(),
+  payor: z.array(ReferenceSchema).min(1),
+  class: z
+    .array(
+      z.object({
+        type: CodeableConceptSchema,
+        value: z.string(),
+        name: z.string().optional(),
+      })
+    )
+    .optional(),
+  order: z.number().optional(),
+  network: z.string().optional(),
+});
+
+const MoneySchema = z.object({
+  value: z.number().optional(),
+  currency: z.string().optional(),
+});
+
+const AdjudicationSchema = z.object({
+  category: CodeableConceptSchema,
+  reason: CodeableConceptSchema.optional(),
+  amount: MoneySchema.optional(),
+  value: z.number().optional(),
+});
+
+/**
+ * ExplanationOfBenefit Resource Schema
+ */
+export const ExplanationOfBenefitSchema = z.object({
+  resourceType: z.literal('ExplanationOfBenefit'),
+  id: z.string().optional(),
+  meta: MetaSchema.optional(),
+  identifier: z.array(IdentifierSchema).optional(),
+  status: z.enum(['active', 'cancelled', 'draft', 'entered-in-error']),
+  type: CodeableConceptSchema,
+  subType: CodeableConceptSchema.optional(),
+  use: z.enum(['claim', 'preauthorization', 'predetermination']),
+  patient: ReferenceSchema,
+  billablePeriod: PeriodSchema.optional(),
+  created: z.string(),
+  insurer: ReferenceSchema,
+  provider: ReferenceSchema,
+  facility: ReferenceSchema.optional(),
+  outcome: z.enum(['queued', 'complete', 'error', 'partial']),
+  insurance: z.array(z.object({ focal: z.boolean(), coverage: ReferenceSchema })),
+  item: z
+    .array(
+      z.object({
+        sequence: z.number(),
+        revenue: CodeableConceptSchema.optional(),
+        productOrService: CodeableConceptSchema,
+        servicedDate: z.string().optional(),
+        servicedPeriod: PeriodSchema.optional(),
+        net: MoneySchema.optional(),
+        adjudication: z.array(AdjudicationSchema).optional(),
+      })
+    )
+    .optional(),
+  total: z.array(z.object({ category: CodeableConceptSchema, amount: MoneySchema })).optional(),
+  payment: z
+    .object({
+      type: CodeableConceptSchema.optional(),
+      date: z.string().optional(),
+      amount: MoneySchema.optional(),
+    })
+    .optional(),
+});
+
+const AttachmentSchema = z.object({
+  contentType: z.string().optional(),
+  language: z.string().optional(),
+  data: z.string().optional(),
+  url: z.string().optional(),
+  size: z.number().optional(),
+  hash: z.string().optional(),
+  title: z.string().optional(),
+  creation: z.string().optional(),
+});
+
+/**
+ * DocumentReference Resource Schema
+ */
+export const DocumentReferenceSchema = z.object({
+  resourceType: z.literal('DocumentReference'),
+  id: z.string().optional(),
+  meta: MetaSchema.optional(),
+  masterIdentifier: IdentifierSchema.optional(),
+  identifier: z.array(IdentifierSchema).optional(),
+  status: z.enum(['current', 'superseded', 'entered-in-error']),
+  docStatus: z.enum(['preliminary', 'final', 'amended', 'entered-in-error']).optional(),
+  type: CodeableConceptSchema.optional(),
+  category: z.array(CodeableConceptSchema).optional(),
+  subject: ReferenceSchema.optional(),
+  date: z.string().optional(),
+  author: z.array(ReferenceSchema).optional(),
+  authenticator: ReferenceSchema.optional(),
+  custodian: ReferenceSchema.optional(),
+  description: z.string().optional(),
+  content: z
+    .array(
+      z.object({
+        attachment: AttachmentSchema,
+        format: CodingSchema.optional(),
+      })
+    )
+    .min(1),
+  context: z
+    .object({
+      encounter: z.array(ReferenceSchema).optional(),
+      event: z.array(CodeableConceptSchema).optional(),
+      period: PeriodSchema.optional(),
+      facilityType: CodeableConceptSchema.optional(),
+      practiceSetting: CodeableConceptSchema.optional(),
+    })
+    .optional(),
+});
+
+/**
+ * Practitioner Resource Schema
+ */
+export const PractitionerSchema = z.object({
+  resourceType: z.literal('Practitioner'),
+  id: z.string().optional(),
+  meta: MetaSchema.optional(),
+  identifier: z.array(IdentifierSchema).optional(),
+  active: z.boolean().optional(),
+  name: z.array(HumanNameSchema).optional(),
+  telecom: z.array(ContactPointSchema).optional(),
+  address: z.array(AddressSchema).optional(),
+  gender: z.enum(['male', 'female', 'other', 'unknown']).optional(),
+  qualification: z
+    .array(
+      z.object({
+        identifier: z.array(IdentifierSchema).optional(),
+        code: CodeableConceptSchema,
+        period: PeriodSchema.optional(),
+        issuer: ReferenceSchema.optional(),
+      })
+    )
+    .optional(),
+});
+
+/**
+ * PractitionerRole Resource Schema
+ */
+export const PractitionerRoleSchema = z.object({
+  resourceType: z.literal('PractitionerRole'),
+  id: z.string().optional(),
+  meta: MetaSchema.optional(),
+  identifier: z.array(IdentifierSchema).optional(),
+  active: z.boolean().optional(),
+  period: PeriodSchema.optional(),
+  practitioner: ReferenceSchema.optional(),
+  organization: ReferenceSchema.optional(),
+  code: z.array(CodeableConceptSchema).optional(),
+  specialty: z.array(CodeableConceptSchema).optional(),
+  location: z.array(ReferenceSchema).optional(),
+  telecom: z.array(ContactPointSchema).optional(),
+});
+
+/**
+ * Organization Resource Schema
+ */
+export const OrganizationSchema = z.object({
+  resourceType: z.literal('Organization'),
+  id: z.string().optional(),
+  meta: MetaSchema.optional(),
+  identifier: z.array(IdentifierSchema).optional(),
+  active: z.boolean().optional(),
+  type: z.array(CodeableConceptSchema).optional(),
+  name: z.string().optional(),
+  alias: z.array(z.string()).optional(),
+  telecom: z.array(ContactPointSchema).optional(),
+  address: z.array(AddressSchema).optional(),
+  partOf: ReferenceSchema.optional(),
+});
+
+/**
+ * Location Resource Schema
+ */
+export const LocationSchema = z.object({
+  resourceType: z.literal('Location'),
+  id: z.string().optional(),
+  meta: MetaSchema.optional(),
+  identifier: z.array(IdentifierSchema).optional(),
+  status: z.enum(['active', 'suspended', 'inactive']).optional(),
+  name: z.string().optional(),
+  alias: z.array(z.string()).optional(),
+  description: z.string().optional(),
+  mode: z.enum(['instance', 'kind']).optional(),
+  type: z.array(CodeableConceptSchema).optional(),
+  telecom: z.array(ContactPointSchema).optional(),
+  address: AddressSchema.optional(),
+  managingOrganization: ReferenceSchema.optional(),
+  partOf: ReferenceSchema.optional(),
+});
+
 /**
  * Bundle Resource Schema
  */
@@ -492,6 +1112,280 @@ export function validateConsent(data: unknown): ValidationResult<z.infer<typeof
   };
 }
 
+/**
+ * Validate a Condition resource
+ */
+export function validateCondition(
+  data: unknown
+): ValidationResult<z.infer<typeof ConditionSchema>> {
+  const result = ConditionSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    errors: result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+  };
+}
+
+/**
+ * Validate an AllergyIntolerance resource
+ */
+export function validateAllergyIntolerance(
+  data: unknown
+): ValidationResult<z.infer<typeof AllergyIntoleranceSchema>> {
+  const result = AllergyIntoleranceSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    errors: result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+  };
+}
+
+/**
+ * Validate an Immunization resource
+ */
+export function validateImmunization(
+  data: unknown
+): ValidationResult<z.infer<typeof ImmunizationSchema>> {
+  const result = ImmunizationSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    errors: result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+  };
+}
+
+/**
+ * Validate an ImmunizationRecommendation resource
+ */
+export function validateImmunizationRecommendation(
+  data: unknown
+): ValidationResult<z.infer<typeof ImmunizationRecommendationSchema>> {
+  const result = ImmunizationRecommendationSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    errors: result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+  };
+}
+
+/**
+ * Validate a Procedure resource
+ */
+export function validateProcedure(
+  data: unknown
+): ValidationResult<z.infer<typeof ProcedureSchema>> {
+  const result = ProcedureSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    errors: result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+  };
+}
+
+/**
+ * Validate an Appointment resource
+ */
+export function validateAppointment(
+  data: unknown
+): ValidationResult<z.infer<typeof AppointmentSchema>> {
+  const result = AppointmentSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    errors: result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+  };
+}
+
+/**
+ * Validate a Schedule resource
+ */
+export function validateSchedule(data: unknown): ValidationResult<z.infer<typeof ScheduleSchema>> {
+  const result = ScheduleSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    errors: result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+  };
+}
+
+/**
+ * Validate a Slot resource
+ */
+export function validateSlot(data: unknown): ValidationResult<z.infer<typeof SlotSchema>> {
+  const result = SlotSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    errors: result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+  };
+}
+
+/**
+ * Validate a CarePlan resource
+ */
+export function validateCarePlan(data: unknown): ValidationResult<z.infer<typeof CarePlanSchema>> {
+  const result = CarePlanSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    errors: result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+  };
+}
+
+/**
+ * Validate a Goal resource
+ */
+export function validateGoal(data: unknown): ValidationResult<z.infer<typeof GoalSchema>> {
+  const result = GoalSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    errors: result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+  };
+}
+
+/**
+ * Validate a CareTeam resource
+ */
+export function validateCareTeam(data: unknown): ValidationResult<z.infer<typeof CareTeamSchema>> {
+  const result = CareTeamSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    errors: result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+  };
+}
+
+/**
+ * Validate a Coverage resource
+ */
+export function validateCoverage(data: unknown): ValidationResult<z.infer<typeof CoverageSchema>> {
+  const result = CoverageSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    errors: result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+  };
+}
+
+/**
+ * Validate an ExplanationOfBenefit resource
+ */
+export function validateExplanationOfBenefit(
+  data: unknown
+): ValidationResult<z.infer<typeof ExplanationOfBenefitSchema>> {
+  const result = ExplanationOfBenefitSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    errors: result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+  };
+}
+
+/**
+ * Validate a DocumentReference resource
+ */
+export function validateDocumentReference(
+  data: unknown
+): ValidationResult<z.infer<typeof DocumentReferenceSchema>> {
+  const result = DocumentReferenceSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    errors: result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+  };
+}
+
+/**
+ * Validate a Practitioner resource
+ */
+export function validatePractitioner(
+  data: unknown
+): ValidationResult<z.infer<typeof PractitionerSchema>> {
+  const result = PractitionerSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    errors: result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+  };
+}
+
+/**
+ * Validate a PractitionerRole resource
+ */
+export function validatePractitionerRole(
+  data: unknown
+): ValidationResult<z.infer<typeof PractitionerRoleSchema>> {
+  const result = PractitionerRoleSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    errors: result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+  };
+}
+
+/**
+ * Validate an Organization resource
+ */
+export function validateOrganization(
+  data: unknown
+): ValidationResult<z.infer<typeof OrganizationSchema>> {
+  const result = OrganizationSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    errors: result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+  };
+}
+
+/**
+ * Validate a Location resource
+ */
+export function validateLocation(data: unknown): ValidationResult<z.infer<typeof LocationSchema>> {
+  const result = LocationSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    errors: result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+  };
+}
+
 /**
  * Validate a Bundle resource
  */
@@ -529,6 +1423,42 @@ export function validateResource(data: unknown): ValidationResult<unknown> {
       return validateMedicationRequest(data);
     case 'Consent':
       return validateConsent(data);
+    case 'Condition':
+      return validateCondition(data);
+    case 'AllergyIntolerance':
+      return validateAllergyIntolerance(data);
+    case 'Immunization':
+      return validateImmunization(data);
+    case 'ImmunizationRecommendation':
+      return validateImmunizationRecommendation(data);
+    case 'Procedure':
+      return validateProcedure(data);
+    case 'Appointment':
+      return validateAppointment(data);
+    case 'Schedule':
+      return validateSchedule(data);
+    case 'Slot':
+      return validateSlot(data);
+    case 'CarePlan':
+      return validateCarePlan(data);
+    case 'Goal':
+      return validateGoal(data);
+    case 'CareTeam':
+      return validateCareTeam(data);
+    case 'Coverage':
+      return validateCoverage(data);
+    case 'ExplanationOfBenefit':
+      return validateExplanationOfBenefit(data);
+    case 'DocumentReference':
+      return validateDocumentReference(data);
+    case 'Practitioner':
+      return validatePractitioner(data);
+    case 'PractitionerRole':
+      return validatePractitionerRole(data);
+    case 'Organization':
+      return validateOrganization(data);
+    case 'Location':
+      return validateLocation(data);
     case 'Bundle':
       return validateBundle(data);
     default:
@@ -547,6 +1477,24 @@ export default {
   validateEncounter,
   validateMedicationRequest,
   validateConsent,
+  validateCondition,
+  validateAllergyIntolerance,
+  validateImmunization,
+  validateImmunizationRecommendation,
+  validateProcedure,
+  validateAppointment,
+  validateSchedule,
+  validateSlot,
+  validateCarePlan,
+  validateGoal,
+  validateCareTeam,
+  validateCoverage,
+  validateExplanationOfBenefit,
+  validateDocumentReference,
+  validatePractitioner,
+  validatePractitionerRole,
+  validateOrganization,
+  validateLocation,
   validateBundle,
   validateResource,
 };
@@ -15,6 +15,14 @@ import {
   EditProfileScreen,
   HealthProfileScreen,
   EmergencyContactsScreen,
+  AllergiesScreen,
+  ConditionsScreen,
+  ImmunizationsScreen,
+  CarePlansScreen,
+  InsuranceScreen,
+  MyCareTeamScreen,
+  AdvanceDirectivesScreen,
+  PendingChangesScreen,
   DataExportScreen,
 } from '../screens';
 
@@ -74,6 +82,70 @@ export const ProfileNavigator: React.FC = () => {
         }}
       />
 
+      <Stack.Screen
+        name="Allergies"
+        component={AllergiesScreen}
+        options={{
+          title: 'Allergies',
+        }}
+      />
+
+      <Stack.Screen
+        name="Conditions"
+        component={ConditionsScreen}
+        options={{
+          title: 'Conditions',
+        }}
+      />
+
+      <Stack.Screen
+        name="Immunizations"
+        component={ImmunizationsScreen}
+        options={{
+          title: 'Immunizations',
+        }}
+      />
+
+      <Stack.Screen
+        name="CarePlans"
+        component={CarePlansScreen}
+        options={{
+          title: 'Care Plans',
+        }}
+      />
+
+      <Stack.Screen
+        name="MyCareTeam"
+        component={MyCareTeamScreen}
+        options={{
+          title: 'My Care Team',
+        }}
+      />
+
+      <Stack.Screen
+        name="Insurance"
+        component={InsuranceScreen}
+        options={{
+          title: 'Insurance',
+        }}
+      />
+
+      <Stack.Screen
+        name="AdvanceDirectives"
+        component={AdvanceDirectivesScreen}
+        options={{
+          title: 'Advance Directives',
+        }}
+      />
+
+      <Stack.Screen
+        name="PendingChanges"
+        component={PendingChangesScreen}
+        options={{
+          title: 'Pending Changes',
+        }}
+      />
+
       <Stack.Screen
         name="EmergencyContacts"
         component={EmergencyContactsScreen}
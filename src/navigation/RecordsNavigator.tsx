@@ -8,6 +8,8 @@
  * - Diagnostic reports
  * - Medications
  * - Encounters
+ * - Appointments and booking
+ * - Clinical documents
  * - Detail screens
  */
 
@@ -27,7 +29,11 @@ import LabResultDetailScreen from '../screens/records/LabResultDetailScreen';
 import DiagnosticReportDetailScreen from '../screens/records/DiagnosticReportDetailScreen';
 import MedicationDetailScreen from '../screens/records/MedicationDetailScreen';
 import EncounterDetailScreen from '../screens/records/EncounterDetailScreen';
+import AppointmentsScreen from '../screens/records/AppointmentsScreen';
+import BookAppointmentScreen from '../screens/records/BookAppointmentScreen';
+import DocumentsScreen from '../screens/records/DocumentsScreen';
 import RecordSearchScreen from '../screens/records/RecordSearchScreen';
+import MergedRecordsScreen from '../screens/records/MergedRecordsScreen';
 
 const Stack = createNativeStackNavigator<RecordsStackParamList>();
 
@@ -135,6 +141,39 @@ const RecordsNavigator: React.FC = () => {
         }}
       />
 
+      <Stack.Screen
+        name="Appointments"
+        component={AppointmentsScreen}
+        options={{
+          title: 'Appointments',
+        }}
+      />
+
+      <Stack.Screen
+        name="BookAppointment"
+        component={BookAppointmentScreen}
+        options={{
+          title: 'Book Appointment',
+          presentation: 'modal',
+        }}
+      />
+
+      <Stack.Screen
+        name="Documents"
+        component={DocumentsScreen}
+        options={{
+          title: 'Documents',
+        }}
+      />
+
+      <Stack.Screen
+        name="MergedRecords"
+        component={MergedRecordsScreen}
+        options={{
+          title: 'Merged Records',
+        }}
+      />
+
       <Stack.Screen
         name="RecordSearch"
         component={RecordSearchScreen}
@@ -23,12 +23,16 @@ import ProviderAuthModalScreen from '../screens/modals/ProviderAuthModalScreen';
 import RecordDetailModalScreen from '../screens/modals/RecordDetailModalScreen';
 import PDFViewerScreen from '../screens/modals/PDFViewerScreen';
 import ImageViewerScreen from '../screens/modals/ImageViewerScreen';
+import DocumentViewerScreen from '../screens/modals/DocumentViewerScreen';
 
 import { useAppSelector } from '../store';
 import { selectIsAuthenticated } from '../store/slices/authSlice';
 import { selectIsDarkMode } from '../store/slices/uiSlice';
 import { getWebSocketService } from '../data/websocket/WebSocketService';
 import { getPushNotificationService } from '../data/notifications/PushNotificationService';
+import { useNetworkStatus } from '../hooks/useNetworkStatus';
+import { useOutboxReplay } from '../hooks/useOutbox';
+import { useSyncScheduler } from '../hooks/useSyncScheduler';
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
@@ -66,6 +70,12 @@ const RootNavigator: React.FC = () => {
   const [isReady, setIsReady] = useState(false);
   const [isNavigationReady, setIsNavigationReady] = useState(false);
 
+  // Keep uiSlice.isOnline current, send queued writes when back online and
+  // sync providers in the background
+  useNetworkStatus();
+  useOutboxReplay();
+  useSyncScheduler();
+
   // Create dynamic linking configuration based on auth state
   // Only enable linking after navigation is ready to prevent RESET errors
   const linking = useMemo(
@@ -228,6 +238,13 @@ const RootNavigator: React.FC = () => {
                 animation: 'fade',
               }}
             />
+            <Stack.Screen
+              name="DocumentViewer"
+              component={DocumentViewerScreen}
+              options={{
+                presentation: 'modal',
+              }}
+            />
           </Stack.Group>
         </Stack.Navigator>
       </NavigationContainer>
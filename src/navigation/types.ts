@@ -11,6 +11,18 @@ import { NavigatorScreenParams, CompositeScreenProps } from '@react-navigation/n
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { BottomTabScreenProps } from '@react-navigation/bottom-tabs';
 
+/**
+ * An attachment on a DocumentReference or Consent, downloaded by the viewer
+ * so its content never goes through navigation state
+ */
+export interface DocumentAttachmentParams {
+  providerId: string;
+  resourceType: 'DocumentReference' | 'Consent';
+  resourceId: string;
+  /** Index into the resource's downloadable attachments */
+  attachmentIndex: number;
+}
+
 // ============================================================================
 // Root Stack - Main app navigation
 // ============================================================================
@@ -39,13 +51,20 @@ export type RootStackParamList = {
     providerId: string;
   };
   PDFViewer: {
-    url: string;
+    url?: string;
     title: string;
+    /** Attachment to download when no url is given */
+    document?: DocumentAttachmentParams;
   };
   ImageViewer: {
-    urls: string[];
+    urls?: string[];
     initialIndex?: number;
     title?: string;
+    /** Attachment to download when no urls are given */
+    document?: DocumentAttachmentParams;
+  };
+  DocumentViewer: DocumentAttachmentParams & {
+    title: string;
   };
 
   // Settings stack
@@ -118,6 +137,15 @@ export type RecordsStackParamList = {
   Encounters: {
     providerId?: string;
   };
+  Appointments: {
+    providerId?: string;
+  };
+  Documents: {
+    providerId?: string;
+  };
+  BookAppointment: {
+    providerId: string;
+  };
 
   // Detail screens
   VitalDetail: {
@@ -141,6 +169,9 @@ export type RecordsStackParamList = {
     providerId: string;
   };
 
+  // Records shared between providers
+  MergedRecords: undefined;
+
   // Search
   RecordSearch: {
     initialQuery?: string;
@@ -198,12 +229,16 @@ export type ProfileStackParamList = {
   Allergies: undefined;
   Medications: undefined;
   Conditions: undefined;
+  Immunizations: undefined;
+  CarePlans: undefined;
+  MyCareTeam: undefined;
   // Emergency & Legal
   Insurance: undefined;
   AdvanceDirectives: undefined;
   // Privacy & Data
   Privacy: undefined;
   ExportData: undefined;
+  PendingChanges: undefined;
 };
 
 // ============================================================================
@@ -315,6 +350,8 @@ export const linking: {
               LabResults: 'labs',
               Medications: 'medications',
               Encounters: 'encounters',
+              Appointments: 'appointments',
+              Documents: 'documents',
             },
           },
           Providers: {
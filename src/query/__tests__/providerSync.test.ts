@@ -0,0 +1,184 @@
+/**
+ * Provider Sync Tests
+ * @jest-environment node
+ */
+
+import { getSyncCursor, SYNC_CURSOR_OVERLAP_MS, syncProvider } from '../providerSync';
+import { fhirRepository } from '../fhirRepository';
+import { store } from '../../store';
+import { resetRecords } from '../../store/slices/recordsSlice';
+import { Provider } from '../../domain/entities/Provider';
+import {
+  ResourceCapabilities,
+  ServerCapabilities,
+} from '../../domain/entities/CapabilityStatement';
+import { Logger } from '../../utils/logger';
+
+jest.mock('../fhirRepository', () => ({
+  fhirRepository: { getClient: jest.fn() },
+}));
+
+jest.mock('../../infrastructure/storage/EncryptedRecordStore', () => ({
+  encryptedRecordStore: {
+    putResources: jest.fn().mockResolvedValue(undefined),
+    removeResources: jest.fn().mockResolvedValue(undefined),
+    replaceResources: jest.fn().mockResolvedValue(undefined),
+    saveProviderInfo: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+jest.mock('../../utils/logger', () => ({
+  Logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const withSource = (resource: { resourceType: string; id: string }) => ({
+  resource,
+  source: { providerId: 'p1' },
+});
+
+const resource = (
+  interactions: ResourceCapabilities['interactions'],
+  operations: string[] = []
+): ResourceCapabilities => ({
+  interactions,
+  searchParams: [],
+  operations,
+  searchInclude: [],
+  searchRevInclude: [],
+  conditionalCreate: false,
+  conditionalUpdate: false,
+});
+
+const capabilities = (patientOperations: string[]): ServerCapabilities => ({
+  fhirVersion: '4.0.1',
+  resources: {
+    Patient: resource(['read'], patientOperations),
+    Observation: resource(['search-type']),
+    Condition: resource(['search-type', 'history-type']),
+  },
+  interactions: [],
+  operations: [],
+  fetchedAt: '2024-03-01T12:00:00Z',
+});
+
+const provider = (serverCapabilities: ServerCapabilities): Provider =>
+  ({
+    id: 'p1',
+    name: 'General Hospital',
+    patientId: 'patient-1',
+    metadata: { capabilities: serverCapabilities },
+  }) as Provider;
+
+const createClient = () => ({
+  getPatientEverything: jest.fn(),
+  getObservations: jest
+    .fn()
+    .mockResolvedValue([withSource({ resourceType: 'Observation', id: 'o1' })]),
+  getDiagnosticReports: jest.fn().mockResolvedValue([]),
+  getEncounters: jest.fn().mockResolvedValue([]),
+  getMedicationRequests: jest.fn().mockResolvedValue([]),
+  getConditions: jest.fn().mockResolvedValue([withSource({ resourceType: 'Condition', id: 'c1' })]),
+  getDeletedSince: jest.fn().mockResolvedValue([]),
+});
+
+const syncedIds = () => {
+  const records = store.getState().records.recordsByProvider.p1;
+  return [...records.observations, ...records.conditions].map(resource => resource.id);
+};
+
+describe('syncProvider', () => {
+  let client: ReturnType<typeof createClient>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    store.dispatch(resetRecords());
+    client = createClient();
+    (fhirRepository.getClient as jest.Mock).mockResolvedValue(client);
+  });
+
+  it('should read the chart with Patient/$everything when the server supports it', async () => {
+    client.getPatientEverything.mockResolvedValue([
+      withSource({ resourceType: 'Observation', id: 'o1' }),
+      withSource({ resourceType: 'Condition', id: 'c1' }),
+    ]);
+
+    const result = await syncProvider(provider(capabilities(['everything'])));
+
+    expect(client.getPatientEverything).toHaveBeenCalledWith(
+      'patient-1',
+      expect.objectContaining({ _type: expect.arrayContaining(['Observation', 'Condition']) }),
+      expect.anything()
+    );
+    expect(client.getObservations).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ mode: 'full', recordsFetched: 2 });
+    expect(syncedIds()).toEqual(['o1', 'c1']);
+  });
+
+  it('should fall back to searches once when Patient/$everything fails', async () => {
+    client.getPatientEverything.mockRejectedValue(new Error('Request failed with status 500'));
+
+    const result = await syncProvider(provider(capabilities(['everything'])));
+
+    expect(client.getObservations).toHaveBeenCalledTimes(1);
+    expect(Logger.warn).toHaveBeenCalledWith(
+      'Patient/$everything failed, falling back to searches',
+      expect.objectContaining({ providerId: 'p1' })
+    );
+    expect(result.recordsFetched).toBe(2);
+    expect(syncedIds()).toEqual(['o1', 'c1']);
+  });
+
+  it('should search per resource type when $everything is not advertised', async () => {
+    await syncProvider(provider(capabilities([])));
+
+    expect(client.getPatientEverything).not.toHaveBeenCalled();
+    expect(client.getObservations).toHaveBeenCalled();
+    expect(client.getConditions).toHaveBeenCalled();
+  });
+
+  it('should take the sync cursor from the server clock and sync changes from it', async () => {
+    const serverTime = '2024-03-01T12:00:00.000Z';
+    client.getObservations.mockImplementation(async (_patientId, _params, options) => {
+      options.onPage({ resourceType: 'Observation', pageNumber: 1, recordsFetched: 1, serverTime });
+      return [withSource({ resourceType: 'Observation', id: 'o1' })];
+    });
+
+    const first = await syncProvider(provider(capabilities([])));
+
+    const cursor = new Date(Date.parse(serverTime) - SYNC_CURSOR_OVERLAP_MS).toISOString();
+    expect(first).toMatchObject({ mode: 'full', lastSync: cursor });
+
+    client.getObservations.mockResolvedValue([]);
+    client.getConditions.mockResolvedValue([]);
+    client.getDeletedSince.mockResolvedValue(['c1']);
+
+    const second = await syncProvider(provider(capabilities([])));
+
+    expect(client.getObservations).toHaveBeenLastCalledWith(
+      'patient-1',
+      { _lastUpdated: `gt${cursor}` },
+      expect.anything()
+    );
+    expect(client.getDeletedSince).toHaveBeenCalledWith('Condition', cursor, expect.anything());
+    expect(second).toMatchObject({ mode: 'incremental', recordsDeleted: 1 });
+    expect(syncedIds()).toEqual(['o1']);
+    // No page reported a server time, so the cursor stays where it was
+    expect(second.lastSync).toBe(cursor);
+  });
+});
+
+describe('getSyncCursor', () => {
+  it('should step back from the server time and keep the cursor without one', () => {
+    const serverTime = Date.parse('2024-03-01T12:00:00Z');
+
+    expect(getSyncCursor(serverTime)).toBe(
+      new Date(serverTime - SYNC_CURSOR_OVERLAP_MS).toISOString()
+    );
+    expect(getSyncCursor(undefined, '2024-02-01T00:00:00.000Z')).toBe('2024-02-01T00:00:00.000Z');
+  });
+});
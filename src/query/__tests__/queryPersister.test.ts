@@ -0,0 +1,151 @@
+/**
+ * Query Cache Persister Tests
+ * @jest-environment node
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { QueryClient } from '@tanstack/react-query';
+
+import {
+  clearPersistedQueryCache,
+  persistQueryCache,
+  restoreQueryCache,
+  QUERY_CACHE_MAX_AGE_MS,
+} from '../queryPersister';
+import { queryKeys } from '../queryClient';
+import { encryption } from '../../infrastructure/encryption/E2EEncryption';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// Reversible stand-in for secretbox so stored values can be inspected
+jest.mock('../../infrastructure/encryption/E2EEncryption', () => ({
+  encryption: {
+    encryptLocal: jest.fn((data: string, ttlMs = 0) => ({
+      ciphertext: data.split('').reverse().join(''),
+      nonce: 'nonce',
+      algorithm: 'nacl-secretbox',
+      encryptedAt: new Date().toISOString(),
+      ttlMs,
+      version: 1,
+    })),
+    decryptLocal: jest.fn((payload: { ciphertext: string }) =>
+      payload.ciphertext.split('').reverse().join('')
+    ),
+  },
+}));
+
+jest.mock('../../infrastructure/encryption/deviceKey', () => ({
+  loadDeviceKey: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock('../../utils/logger', () => ({
+  Logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+  logger: {
+    error: jest.fn(),
+  },
+}));
+
+const STORAGE_KEY = 'query_cache';
+
+const observations = [
+  {
+    resource: { resourceType: 'Observation', id: 'o1', code: { text: 'Heart rate' } },
+    source: { providerId: 'p1', providerName: 'General Hospital', accessToken: 'secret-token' },
+  },
+];
+
+const readStored = async (): Promise<string> => {
+  const stored = JSON.parse((await AsyncStorage.getItem(STORAGE_KEY)) as string);
+  return encryption.decryptLocal(stored) as string;
+};
+
+describe('queryPersister', () => {
+  let client: QueryClient;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await AsyncStorage.clear();
+    client = new QueryClient();
+  });
+
+  afterEach(() => {
+    client.clear();
+  });
+
+  it('should persist successful queries encrypted with the max age', async () => {
+    client.setQueryData(queryKeys.observations.byPatient('pat-1'), observations);
+
+    await persistQueryCache(client);
+
+    expect(encryption.encryptLocal).toHaveBeenCalledWith(
+      expect.any(String),
+      QUERY_CACHE_MAX_AGE_MS
+    );
+    expect(await AsyncStorage.getItem(STORAGE_KEY)).not.toContain('Heart rate');
+    expect(await readStored()).toContain('Heart rate');
+  });
+
+  it('should not persist auth queries, secure storage data, documents or access tokens', async () => {
+    client.setQueryData(queryKeys.observations.byPatient('pat-1'), observations);
+    client.setQueryData(queryKeys.auth.session, { token: 'session-token' });
+    client.setQueryData(queryKeys.advanceDirectives.emergency, { reference: 'Consent/acd-1' });
+    client.setQueryData(queryKeys.documents.attachment('p1', 'DocumentReference/doc-1', 0), {
+      contentType: 'text/plain',
+      data: 'bm90ZSB0ZXh0',
+    });
+
+    await persistQueryCache(client);
+
+    const stored = await readStored();
+    expect(stored).not.toContain('session-token');
+    expect(stored).not.toContain('Consent/acd-1');
+    expect(stored).not.toContain('bm90ZSB0ZXh0');
+    expect(stored).not.toContain('secret-token');
+  });
+
+  it('should restore queries younger than the max age', async () => {
+    const now = Date.now();
+    client.setQueryData(queryKeys.observations.byPatient('pat-1'), observations);
+    client.setQueryData(queryKeys.conditions.byPatient('pat-1'), [], {
+      updatedAt: now - QUERY_CACHE_MAX_AGE_MS - 1,
+    });
+    await persistQueryCache(client);
+
+    const restored = new QueryClient();
+    expect(await restoreQueryCache(restored, () => now)).toBe(1);
+    expect(restored.getQueryData(queryKeys.observations.byPatient('pat-1'))).toEqual([
+      {
+        resource: observations[0].resource,
+        source: { providerId: 'p1', providerName: 'General Hospital' },
+      },
+    ]);
+    expect(restored.getQueryData(queryKeys.conditions.byPatient('pat-1'))).toBeUndefined();
+    restored.clear();
+  });
+
+  it('should wipe a cache that cannot be decrypted', async () => {
+    client.setQueryData(queryKeys.observations.byPatient('pat-1'), observations);
+    await persistQueryCache(client);
+    (encryption.decryptLocal as jest.Mock).mockReturnValueOnce(null);
+
+    expect(await restoreQueryCache(new QueryClient())).toBe(0);
+    expect(await AsyncStorage.getItem(STORAGE_KEY)).toBeNull();
+  });
+
+  it('should wipe the persisted and in-memory cache', async () => {
+    client.setQueryData(queryKeys.observations.byPatient('pat-1'), observations);
+    await persistQueryCache(client);
+
+    await clearPersistedQueryCache(client);
+
+    expect(await AsyncStorage.getItem(STORAGE_KEY)).toBeNull();
+    expect(client.getQueryData(queryKeys.observations.byPatient('pat-1'))).toBeUndefined();
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * Shared FHIR Repository
+ *
+ * The FHIRClientRepository used by the query hooks, resolving providers
+ * from the Redux store and their tokens from secure storage.
+ *
+ * Also connects token refresh: FHIRClients refresh through AuthService,
+ * and a provider whose token cannot be refreshed is marked token_expired.
+ */
+
+import { FHIRClientRepository } from '../data/fhir/FHIRClientRepository';
+import { fhirClientManager } from '../data/fhir/FHIRClient';
+import { authService } from '../data/auth/AuthService';
+import { store } from '../store';
+import { selectProviderById, setProviderTokenExpired } from '../store/slices/providersSlice';
+
+const getProvider = (providerId: string) => selectProviderById(store.getState(), providerId);
+
+authService.setProviderLookup(getProvider);
+
+fhirClientManager.configureTokenRefresh({
+  tokenRefresher: authService,
+  onTokenExpired: providerId => {
+    store.dispatch(setProviderTokenExpired(providerId));
+  },
+});
+
+export const fhirRepository = new FHIRClientRepository({ getProvider });
+
+export default fhirRepository;
@@ -0,0 +1,311 @@
+/**
+ * Provider Sync
+ *
+ * Downloads a provider's records into the store and the encrypted offline
+ * store. Syncs are incremental from `ProviderRecords.lastSync` (deletions
+ * come from `_history`) unless a full resync is asked for or the provider
+ * has never been synced. Servers that advertise Patient/$everything are
+ * read with that one operation, falling back to a search per resource type.
+ */
+
+import { store } from '../store';
+import { setProviderCapabilities } from '../store/slices/providersSlice';
+import {
+  initializeProvider,
+  mergeProviderRecords,
+  setConditions,
+  setDiagnosticReports,
+  setEncounters,
+  setMedications,
+  setObservations,
+  setProviderSyncError,
+  setProviderSyncing,
+  setProviderSyncProgress,
+  setProviderSyncSuccess,
+} from '../store/slices/recordsSlice';
+import { Provider, ProviderHelpers } from '../domain/entities/Provider';
+import { CapabilityHelpers } from '../domain/entities/CapabilityStatement';
+import { FHIRResource, FHIRResourceWithSource } from '../domain/entities/FHIRTypes';
+import { Observation } from '../domain/entities/Observation';
+import { DiagnosticReport } from '../domain/entities/DiagnosticReport';
+import { Encounter } from '../domain/entities/Encounter';
+import { MedicationRequest } from '../domain/entities/MedicationRequest';
+import { Condition } from '../domain/entities/Condition';
+import { FHIRSearchProgress } from '../data/fhir/FHIRClient';
+import { encryptedRecordStore } from '../infrastructure/storage/EncryptedRecordStore';
+import { Logger } from '../utils/logger';
+import { fhirRepository } from './fhirRepository';
+
+// Resource types downloaded by a provider sync
+const SYNCED_RESOURCE_TYPES = [
+  'Observation',
+  'DiagnosticReport',
+  'Encounter',
+  'MedicationRequest',
+  'Condition',
+];
+
+// Records downloaded by a sync, by resource type
+interface SyncedRecords {
+  Observation: Observation[];
+  DiagnosticReport: DiagnosticReport[];
+  Encounter: Encounter[];
+  MedicationRequest: MedicationRequest[];
+  Condition: Condition[];
+}
+
+export interface ProviderSyncResult {
+  mode: 'full' | 'incremental';
+  /** Resources downloaded (created or changed since the last sync) */
+  recordsFetched: number;
+  /** Resources deleted on the server since the last sync */
+  recordsDeleted: number;
+  /** The new sync cursor */
+  lastSync: string;
+}
+
+/**
+ * Start the next incremental sync this long before the server time the last
+ * one started at, so changes committed while it ran are not missed.
+ * Records fetched twice are merged by id.
+ */
+export const SYNC_CURSOR_OVERLAP_MS = 2 * 60 * 1000;
+
+/**
+ * The cursor to store after a sync, from the server's clock
+ *
+ * Without a server time the previous cursor is kept; a first sync falls
+ * back to the device clock.
+ */
+export const getSyncCursor = (serverTime: number | undefined, since?: string): string => {
+  if (serverTime !== undefined) {
+    return new Date(serverTime - SYNC_CURSOR_OVERLAP_MS).toISOString();
+  }
+  return since ?? new Date(Date.now() - SYNC_CURSOR_OVERLAP_MS).toISOString();
+};
+
+/**
+ * Sync a provider's records
+ *
+ * Progress and the outcome are reported through the records slice; a
+ * failed sync is recorded there as well and then rethrown.
+ */
+export async function syncProvider(
+  provider: Provider,
+  { fullResync = false }: { fullResync?: boolean } = {}
+): Promise<ProviderSyncResult> {
+  const { dispatch } = store;
+  const since = fullResync
+    ? undefined
+    : (store.getState().records.recordsByProvider[provider.id]?.lastSync ?? undefined);
+  // Earliest server time seen; the device clock may not agree with the server's
+  let serverTime: number | undefined;
+
+  dispatch(initializeProvider({ providerId: provider.id, providerName: provider.name }));
+  dispatch(setProviderSyncing(provider.id));
+
+  try {
+    if (!provider.patientId) {
+      throw new Error('Provider is not authorized');
+    }
+
+    const client = await fhirRepository.getClient(provider.id);
+    const options = {
+      onPage: ({
+        resourceType,
+        pageNumber,
+        recordsFetched,
+        total,
+        serverTime: pageTime,
+      }: FHIRSearchProgress) => {
+        const time = Date.parse(pageTime ?? '');
+        if (!isNaN(time)) {
+          serverTime = Math.min(time, serverTime ?? time);
+        }
+        dispatch(
+          setProviderSyncProgress({
+            providerId: provider.id,
+            progress: { resourceType, pageNumber, recordsFetched, total },
+          })
+        );
+      },
+    };
+
+    // Read the CapabilityStatement once so unsupported resources are skipped
+    let negotiated = provider;
+    if (!provider.metadata?.capabilities) {
+      try {
+        const capabilities = await client.getServerCapabilities();
+        dispatch(setProviderCapabilities({ providerId: provider.id, capabilities }));
+        negotiated = ProviderHelpers.withCapabilities(provider, capabilities);
+      } catch (error) {
+        // Capabilities stay unknown; every resource is attempted
+      }
+    }
+
+    const patientId = provider.patientId;
+    const capabilities = negotiated.metadata?.capabilities;
+    const params = since ? { _lastUpdated: `gt${since}` } : undefined;
+
+    // Fast path: one paged Patient/$everything instead of a search per resource type
+    const fetchEverything = async (): Promise<SyncedRecords> => {
+      const results = await client.getPatientEverything(
+        patientId,
+        { _since: since, _type: SYNCED_RESOURCE_TYPES },
+        options
+      );
+      const ofType = <T extends FHIRResource>(resourceType: string) =>
+        results.map(r => r.resource).filter(r => r.resourceType === resourceType) as T[];
+
+      return {
+        Observation: ofType<Observation>('Observation'),
+        DiagnosticReport: ofType<DiagnosticReport>('DiagnosticReport'),
+        Encounter: ofType<Encounter>('Encounter'),
+        MedicationRequest: ofType<MedicationRequest>('MedicationRequest'),
+        Condition: ofType<Condition>('Condition'),
+      };
+    };
+
+    const searchEach = async (): Promise<SyncedRecords> => {
+      const fetchIfSupported = async <T extends FHIRResource>(
+        resourceType: string,
+        fetch: () => Promise<FHIRResourceWithSource<T>[]>
+      ): Promise<T[]> =>
+        ProviderHelpers.supportsSearch(negotiated, resourceType)
+          ? (await fetch()).map(r => r.resource)
+          : [];
+
+      // Fetch sequentially so page progress reads as one continuous sync
+      return {
+        Observation: await fetchIfSupported('Observation', () =>
+          client.getObservations(patientId, params, options)
+        ),
+        DiagnosticReport: await fetchIfSupported('DiagnosticReport', () =>
+          client.getDiagnosticReports(patientId, params, options)
+        ),
+        Encounter: await fetchIfSupported('Encounter', () =>
+          client.getEncounters(patientId, params, options)
+        ),
+        MedicationRequest: await fetchIfSupported('MedicationRequest', () =>
+          client.getMedicationRequests(patientId, params, options)
+        ),
+        Condition: await fetchIfSupported('Condition', () =>
+          client.getConditions(patientId, params, options)
+        ),
+      };
+    };
+
+    let synced: SyncedRecords | undefined;
+    if (
+      capabilities &&
+      CapabilityHelpers.supportsOperation(capabilities, 'everything', 'Patient')
+    ) {
+      try {
+        synced = await fetchEverything();
+      } catch (error) {
+        Logger.warn('Patient/$everything failed, falling back to searches', {
+          providerId: provider.id,
+          error: String(error),
+        });
+      }
+    }
+    if (!synced) {
+      synced = await searchEach();
+    }
+
+    const deleted: string[] = [];
+
+    if (since) {
+      // Deletions are only visible through _history
+      for (const resourceType of SYNCED_RESOURCE_TYPES) {
+        if (CapabilityHelpers.supportsInteraction(capabilities, resourceType, 'history-type')) {
+          const ids = await client.getDeletedSince(resourceType, since, options);
+          deleted.push(...ids.map(id => `${resourceType}/${id}`));
+        }
+      }
+
+      dispatch(
+        mergeProviderRecords({
+          providerId: provider.id,
+          observations: synced.Observation,
+          diagnosticReports: synced.DiagnosticReport,
+          encounters: synced.Encounter,
+          medications: synced.MedicationRequest,
+          conditions: synced.Condition,
+          deleted,
+        })
+      );
+    } else {
+      dispatch(
+        setObservations({
+          providerId: provider.id,
+          observations: synced.Observation,
+        })
+      );
+      dispatch(
+        setDiagnosticReports({
+          providerId: provider.id,
+          reports: synced.DiagnosticReport,
+        })
+      );
+      dispatch(
+        setEncounters({
+          providerId: provider.id,
+          encounters: synced.Encounter,
+        })
+      );
+      dispatch(
+        setMedications({
+          providerId: provider.id,
+          medications: synced.MedicationRequest,
+        })
+      );
+      dispatch(
+        setConditions({
+          providerId: provider.id,
+          conditions: synced.Condition,
+        })
+      );
+    }
+
+    // Changes made on the server while this sync ran are picked up next time
+    const cursor = getSyncCursor(serverTime, since);
+    dispatch(setProviderSyncSuccess({ providerId: provider.id, lastSync: cursor }));
+
+    // Keep an encrypted copy on the device; failing to save only costs offline access
+    try {
+      if (since) {
+        await encryptedRecordStore.putResources(provider.id, Object.values(synced).flat());
+        await encryptedRecordStore.removeResources(provider.id, deleted);
+      } else {
+        for (const [resourceType, resources] of Object.entries(synced)) {
+          await encryptedRecordStore.replaceResources(provider.id, resourceType, resources);
+        }
+      }
+      await encryptedRecordStore.saveProviderInfo(provider.id, {
+        providerName: provider.name,
+        lastSync: cursor,
+      });
+    } catch (error) {
+      Logger.warn('Failed to save synced records offline', {
+        providerId: provider.id,
+        error: String(error),
+      });
+    }
+
+    return {
+      mode: since ? 'incremental' : 'full',
+      recordsFetched: Object.values(synced).reduce((sum, list) => sum + list.length, 0),
+      recordsDeleted: deleted.length,
+      lastSync: cursor,
+    };
+  } catch (error) {
+    dispatch(
+      setProviderSyncError({
+        providerId: provider.id,
+        error: error instanceof Error ? error.message : 'Sync failed',
+      })
+    );
+    throw error;
+  }
+}
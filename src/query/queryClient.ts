@@ -108,6 +108,105 @@ export const queryKeys = {
     detail: (medicationId: string) => ['medications', medicationId] as const,
   },
 
+  // Conditions
+  conditions: {
+    all: ['conditions'] as const,
+    list: (filters?: Record<string, unknown>) => ['conditions', 'list', filters] as const,
+    byPatient: (patientId: string) => ['conditions', 'patient', patientId] as const,
+    byProvider: (providerId: string) => ['conditions', 'provider', providerId] as const,
+    detail: (conditionId: string) => ['conditions', conditionId] as const,
+  },
+
+  // Allergies
+  allergies: {
+    all: ['allergies'] as const,
+    list: (filters?: Record<string, unknown>) => ['allergies', 'list', filters] as const,
+    byPatient: (patientId: string) => ['allergies', 'patient', patientId] as const,
+    byProvider: (providerId: string) => ['allergies', 'provider', providerId] as const,
+    detail: (allergyId: string) => ['allergies', allergyId] as const,
+  },
+
+  // Immunizations
+  immunizations: {
+    all: ['immunizations'] as const,
+    list: (filters?: Record<string, unknown>) => ['immunizations', 'list', filters] as const,
+    recommendations: (filters?: Record<string, unknown>) =>
+      ['immunizations', 'recommendations', filters] as const,
+    byPatient: (patientId: string) => ['immunizations', 'patient', patientId] as const,
+    byProvider: (providerId: string) => ['immunizations', 'provider', providerId] as const,
+    detail: (immunizationId: string) => ['immunizations', immunizationId] as const,
+  },
+
+  // Procedures
+  procedures: {
+    all: ['procedures'] as const,
+    list: (filters?: Record<string, unknown>) => ['procedures', 'list', filters] as const,
+    byPatient: (patientId: string) => ['procedures', 'patient', patientId] as const,
+    byProvider: (providerId: string) => ['procedures', 'provider', providerId] as const,
+    byEncounter: (encounterId: string) => ['procedures', 'encounter', encounterId] as const,
+    detail: (procedureId: string) => ['procedures', procedureId] as const,
+  },
+
+  // Appointments
+  appointments: {
+    all: ['appointments'] as const,
+    list: (filters?: Record<string, unknown>) => ['appointments', 'list', filters] as const,
+    byPatient: (patientId: string) => ['appointments', 'patient', patientId] as const,
+    byProvider: (providerId: string) => ['appointments', 'provider', providerId] as const,
+    detail: (appointmentId: string) => ['appointments', appointmentId] as const,
+    schedules: (providerId: string) => ['appointments', 'schedules', providerId] as const,
+    slots: (filters?: Record<string, unknown>) => ['appointments', 'slots', filters] as const,
+  },
+
+  // Care Plans
+  carePlans: {
+    all: ['carePlans'] as const,
+    list: (filters?: Record<string, unknown>) => ['carePlans', 'list', filters] as const,
+    goals: (filters?: Record<string, unknown>) => ['carePlans', 'goals', filters] as const,
+    careTeams: (filters?: Record<string, unknown>) => ['carePlans', 'careTeams', filters] as const,
+    byPatient: (patientId: string) => ['carePlans', 'patient', patientId] as const,
+    byProvider: (providerId: string) => ['carePlans', 'provider', providerId] as const,
+    detail: (carePlanId: string) => ['carePlans', carePlanId] as const,
+  },
+
+  // Insurance
+  insurance: {
+    all: ['insurance'] as const,
+    coverage: (filters?: Record<string, unknown>) => ['insurance', 'coverage', filters] as const,
+    claims: (filters?: Record<string, unknown>) => ['insurance', 'claims', filters] as const,
+    byPatient: (patientId: string) => ['insurance', 'patient', patientId] as const,
+    byProvider: (providerId: string) => ['insurance', 'provider', providerId] as const,
+  },
+
+  // Documents
+  documents: {
+    all: ['documents'] as const,
+    list: (filters?: Record<string, unknown>) => ['documents', 'list', filters] as const,
+    byPatient: (patientId: string) => ['documents', 'patient', patientId] as const,
+    byProvider: (providerId: string) => ['documents', 'provider', providerId] as const,
+    detail: (documentId: string) => ['documents', documentId] as const,
+    attachments: ['documents', 'attachment'] as const,
+    attachment: (providerId: string, reference: string, attachmentIndex: number) =>
+      ['documents', 'attachment', providerId, reference, attachmentIndex] as const,
+  },
+
+  // Provider directory
+  directory: {
+    all: ['directory'] as const,
+    byProvider: (providerId: string) => ['directory', 'provider', providerId] as const,
+    entries: (providerId: string, references: string[]) =>
+      ['directory', 'provider', providerId, references] as const,
+  },
+
+  // Advance directives
+  advanceDirectives: {
+    all: ['advanceDirectives'] as const,
+    list: (filters?: Record<string, unknown>) => ['advanceDirectives', 'list', filters] as const,
+    byPatient: (patientId: string) => ['advanceDirectives', 'patient', patientId] as const,
+    byProvider: (providerId: string) => ['advanceDirectives', 'provider', providerId] as const,
+    emergency: ['advanceDirectives', 'emergency'] as const,
+  },
+
   // Consents
   consents: {
     all: ['consents'] as const,
@@ -139,6 +238,16 @@ export const invalidateQueries = {
     queryClient.invalidateQueries({ queryKey: queryKeys.diagnosticReports.all });
     queryClient.invalidateQueries({ queryKey: queryKeys.encounters.all });
     queryClient.invalidateQueries({ queryKey: queryKeys.medications.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.conditions.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.allergies.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.immunizations.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.procedures.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.appointments.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.carePlans.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.insurance.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.documents.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.directory.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.advanceDirectives.all });
   },
 
   providerData: (providerId: string) => {
@@ -147,6 +256,18 @@ export const invalidateQueries = {
     queryClient.invalidateQueries({ queryKey: queryKeys.diagnosticReports.byProvider(providerId) });
     queryClient.invalidateQueries({ queryKey: queryKeys.encounters.byProvider(providerId) });
     queryClient.invalidateQueries({ queryKey: queryKeys.medications.byProvider(providerId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.conditions.byProvider(providerId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.allergies.byProvider(providerId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.immunizations.byProvider(providerId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.procedures.byProvider(providerId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.appointments.byProvider(providerId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.carePlans.byProvider(providerId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.insurance.byProvider(providerId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.documents.byProvider(providerId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.directory.byProvider(providerId) });
+    queryClient.invalidateQueries({
+      queryKey: queryKeys.advanceDirectives.byProvider(providerId),
+    });
   },
 
   patientRecords: (patientId: string) => {
@@ -154,6 +275,15 @@ export const invalidateQueries = {
     queryClient.invalidateQueries({ queryKey: queryKeys.diagnosticReports.byPatient(patientId) });
     queryClient.invalidateQueries({ queryKey: queryKeys.encounters.byPatient(patientId) });
     queryClient.invalidateQueries({ queryKey: queryKeys.medications.byPatient(patientId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.conditions.byPatient(patientId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.allergies.byPatient(patientId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.immunizations.byPatient(patientId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.procedures.byPatient(patientId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.appointments.byPatient(patientId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.carePlans.byPatient(patientId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.insurance.byPatient(patientId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.documents.byPatient(patientId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.advanceDirectives.byPatient(patientId) });
   },
 };
 
@@ -0,0 +1,171 @@
+/**
+ * Query Cache Persister
+ *
+ * Saves successful queries to device storage so a cold start shows the last
+ * known data instead of refetching everything. Restored queries keep their
+ * original update time and refetch as usual once stale.
+ *
+ * SECURITY NOTES:
+ * - The dehydrated cache is encrypted with the device symmetric key
+ * - Auth queries and data already kept in secure storage are never persisted
+ * - Queries older than the max age are dropped on restore
+ * - The persisted cache is wiped on logout and by "Clear Cache"
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  dehydrate,
+  hydrate,
+  DehydratedState,
+  Query,
+  QueryClient,
+  QueryKey,
+} from '@tanstack/react-query';
+
+import { queryClient, queryKeys } from './queryClient';
+import { encryption, EncryptedPayload } from '../infrastructure/encryption/E2EEncryption';
+import { loadDeviceKey } from '../infrastructure/encryption/deviceKey';
+import { DerivedConfig } from '../utils/config';
+import { Logger } from '../utils/logger';
+
+// Storage key
+const STORAGE_KEY = 'query_cache';
+
+/**
+ * Oldest query data restored at launch
+ */
+export const QUERY_CACHE_MAX_AGE_MS = DerivedConfig.ENCRYPTED_DATA_TTL_MS;
+
+// Cache changes within this window are written once
+const PERSIST_THROTTLE_MS = 1000;
+
+// Query key prefixes that are never written to disk
+const NON_PERSISTED_QUERY_KEYS: QueryKey[] = [
+  ['auth'],
+  // Already kept in secure storage
+  queryKeys.advanceDirectives.emergency,
+  // Downloaded document content stays in memory only
+  queryKeys.documents.attachments,
+];
+
+let pendingPersist: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Whether a query is written to the persisted cache
+ */
+export const shouldPersistQuery = (query: Query): boolean =>
+  query.state.status === 'success' &&
+  !NON_PERSISTED_QUERY_KEYS.some(prefix =>
+    prefix.every((part, index) => query.queryKey[index] === part)
+  );
+
+/**
+ * Encrypt and save the current query cache
+ */
+export async function persistQueryCache(client: QueryClient = queryClient): Promise<void> {
+  const state = dehydrate(client, { shouldDehydrateQuery: shouldPersistQuery });
+  // Access tokens on source metadata are for runtime use only
+  const json = JSON.stringify(state, (key, value) => (key === 'accessToken' ? undefined : value));
+  const payload = encryption.encryptLocal(json, QUERY_CACHE_MAX_AGE_MS);
+
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(payload));
+}
+
+/**
+ * Restore the persisted query cache, dropping queries older than the max age
+ *
+ * Returns the number of queries restored.
+ */
+export async function restoreQueryCache(
+  client: QueryClient = queryClient,
+  now: () => number = Date.now
+): Promise<number> {
+  await loadDeviceKey();
+
+  const stored = await AsyncStorage.getItem(STORAGE_KEY);
+  if (!stored) {
+    return 0;
+  }
+
+  let decrypted: string | null = null;
+  try {
+    decrypted = encryption.decryptLocal(JSON.parse(stored) as EncryptedPayload);
+  } catch (error) {
+    // Corrupt payload; treated as unreadable below
+  }
+
+  if (!decrypted) {
+    Logger.warn('Persisted query cache expired or unreadable, wiping it');
+    await AsyncStorage.removeItem(STORAGE_KEY);
+    return 0;
+  }
+
+  const state = JSON.parse(decrypted) as DehydratedState;
+  const queries = state.queries.filter(
+    query => now() - query.state.dataUpdatedAt <= QUERY_CACHE_MAX_AGE_MS
+  );
+
+  hydrate(client, { ...state, queries });
+  return queries.length;
+}
+
+/**
+ * Wipe the persisted query cache and the in-memory cache
+ *
+ * Call this on logout or when the user clears cached data
+ */
+export async function clearPersistedQueryCache(client: QueryClient = queryClient): Promise<void> {
+  if (pendingPersist) {
+    clearTimeout(pendingPersist);
+    pendingPersist = null;
+  }
+
+  client.clear();
+  await AsyncStorage.removeItem(STORAGE_KEY);
+  Logger.info('Persisted query cache cleared');
+}
+
+/**
+ * Restore the persisted cache, then save it whenever queries change
+ *
+ * Returns a function that stops persisting.
+ */
+export function startQueryCachePersistence(client: QueryClient = queryClient): () => void {
+  let unsubscribe: (() => void) | null = null;
+  let stopped = false;
+
+  const schedulePersist = () => {
+    if (pendingPersist) {
+      return;
+    }
+    pendingPersist = setTimeout(() => {
+      pendingPersist = null;
+      persistQueryCache(client).catch(error => {
+        Logger.error('Failed to persist query cache', { error: String(error) });
+      });
+    }, PERSIST_THROTTLE_MS);
+  };
+
+  restoreQueryCache(client)
+    .then(count => Logger.info('Query cache restored', { queries: count }))
+    .catch(error => Logger.error('Failed to restore query cache', { error: String(error) }))
+    .finally(() => {
+      // Subscribe only after restoring so an empty cache never overwrites the saved one
+      if (!stopped) {
+        unsubscribe = client.getQueryCache().subscribe(event => {
+          if (event.type === 'updated' || event.type === 'removed') {
+            schedulePersist();
+          }
+        });
+      }
+    });
+
+  return () => {
+    stopped = true;
+    unsubscribe?.();
+    if (pendingPersist) {
+      clearTimeout(pendingPersist);
+      pendingPersist = null;
+    }
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * Shared Sync Scheduler
+ *
+ * The SyncScheduler for connected providers, reading providers, sync
+ * cursors and connectivity from the store.
+ */
+
+import { SyncScheduler } from '../data/sync/SyncScheduler';
+import { store } from '../store';
+import { selectConnectedProviders } from '../store/slices/providersSlice';
+import { selectConnectionType, selectIsOnline } from '../store/slices/uiSlice';
+import { syncProvider } from './providerSync';
+
+export const syncScheduler = new SyncScheduler({
+  getProviders: () => {
+    const state = store.getState();
+    // Providers still waiting for authorization have nothing to sync
+    return selectConnectedProviders(state)
+      .filter(provider => provider.patientId)
+      .map(provider => ({
+        provider,
+        lastSync: state.records.recordsByProvider[provider.id]?.lastSync ?? null,
+      }));
+  },
+  sync: syncProvider,
+  getConnection: () => {
+    const state = store.getState();
+    return { isOnline: selectIsOnline(state), connectionType: selectConnectionType(state) };
+  },
+});
+
+export default syncScheduler;
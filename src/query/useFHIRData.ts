@@ -6,37 +6,74 @@
  * - Background refetching
  * - Optimistic updates
  * - Error handling
+ *
+ * Every hook reads through the shared FHIRClientRepository, so results are
+ * validated and carry SourceMetadata for the provider they came from.
  */
 
-import { useQuery } from '@tanstack/react-query';
-import { queryKeys } from './queryClient';
+import { useEffect } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { queryClient, queryKeys } from './queryClient';
 import { Patient } from '../domain/entities/Patient';
 import { Observation } from '../domain/entities/Observation';
 import { DiagnosticReport } from '../domain/entities/DiagnosticReport';
 import { Encounter } from '../domain/entities/Encounter';
 import { MedicationRequest } from '../domain/entities/MedicationRequest';
+import { Condition } from '../domain/entities/Condition';
+import { AllergyIntolerance } from '../domain/entities/AllergyIntolerance';
+import { Immunization } from '../domain/entities/Immunization';
+import { ImmunizationRecommendation } from '../domain/entities/ImmunizationRecommendation';
+import { Procedure } from '../domain/entities/Procedure';
+import { Appointment } from '../domain/entities/Appointment';
+import { Schedule } from '../domain/entities/Schedule';
+import { Slot } from '../domain/entities/Slot';
+import { CarePlan } from '../domain/entities/CarePlan';
+import { Goal } from '../domain/entities/Goal';
+import { CareTeam } from '../domain/entities/CareTeam';
+import { Coverage } from '../domain/entities/Coverage';
+import { ExplanationOfBenefit } from '../domain/entities/ExplanationOfBenefit';
+import { DocumentReference } from '../domain/entities/DocumentReference';
+import { Consent } from '../domain/entities/Consent';
+import {
+  ADVANCE_DIRECTIVE_CONSENT_CATEGORY,
+  ADVANCE_DIRECTIVE_DOCUMENT_TYPES,
+  AdvanceDirective,
+  AdvanceDirectiveHelpers,
+  EmergencyDirective,
+} from '../domain/entities/AdvanceDirective';
+import { TypeRestfulInteraction } from '../domain/entities/CapabilityStatement';
+import { ProviderHelpers } from '../domain/entities/Provider';
+import { FHIRResourceWithSource, ResolvedReferences } from '../domain/entities/FHIRTypes';
 import { useAppSelector } from '../store';
-import { selectTokens } from '../store/slices/authSlice';
-
-// Helper to make authenticated FHIR requests
-const fhirFetch = async <T>(url: string, accessToken: string): Promise<T> => {
-  const response = await fetch(url, {
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      Accept: 'application/fhir+json',
-    },
-  });
-
-  if (!response.ok) {
-    throw new Error(`FHIR request failed: ${response.status}`);
-  }
+import { selectProviderById } from '../store/slices/providersSlice';
+import { FHIRBinaryContent } from '../data/fhir/FHIRClient';
+import { OutboxSubmitStatus } from '../data/fhir/WriteOutbox';
+import { searchFor } from '../data/fhir/FHIRSearchBuilder';
+import {
+  getWebSocketService,
+  WSEventPayload,
+  WSMessage,
+  WSMessageType,
+} from '../data/websocket/WebSocketService';
+import { secureStorage } from '../infrastructure/storage/SecureStorage';
+import { fhirRepository } from './fhirRepository';
+import { writeOutbox } from './writeOutbox';
 
-  return response.json();
+// Whether the provider's CapabilityStatement allows searching a resource type.
+// Unknown providers and capabilities are treated as supported.
+const useSupportsSearch = (providerId: string, resourceType: string): boolean => {
+  const provider = useAppSelector(state => selectProviderById(state, providerId));
+  return !provider || ProviderHelpers.supportsSearch(provider, resourceType);
 };
 
-// Helper to extract resources from Bundle
-const extractFromBundle = <T>(bundle: { entry?: Array<{ resource: T }> }): T[] => {
-  return bundle.entry?.map(e => e.resource) || [];
+// Whether the provider's CapabilityStatement allows an interaction on a resource type.
+const useSupportsInteraction = (
+  providerId: string,
+  resourceType: string,
+  interaction: TypeRestfulInteraction
+): boolean => {
+  const provider = useAppSelector(state => selectProviderById(state, providerId));
+  return !provider || ProviderHelpers.supportsInteraction(provider, resourceType, interaction);
 };
 
 // ============================================================================
@@ -45,22 +82,17 @@ const extractFromBundle = <T>(bundle: { entry?: Array<{ resource: T }> }): T[] =
 
 interface UsePatientOptions {
   patientId: string;
-  providerBaseUrl: string;
+  providerId: string;
   enabled?: boolean;
 }
 
-export const usePatient = ({ patientId, providerBaseUrl, enabled = true }: UsePatientOptions) => {
-  const tokens = useAppSelector(selectTokens);
-
+export const usePatient = ({ patientId, providerId, enabled = true }: UsePatientOptions) => {
   return useQuery({
     queryKey: queryKeys.patient.detail(patientId),
-    queryFn: async (): Promise<Patient> => {
-      if (!tokens?.accessToken) {
-        throw new Error('No access token available');
-      }
-      return fhirFetch<Patient>(`${providerBaseUrl}/Patient/${patientId}`, tokens.accessToken);
+    queryFn: async (): Promise<FHIRResourceWithSource<Patient>> => {
+      return fhirRepository.read<Patient>('Patient', patientId, providerId);
     },
-    enabled: enabled && !!tokens?.accessToken && !!patientId,
+    enabled: enabled && !!providerId && !!patientId,
     staleTime: 10 * 60 * 1000, // 10 minutes - patient data doesn't change often
   });
 };
@@ -71,7 +103,7 @@ export const usePatient = ({ patientId, providerBaseUrl, enabled = true }: UsePa
 
 interface UseObservationsOptions {
   patientId: string;
-  providerBaseUrl: string;
+  providerId: string;
   category?: string;
   code?: string;
   dateFrom?: string;
@@ -82,7 +114,7 @@ interface UseObservationsOptions {
 
 export const useObservations = ({
   patientId,
-  providerBaseUrl,
+  providerId,
   category,
   code,
   dateFrom,
@@ -90,69 +122,60 @@ export const useObservations = ({
   count = 20,
   enabled = true,
 }: UseObservationsOptions) => {
-  const tokens = useAppSelector(selectTokens);
+  const isSupported = useSupportsSearch(providerId, 'Observation');
 
   return useQuery({
-    queryKey: queryKeys.observations.list({ patientId, category, code, dateFrom, dateTo }),
-    queryFn: async (): Promise<Observation[]> => {
-      if (!tokens?.accessToken) {
-        throw new Error('No access token available');
-      }
+    queryKey: queryKeys.observations.list({
+      providerId,
+      patientId,
+      category,
+      code,
+      dateFrom,
+      dateTo,
+    }),
+    queryFn: async (): Promise<FHIRResourceWithSource<Observation>[]> => {
+      const params = searchFor('Observation')
+        .where('patient', patientId)
+        .where('category', category)
+        .where('code', code)
+        .dateRange('date', { from: dateFrom, to: dateTo })
+        .count(count)
+        .sort('-date');
 
-      const params = new URLSearchParams();
-      params.set('patient', patientId);
-      if (category) params.set('category', category);
-      if (code) params.set('code', code);
-      if (dateFrom) params.set('date', `ge${dateFrom}`);
-      if (dateTo) params.set('date', `le${dateTo}`);
-      params.set('_count', String(count));
-      params.set('_sort', '-date');
-
-      const bundle = await fhirFetch<{ entry?: Array<{ resource: Observation }> }>(
-        `${providerBaseUrl}/Observation?${params.toString()}`,
-        tokens.accessToken
-      );
-
-      return extractFromBundle(bundle);
+      return fhirRepository.search<Observation>('Observation', params, providerId, {
+        maxRecords: count,
+      });
     },
-    enabled: enabled && !!tokens?.accessToken && !!patientId,
+    enabled: enabled && isSupported && !!providerId && !!patientId,
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
 };
 
-export const useVitals = (patientId: string, providerBaseUrl: string, enabled = true) => {
+export const useVitals = (patientId: string, providerId: string, enabled = true) => {
   return useObservations({
     patientId,
-    providerBaseUrl,
+    providerId,
     category: 'vital-signs',
     enabled,
   });
 };
 
-export const useLabResults = (patientId: string, providerBaseUrl: string, enabled = true) => {
+export const useLabResults = (patientId: string, providerId: string, enabled = true) => {
   return useObservations({
     patientId,
-    providerBaseUrl,
+    providerId,
     category: 'laboratory',
     enabled,
   });
 };
 
-export const useObservation = (observationId: string, providerBaseUrl: string, enabled = true) => {
-  const tokens = useAppSelector(selectTokens);
-
+export const useObservation = (observationId: string, providerId: string, enabled = true) => {
   return useQuery({
     queryKey: queryKeys.observations.detail(observationId),
-    queryFn: async (): Promise<Observation> => {
-      if (!tokens?.accessToken) {
-        throw new Error('No access token available');
-      }
-      return fhirFetch<Observation>(
-        `${providerBaseUrl}/Observation/${observationId}`,
-        tokens.accessToken
-      );
+    queryFn: async (): Promise<FHIRResourceWithSource<Observation>> => {
+      return fhirRepository.read<Observation>('Observation', observationId, providerId);
     },
-    enabled: enabled && !!tokens?.accessToken && !!observationId,
+    enabled: enabled && !!providerId && !!observationId,
   });
 };
 
@@ -162,7 +185,7 @@ export const useObservation = (observationId: string, providerBaseUrl: string, e
 
 interface UseDiagnosticReportsOptions {
   patientId: string;
-  providerBaseUrl: string;
+  providerId: string;
   category?: string;
   status?: string;
   dateFrom?: string;
@@ -173,7 +196,7 @@ interface UseDiagnosticReportsOptions {
 
 export const useDiagnosticReports = ({
   patientId,
-  providerBaseUrl,
+  providerId,
   category,
   status,
   dateFrom,
@@ -181,51 +204,42 @@ export const useDiagnosticReports = ({
   count = 20,
   enabled = true,
 }: UseDiagnosticReportsOptions) => {
-  const tokens = useAppSelector(selectTokens);
+  const isSupported = useSupportsSearch(providerId, 'DiagnosticReport');
 
   return useQuery({
-    queryKey: queryKeys.diagnosticReports.list({ patientId, category, status, dateFrom, dateTo }),
-    queryFn: async (): Promise<DiagnosticReport[]> => {
-      if (!tokens?.accessToken) {
-        throw new Error('No access token available');
-      }
+    queryKey: queryKeys.diagnosticReports.list({
+      providerId,
+      patientId,
+      category,
+      status,
+      dateFrom,
+      dateTo,
+    }),
+    queryFn: async (): Promise<FHIRResourceWithSource<DiagnosticReport>[]> => {
+      const params = searchFor('DiagnosticReport')
+        .where('patient', patientId)
+        .where('category', category)
+        .where('status', status)
+        .dateRange('date', { from: dateFrom, to: dateTo })
+        .count(count)
+        .sort('-date');
 
-      const params = new URLSearchParams();
-      params.set('patient', patientId);
-      if (category) params.set('category', category);
-      if (status) params.set('status', status);
-      if (dateFrom) params.set('date', `ge${dateFrom}`);
-      if (dateTo) params.set('date', `le${dateTo}`);
-      params.set('_count', String(count));
-      params.set('_sort', '-date');
-
-      const bundle = await fhirFetch<{ entry?: Array<{ resource: DiagnosticReport }> }>(
-        `${providerBaseUrl}/DiagnosticReport?${params.toString()}`,
-        tokens.accessToken
-      );
-
-      return extractFromBundle(bundle);
+      return fhirRepository.search<DiagnosticReport>('DiagnosticReport', params, providerId, {
+        maxRecords: count,
+      });
     },
-    enabled: enabled && !!tokens?.accessToken && !!patientId,
+    enabled: enabled && isSupported && !!providerId && !!patientId,
     staleTime: 5 * 60 * 1000,
   });
 };
 
-export const useDiagnosticReport = (reportId: string, providerBaseUrl: string, enabled = true) => {
-  const tokens = useAppSelector(selectTokens);
-
+export const useDiagnosticReport = (reportId: string, providerId: string, enabled = true) => {
   return useQuery({
     queryKey: queryKeys.diagnosticReports.detail(reportId),
-    queryFn: async (): Promise<DiagnosticReport> => {
-      if (!tokens?.accessToken) {
-        throw new Error('No access token available');
-      }
-      return fhirFetch<DiagnosticReport>(
-        `${providerBaseUrl}/DiagnosticReport/${reportId}`,
-        tokens.accessToken
-      );
+    queryFn: async (): Promise<FHIRResourceWithSource<DiagnosticReport>> => {
+      return fhirRepository.read<DiagnosticReport>('DiagnosticReport', reportId, providerId);
     },
-    enabled: enabled && !!tokens?.accessToken && !!reportId,
+    enabled: enabled && !!providerId && !!reportId,
   });
 };
 
@@ -235,7 +249,7 @@ export const useDiagnosticReport = (reportId: string, providerBaseUrl: string, e
 
 interface UseEncountersOptions {
   patientId: string;
-  providerBaseUrl: string;
+  providerId: string;
   status?: string;
   type?: string;
   dateFrom?: string;
@@ -246,7 +260,7 @@ interface UseEncountersOptions {
 
 export const useEncounters = ({
   patientId,
-  providerBaseUrl,
+  providerId,
   status,
   type,
   dateFrom,
@@ -254,51 +268,35 @@ export const useEncounters = ({
   count = 20,
   enabled = true,
 }: UseEncountersOptions) => {
-  const tokens = useAppSelector(selectTokens);
+  const isSupported = useSupportsSearch(providerId, 'Encounter');
 
   return useQuery({
-    queryKey: queryKeys.encounters.list({ patientId, status, type, dateFrom, dateTo }),
-    queryFn: async (): Promise<Encounter[]> => {
-      if (!tokens?.accessToken) {
-        throw new Error('No access token available');
-      }
-
-      const params = new URLSearchParams();
-      params.set('patient', patientId);
-      if (status) params.set('status', status);
-      if (type) params.set('type', type);
-      if (dateFrom) params.set('date', `ge${dateFrom}`);
-      if (dateTo) params.set('date', `le${dateTo}`);
-      params.set('_count', String(count));
-      params.set('_sort', '-date');
-
-      const bundle = await fhirFetch<{ entry?: Array<{ resource: Encounter }> }>(
-        `${providerBaseUrl}/Encounter?${params.toString()}`,
-        tokens.accessToken
-      );
+    queryKey: queryKeys.encounters.list({ providerId, patientId, status, type, dateFrom, dateTo }),
+    queryFn: async (): Promise<FHIRResourceWithSource<Encounter>[]> => {
+      const params = searchFor('Encounter')
+        .where('patient', patientId)
+        .where('status', status)
+        .where('type', type)
+        .dateRange('date', { from: dateFrom, to: dateTo })
+        .count(count)
+        .sort('-date');
 
-      return extractFromBundle(bundle);
+      return fhirRepository.search<Encounter>('Encounter', params, providerId, {
+        maxRecords: count,
+      });
     },
-    enabled: enabled && !!tokens?.accessToken && !!patientId,
+    enabled: enabled && isSupported && !!providerId && !!patientId,
     staleTime: 5 * 60 * 1000,
   });
 };
 
-export const useEncounter = (encounterId: string, providerBaseUrl: string, enabled = true) => {
-  const tokens = useAppSelector(selectTokens);
-
+export const useEncounter = (encounterId: string, providerId: string, enabled = true) => {
   return useQuery({
     queryKey: queryKeys.encounters.detail(encounterId),
-    queryFn: async (): Promise<Encounter> => {
-      if (!tokens?.accessToken) {
-        throw new Error('No access token available');
-      }
-      return fhirFetch<Encounter>(
-        `${providerBaseUrl}/Encounter/${encounterId}`,
-        tokens.accessToken
-      );
+    queryFn: async (): Promise<FHIRResourceWithSource<Encounter>> => {
+      return fhirRepository.read<Encounter>('Encounter', encounterId, providerId);
     },
-    enabled: enabled && !!tokens?.accessToken && !!encounterId,
+    enabled: enabled && !!providerId && !!encounterId,
   });
 };
 
@@ -308,7 +306,7 @@ export const useEncounter = (encounterId: string, providerBaseUrl: string, enabl
 
 interface UseMedicationsOptions {
   patientId: string;
-  providerBaseUrl: string;
+  providerId: string;
   status?: string;
   count?: number;
   enabled?: boolean;
@@ -316,116 +314,914 @@ interface UseMedicationsOptions {
 
 export const useMedications = ({
   patientId,
-  providerBaseUrl,
+  providerId,
   status,
   count = 20,
   enabled = true,
 }: UseMedicationsOptions) => {
-  const tokens = useAppSelector(selectTokens);
+  const isSupported = useSupportsSearch(providerId, 'MedicationRequest');
 
   return useQuery({
-    queryKey: queryKeys.medications.list({ patientId, status }),
-    queryFn: async (): Promise<MedicationRequest[]> => {
-      if (!tokens?.accessToken) {
-        throw new Error('No access token available');
-      }
-
-      const params = new URLSearchParams();
-      params.set('patient', patientId);
-      if (status) params.set('status', status);
-      params.set('_count', String(count));
-      params.set('_sort', '-authoredon');
+    queryKey: queryKeys.medications.list({ providerId, patientId, status }),
+    queryFn: async (): Promise<FHIRResourceWithSource<MedicationRequest>[]> => {
+      const params = searchFor('MedicationRequest')
+        .where('patient', patientId)
+        .where('status', status)
+        .count(count)
+        .sort('-authoredon');
 
-      const bundle = await fhirFetch<{ entry?: Array<{ resource: MedicationRequest }> }>(
-        `${providerBaseUrl}/MedicationRequest?${params.toString()}`,
-        tokens.accessToken
-      );
-
-      return extractFromBundle(bundle);
+      return fhirRepository.search<MedicationRequest>('MedicationRequest', params, providerId, {
+        maxRecords: count,
+      });
     },
-    enabled: enabled && !!tokens?.accessToken && !!patientId,
+    enabled: enabled && isSupported && !!providerId && !!patientId,
     staleTime: 5 * 60 * 1000,
   });
 };
 
-export const useActiveMedications = (
-  patientId: string,
-  providerBaseUrl: string,
-  enabled = true
-) => {
+export const useActiveMedications = (patientId: string, providerId: string, enabled = true) => {
   return useMedications({
     patientId,
-    providerBaseUrl,
+    providerId,
     status: 'active',
     enabled,
   });
 };
 
-export const useMedication = (medicationId: string, providerBaseUrl: string, enabled = true) => {
-  const tokens = useAppSelector(selectTokens);
-
+export const useMedication = (medicationId: string, providerId: string, enabled = true) => {
   return useQuery({
     queryKey: queryKeys.medications.detail(medicationId),
-    queryFn: async (): Promise<MedicationRequest> => {
-      if (!tokens?.accessToken) {
-        throw new Error('No access token available');
+    queryFn: async (): Promise<FHIRResourceWithSource<MedicationRequest>> => {
+      return fhirRepository.read<MedicationRequest>('MedicationRequest', medicationId, providerId);
+    },
+    enabled: enabled && !!providerId && !!medicationId,
+  });
+};
+
+// ============================================================================
+// Condition Hooks
+// ============================================================================
+
+interface UseConditionsOptions {
+  patientId: string;
+  providerId: string;
+  category?: string;
+  clinicalStatus?: string;
+  count?: number;
+  enabled?: boolean;
+}
+
+export const useConditions = ({
+  patientId,
+  providerId,
+  category,
+  clinicalStatus,
+  count = 100,
+  enabled = true,
+}: UseConditionsOptions) => {
+  const isSupported = useSupportsSearch(providerId, 'Condition');
+
+  return useQuery({
+    queryKey: queryKeys.conditions.list({ providerId, patientId, category, clinicalStatus }),
+    queryFn: async (): Promise<FHIRResourceWithSource<Condition>[]> => {
+      const params = searchFor('Condition')
+        .where('patient', patientId)
+        .where('category', category)
+        .where('clinical-status', clinicalStatus)
+        .count(count)
+        .sort('-recorded-date');
+
+      return fhirRepository.search<Condition>('Condition', params, providerId, {
+        maxRecords: count,
+      });
+    },
+    enabled: enabled && isSupported && !!providerId && !!patientId,
+    staleTime: 10 * 60 * 1000,
+  });
+};
+
+export const useCondition = (conditionId: string, providerId: string, enabled = true) => {
+  return useQuery({
+    queryKey: queryKeys.conditions.detail(conditionId),
+    queryFn: async (): Promise<FHIRResourceWithSource<Condition>> => {
+      return fhirRepository.read<Condition>('Condition', conditionId, providerId);
+    },
+    enabled: enabled && !!providerId && !!conditionId,
+  });
+};
+
+// ============================================================================
+// Allergy Hooks
+// ============================================================================
+
+interface UseAllergiesOptions {
+  patientId: string;
+  providerId: string;
+  clinicalStatus?: string;
+  criticality?: string;
+  count?: number;
+  enabled?: boolean;
+}
+
+export const useAllergies = ({
+  patientId,
+  providerId,
+  clinicalStatus,
+  criticality,
+  count = 100,
+  enabled = true,
+}: UseAllergiesOptions) => {
+  const isSupported = useSupportsSearch(providerId, 'AllergyIntolerance');
+
+  return useQuery({
+    queryKey: queryKeys.allergies.list({ providerId, patientId, clinicalStatus, criticality }),
+    queryFn: async (): Promise<FHIRResourceWithSource<AllergyIntolerance>[]> => {
+      const params = searchFor('AllergyIntolerance')
+        .where('patient', patientId)
+        .where('clinical-status', clinicalStatus)
+        .where('criticality', criticality)
+        .count(count);
+
+      return fhirRepository.search<AllergyIntolerance>('AllergyIntolerance', params, providerId, {
+        maxRecords: count,
+      });
+    },
+    enabled: enabled && isSupported && !!providerId && !!patientId,
+    staleTime: 10 * 60 * 1000,
+  });
+};
+
+// ============================================================================
+// Immunization Hooks
+// ============================================================================
+
+interface UseImmunizationsOptions {
+  patientId: string;
+  providerId: string;
+  count?: number;
+  enabled?: boolean;
+}
+
+export const useImmunizations = ({
+  patientId,
+  providerId,
+  count = 100,
+  enabled = true,
+}: UseImmunizationsOptions) => {
+  const isSupported = useSupportsSearch(providerId, 'Immunization');
+
+  return useQuery({
+    queryKey: queryKeys.immunizations.list({ providerId, patientId }),
+    queryFn: async (): Promise<FHIRResourceWithSource<Immunization>[]> => {
+      const params = searchFor('Immunization')
+        .where('patient', patientId)
+        .count(count)
+        .sort('-date');
+
+      return fhirRepository.search<Immunization>('Immunization', params, providerId, {
+        maxRecords: count,
+      });
+    },
+    enabled: enabled && isSupported && !!providerId && !!patientId,
+    staleTime: 30 * 60 * 1000,
+  });
+};
+
+/**
+ * Immunization forecasts. Only the latest recommendation is requested, since
+ * each one replaces the previous forecast.
+ */
+export const useImmunizationRecommendations = ({
+  patientId,
+  providerId,
+  enabled = true,
+}: UseImmunizationsOptions) => {
+  const isSupported = useSupportsSearch(providerId, 'ImmunizationRecommendation');
+
+  return useQuery({
+    queryKey: queryKeys.immunizations.recommendations({ providerId, patientId }),
+    queryFn: async (): Promise<FHIRResourceWithSource<ImmunizationRecommendation>[]> => {
+      const params = searchFor('ImmunizationRecommendation')
+        .where('patient', patientId)
+        .count(1)
+        .sort('-date');
+
+      return fhirRepository.search<ImmunizationRecommendation>(
+        'ImmunizationRecommendation',
+        params,
+        providerId,
+        { maxRecords: 1 }
+      );
+    },
+    enabled: enabled && isSupported && !!providerId && !!patientId,
+    staleTime: 30 * 60 * 1000,
+  });
+};
+
+// ============================================================================
+// Procedure Hooks
+// ============================================================================
+
+interface UseProceduresOptions {
+  patientId: string;
+  providerId: string;
+  status?: string;
+  count?: number;
+  enabled?: boolean;
+}
+
+export const useProcedures = ({
+  patientId,
+  providerId,
+  status,
+  count = 100,
+  enabled = true,
+}: UseProceduresOptions) => {
+  const isSupported = useSupportsSearch(providerId, 'Procedure');
+
+  return useQuery({
+    queryKey: queryKeys.procedures.list({ providerId, patientId, status }),
+    queryFn: async (): Promise<FHIRResourceWithSource<Procedure>[]> => {
+      const params = searchFor('Procedure')
+        .where('patient', patientId)
+        .where('status', status)
+        .count(count)
+        .sort('-date');
+
+      return fhirRepository.search<Procedure>('Procedure', params, providerId, {
+        maxRecords: count,
+      });
+    },
+    enabled: enabled && isSupported && !!providerId && !!patientId,
+    staleTime: 10 * 60 * 1000,
+  });
+};
+
+export const useEncounterProcedures = (encounterId: string, providerId: string, enabled = true) => {
+  const isSupported = useSupportsSearch(providerId, 'Procedure');
+
+  return useQuery({
+    queryKey: queryKeys.procedures.byEncounter(encounterId),
+    queryFn: async (): Promise<FHIRResourceWithSource<Procedure>[]> => {
+      const params = searchFor('Procedure')
+        .where('encounter', `Encounter/${encounterId}`)
+        .sort('-date');
+
+      return fhirRepository.search<Procedure>('Procedure', params, providerId);
+    },
+    enabled: enabled && isSupported && !!providerId && !!encounterId,
+  });
+};
+
+// ============================================================================
+// Care Plan Hooks
+// ============================================================================
+
+interface UseCarePlansOptions {
+  patientId: string;
+  providerId: string;
+  status?: string;
+  count?: number;
+  enabled?: boolean;
+}
+
+export const useCarePlans = ({
+  patientId,
+  providerId,
+  status,
+  count = 50,
+  enabled = true,
+}: UseCarePlansOptions) => {
+  const isSupported = useSupportsSearch(providerId, 'CarePlan');
+
+  return useQuery({
+    queryKey: queryKeys.carePlans.list({ providerId, patientId, status }),
+    queryFn: async (): Promise<FHIRResourceWithSource<CarePlan>[]> => {
+      const params = searchFor('CarePlan')
+        .where('patient', patientId)
+        .where('status', status)
+        .count(count)
+        .sort('-date');
+
+      return fhirRepository.search<CarePlan>('CarePlan', params, providerId, {
+        maxRecords: count,
+      });
+    },
+    enabled: enabled && isSupported && !!providerId && !!patientId,
+    staleTime: 10 * 60 * 1000,
+  });
+};
+
+export const useGoals = (patientId: string, providerId: string, enabled = true) => {
+  const isSupported = useSupportsSearch(providerId, 'Goal');
+
+  return useQuery({
+    queryKey: queryKeys.carePlans.goals({ providerId, patientId }),
+    queryFn: async (): Promise<FHIRResourceWithSource<Goal>[]> => {
+      const params = searchFor('Goal').where('patient', patientId).count(100);
+      return fhirRepository.search<Goal>('Goal', params, providerId);
+    },
+    enabled: enabled && isSupported && !!providerId && !!patientId,
+    staleTime: 10 * 60 * 1000,
+  });
+};
+
+export const useCareTeams = (patientId: string, providerId: string, enabled = true) => {
+  const isSupported = useSupportsSearch(providerId, 'CareTeam');
+
+  return useQuery({
+    queryKey: queryKeys.carePlans.careTeams({ providerId, patientId }),
+    queryFn: async (): Promise<FHIRResourceWithSource<CareTeam>[]> => {
+      const params = searchFor('CareTeam').where('patient', patientId);
+      return fhirRepository.search<CareTeam>('CareTeam', params, providerId);
+    },
+    enabled: enabled && isSupported && !!providerId && !!patientId,
+    staleTime: 30 * 60 * 1000,
+  });
+};
+
+// ============================================================================
+// Insurance Hooks
+// ============================================================================
+
+export const useCoverage = (patientId: string, providerId: string, enabled = true) => {
+  const isSupported = useSupportsSearch(providerId, 'Coverage');
+
+  return useQuery({
+    queryKey: queryKeys.insurance.coverage({ providerId, patientId }),
+    queryFn: async (): Promise<FHIRResourceWithSource<Coverage>[]> => {
+      const params = searchFor('Coverage').where('patient', patientId);
+      return fhirRepository.search<Coverage>('Coverage', params, providerId);
+    },
+    enabled: enabled && isSupported && !!providerId && !!patientId,
+    staleTime: 60 * 60 * 1000,
+  });
+};
+
+interface UseClaimsOptions {
+  patientId: string;
+  providerId: string;
+  type?: string;
+  count?: number;
+  enabled?: boolean;
+}
+
+export const useClaims = ({
+  patientId,
+  providerId,
+  type,
+  count = 50,
+  enabled = true,
+}: UseClaimsOptions) => {
+  const isSupported = useSupportsSearch(providerId, 'ExplanationOfBenefit');
+
+  return useQuery({
+    queryKey: queryKeys.insurance.claims({ providerId, patientId, type }),
+    queryFn: async (): Promise<FHIRResourceWithSource<ExplanationOfBenefit>[]> => {
+      const params = searchFor('ExplanationOfBenefit')
+        .where('patient', patientId)
+        .where('type', type)
+        .count(count);
+
+      return fhirRepository.search<ExplanationOfBenefit>(
+        'ExplanationOfBenefit',
+        params,
+        providerId,
+        {
+          maxRecords: count,
+        }
+      );
+    },
+    enabled: enabled && isSupported && !!providerId && !!patientId,
+    staleTime: 30 * 60 * 1000,
+  });
+};
+
+// ============================================================================
+// Document Hooks
+// ============================================================================
+
+interface UseDocumentReferencesOptions {
+  patientId: string;
+  providerId: string;
+  category?: string;
+  count?: number;
+  enabled?: boolean;
+}
+
+export const useDocumentReferences = ({
+  patientId,
+  providerId,
+  category,
+  count = 50,
+  enabled = true,
+}: UseDocumentReferencesOptions) => {
+  const isSupported = useSupportsSearch(providerId, 'DocumentReference');
+
+  return useQuery({
+    queryKey: queryKeys.documents.list({ providerId, patientId, category }),
+    queryFn: async (): Promise<FHIRResourceWithSource<DocumentReference>[]> => {
+      const params = searchFor('DocumentReference')
+        .where('patient', patientId)
+        .where('category', category)
+        .count(count)
+        .sort('-date');
+
+      return fhirRepository.search<DocumentReference>('DocumentReference', params, providerId, {
+        maxRecords: count,
+      });
+    },
+    enabled: enabled && isSupported && !!providerId && !!patientId,
+    staleTime: 10 * 60 * 1000,
+  });
+};
+
+/**
+ * An attachment on a document or a Consent-based advance directive
+ */
+export interface AttachmentLocation {
+  providerId: string;
+  resourceType: AdvanceDirective['resourceType'];
+  resourceId: string;
+  /** Index into the resource's downloadable attachments */
+  attachmentIndex: number;
+}
+
+// Document content is dropped soon after its viewer closes
+const ATTACHMENT_CONTENT_GC_TIME_MS = 60 * 1000;
+
+/**
+ * Download an attachment's content (inline data or an authenticated Binary read).
+ *
+ * Never written to the persisted cache and only kept in memory briefly, so
+ * the viewers can share one download.
+ */
+export const useAttachmentContent = (location: AttachmentLocation | undefined) => {
+  return useQuery({
+    queryKey: queryKeys.documents.attachment(
+      location?.providerId ?? '',
+      `${location?.resourceType}/${location?.resourceId}`,
+      location?.attachmentIndex ?? 0
+    ),
+    queryFn: async (): Promise<FHIRBinaryContent> => {
+      const { providerId, resourceType, resourceId, attachmentIndex } = location!;
+      const client = await fhirRepository.getClient(providerId);
+      const { resource } = await client.read<AdvanceDirective>(resourceType, resourceId);
+      const attachment = AdvanceDirectiveHelpers.getAttachments(resource)[attachmentIndex];
+      if (!attachment) {
+        throw new Error(`Attachment not found: ${resourceType}/${resourceId}#${attachmentIndex}`);
       }
-      return fhirFetch<MedicationRequest>(
-        `${providerBaseUrl}/MedicationRequest/${medicationId}`,
-        tokens.accessToken
+      return client.getAttachmentContent(attachment);
+    },
+    enabled: !!location,
+    staleTime: Infinity,
+    gcTime: ATTACHMENT_CONTENT_GC_TIME_MS,
+  });
+};
+
+// ============================================================================
+// Advance Directive Hooks
+// ============================================================================
+
+/**
+ * Advance directives recorded as Consents (category `acd`) or as
+ * DocumentReferences with an advance-directive type, in one list.
+ */
+export const useAdvanceDirectives = (patientId: string, providerId: string, enabled = true) => {
+  const supportsConsents = useSupportsSearch(providerId, 'Consent');
+  const supportsDocuments = useSupportsSearch(providerId, 'DocumentReference');
+
+  return useQuery({
+    queryKey: queryKeys.advanceDirectives.list({ providerId, patientId }),
+    queryFn: async (): Promise<FHIRResourceWithSource<AdvanceDirective>[]> => {
+      const [consents, documents] = await Promise.all([
+        supportsConsents
+          ? fhirRepository.search<Consent>(
+              'Consent',
+              searchFor('Consent')
+                .where('patient', patientId)
+                .token('category', ADVANCE_DIRECTIVE_CONSENT_CATEGORY),
+              providerId
+            )
+          : [],
+        supportsDocuments
+          ? fhirRepository.search<DocumentReference>(
+              'DocumentReference',
+              searchFor('DocumentReference')
+                .where('patient', patientId)
+                .token(
+                  'type',
+                  Object.values(ADVANCE_DIRECTIVE_DOCUMENT_TYPES).map(code => ({
+                    system: 'http://loinc.org',
+                    code,
+                  }))
+                ),
+              providerId
+            )
+          : [],
+      ]);
+
+      // Servers that ignore the category or type filter return everything
+      return [
+        ...consents.filter(r => AdvanceDirectiveHelpers.isAdvanceDirectiveConsent(r.resource)),
+        ...documents.filter(r => AdvanceDirectiveHelpers.isAdvanceDirectiveDocument(r.resource)),
+      ];
+    },
+    enabled: enabled && (supportsConsents || supportsDocuments) && !!providerId && !!patientId,
+    staleTime: 60 * 60 * 1000,
+  });
+};
+
+/**
+ * The advance directive flagged for the emergency view. Kept on the device
+ * so it is available without reaching the provider.
+ */
+export const useEmergencyDirective = () => {
+  return useQuery({
+    queryKey: queryKeys.advanceDirectives.emergency,
+    queryFn: async (): Promise<EmergencyDirective | null> => secureStorage.getEmergencyDirective(),
+    staleTime: Infinity,
+  });
+};
+
+/**
+ * Flag a directive for the emergency view, or clear the flag with null
+ */
+export const useFlagEmergencyDirective = () => {
+  return useMutation({
+    mutationFn: async (
+      directive: EmergencyDirective | null
+    ): Promise<EmergencyDirective | null> => {
+      const saved = directive
+        ? await secureStorage.storeEmergencyDirective(directive)
+        : await secureStorage.clearEmergencyDirective();
+      if (!saved) {
+        throw new Error('Unable to save the emergency directive');
+      }
+      return directive;
+    },
+    onSuccess: directive => {
+      queryClient.setQueryData(queryKeys.advanceDirectives.emergency, directive);
+    },
+  });
+};
+
+// ============================================================================
+// Directory Hooks
+// ============================================================================
+
+/**
+ * Resolve Practitioner, PractitionerRole, Organization and Location references.
+ *
+ * The client keeps directory resources in a per-provider cache, so only
+ * references that have not been read before go to the server.
+ */
+export const useDirectory = (providerId: string, references: string[], enabled = true) => {
+  const sorted = Array.from(new Set(references)).sort();
+
+  return useQuery({
+    queryKey: queryKeys.directory.entries(providerId, sorted),
+    queryFn: async (): Promise<ResolvedReferences> => {
+      const client = await fhirRepository.getClient(providerId);
+      return client.resolveDirectoryReferences(sorted);
+    },
+    enabled: enabled && !!providerId && sorted.length > 0,
+    staleTime: 24 * 60 * 60 * 1000,
+  });
+};
+
+// ============================================================================
+// Write Hooks
+// ============================================================================
+
+/**
+ * Save changes to the patient's demographics.
+ *
+ * The update goes through the write outbox: made offline, it is sent once
+ * connectivity returns. Resolves with 'sent' or the status it is queued with.
+ */
+export const useUpdatePatient = (providerId: string) => {
+  return useMutation({
+    mutationFn: async (patient: Patient): Promise<OutboxSubmitStatus> =>
+      writeOutbox.submit(
+        providerId,
+        { kind: 'update', resource: patient },
+        'Update personal information'
+      ),
+  });
+};
+
+/**
+ * Change the status of a consent (e.g. revoke sharing), through the outbox
+ */
+export const useUpdateConsentStatus = (providerId: string) => {
+  return useMutation({
+    mutationFn: async ({
+      consent,
+      status,
+    }: {
+      consent: Consent;
+      status: Consent['status'];
+    }): Promise<OutboxSubmitStatus> => {
+      const updated: Consent = { ...consent, status };
+      return writeOutbox.submit(
+        providerId,
+        { kind: 'update', resource: updated },
+        `Change consent status to ${status}`
       );
     },
-    enabled: enabled && !!tokens?.accessToken && !!medicationId,
   });
 };
 
+// ============================================================================
+// Appointment Hooks
+// ============================================================================
+
+const APPOINTMENT_EVENTS = [
+  WSMessageType.APPOINTMENT_REMINDER,
+  WSMessageType.APPOINTMENT_CONFIRMED,
+  WSMessageType.APPOINTMENT_CANCELLED,
+  WSMessageType.APPOINTMENT_RESCHEDULED,
+];
+
+// Replace an appointment in the provider's cached lists.
+// Returns false when no cached list contained it.
+const updateCachedAppointment = (providerId: string, appointment: Appointment): boolean => {
+  let found = false;
+
+  queryClient.setQueriesData<FHIRResourceWithSource<Appointment>[]>(
+    {
+      queryKey: queryKeys.appointments.all,
+      predicate: query =>
+        query.queryKey[1] === 'list' &&
+        (query.queryKey[2] as { providerId?: string } | undefined)?.providerId === providerId,
+    },
+    results =>
+      results?.map(result => {
+        if (result.resource.id !== appointment.id) {
+          return result;
+        }
+        found = true;
+        return { ...result, resource: appointment };
+      })
+  );
+
+  return found;
+};
+
+interface UseAppointmentsOptions {
+  patientId: string;
+  providerId: string;
+  status?: string;
+  count?: number;
+  enabled?: boolean;
+}
+
+export const useAppointments = ({
+  patientId,
+  providerId,
+  status,
+  count = 100,
+  enabled = true,
+}: UseAppointmentsOptions) => {
+  const isSupported = useSupportsSearch(providerId, 'Appointment');
+
+  return useQuery({
+    queryKey: queryKeys.appointments.list({ providerId, patientId, status }),
+    queryFn: async (): Promise<FHIRResourceWithSource<Appointment>[]> => {
+      // Upcoming soonest first and past most recent first, so a long visit
+      // history cannot push upcoming appointments past the record limit
+      const now = new Date();
+      const searchAppointments = (prefix: 'ge' | 'lt', sort: string) =>
+        fhirRepository.search<Appointment>(
+          'Appointment',
+          searchFor('Appointment')
+            .where('patient', patientId)
+            .where('status', status)
+            .date('date', prefix, now)
+            .count(count)
+            .sort(sort),
+          providerId,
+          { maxRecords: count }
+        );
+
+      const [upcoming, past] = await Promise.all([
+        searchAppointments('ge', 'date'),
+        searchAppointments('lt', '-date'),
+      ]);
+      return [...upcoming, ...past];
+    },
+    enabled: enabled && isSupported && !!providerId && !!patientId,
+    staleTime: 2 * 60 * 1000,
+  });
+};
+
+export const useSchedules = (providerId: string, enabled = true) => {
+  const isSupported = useSupportsSearch(providerId, 'Schedule');
+
+  return useQuery({
+    queryKey: queryKeys.appointments.schedules(providerId),
+    queryFn: async (): Promise<FHIRResourceWithSource<Schedule>[]> => {
+      const params = searchFor('Schedule').where('active', 'true');
+      return fhirRepository.search<Schedule>('Schedule', params, providerId);
+    },
+    enabled: enabled && isSupported && !!providerId,
+    staleTime: 30 * 60 * 1000,
+  });
+};
+
+interface UseAvailableSlotsOptions {
+  scheduleId: string;
+  providerId: string;
+  dateFrom: string;
+  dateTo: string;
+  enabled?: boolean;
+}
+
+export const useAvailableSlots = ({
+  scheduleId,
+  providerId,
+  dateFrom,
+  dateTo,
+  enabled = true,
+}: UseAvailableSlotsOptions) => {
+  const isSupported = useSupportsSearch(providerId, 'Slot');
+
+  return useQuery({
+    queryKey: queryKeys.appointments.slots({ providerId, scheduleId, dateFrom, dateTo }),
+    queryFn: async (): Promise<FHIRResourceWithSource<Slot>[]> => {
+      const params = searchFor('Slot')
+        .where('schedule', `Schedule/${scheduleId}`)
+        .where('status', 'free')
+        .dateRange('start', { from: dateFrom, to: dateTo })
+        .sort('start');
+
+      return fhirRepository.search<Slot>('Slot', params, providerId);
+    },
+    enabled: enabled && isSupported && !!providerId && !!scheduleId,
+    staleTime: 60 * 1000,
+  });
+};
+
+/**
+ * Whether the provider lets patients book and cancel appointments
+ */
+export const useAppointmentCapabilities = (providerId: string) => {
+  const canSearchSlots = useSupportsSearch(providerId, 'Slot');
+  const canCreate = useSupportsInteraction(providerId, 'Appointment', 'create');
+  const canUpdate = useSupportsInteraction(providerId, 'Appointment', 'update');
+
+  return {
+    canBook: !!providerId && canSearchSlots && canCreate,
+    canCancel: !!providerId && canUpdate,
+  };
+};
+
+/**
+ * Request an appointment, through the outbox
+ *
+ * The create is conditional on the outbox's identifier, so resending it
+ * after a lost response does not book the slot twice.
+ */
+export const useBookAppointment = (providerId: string) => {
+  return useMutation({
+    mutationFn: async (appointment: Appointment): Promise<OutboxSubmitStatus> =>
+      writeOutbox.submit(providerId, { kind: 'create', resource: appointment }, 'Book appointment'),
+  });
+};
+
+/**
+ * Cancel an appointment, through the outbox
+ *
+ * The update is based on the version shown, so a change made by the
+ * provider in the meantime becomes a conflict instead of being overwritten.
+ */
+export const useCancelAppointment = (providerId: string) => {
+  return useMutation({
+    mutationFn: async ({
+      appointment,
+      reason,
+    }: {
+      appointment: Appointment;
+      reason?: string;
+    }): Promise<OutboxSubmitStatus> => {
+      const cancelled: Appointment = {
+        ...appointment,
+        status: 'cancelled',
+        cancelationReason: reason ? { text: reason } : appointment.cancelationReason,
+      };
+      const status = await writeOutbox.submit(
+        providerId,
+        { kind: 'update', resource: cancelled },
+        'Cancel appointment'
+      );
+
+      // Show it as cancelled while it waits in the outbox
+      if (status === 'pending') {
+        updateCachedAppointment(providerId, cancelled);
+      }
+      return status;
+    },
+  });
+};
+
+/**
+ * Keep the appointment lists current from WebSocket appointment events.
+ *
+ * Events carrying the appointment update the cached lists in place;
+ * anything else (e.g. a newly booked appointment) refetches them.
+ */
+export const useAppointmentUpdates = (patientId: string, providerId: string, enabled = true) => {
+  useEffect(() => {
+    if (!enabled || !patientId || !providerId) {
+      return;
+    }
+
+    const webSocket = getWebSocketService();
+    webSocket.subscribe('Appointment', patientId);
+
+    const handleEvent = (message: WSMessage<WSEventPayload>) => {
+      if (message.providerId && message.providerId !== providerId) {
+        return;
+      }
+
+      const resource = message.payload?.resource as Appointment | undefined;
+      const isUpdated =
+        resource?.resourceType === 'Appointment' &&
+        message.payload?.action !== 'deleted' &&
+        updateCachedAppointment(providerId, resource);
+
+      if (!isUpdated) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.appointments.all });
+      }
+    };
+
+    const unsubscribers = APPOINTMENT_EVENTS.map(type =>
+      webSocket.onMessage<WSEventPayload>(type, handleEvent)
+    );
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      webSocket.unsubscribe('Appointment', patientId);
+    };
+  }, [patientId, providerId, enabled]);
+};
+
 // ============================================================================
 // Combined Dashboard Hook
 // ============================================================================
 
 interface UseDashboardDataOptions {
   patientId: string;
-  providerBaseUrl: string;
+  providerId: string;
   enabled?: boolean;
 }
 
 export const useDashboardData = ({
   patientId,
-  providerBaseUrl,
+  providerId,
   enabled = true,
 }: UseDashboardDataOptions) => {
-  const patient = usePatient({ patientId, providerBaseUrl, enabled });
-  const vitals = useVitals(patientId, providerBaseUrl, enabled);
-  const medications = useActiveMedications(patientId, providerBaseUrl, enabled);
+  const patient = usePatient({ patientId, providerId, enabled });
+  const vitals = useVitals(patientId, providerId, enabled);
+  const medications = useActiveMedications(patientId, providerId, enabled);
   const encounters = useEncounters({
     patientId,
-    providerBaseUrl,
+    providerId,
     count: 5,
     enabled,
   });
   const reports = useDiagnosticReports({
     patientId,
-    providerBaseUrl,
+    providerId,
     count: 5,
     enabled,
   });
+  const allergies = useAllergies({ patientId, providerId, enabled });
 
   const isLoading =
     patient.isLoading ||
     vitals.isLoading ||
     medications.isLoading ||
     encounters.isLoading ||
-    reports.isLoading;
+    reports.isLoading ||
+    allergies.isLoading;
 
   const isError =
     patient.isError ||
     vitals.isError ||
     medications.isError ||
     encounters.isError ||
-    reports.isError;
+    reports.isError ||
+    allergies.isError;
 
   const error =
-    patient.error || vitals.error || medications.error || encounters.error || reports.error;
+    patient.error ||
+    vitals.error ||
+    medications.error ||
+    encounters.error ||
+    reports.error ||
+    allergies.error;
 
   const refetchAll = async () => {
     await Promise.all([
@@ -434,6 +1230,7 @@ export const useDashboardData = ({
       medications.refetch(),
       encounters.refetch(),
       reports.refetch(),
+      allergies.refetch(),
     ]);
   };
 
@@ -443,6 +1240,7 @@ export const useDashboardData = ({
     medications: medications.data || [],
     encounters: encounters.data || [],
     reports: reports.data || [],
+    allergies: allergies.data || [],
     isLoading,
     isError,
     error,
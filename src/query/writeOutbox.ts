@@ -0,0 +1,42 @@
+/**
+ * Shared Write Outbox
+ *
+ * The WriteOutbox used by mutation hooks. Writes go through the shared
+ * FHIR repository, and the server's copy of each sent write refreshes the
+ * queries showing that resource type.
+ */
+
+import { QueryKey } from '@tanstack/react-query';
+
+import { WriteOutbox } from '../data/fhir/WriteOutbox';
+import { Patient } from '../domain/entities/Patient';
+import { store } from '../store';
+import { selectCurrentPatient, updatePatient } from '../store/slices/authSlice';
+import { fhirRepository } from './fhirRepository';
+import { queryClient, queryKeys } from './queryClient';
+
+// Queries refreshed after a write of each resource type
+const QUERY_KEYS_BY_RESOURCE_TYPE: Record<string, QueryKey[]> = {
+  Patient: [queryKeys.patient.all],
+  // Advance directives can be recorded as Consents
+  Consent: [queryKeys.consents.all, queryKeys.advanceDirectives.all],
+  Appointment: [queryKeys.appointments.all],
+};
+
+export const writeOutbox = new WriteOutbox({
+  getClient: providerId => fhirRepository.getClient(providerId),
+  onSent: (_item, { resource }) => {
+    if (
+      resource.resourceType === 'Patient' &&
+      selectCurrentPatient(store.getState())?.id === resource.id
+    ) {
+      store.dispatch(updatePatient(resource as Patient));
+    }
+
+    QUERY_KEYS_BY_RESOURCE_TYPE[resource.resourceType]?.forEach(queryKey => {
+      queryClient.invalidateQueries({ queryKey });
+    });
+  },
+});
+
+export default writeOutbox;
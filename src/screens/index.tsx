@@ -55,10 +55,14 @@ export { default as VitalsScreen } from './records/VitalsScreen';
 export { default as MedicationsScreen } from './records/MedicationsScreen';
 export { default as LabResultsScreen } from './records/LabResultsScreen';
 export { default as EncountersScreen } from './records/EncountersScreen';
+export { default as AppointmentsScreen } from './records/AppointmentsScreen';
+export { default as DocumentsScreen } from './records/DocumentsScreen';
+export { default as MergedRecordsScreen } from './records/MergedRecordsScreen';
 
 // Provider Screens
 export { default as ProvidersListScreen } from './providers/ProvidersListScreen';
 export { default as AddProviderScreen } from './providers/AddProviderScreen';
+export { default as ProviderSyncScreen } from './providers/ProviderSyncScreen';
 
 // Settings Screens
 export { default as SettingsScreen } from './settings/SettingsScreen';
@@ -91,7 +95,6 @@ export const ProviderDetailScreen = createPlaceholderScreen('ProviderDetailScree
 export const ProviderAuthScreen = createPlaceholderScreen('ProviderAuthScreen');
 export const ProviderRecordsScreen = createPlaceholderScreen('ProviderRecordsScreen');
 export const ManageConsentsScreen = createPlaceholderScreen('ManageConsentsScreen');
-export const ProviderSyncScreen = createPlaceholderScreen('ProviderSyncScreen');
 
 // Profile Screens (implementations)
 import ProfileHomeScreenImpl from './profile/ProfileHomeScreen';
@@ -99,6 +102,14 @@ export { default as ProfileHomeScreen } from './profile/ProfileHomeScreen';
 export { default as EditProfileScreen } from './profile/EditProfileScreen';
 export { default as HealthProfileScreen } from './profile/HealthProfileScreen';
 export { default as EmergencyContactsScreen } from './profile/EmergencyContactsScreen';
+export { default as AllergiesScreen } from './profile/AllergiesScreen';
+export { default as ConditionsScreen } from './profile/ConditionsScreen';
+export { default as ImmunizationsScreen } from './profile/ImmunizationsScreen';
+export { default as CarePlansScreen } from './profile/CarePlansScreen';
+export { default as InsuranceScreen } from './profile/InsuranceScreen';
+export { default as MyCareTeamScreen } from './profile/MyCareTeamScreen';
+export { default as AdvanceDirectivesScreen } from './profile/AdvanceDirectivesScreen';
+export { default as PendingChangesScreen } from './profile/PendingChangesScreen';
 export const ProfileScreen = ProfileHomeScreenImpl;
 export const SecuritySettingsScreen = createPlaceholderScreen('SecuritySettingsScreen');
 export const NotificationSettingsScreen = createPlaceholderScreen('NotificationSettingsScreen');
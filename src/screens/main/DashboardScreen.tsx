@@ -30,7 +30,10 @@ import { useDashboardData } from '../../query/useFHIRData';
 import { setRefreshing, selectIsRefreshing } from '../../store/slices/uiSlice';
 import { Observation } from '../../domain/entities/Observation';
 import { MedicationRequest } from '../../domain/entities/MedicationRequest';
-import { Config } from '../../utils/config';
+import {
+  AllergyIntolerance,
+  AllergyIntoleranceHelpers,
+} from '../../domain/entities/AllergyIntolerance';
 
 const { width } = Dimensions.get('window');
 
@@ -143,6 +146,38 @@ const MedicationItem: React.FC<MedicationItemProps> = ({ medication, isDark }) =
   );
 };
 
+// High-criticality allergy display component
+interface AllergyItemProps {
+  allergy: AllergyIntolerance;
+  isDark: boolean;
+}
+
+const AllergyItem: React.FC<AllergyItemProps> = ({ allergy, isDark }) => {
+  const reactions = AllergyIntoleranceHelpers.getManifestations(allergy).join(', ');
+
+  return (
+    <View style={styles.allergyItem}>
+      <Icon name="alert-octagon" size={16} color="#EF4444" />
+      <View style={styles.medicationInfo}>
+        <Text
+          style={[styles.medicationName, { color: isDark ? '#F9FAFB' : '#111827' }]}
+          numberOfLines={1}
+        >
+          {AllergyIntoleranceHelpers.getDisplayName(allergy)}
+        </Text>
+        {!!reactions && (
+          <Text
+            style={[styles.medicationDosage, { color: isDark ? '#9CA3AF' : '#6B7280' }]}
+            numberOfLines={1}
+          >
+            {reactions}
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+};
+
 const DashboardScreen: React.FC = () => {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const navigation = useNavigation<any>();
@@ -155,10 +190,10 @@ const DashboardScreen: React.FC = () => {
   const isRefreshing = useAppSelector(selectIsRefreshing);
 
   // Fetch dashboard data
-  const { vitals, medications, isLoading, refetchAll } = useDashboardData({
+  const { vitals, medications, allergies, isLoading, refetchAll } = useDashboardData({
     patientId: patient?.id || '',
-    providerBaseUrl: Config.DEFAULT_FHIR_SERVER_URL,
-    enabled: !!patient?.id,
+    providerId: providerId || '',
+    enabled: !!patient?.id && !!providerId,
   });
 
   // Handle refresh
@@ -183,14 +218,22 @@ const DashboardScreen: React.FC = () => {
 
   // Get recent vitals (last 3)
   const recentVitals = useMemo((): Observation[] => {
-    return vitals.slice(0, 3);
+    return vitals.slice(0, 3).map(v => v.resource);
   }, [vitals]);
 
   // Get active medications (up to 3)
   const activeMeds = useMemo((): MedicationRequest[] => {
-    return medications.filter((m: MedicationRequest) => m.status === 'active').slice(0, 3);
+    return medications
+      .map(m => m.resource)
+      .filter((m: MedicationRequest) => m.status === 'active')
+      .slice(0, 3);
   }, [medications]);
 
+  // High-criticality allergies are always surfaced
+  const criticalAllergies = useMemo((): AllergyIntolerance[] => {
+    return allergies.map(a => a.resource).filter(AllergyIntoleranceHelpers.isHighCriticality);
+  }, [allergies]);
+
   return (
     <View style={[styles.container, { backgroundColor: isDark ? '#111827' : '#F9FAFB' }]}>
       <ScrollView
@@ -257,6 +300,22 @@ const DashboardScreen: React.FC = () => {
           </TouchableOpacity>
         </View>
 
+        {/* Critical Allergies */}
+        {criticalAllergies.length > 0 && (
+          <DashboardCard
+            title="Critical Allergies"
+            icon="alert-octagon"
+            isDark={isDark}
+            onPress={() => navigation.navigate('Profile' as never, { screen: 'Allergies' })}
+          >
+            <View style={styles.medicationsList}>
+              {criticalAllergies.map((allergy, index) => (
+                <AllergyItem key={allergy.id || index} allergy={allergy} isDark={isDark} />
+              ))}
+            </View>
+          </DashboardCard>
+        )}
+
         {/* Recent Vitals */}
         <DashboardCard
           title="Recent Vitals"
@@ -428,6 +487,11 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginTop: 2,
   },
+  allergyItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
   providerInfo: {
     flexDirection: 'row',
     alignItems: 'center',
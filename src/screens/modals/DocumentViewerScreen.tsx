@@ -0,0 +1,97 @@
+/**
+ * Document Viewer Screen
+ *
+ * Downloads a document attachment and shows it for its content type: PDFs
+ * and images in the existing modals, plain-text and HTML notes here as
+ * sanitized native text.
+ */
+
+import React, { useEffect, useMemo } from 'react';
+import { View, Text, StyleSheet, SafeAreaView, ScrollView } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../../navigation/types';
+import { useAttachmentContent } from '../../query/useFHIRData';
+import { DocumentReferenceHelpers } from '../../domain/entities/DocumentReference';
+import { Loading } from '../../components/ui';
+import { decodeNoteContent, sanitizeNote } from '../../utils/noteSanitizer';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'DocumentViewer'>;
+
+const DocumentViewerScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { title, ...document } = route.params;
+  const { data: content, isError } = useAttachmentContent(document);
+  const viewer = DocumentReferenceHelpers.getViewerType(content?.contentType);
+
+  // The modals read the downloaded content from the query cache
+  useEffect(() => {
+    const { title: documentTitle, ...attachment } = route.params;
+    if (viewer === 'pdf') {
+      navigation.replace('PDFViewer', { title: documentTitle, document: attachment });
+    } else if (viewer === 'image') {
+      navigation.replace('ImageViewer', { title: documentTitle, document: attachment });
+    }
+  }, [navigation, route.params, viewer]);
+
+  const blocks = useMemo(
+    () =>
+      content && (viewer === 'text' || viewer === 'html')
+        ? sanitizeNote(decodeNoteContent(content.data), content.contentType)
+        : [],
+    [content, viewer]
+  );
+
+  if (!isError && (!content || viewer === 'pdf' || viewer === 'image')) {
+    return <Loading message="Opening document..." />;
+  }
+
+  const renderContent = () => {
+    if (isError) {
+      return (
+        <Text style={styles.empty}>
+          Unable to open this document. Please check your connection and try again.
+        </Text>
+      );
+    }
+    if (viewer !== 'text' && viewer !== 'html') {
+      return <Text style={styles.empty}>This document format can&apos;t be displayed</Text>;
+    }
+    if (blocks.length === 0) {
+      return <Text style={styles.empty}>This note has no text content</Text>;
+    }
+    return blocks.map((block, index) =>
+      block.type === 'listItem' ? (
+        <View key={index} style={styles.listItem}>
+          <Text style={styles.bullet}>•</Text>
+          <Text style={[styles.paragraph, styles.listText]}>{block.text}</Text>
+        </View>
+      ) : (
+        <Text key={index} style={block.type === 'heading' ? styles.heading : styles.paragraph}>
+          {block.text}
+        </Text>
+      )
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.title}>{title}</Text>
+        {renderContent()}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#F9FAFB' },
+  content: { padding: 24 },
+  title: { fontSize: 18, fontWeight: '600', color: '#1F2937', marginBottom: 16 },
+  heading: { fontSize: 16, fontWeight: '600', color: '#1F2937', marginTop: 8, marginBottom: 8 },
+  paragraph: { fontSize: 15, lineHeight: 22, color: '#374151', marginBottom: 12 },
+  listItem: { flexDirection: 'row' },
+  bullet: { fontSize: 15, lineHeight: 22, color: '#374151', width: 16 },
+  listText: { flex: 1, marginBottom: 6 },
+  empty: { fontSize: 14, color: '#6B7280', textAlign: 'center', marginTop: 32 },
+});
+
+export default DocumentViewerScreen;
@@ -6,11 +6,26 @@ import React from 'react';
 import { View, Text, StyleSheet, SafeAreaView, Image, ScrollView } from 'react-native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../../navigation/types';
+import { useAttachmentContent } from '../../query/useFHIRData';
+import { Loading } from '../../components/ui';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'ImageViewer'>;
 
 const ImageViewerScreen: React.FC<Props> = ({ route }) => {
-  const { urls, title, initialIndex = 0 } = route.params;
+  const { title, initialIndex = 0, document } = route.params;
+  const { data: content, isError } = useAttachmentContent(document);
+  const urls =
+    route.params.urls ?? (content ? [`data:${content.contentType};base64,${content.data}`] : []);
+
+  if (document && !content) {
+    return isError ? (
+      <SafeAreaView style={styles.container}>
+        <Text style={styles.title}>Unable to open this document</Text>
+      </SafeAreaView>
+    ) : (
+      <Loading message="Opening document..." />
+    );
+  }
 
   return (
     <SafeAreaView style={styles.container}>
@@ -6,11 +6,28 @@ import React from 'react';
 import { View, Text, StyleSheet, SafeAreaView } from 'react-native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../../navigation/types';
+import { useAttachmentContent } from '../../query/useFHIRData';
+import { Loading } from '../../components/ui';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'PDFViewer'>;
 
 const PDFViewerScreen: React.FC<Props> = ({ route }) => {
-  const { title, url } = route.params;
+  const { title, document } = route.params;
+  const { data: content, isError } = useAttachmentContent(document);
+  const url = route.params.url ?? (content && `data:application/pdf;base64,${content.data}`);
+
+  if (!url) {
+    return isError ? (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.content}>
+          <Text style={styles.title}>{title}</Text>
+          <Text style={styles.note}>Unable to open this document</Text>
+        </View>
+      </SafeAreaView>
+    ) : (
+      <Loading message="Opening document..." />
+    );
+  }
 
   return (
     <SafeAreaView style={styles.container}>
@@ -18,7 +35,7 @@ const PDFViewerScreen: React.FC<Props> = ({ route }) => {
         <Text style={styles.title}>{title}</Text>
         <View style={styles.placeholder}>
           <Text style={styles.placeholderText}>PDF Viewer</Text>
-          <Text style={styles.url}>{url}</Text>
+          {!url.startsWith('data:') && <Text style={styles.url}>{url}</Text>}
           <Text style={styles.note}>Install react-native-pdf to view PDF documents</Text>
         </View>
       </View>
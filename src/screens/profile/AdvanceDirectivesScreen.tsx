@@ -0,0 +1,337 @@
+/**
+ * Advance Directives Screen
+ *
+ * Lists the patient's advance directives, whether recorded as Consents or as
+ * documents, with their status and attachments. One directive can be flagged
+ * to be shown in the emergency view.
+ */
+
+import React, { useMemo, useCallback } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+
+import { useAppSelector } from '../../store';
+import { selectCurrentPatient } from '../../store/slices/authSlice';
+import { selectActiveProvider } from '../../store/slices/providersSlice';
+import { selectIsDarkMode } from '../../store/slices/uiSlice';
+import {
+  useAdvanceDirectives,
+  useEmergencyDirective,
+  useFlagEmergencyDirective,
+} from '../../query/useFHIRData';
+import { useAttachmentViewer } from '../../hooks';
+import { Loading } from '../../components/ui';
+import { AdvanceDirective, AdvanceDirectiveHelpers } from '../../domain/entities/AdvanceDirective';
+
+interface DirectiveItemProps {
+  directive: AdvanceDirective;
+  isDark: boolean;
+  isFlagged: boolean;
+  onOpen: (attachmentIndex: number) => void;
+  onToggleFlag: () => void;
+}
+
+const DirectiveItem: React.FC<DirectiveItemProps> = ({
+  directive,
+  isDark,
+  isFlagged,
+  onOpen,
+  onToggleFlag,
+}) => {
+  const isCurrent = AdvanceDirectiveHelpers.isCurrent(directive);
+  const date = AdvanceDirectiveHelpers.getDate(directive);
+  const attachments = AdvanceDirectiveHelpers.getAttachments(directive);
+  const reference = AdvanceDirectiveHelpers.getReference(directive);
+
+  return (
+    <View
+      style={[
+        styles.card,
+        { backgroundColor: isDark ? '#1F2937' : '#FFFFFF' },
+        isFlagged && styles.flaggedCard,
+      ]}
+    >
+      <View style={styles.header}>
+        <Icon name="file-sign" size={28} color={isDark ? '#60A5FA' : '#2563EB'} />
+        <View style={styles.headerText}>
+          <Text style={[styles.title, { color: isDark ? '#F9FAFB' : '#111827' }]}>
+            {AdvanceDirectiveHelpers.getTitle(directive)}
+          </Text>
+          <Text style={[styles.infoText, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+            {[
+              directive.resourceType === 'Consent' ? 'Directive record' : 'Document',
+              date?.toLocaleDateString(),
+            ]
+              .filter(Boolean)
+              .join(' • ')}
+          </Text>
+        </View>
+        <View style={[styles.statusBadge, { backgroundColor: isCurrent ? '#DCFCE7' : '#F3F4F6' }]}>
+          <Text style={[styles.statusText, { color: isCurrent ? '#166534' : '#4B5563' }]}>
+            {AdvanceDirectiveHelpers.getStatusDisplay(directive)}
+          </Text>
+        </View>
+      </View>
+
+      {attachments.length === 0 ? (
+        <Text style={[styles.infoText, { color: isDark ? '#6B7280' : '#9CA3AF' }]}>
+          No document attached
+        </Text>
+      ) : (
+        attachments.map((attachment, index) => (
+          <TouchableOpacity
+            key={`${reference}#${index}`}
+            style={[styles.attachment, { borderTopColor: isDark ? '#374151' : '#E5E7EB' }]}
+            onPress={() => onOpen(index)}
+            disabled={!directive.id}
+            accessibilityLabel={`Open ${attachment.title || 'attachment'}`}
+          >
+            <Icon name="paperclip" size={18} color={isDark ? '#9CA3AF' : '#6B7280'} />
+            <Text
+              style={[styles.attachmentText, { color: isDark ? '#E5E7EB' : '#374151' }]}
+              numberOfLines={1}
+            >
+              {attachment.title || attachment.contentType || 'Attachment'}
+            </Text>
+            <Icon name="chevron-right" size={20} color={isDark ? '#6B7280' : '#9CA3AF'} />
+          </TouchableOpacity>
+        ))
+      )}
+
+      {reference && (
+        <TouchableOpacity
+          style={[styles.flagButton, isFlagged && styles.flagButtonActive]}
+          onPress={onToggleFlag}
+          accessibilityRole="switch"
+          accessibilityState={{ checked: isFlagged }}
+        >
+          <Icon
+            name={isFlagged ? 'alert-decagram' : 'alert-decagram-outline'}
+            size={18}
+            color={isFlagged ? '#FFFFFF' : '#DC2626'}
+          />
+          <Text style={[styles.flagText, { color: isFlagged ? '#FFFFFF' : '#DC2626' }]}>
+            {isFlagged ? 'Shown in emergency view' : 'Show in emergency view'}
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const AdvanceDirectivesScreen: React.FC = () => {
+  const insets = useSafeAreaInsets();
+
+  const patient = useAppSelector(selectCurrentPatient);
+  const provider = useAppSelector(selectActiveProvider);
+  const isDark = useAppSelector(selectIsDarkMode);
+
+  const patientId = patient?.id || '';
+  const providerId = provider?.id || '';
+
+  const {
+    data: directiveResults = [],
+    isLoading,
+    refetch,
+    isRefetching,
+  } = useAdvanceDirectives(patientId, providerId, !!patientId && !!providerId);
+  const { data: emergencyDirective } = useEmergencyDirective();
+  const flagEmergencyDirective = useFlagEmergencyDirective();
+  const { open } = useAttachmentViewer(providerId);
+
+  const directives = useMemo(
+    () =>
+      AdvanceDirectiveHelpers.sortDirectives(
+        directiveResults
+          .map(r => r.resource)
+          .filter(directive => directive.status !== 'entered-in-error')
+      ),
+    [directiveResults]
+  );
+
+  const isFlagged = useCallback(
+    (directive: AdvanceDirective) =>
+      emergencyDirective?.providerId === providerId &&
+      emergencyDirective.reference === AdvanceDirectiveHelpers.getReference(directive),
+    [emergencyDirective, providerId]
+  );
+
+  const handleToggleFlag = useCallback(
+    (directive: AdvanceDirective) => {
+      const reference = AdvanceDirectiveHelpers.getReference(directive);
+      if (!reference) {
+        return;
+      }
+
+      flagEmergencyDirective.mutate(
+        isFlagged(directive)
+          ? null
+          : {
+              providerId,
+              reference,
+              title: AdvanceDirectiveHelpers.getTitle(directive),
+              flaggedAt: new Date().toISOString(),
+            },
+        {
+          onError: () => {
+            Alert.alert('Unable to Save', 'The emergency directive could not be saved.');
+          },
+        }
+      );
+    },
+    [flagEmergencyDirective, isFlagged, providerId]
+  );
+
+  if (isLoading && directiveResults.length === 0) {
+    return <Loading message="Loading advance directives..." />;
+  }
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: isDark ? '#111827' : '#F3F4F6' }]}
+      contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 20 }]}
+      refreshControl={
+        <RefreshControl
+          refreshing={isRefetching}
+          onRefresh={refetch}
+          tintColor={isDark ? '#60A5FA' : '#3B82F6'}
+        />
+      }
+    >
+      {directives.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Icon name="file-sign" size={64} color={isDark ? '#4B5563' : '#9CA3AF'} />
+          <Text style={[styles.emptyText, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+            No advance directives found
+          </Text>
+          <Text style={[styles.emptySubtext, { color: isDark ? '#6B7280' : '#9CA3AF' }]}>
+            Living wills, healthcare powers of attorney and medical orders on file with your
+            providers will appear here
+          </Text>
+        </View>
+      ) : (
+        directives.map((directive, index) => (
+          <DirectiveItem
+            key={AdvanceDirectiveHelpers.getReference(directive) || index}
+            directive={directive}
+            isDark={isDark}
+            isFlagged={isFlagged(directive)}
+            onOpen={attachmentIndex => {
+              if (directive.id) {
+                open(
+                  {
+                    resourceType: directive.resourceType,
+                    resourceId: directive.id,
+                    attachmentIndex,
+                  },
+                  AdvanceDirectiveHelpers.getTitle(directive)
+                );
+              }
+            }}
+            onToggleFlag={() => handleToggleFlag(directive)}
+          />
+        ))
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  card: {
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  flaggedCard: {
+    borderLeftWidth: 4,
+    borderLeftColor: '#DC2626',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 8,
+  },
+  headerText: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  infoText: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
+  statusText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  attachment: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  attachmentText: {
+    flex: 1,
+    fontSize: 14,
+    marginHorizontal: 8,
+  },
+  flagButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 8,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#DC2626',
+  },
+  flagButtonActive: {
+    backgroundColor: '#DC2626',
+  },
+  flagText: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    paddingTop: 96,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    fontSize: 14,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+});
+
+export default AdvanceDirectivesScreen;
@@ -0,0 +1,128 @@
+/**
+ * Allergies Screen
+ *
+ * Displays the patient's allergies and intolerances, with high-criticality
+ * allergies listed first.
+ */
+
+import React, { useMemo, useCallback } from 'react';
+import { View, Text, FlatList, StyleSheet, RefreshControl } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+
+import { useAppSelector } from '../../store';
+import { selectCurrentPatient } from '../../store/slices/authSlice';
+import { selectActiveProvider } from '../../store/slices/providersSlice';
+import { selectIsDarkMode } from '../../store/slices/uiSlice';
+import { useAllergies } from '../../query/useFHIRData';
+import { Loading } from '../../components/ui';
+import { AllergyCard } from '../../components/health';
+import {
+  AllergyIntolerance,
+  AllergyIntoleranceHelpers,
+} from '../../domain/entities/AllergyIntolerance';
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+const AllergiesScreen: React.FC = () => {
+  const insets = useSafeAreaInsets();
+
+  const patient = useAppSelector(selectCurrentPatient);
+  const provider = useAppSelector(selectActiveProvider);
+  const isDark = useAppSelector(selectIsDarkMode);
+
+  // Fetch allergies
+  const {
+    data: allergyResults = [],
+    isLoading,
+    refetch,
+    isRefetching,
+  } = useAllergies({
+    patientId: patient?.id || '',
+    providerId: provider?.id || '',
+    enabled: !!patient?.id && !!provider?.id,
+  });
+
+  const allergies = useMemo(
+    () => AllergyIntoleranceHelpers.getActiveSorted(allergyResults.map(r => r.resource)),
+    [allergyResults]
+  );
+
+  const renderAllergy = useCallback(({ item }: { item: AllergyIntolerance }) => {
+    const severity = AllergyIntoleranceHelpers.getMaxReactionSeverity(item);
+    return (
+      <AllergyCard
+        substance={AllergyIntoleranceHelpers.getDisplayName(item)}
+        criticality={item.criticality}
+        reactions={AllergyIntoleranceHelpers.getManifestations(item)}
+        severity={severity && capitalize(severity)}
+        category={item.category?.map(capitalize).join(', ')}
+        onset={AllergyIntoleranceHelpers.getOnsetDisplay(item)}
+      />
+    );
+  }, []);
+
+  if (isLoading && allergies.length === 0) {
+    return <Loading message="Loading allergies..." />;
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: isDark ? '#111827' : '#F9FAFB' }]}>
+      {allergies.length > 0 ? (
+        <FlatList
+          data={allergies}
+          keyExtractor={(item, index) => item.id || String(index)}
+          renderItem={renderAllergy}
+          contentContainerStyle={[styles.listContent, { paddingBottom: insets.bottom + 100 }]}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefetching}
+              onRefresh={refetch}
+              tintColor={isDark ? '#60A5FA' : '#2563EB'}
+            />
+          }
+          showsVerticalScrollIndicator={false}
+        />
+      ) : (
+        <View style={styles.emptyContainer}>
+          <Icon name="alert-circle-outline" size={64} color={isDark ? '#4B5563' : '#9CA3AF'} />
+          <Text style={[styles.emptyText, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+            No known allergies
+          </Text>
+          <Text style={[styles.emptySubtext, { color: isDark ? '#6B7280' : '#9CA3AF' }]}>
+            Connect a healthcare provider to sync your allergies
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  listContent: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    fontSize: 14,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+});
+
+export default AllergiesScreen;
@@ -0,0 +1,483 @@
+/**
+ * Care Plans Screen
+ *
+ * Displays each care plan with its activities, care team and goals.
+ * Goal targets measured by a LOINC code show progress from the
+ * patient's synced and cached observations.
+ */
+
+import React, { useMemo, useCallback } from 'react';
+import { View, Text, ScrollView, StyleSheet, RefreshControl } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+
+import { useAppSelector } from '../../store';
+import { selectCurrentPatient } from '../../store/slices/authSlice';
+import { selectActiveProvider } from '../../store/slices/providersSlice';
+import { selectAllObservations } from '../../store/slices/recordsSlice';
+import { selectIsDarkMode } from '../../store/slices/uiSlice';
+import {
+  useCarePlans,
+  useGoals,
+  useCareTeams,
+  useVitals,
+  useLabResults,
+} from '../../query/useFHIRData';
+import { Loading } from '../../components/ui';
+import { CarePlan, CarePlanHelpers } from '../../domain/entities/CarePlan';
+import { Goal, GoalHelpers, GoalProgress } from '../../domain/entities/Goal';
+import { CareTeam, CareTeamHelpers } from '../../domain/entities/CareTeam';
+import { Observation } from '../../domain/entities/Observation';
+
+interface GoalProgressRowProps {
+  progress: GoalProgress;
+  isDark: boolean;
+}
+
+const GoalProgressRow: React.FC<GoalProgressRowProps> = ({ progress, isDark }) => {
+  const color = progress.isMet === undefined ? '#9CA3AF' : progress.isMet ? '#10B981' : '#F59E0B';
+
+  return (
+    <View style={styles.progressRow}>
+      <View style={styles.progressHeader}>
+        <Text style={[styles.progressName, { color: isDark ? '#D1D5DB' : '#4B5563' }]}>
+          {progress.measureName}
+        </Text>
+        <Text style={[styles.progressTarget, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+          Target {progress.targetDisplay}
+        </Text>
+      </View>
+      {progress.current ? (
+        <>
+          <Text style={[styles.progressValue, { color }]}>
+            Latest: {progress.current.value} {progress.current.unit || ''}
+            {progress.observedAt ? ` on ${progress.observedAt.toLocaleDateString()}` : ''}
+            {progress.isMet ? ' • Target met' : ''}
+          </Text>
+          {progress.percent !== undefined && (
+            <View
+              style={[styles.progressTrack, { backgroundColor: isDark ? '#374151' : '#E5E7EB' }]}
+            >
+              <View
+                style={[
+                  styles.progressFill,
+                  { width: `${progress.percent}%`, backgroundColor: color },
+                ]}
+              />
+            </View>
+          )}
+        </>
+      ) : (
+        <Text style={[styles.progressValue, { color: isDark ? '#6B7280' : '#9CA3AF' }]}>
+          No measurements yet
+        </Text>
+      )}
+    </View>
+  );
+};
+
+interface GoalItemProps {
+  goal: Goal;
+  observations: Observation[];
+  isDark: boolean;
+}
+
+const GoalItem: React.FC<GoalItemProps> = ({ goal, observations, isDark }) => {
+  const progress = useMemo(() => GoalHelpers.getProgress(goal, observations), [goal, observations]);
+  const otherTargets = (goal.target || []).filter(target => !GoalHelpers.getMeasureCode(target));
+  const achievement = GoalHelpers.getAchievementDisplay(goal);
+
+  return (
+    <View style={styles.goalItem}>
+      <View style={styles.rowHeader}>
+        <Icon name="flag-checkered" size={18} color={isDark ? '#60A5FA' : '#2563EB'} />
+        <Text style={[styles.rowTitle, { color: isDark ? '#F9FAFB' : '#111827' }]}>
+          {GoalHelpers.getDescription(goal)}
+        </Text>
+      </View>
+      <Text style={[styles.rowDetail, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+        {achievement || GoalHelpers.getLifecycleDisplay(goal)}
+      </Text>
+      {progress.map(item => (
+        <GoalProgressRow key={item.measureCode} progress={item} isDark={isDark} />
+      ))}
+      {otherTargets.map((target, index) => (
+        <Text key={index} style={[styles.rowDetail, { color: isDark ? '#D1D5DB' : '#4B5563' }]}>
+          Target: {GoalHelpers.getTargetDisplay(target)}
+          {target.dueDate ? ` by ${new Date(target.dueDate).toLocaleDateString()}` : ''}
+        </Text>
+      ))}
+    </View>
+  );
+};
+
+interface CarePlanCardProps {
+  carePlan: CarePlan;
+  goals: Goal[];
+  careTeams: CareTeam[];
+  observations: Observation[];
+  isDark: boolean;
+}
+
+const CarePlanCard: React.FC<CarePlanCardProps> = ({
+  carePlan,
+  goals,
+  careTeams,
+  observations,
+  isDark,
+}) => {
+  const activities = CarePlanHelpers.getActivities(carePlan);
+  const period = CarePlanHelpers.getPeriodDisplay(carePlan);
+  const members = careTeams.flatMap(CareTeamHelpers.getMembers);
+  const labelColor = isDark ? '#9CA3AF' : '#6B7280';
+
+  return (
+    <View style={[styles.card, { backgroundColor: isDark ? '#1F2937' : '#FFFFFF' }]}>
+      <View style={styles.cardHeader}>
+        <Text style={[styles.cardTitle, { color: isDark ? '#F9FAFB' : '#111827' }]}>
+          {CarePlanHelpers.getTitle(carePlan)}
+        </Text>
+        <View style={[styles.badge, { backgroundColor: isDark ? '#374151' : '#EFF6FF' }]}>
+          <Text style={[styles.badgeText, { color: isDark ? '#60A5FA' : '#2563EB' }]}>
+            {CarePlanHelpers.getStatusDisplay(carePlan)}
+          </Text>
+        </View>
+      </View>
+      {period && <Text style={[styles.rowDetail, { color: labelColor }]}>{period}</Text>}
+      {carePlan.description && carePlan.description !== carePlan.title && (
+        <Text style={[styles.description, { color: isDark ? '#D1D5DB' : '#4B5563' }]}>
+          {carePlan.description}
+        </Text>
+      )}
+
+      {activities.length > 0 && (
+        <>
+          <Text style={[styles.subheading, { color: labelColor }]}>ACTIVITIES</Text>
+          {activities.map((activity, index) => {
+            const schedule = CarePlanHelpers.getActivityScheduleDisplay(activity);
+            const status = CarePlanHelpers.getActivityStatusDisplay(activity);
+            return (
+              <View key={index} style={styles.activityRow}>
+                <Icon
+                  name={activity.detail?.status === 'completed' ? 'check-circle' : 'circle-outline'}
+                  size={16}
+                  color={activity.detail?.status === 'completed' ? '#10B981' : labelColor}
+                />
+                <View style={styles.activityText}>
+                  <Text style={[styles.activityName, { color: isDark ? '#F9FAFB' : '#111827' }]}>
+                    {CarePlanHelpers.getActivityName(activity)}
+                  </Text>
+                  {(status || schedule) && (
+                    <Text style={[styles.rowDetail, { color: labelColor }]}>
+                      {[status, schedule].filter(Boolean).join(' • ')}
+                    </Text>
+                  )}
+                </View>
+              </View>
+            );
+          })}
+        </>
+      )}
+
+      {goals.length > 0 && (
+        <>
+          <Text style={[styles.subheading, { color: labelColor }]}>GOALS</Text>
+          {goals.map((goal, index) => (
+            <GoalItem
+              key={goal.id || index}
+              goal={goal}
+              observations={observations}
+              isDark={isDark}
+            />
+          ))}
+        </>
+      )}
+
+      {members.length > 0 && (
+        <>
+          <Text style={[styles.subheading, { color: labelColor }]}>CARE TEAM</Text>
+          {members.map((member, index) => (
+            <Text key={index} style={[styles.member, { color: isDark ? '#D1D5DB' : '#4B5563' }]}>
+              {member.name}
+              {member.role ? ` • ${member.role}` : ''}
+            </Text>
+          ))}
+        </>
+      )}
+    </View>
+  );
+};
+
+const CarePlansScreen: React.FC = () => {
+  const insets = useSafeAreaInsets();
+
+  const patient = useAppSelector(selectCurrentPatient);
+  const provider = useAppSelector(selectActiveProvider);
+  const syncedObservations = useAppSelector(selectAllObservations);
+  const isDark = useAppSelector(selectIsDarkMode);
+
+  const patientId = patient?.id || '';
+  const providerId = provider?.id || '';
+  const enabled = !!patientId && !!providerId;
+
+  const {
+    data: carePlanResults = [],
+    isLoading,
+    refetch: refetchCarePlans,
+    isRefetching,
+  } = useCarePlans({ patientId, providerId, enabled });
+  const { data: goalResults = [], refetch: refetchGoals } = useGoals(
+    patientId,
+    providerId,
+    enabled
+  );
+  const { data: careTeamResults = [] } = useCareTeams(patientId, providerId, enabled);
+  const { data: vitalResults = [] } = useVitals(patientId, providerId, enabled);
+  const { data: labResults = [] } = useLabResults(patientId, providerId, enabled);
+
+  // Observations from the last sync plus the vitals and labs already cached
+  const observations = useMemo(() => {
+    const byId = new Map<string, Observation>();
+    const unidentified: Observation[] = [];
+    for (const observation of [
+      ...syncedObservations,
+      ...vitalResults.map(r => r.resource),
+      ...labResults.map(r => r.resource),
+    ]) {
+      if (observation.id) {
+        byId.set(observation.id, observation);
+      } else {
+        unidentified.push(observation);
+      }
+    }
+    return [...byId.values(), ...unidentified];
+  }, [syncedObservations, vitalResults, labResults]);
+
+  const { activePlans, pastPlans, otherGoals, goalsById, careTeamsById } = useMemo(() => {
+    const carePlans = carePlanResults
+      .map(r => r.resource)
+      .filter(plan => plan.status !== 'entered-in-error');
+    const goals = goalResults
+      .map(r => r.resource)
+      .filter(goal => goal.lifecycleStatus !== 'entered-in-error');
+
+    const planGoalIds = new Set(carePlans.flatMap(CarePlanHelpers.getGoalIds));
+
+    return {
+      activePlans: carePlans.filter(CarePlanHelpers.isActive),
+      pastPlans: carePlans.filter(plan => !CarePlanHelpers.isActive(plan)),
+      otherGoals: goals.filter(goal => !goal.id || !planGoalIds.has(goal.id)),
+      goalsById: new Map(goals.map(goal => [goal.id, goal])),
+      careTeamsById: new Map(careTeamResults.map(r => [r.resource.id, r.resource])),
+    };
+  }, [carePlanResults, goalResults, careTeamResults]);
+
+  const handleRefresh = useCallback(() => {
+    refetchCarePlans();
+    refetchGoals();
+  }, [refetchCarePlans, refetchGoals]);
+
+  const renderPlan = (carePlan: CarePlan, index: number) => (
+    <CarePlanCard
+      key={carePlan.id || index}
+      carePlan={carePlan}
+      goals={CarePlanHelpers.getGoalIds(carePlan).flatMap(id => goalsById.get(id) || [])}
+      careTeams={CarePlanHelpers.getCareTeamIds(carePlan).flatMap(
+        id => careTeamsById.get(id) || []
+      )}
+      observations={observations}
+      isDark={isDark}
+    />
+  );
+
+  if (isLoading && carePlanResults.length === 0) {
+    return <Loading message="Loading care plans..." />;
+  }
+
+  const isEmpty = activePlans.length === 0 && pastPlans.length === 0 && otherGoals.length === 0;
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: isDark ? '#111827' : '#F3F4F6' }]}
+      contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 20 }]}
+      refreshControl={
+        <RefreshControl
+          refreshing={isRefetching}
+          onRefresh={handleRefresh}
+          tintColor={isDark ? '#60A5FA' : '#3B82F6'}
+        />
+      }
+    >
+      {isEmpty && (
+        <View style={styles.emptyContainer}>
+          <Icon name="clipboard-text-outline" size={64} color={isDark ? '#4B5563' : '#9CA3AF'} />
+          <Text style={[styles.emptyText, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+            No care plans found
+          </Text>
+        </View>
+      )}
+
+      {activePlans.length > 0 && (
+        <>
+          <Text style={[styles.sectionTitle, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+            ACTIVE PLANS
+          </Text>
+          {activePlans.map(renderPlan)}
+        </>
+      )}
+
+      {otherGoals.length > 0 && (
+        <>
+          <Text style={[styles.sectionTitle, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+            GOALS
+          </Text>
+          <View style={[styles.card, { backgroundColor: isDark ? '#1F2937' : '#FFFFFF' }]}>
+            {otherGoals.map((goal, index) => (
+              <GoalItem
+                key={goal.id || index}
+                goal={goal}
+                observations={observations}
+                isDark={isDark}
+              />
+            ))}
+          </View>
+        </>
+      )}
+
+      {pastPlans.length > 0 && (
+        <>
+          <Text style={[styles.sectionTitle, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+            PAST PLANS
+          </Text>
+          {pastPlans.map(renderPlan)}
+        </>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    letterSpacing: 0.5,
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  card: {
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  cardTitle: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: '600',
+    marginRight: 8,
+  },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  badgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  description: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginTop: 8,
+  },
+  subheading: {
+    fontSize: 12,
+    fontWeight: '600',
+    letterSpacing: 0.5,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  activityRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 8,
+  },
+  activityText: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  activityName: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  goalItem: {
+    marginBottom: 12,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  rowTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  rowDetail: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  progressRow: {
+    marginTop: 8,
+  },
+  progressHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  progressName: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  progressTarget: {
+    fontSize: 12,
+  },
+  progressValue: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    marginTop: 6,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 6,
+    borderRadius: 3,
+  },
+  member: {
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 64,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 16,
+  },
+});
+
+export default CarePlansScreen;
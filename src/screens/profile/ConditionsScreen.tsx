@@ -0,0 +1,231 @@
+/**
+ * Conditions Screen
+ *
+ * Displays the patient's problem list grouped into current, under review,
+ * and past conditions.
+ */
+
+import React, { useMemo, useCallback } from 'react';
+import { View, Text, SectionList, StyleSheet, RefreshControl } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+
+import { useAppSelector } from '../../store';
+import { selectCurrentPatient } from '../../store/slices/authSlice';
+import { selectActiveProvider } from '../../store/slices/providersSlice';
+import { selectAllConditions } from '../../store/slices/recordsSlice';
+import { selectIsDarkMode } from '../../store/slices/uiSlice';
+import { useConditions } from '../../query/useFHIRData';
+import { Loading } from '../../components/ui';
+import { Condition, ConditionHelpers } from '../../domain/entities/Condition';
+
+interface ConditionSection {
+  title: string;
+  showVerification: boolean;
+  data: Condition[];
+}
+
+const STATUS_COLORS: Record<'active' | 'resolved' | 'inactive', { bg: string; text: string }> = {
+  active: { bg: '#22C55E20', text: '#22C55E' },
+  resolved: { bg: '#6B728020', text: '#6B7280' },
+  inactive: { bg: '#9CA3AF20', text: '#9CA3AF' },
+};
+
+const getStatusBadge = (condition: Condition): keyof typeof STATUS_COLORS => {
+  if (ConditionHelpers.isActive(condition)) {
+    return 'active';
+  }
+  return ConditionHelpers.getClinicalStatus(condition) === 'resolved' ? 'resolved' : 'inactive';
+};
+
+const getConditionDetail = (condition: Condition): string => {
+  const onset = ConditionHelpers.getOnsetDisplay(condition);
+  const severity = ConditionHelpers.getSeverityDisplay(condition);
+  return [onset && `Onset: ${onset}`, severity].filter(Boolean).join(' • ') || 'Onset unknown';
+};
+
+const ConditionsScreen: React.FC = () => {
+  const insets = useSafeAreaInsets();
+
+  const patient = useAppSelector(selectCurrentPatient);
+  const provider = useAppSelector(selectActiveProvider);
+  const syncedConditions = useAppSelector(selectAllConditions);
+  const isDark = useAppSelector(selectIsDarkMode);
+
+  // Fetch the problem list
+  const {
+    data: conditionResults,
+    isLoading,
+    refetch,
+    isRefetching,
+  } = useConditions({
+    patientId: patient?.id || '',
+    providerId: provider?.id || '',
+    enabled: !!patient?.id && !!provider?.id,
+  });
+
+  // Fall back to the synced conditions until the query has loaded (e.g. offline)
+  const sections = useMemo((): ConditionSection[] => {
+    const conditions = conditionResults ? conditionResults.map(r => r.resource) : syncedConditions;
+    const groups = ConditionHelpers.groupByStatus(conditions);
+    return [
+      { title: 'CURRENT CONDITIONS', showVerification: false, data: groups.active },
+      { title: 'UNDER REVIEW', showVerification: true, data: groups.unconfirmed },
+      { title: 'PAST CONDITIONS', showVerification: false, data: groups.past },
+    ].filter(section => section.data.length > 0);
+  }, [conditionResults, syncedConditions]);
+
+  const renderCondition = useCallback(
+    ({ item, section }: { item: Condition; section: ConditionSection }) => {
+      const badge = getStatusBadge(item);
+      const detail = getConditionDetail(item);
+      return (
+        <View style={[styles.conditionCard, { backgroundColor: isDark ? '#1F2937' : '#FFFFFF' }]}>
+          <View style={[styles.iconContainer, { backgroundColor: isDark ? '#374151' : '#F3F4F6' }]}>
+            <Icon name="stethoscope" size={20} color={isDark ? '#60A5FA' : '#3B82F6'} />
+          </View>
+          <View style={styles.conditionContent}>
+            <Text
+              style={[styles.conditionName, { color: isDark ? '#F9FAFB' : '#111827' }]}
+              numberOfLines={1}
+            >
+              {ConditionHelpers.getDisplayName(item)}
+            </Text>
+            <Text
+              style={[styles.conditionDetail, { color: isDark ? '#D1D5DB' : '#4B5563' }]}
+              numberOfLines={2}
+            >
+              {section.showVerification
+                ? `${ConditionHelpers.getVerificationStatusDisplay(item)} • ${detail}`
+                : detail}
+            </Text>
+          </View>
+          <View style={[styles.statusBadge, { backgroundColor: STATUS_COLORS[badge].bg }]}>
+            <Text style={[styles.statusText, { color: STATUS_COLORS[badge].text }]}>
+              {badge.charAt(0).toUpperCase() + badge.slice(1)}
+            </Text>
+          </View>
+        </View>
+      );
+    },
+    [isDark]
+  );
+
+  const renderSectionHeader = useCallback(
+    ({ section }: { section: ConditionSection }) => (
+      <Text style={[styles.sectionTitle, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+        {section.title}
+      </Text>
+    ),
+    [isDark]
+  );
+
+  if (isLoading && sections.length === 0) {
+    return <Loading message="Loading conditions..." />;
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: isDark ? '#111827' : '#F9FAFB' }]}>
+      {sections.length > 0 ? (
+        <SectionList
+          sections={sections}
+          keyExtractor={(item, index) => item.id || String(index)}
+          renderItem={renderCondition}
+          renderSectionHeader={renderSectionHeader}
+          stickySectionHeadersEnabled={false}
+          contentContainerStyle={[styles.listContent, { paddingBottom: insets.bottom + 100 }]}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefetching}
+              onRefresh={refetch}
+              tintColor={isDark ? '#60A5FA' : '#2563EB'}
+            />
+          }
+          showsVerticalScrollIndicator={false}
+        />
+      ) : (
+        <View style={styles.emptyContainer}>
+          <Icon name="stethoscope" size={64} color={isDark ? '#4B5563' : '#9CA3AF'} />
+          <Text style={[styles.emptyText, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+            No conditions recorded
+          </Text>
+          <Text style={[styles.emptySubtext, { color: isDark ? '#6B7280' : '#9CA3AF' }]}>
+            Connect a healthcare provider to sync your problem list
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  listContent: {
+    paddingHorizontal: 16,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    letterSpacing: 0.5,
+    marginTop: 24,
+    marginBottom: 8,
+  },
+  conditionCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 14,
+    borderRadius: 12,
+    marginBottom: 8,
+  },
+  iconContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: 10,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  conditionContent: {
+    flex: 1,
+    marginRight: 8,
+  },
+  conditionName: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  conditionDetail: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+  },
+  statusText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    fontSize: 14,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+});
+
+export default ConditionsScreen;
@@ -22,7 +22,70 @@ import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 
 import { useAppSelector, useAppDispatch } from '../../store';
 import { selectIsDarkMode } from '../../store/slices/uiSlice';
-import { selectCurrentPatient } from '../../store/slices/authSlice';
+import { selectCurrentPatient, updatePatient } from '../../store/slices/authSlice';
+import { selectActiveProvider } from '../../store/slices/providersSlice';
+import { useUpdatePatient } from '../../query/useFHIRData';
+import { Patient } from '../../domain/entities/Patient';
+import { ContactPoint } from '../../domain/entities/FHIRTypes';
+
+interface ProfileForm {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  address: string;
+  city: string;
+  state: string;
+  zipCode: string;
+}
+
+// Replace the first contact point of a system, or drop it when cleared
+const withContactPoint = (
+  telecom: ContactPoint[] | undefined,
+  system: ContactPoint['system'],
+  value: string
+): ContactPoint[] => {
+  const existing = telecom?.find(t => t.system === system);
+  const others = (telecom || []).filter(t => t !== existing);
+  return value ? [{ ...existing, system, value }, ...others] : others;
+};
+
+// Apply the edited fields to the patient's primary name, contacts and address
+const applyProfileChanges = (patient: Patient, form: ProfileForm): Patient => {
+  const [name, ...otherNames] = patient.name || [];
+  const [address, ...otherAddresses] = patient.address || [];
+
+  return {
+    ...patient,
+    name: [
+      {
+        ...name,
+        text: undefined,
+        given: [form.firstName, ...(name?.given?.slice(1) || [])].filter(Boolean),
+        family: form.lastName,
+      },
+      ...otherNames,
+    ],
+    telecom: withContactPoint(
+      withContactPoint(patient.telecom, 'phone', form.phone),
+      'email',
+      form.email
+    ),
+    address: [
+      {
+        ...address,
+        line: form.address
+          .split(',')
+          .map(line => line.trim())
+          .filter(Boolean),
+        city: form.city,
+        state: form.state,
+        postalCode: form.zipCode,
+      },
+      ...otherAddresses,
+    ],
+  };
+};
 
 interface FormFieldProps {
   label: string;
@@ -74,10 +137,12 @@ const FormField: React.FC<FormFieldProps> = ({
 const EditProfileScreen: React.FC = () => {
   const navigation = useNavigation();
   const insets = useSafeAreaInsets();
-  const _dispatch = useAppDispatch();
+  const dispatch = useAppDispatch();
 
   const isDarkMode = useAppSelector(selectIsDarkMode);
   const patient = useAppSelector(selectCurrentPatient);
+  const provider = useAppSelector(selectActiveProvider);
+  const updatePatientMutation = useUpdatePatient(provider?.id || '');
 
   // Form state
   const [firstName, setFirstName] = useState(patient?.name?.[0]?.given?.[0] || '');
@@ -106,13 +171,44 @@ const EditProfileScreen: React.FC = () => {
 
   const handleSave = useCallback(async () => {
     if (!hasChanges) return;
+    if (!patient || !provider) {
+      Alert.alert('Error', 'Connect a provider to update your profile.');
+      return;
+    }
 
     setIsSaving(true);
     try {
-      // TODO: Implement save to FHIR server
-      await new Promise<void>(resolve => setTimeout(() => resolve(), 1000));
+      const updated = applyProfileChanges(patient, {
+        firstName,
+        lastName,
+        email,
+        phone,
+        address,
+        city,
+        state,
+        zipCode,
+      });
+      const status = await updatePatientMutation.mutateAsync(updated);
+
+      switch (status) {
+        case 'sent':
+          Alert.alert('Success', 'Your profile has been updated.');
+          break;
+        case 'pending':
+          // Shown right away; sent from the outbox once back online
+          dispatch(updatePatient(updated));
+          Alert.alert(
+            'Saved Offline',
+            `Your changes will be sent to ${provider.name} when you're back online.`
+          );
+          break;
+        default:
+          Alert.alert(
+            'Not Saved',
+            'Your profile changed on the server or the update was rejected. Review it under Pending Changes.'
+          );
+      }
 
-      Alert.alert('Success', 'Your profile has been updated.');
       setHasChanges(false);
       navigation.goBack();
     } catch (error) {
@@ -120,7 +216,22 @@ const EditProfileScreen: React.FC = () => {
     } finally {
       setIsSaving(false);
     }
-  }, [hasChanges, navigation]);
+  }, [
+    hasChanges,
+    patient,
+    provider,
+    firstName,
+    lastName,
+    email,
+    phone,
+    address,
+    city,
+    state,
+    zipCode,
+    updatePatientMutation,
+    dispatch,
+    navigation,
+  ]);
 
   const handleCancel = useCallback(() => {
     if (hasChanges) {
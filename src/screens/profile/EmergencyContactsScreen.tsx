@@ -1,7 +1,8 @@
 /**
  * Emergency Contacts Screen
  *
- * Manage emergency contact information for the patient.
+ * Manage emergency contact information for the patient, with the advance
+ * directive flagged for emergencies shown first.
  */
 
 import React, { useState, useCallback } from 'react';
@@ -16,10 +17,14 @@ import {
   Modal,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 
 import { useAppSelector } from '../../store';
 import { selectIsDarkMode } from '../../store/slices/uiSlice';
+import { useEmergencyDirective } from '../../query/useFHIRData';
+import type { ProfileStackParamList } from '../../navigation/types';
 
 interface EmergencyContact {
   id: string;
@@ -125,8 +130,10 @@ const ContactCard: React.FC<ContactCardProps> = ({
 );
 
 const EmergencyContactsScreen: React.FC = () => {
+  const navigation = useNavigation<NativeStackNavigationProp<ProfileStackParamList>>();
   const insets = useSafeAreaInsets();
   const isDarkMode = useAppSelector(selectIsDarkMode);
+  const { data: emergencyDirective } = useEmergencyDirective();
 
   const [contacts, setContacts] = useState<EmergencyContact[]>([
     {
@@ -264,6 +271,23 @@ const EmergencyContactsScreen: React.FC = () => {
           paddingTop: 16,
         }}
       >
+        {emergencyDirective && (
+          <TouchableOpacity
+            style={[styles.directiveCard, { backgroundColor: isDarkMode ? '#1F2937' : '#FFFFFF' }]}
+            onPress={() => navigation.navigate('AdvanceDirectives')}
+            accessibilityLabel={`Advance directive: ${emergencyDirective.title}`}
+          >
+            <Icon name="alert-decagram" size={28} color="#DC2626" />
+            <View style={styles.directiveText}>
+              <Text style={styles.directiveLabel}>ADVANCE DIRECTIVE</Text>
+              <Text style={[styles.contactName, { color: isDarkMode ? '#F9FAFB' : '#111827' }]}>
+                {emergencyDirective.title}
+              </Text>
+            </View>
+            <Icon name="chevron-right" size={20} color={isDarkMode ? '#6B7280' : '#9CA3AF'} />
+          </TouchableOpacity>
+        )}
+
         {contacts.length === 0 ? (
           <View style={styles.emptyState}>
             <Icon
@@ -428,6 +452,26 @@ const styles = StyleSheet.create({
     padding: 16,
     marginBottom: 12,
   },
+  directiveCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+    borderLeftWidth: 4,
+    borderLeftColor: '#DC2626',
+  },
+  directiveText: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  directiveLabel: {
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 0.5,
+    color: '#DC2626',
+    marginBottom: 2,
+  },
   primaryCard: {
     borderWidth: 2,
     borderColor: '#22C55E',
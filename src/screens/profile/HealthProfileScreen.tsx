@@ -2,17 +2,38 @@
  * Health Profile Screen
  *
  * Displays comprehensive health profile information including
- * conditions, procedures, and health history.
+ * conditions, procedures, care plans, and health history.
  */
 
-import React, { useCallback } from 'react';
+import React, { useCallback, useMemo } from 'react';
 import { View, Text, ScrollView, TouchableOpacity, StyleSheet, RefreshControl } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 
-import { useAppSelector, useAppDispatch } from '../../store';
-import { selectIsDarkMode, setRefreshing, selectIsRefreshing } from '../../store/slices/uiSlice';
+import { useAppSelector } from '../../store';
+import { selectCurrentPatient } from '../../store/slices/authSlice';
+import { selectActiveProvider } from '../../store/slices/providersSlice';
+import { selectIsDarkMode } from '../../store/slices/uiSlice';
+import {
+  useAllergies,
+  useCarePlans,
+  useConditions,
+  useImmunizations,
+  useProcedures,
+} from '../../query/useFHIRData';
+import { Condition, ConditionHelpers } from '../../domain/entities/Condition';
+import { AllergyIntoleranceHelpers } from '../../domain/entities/AllergyIntolerance';
+import { ImmunizationHelpers } from '../../domain/entities/Immunization';
+import { ProcedureHelpers } from '../../domain/entities/Procedure';
+import { CarePlanHelpers } from '../../domain/entities/CarePlan';
+import type { ProfileStackParamList } from '../../navigation/types';
+
+type ProfileNavigationProp = NativeStackNavigationProp<ProfileStackParamList>;
+
+// Vaccines listed here; the full history is on the Immunizations screen
+const MAX_VACCINES_SHOWN = 5;
 
 interface HealthItemProps {
   title: string;
@@ -101,99 +122,145 @@ const Section: React.FC<SectionProps> = ({ title, children, isDark, emptyMessage
   </View>
 );
 
-// Mock data for health profile
-const mockConditions = [
-  {
-    id: '1',
-    name: 'Type 2 Diabetes Mellitus',
-    clinicalStatus: 'active',
-    onsetDate: 'January 2022',
-  },
-  {
-    id: '2',
-    name: 'Essential Hypertension',
-    clinicalStatus: 'active',
-    onsetDate: 'March 2020',
-  },
-  {
-    id: '3',
-    name: 'Seasonal Allergic Rhinitis',
-    clinicalStatus: 'resolved',
-    onsetDate: 'April 2019',
-  },
-];
-
-const mockProcedures = [
-  {
-    id: '1',
-    name: 'Appendectomy',
-    date: 'June 2021',
-    location: 'General Hospital',
-  },
-  {
-    id: '2',
-    name: 'Colonoscopy',
-    date: 'March 2023',
-    location: 'Medical Center',
-  },
-];
-
-const mockAllergies = [
-  {
-    id: '1',
-    substance: 'Penicillin',
-    reaction: 'Skin rash',
-    severity: 'Moderate',
-  },
-  {
-    id: '2',
-    substance: 'Peanuts',
-    reaction: 'Anaphylaxis',
-    severity: 'Severe',
-  },
-  {
-    id: '3',
-    substance: 'Latex',
-    reaction: 'Contact dermatitis',
-    severity: 'Mild',
-  },
-];
-
-const mockImmunizations = [
-  {
-    id: '1',
-    vaccine: 'COVID-19 mRNA',
-    date: 'November 2023',
-    status: 'Completed',
-  },
-  {
-    id: '2',
-    vaccine: 'Influenza',
-    date: 'October 2023',
-    status: 'Completed',
-  },
-  {
-    id: '3',
-    vaccine: 'Tdap',
-    date: 'May 2020',
-    status: 'Completed',
-  },
-];
+/**
+ * Map a condition's clinical status to the HealthItem badge
+ */
+const getConditionBadge = (condition: Condition): HealthItemProps['status'] => {
+  if (ConditionHelpers.isActive(condition)) {
+    return 'active';
+  }
+  return ConditionHelpers.getClinicalStatus(condition) === 'resolved' ? 'resolved' : 'inactive';
+};
+
+const getConditionDetail = (condition: Condition): string => {
+  const onset = ConditionHelpers.getOnsetDisplay(condition);
+  const severity = ConditionHelpers.getSeverityDisplay(condition);
+  return [onset && `Onset: ${onset}`, severity].filter(Boolean).join(' • ') || 'Onset unknown';
+};
 
 const HealthProfileScreen: React.FC = () => {
-  const _navigation = useNavigation();
+  const navigation = useNavigation<ProfileNavigationProp>();
   const insets = useSafeAreaInsets();
-  const dispatch = useAppDispatch();
 
+  const patient = useAppSelector(selectCurrentPatient);
+  const provider = useAppSelector(selectActiveProvider);
   const isDarkMode = useAppSelector(selectIsDarkMode);
-  const isRefreshing = useAppSelector(selectIsRefreshing);
+
+  // Fetch the problem list
+  const {
+    data: conditionResults = [],
+    refetch: refetchConditions,
+    isRefetching: isRefetchingConditions,
+  } = useConditions({
+    patientId: patient?.id || '',
+    providerId: provider?.id || '',
+    enabled: !!patient?.id && !!provider?.id,
+  });
+
+  // Fetch allergies
+  const {
+    data: allergyResults = [],
+    refetch: refetchAllergies,
+    isRefetching: isRefetchingAllergies,
+  } = useAllergies({
+    patientId: patient?.id || '',
+    providerId: provider?.id || '',
+    enabled: !!patient?.id && !!provider?.id,
+  });
+
+  const conditionGroups = useMemo(
+    () => ConditionHelpers.groupByStatus(conditionResults.map(r => r.resource)),
+    [conditionResults]
+  );
+
+  // Fetch immunizations
+  const {
+    data: immunizationResults = [],
+    refetch: refetchImmunizations,
+    isRefetching: isRefetchingImmunizations,
+  } = useImmunizations({
+    patientId: patient?.id || '',
+    providerId: provider?.id || '',
+    enabled: !!patient?.id && !!provider?.id,
+  });
+
+  const vaccineGroups = useMemo(
+    () => ImmunizationHelpers.groupByVaccine(immunizationResults.map(r => r.resource)),
+    [immunizationResults]
+  );
+  const immunizationCount = vaccineGroups.reduce((count, group) => count + group.doses.length, 0);
+
+  // Fetch procedures
+  const {
+    data: procedureResults = [],
+    refetch: refetchProcedures,
+    isRefetching: isRefetchingProcedures,
+  } = useProcedures({
+    patientId: patient?.id || '',
+    providerId: provider?.id || '',
+    enabled: !!patient?.id && !!provider?.id,
+  });
+
+  const procedures = useMemo(
+    () =>
+      ProcedureHelpers.sortByDate(
+        procedureResults.map(r => r.resource).filter(ProcedureHelpers.isDisplayable)
+      ),
+    [procedureResults]
+  );
+
+  const allergies = useMemo(
+    () => AllergyIntoleranceHelpers.getActiveSorted(allergyResults.map(r => r.resource)),
+    [allergyResults]
+  );
+
+  // Fetch active care plans; activities and goals are on the Care Plans screen
+  const {
+    data: carePlanResults = [],
+    refetch: refetchCarePlans,
+    isRefetching: isRefetchingCarePlans,
+  } = useCarePlans({
+    patientId: patient?.id || '',
+    providerId: provider?.id || '',
+    status: 'active',
+    enabled: !!patient?.id && !!provider?.id,
+  });
+
+  const carePlans = useMemo(() => carePlanResults.map(r => r.resource), [carePlanResults]);
 
   const handleRefresh = useCallback(() => {
-    dispatch(setRefreshing(true));
-    setTimeout(() => {
-      dispatch(setRefreshing(false));
-    }, 1500);
-  }, [dispatch]);
+    refetchConditions();
+    refetchAllergies();
+    refetchImmunizations();
+    refetchProcedures();
+    refetchCarePlans();
+  }, [
+    refetchConditions,
+    refetchAllergies,
+    refetchImmunizations,
+    refetchProcedures,
+    refetchCarePlans,
+  ]);
+
+  const renderConditions = (conditions: Condition[], showVerification = false) =>
+    conditions.length > 0 ? (
+      <View style={styles.itemsContainer}>
+        {conditions.map(condition => (
+          <HealthItem
+            key={condition.id}
+            title={ConditionHelpers.getDisplayName(condition)}
+            value={
+              showVerification
+                ? `${ConditionHelpers.getVerificationStatusDisplay(condition)} • ${getConditionDetail(condition)}`
+                : getConditionDetail(condition)
+            }
+            icon="stethoscope"
+            status={getConditionBadge(condition)}
+            isDark={isDarkMode}
+          />
+        ))}
+      </View>
+    ) : null;
 
   return (
     <ScrollView
@@ -203,7 +270,13 @@ const HealthProfileScreen: React.FC = () => {
       }}
       refreshControl={
         <RefreshControl
-          refreshing={isRefreshing}
+          refreshing={
+            isRefetchingConditions ||
+            isRefetchingAllergies ||
+            isRefetchingImmunizations ||
+            isRefetchingProcedures ||
+            isRefetchingCarePlans
+          }
           onRefresh={handleRefresh}
           tintColor={isDarkMode ? '#60A5FA' : '#3B82F6'}
         />
@@ -214,7 +287,7 @@ const HealthProfileScreen: React.FC = () => {
         <View style={[styles.statCard, { backgroundColor: isDarkMode ? '#1F2937' : '#FFFFFF' }]}>
           <Icon name="heart-pulse" size={24} color={isDarkMode ? '#F87171' : '#EF4444'} />
           <Text style={[styles.statValue, { color: isDarkMode ? '#F9FAFB' : '#111827' }]}>
-            {mockConditions.filter(c => c.clinicalStatus === 'active').length}
+            {conditionGroups.active.length}
           </Text>
           <Text style={[styles.statLabel, { color: isDarkMode ? '#9CA3AF' : '#6B7280' }]}>
             Active Conditions
@@ -224,7 +297,7 @@ const HealthProfileScreen: React.FC = () => {
         <View style={[styles.statCard, { backgroundColor: isDarkMode ? '#1F2937' : '#FFFFFF' }]}>
           <Icon name="alert-circle" size={24} color={isDarkMode ? '#FBBF24' : '#F59E0B'} />
           <Text style={[styles.statValue, { color: isDarkMode ? '#F9FAFB' : '#111827' }]}>
-            {mockAllergies.length}
+            {allergies.length}
           </Text>
           <Text style={[styles.statLabel, { color: isDarkMode ? '#9CA3AF' : '#6B7280' }]}>
             Allergies
@@ -234,7 +307,7 @@ const HealthProfileScreen: React.FC = () => {
         <View style={[styles.statCard, { backgroundColor: isDarkMode ? '#1F2937' : '#FFFFFF' }]}>
           <Icon name="needle" size={24} color={isDarkMode ? '#34D399' : '#10B981'} />
           <Text style={[styles.statValue, { color: isDarkMode ? '#F9FAFB' : '#111827' }]}>
-            {mockImmunizations.length}
+            {immunizationCount}
           </Text>
           <Text style={[styles.statLabel, { color: isDarkMode ? '#9CA3AF' : '#6B7280' }]}>
             Immunizations
@@ -243,66 +316,112 @@ const HealthProfileScreen: React.FC = () => {
       </View>
 
       {/* Conditions */}
-      <Section title="CURRENT CONDITIONS" isDark={isDarkMode}>
-        <View style={styles.itemsContainer}>
-          {mockConditions.map(condition => (
-            <HealthItem
-              key={condition.id}
-              title={condition.name}
-              value={`Onset: ${condition.onsetDate}`}
-              icon="stethoscope"
-              status={condition.clinicalStatus as 'active' | 'resolved'}
-              isDark={isDarkMode}
-            />
-          ))}
-        </View>
+      <Section title="CURRENT CONDITIONS" isDark={isDarkMode} emptyMessage="No active conditions">
+        {renderConditions(conditionGroups.active)}
+      </Section>
+
+      {conditionGroups.unconfirmed.length > 0 && (
+        <Section title="UNDER REVIEW" isDark={isDarkMode}>
+          {renderConditions(conditionGroups.unconfirmed, true)}
+        </Section>
+      )}
+
+      {conditionGroups.past.length > 0 && (
+        <Section title="PAST CONDITIONS" isDark={isDarkMode}>
+          {renderConditions(conditionGroups.past)}
+        </Section>
+      )}
+
+      {/* Care Plans */}
+      <Section title="CARE PLANS" isDark={isDarkMode} emptyMessage="No active care plans">
+        {carePlans.length > 0 && (
+          <View style={styles.itemsContainer}>
+            {carePlans.map((carePlan, index) => {
+              const activityCount = CarePlanHelpers.getActivities(carePlan).length;
+              const goalCount = CarePlanHelpers.getGoalIds(carePlan).length;
+              return (
+                <HealthItem
+                  key={carePlan.id || index}
+                  title={CarePlanHelpers.getTitle(carePlan)}
+                  value={`${activityCount} ${activityCount === 1 ? 'activity' : 'activities'} • ${goalCount} ${goalCount === 1 ? 'goal' : 'goals'}`}
+                  date={CarePlanHelpers.getPeriodDisplay(carePlan)}
+                  icon="clipboard-text-outline"
+                  isDark={isDarkMode}
+                  onPress={() => navigation.navigate('CarePlans')}
+                />
+              );
+            })}
+          </View>
+        )}
       </Section>
 
       {/* Allergies */}
-      <Section title="ALLERGIES" isDark={isDarkMode}>
-        <View style={styles.itemsContainer}>
-          {mockAllergies.map(allergy => (
-            <HealthItem
-              key={allergy.id}
-              title={allergy.substance}
-              value={`Reaction: ${allergy.reaction} • ${allergy.severity}`}
-              icon="alert-octagon"
-              isDark={isDarkMode}
-            />
-          ))}
-        </View>
+      <Section title="ALLERGIES" isDark={isDarkMode} emptyMessage="No known allergies">
+        {allergies.length > 0 && (
+          <View style={styles.itemsContainer}>
+            {allergies.map((allergy, index) => {
+              const reactions = AllergyIntoleranceHelpers.getManifestations(allergy);
+              const onset = AllergyIntoleranceHelpers.getOnsetDisplay(allergy);
+              return (
+                <HealthItem
+                  key={allergy.id || index}
+                  title={AllergyIntoleranceHelpers.getDisplayName(allergy)}
+                  value={`Reaction: ${reactions.join(', ') || 'Not recorded'} • ${AllergyIntoleranceHelpers.getCriticalityDisplay(allergy)}`}
+                  date={onset && `Onset: ${onset}`}
+                  icon={allergy.criticality === 'high' ? 'alert-octagon' : 'alert-circle-outline'}
+                  isDark={isDarkMode}
+                />
+              );
+            })}
+          </View>
+        )}
       </Section>
 
       {/* Immunizations */}
-      <Section title="IMMUNIZATIONS" isDark={isDarkMode}>
-        <View style={styles.itemsContainer}>
-          {mockImmunizations.map(immunization => (
-            <HealthItem
-              key={immunization.id}
-              title={immunization.vaccine}
-              value={immunization.status}
-              date={immunization.date}
-              icon="needle"
-              isDark={isDarkMode}
-            />
-          ))}
-        </View>
+      <Section title="IMMUNIZATIONS" isDark={isDarkMode} emptyMessage="No immunizations recorded">
+        {vaccineGroups.length > 0 && (
+          <View style={styles.itemsContainer}>
+            {vaccineGroups.slice(0, MAX_VACCINES_SHOWN).map(group => {
+              const latestDose = group.doses[group.doses.length - 1];
+              return (
+                <HealthItem
+                  key={group.vaccineCode}
+                  title={group.vaccineName}
+                  value={
+                    ImmunizationHelpers.getDoseDisplay(latestDose) ||
+                    `${group.doses.length} ${group.doses.length === 1 ? 'dose' : 'doses'}`
+                  }
+                  date={ImmunizationHelpers.getOccurrenceDisplay(latestDose)}
+                  icon="needle"
+                  isDark={isDarkMode}
+                  onPress={() => navigation.navigate('Immunizations')}
+                />
+              );
+            })}
+          </View>
+        )}
       </Section>
 
       {/* Procedures */}
-      <Section title="PROCEDURES" isDark={isDarkMode}>
-        <View style={styles.itemsContainer}>
-          {mockProcedures.map(procedure => (
-            <HealthItem
-              key={procedure.id}
-              title={procedure.name}
-              value={procedure.location}
-              date={procedure.date}
-              icon="hospital"
-              isDark={isDarkMode}
-            />
-          ))}
-        </View>
+      <Section title="PROCEDURES" isDark={isDarkMode} emptyMessage="No procedures recorded">
+        {procedures.length > 0 && (
+          <View style={styles.itemsContainer}>
+            {procedures.map((procedure, index) => (
+              <HealthItem
+                key={procedure.id || index}
+                title={ProcedureHelpers.getDisplayName(procedure)}
+                value={
+                  ProcedureHelpers.getLocationDisplay(procedure) ||
+                  ProcedureHelpers.getPerformerDisplay(procedure) ||
+                  ProcedureHelpers.getStatusDisplay(procedure)
+                }
+                date={ProcedureHelpers.getPerformedDisplay(procedure)}
+                icon="hospital"
+                isDark={isDarkMode}
+              />
+            ))}
+          </View>
+        )}
       </Section>
     </ScrollView>
   );
@@ -0,0 +1,269 @@
+/**
+ * Immunizations Screen
+ *
+ * Displays vaccine history grouped by vaccine, with dose numbers, and any
+ * due or overdue vaccines forecast by the provider.
+ */
+
+import React, { useMemo, useCallback } from 'react';
+import { View, Text, ScrollView, StyleSheet, RefreshControl } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+
+import { useAppSelector } from '../../store';
+import { selectCurrentPatient } from '../../store/slices/authSlice';
+import { selectActiveProvider } from '../../store/slices/providersSlice';
+import { selectIsDarkMode } from '../../store/slices/uiSlice';
+import { useImmunizations, useImmunizationRecommendations } from '../../query/useFHIRData';
+import { Loading } from '../../components/ui';
+import { ImmunizationHelpers, VaccineDoseGroup } from '../../domain/entities/Immunization';
+import {
+  ImmunizationRecommendationHelpers,
+  VaccineForecast,
+} from '../../domain/entities/ImmunizationRecommendation';
+
+interface ForecastItemProps {
+  forecast: VaccineForecast;
+  isDark: boolean;
+}
+
+const ForecastItem: React.FC<ForecastItemProps> = ({ forecast, isDark }) => {
+  const isOverdue = forecast.status === 'overdue';
+  const color = isOverdue ? '#EF4444' : '#F59E0B';
+
+  return (
+    <View style={[styles.row, { backgroundColor: isDark ? '#1F2937' : '#FFFFFF' }]}>
+      <Icon name={isOverdue ? 'alert-circle' : 'calendar-clock'} size={20} color={color} />
+      <View style={styles.rowContent}>
+        <Text style={[styles.rowTitle, { color: isDark ? '#F9FAFB' : '#111827' }]}>
+          {forecast.vaccineName}
+          {forecast.doseNumber !== undefined ? ` (dose ${forecast.doseNumber})` : ''}
+        </Text>
+        {forecast.dueDate && (
+          <Text style={[styles.rowDetail, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+            Due {forecast.dueDate.toLocaleDateString()}
+          </Text>
+        )}
+      </View>
+      <View style={[styles.badge, { backgroundColor: `${color}20` }]}>
+        <Text style={[styles.badgeText, { color }]}>{isOverdue ? 'Overdue' : 'Due'}</Text>
+      </View>
+    </View>
+  );
+};
+
+interface VaccineGroupProps {
+  group: VaccineDoseGroup;
+  isDark: boolean;
+}
+
+const VaccineGroup: React.FC<VaccineGroupProps> = ({ group, isDark }) => (
+  <View style={[styles.groupCard, { backgroundColor: isDark ? '#1F2937' : '#FFFFFF' }]}>
+    <View style={styles.groupHeader}>
+      <Icon name="needle" size={20} color={isDark ? '#34D399' : '#10B981'} />
+      <Text style={[styles.groupTitle, { color: isDark ? '#F9FAFB' : '#111827' }]}>
+        {group.vaccineName}
+      </Text>
+      <Text style={[styles.groupCount, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+        {group.doses.length} {group.doses.length === 1 ? 'dose' : 'doses'}
+      </Text>
+    </View>
+    {group.doses.map((dose, index) => (
+      <View key={dose.id || index} style={styles.doseRow}>
+        <Text style={[styles.doseLabel, { color: isDark ? '#D1D5DB' : '#4B5563' }]}>
+          {ImmunizationHelpers.getDoseDisplay(dose) || `Dose ${index + 1}`}
+        </Text>
+        <Text style={[styles.doseDate, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+          {ImmunizationHelpers.getOccurrenceDisplay(dose)}
+        </Text>
+      </View>
+    ))}
+  </View>
+);
+
+const ImmunizationsScreen: React.FC = () => {
+  const insets = useSafeAreaInsets();
+
+  const patient = useAppSelector(selectCurrentPatient);
+  const provider = useAppSelector(selectActiveProvider);
+  const isDark = useAppSelector(selectIsDarkMode);
+
+  const queryOptions = {
+    patientId: patient?.id || '',
+    providerId: provider?.id || '',
+    enabled: !!patient?.id && !!provider?.id,
+  };
+
+  const {
+    data: immunizationResults = [],
+    isLoading,
+    refetch: refetchImmunizations,
+    isRefetching,
+  } = useImmunizations(queryOptions);
+  const { data: recommendationResults = [], refetch: refetchRecommendations } =
+    useImmunizationRecommendations(queryOptions);
+
+  const vaccineGroups = useMemo(
+    () => ImmunizationHelpers.groupByVaccine(immunizationResults.map(r => r.resource)),
+    [immunizationResults]
+  );
+
+  const forecasts = useMemo(
+    () =>
+      ImmunizationRecommendationHelpers.getForecasts(recommendationResults.map(r => r.resource)),
+    [recommendationResults]
+  );
+
+  const handleRefresh = useCallback(() => {
+    refetchImmunizations();
+    refetchRecommendations();
+  }, [refetchImmunizations, refetchRecommendations]);
+
+  if (isLoading && vaccineGroups.length === 0) {
+    return <Loading message="Loading immunizations..." />;
+  }
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: isDark ? '#111827' : '#F3F4F6' }]}
+      contentContainerStyle={{ paddingBottom: insets.bottom + 20 }}
+      refreshControl={
+        <RefreshControl
+          refreshing={isRefetching}
+          onRefresh={handleRefresh}
+          tintColor={isDark ? '#60A5FA' : '#3B82F6'}
+        />
+      }
+    >
+      {/* Forecast */}
+      {forecasts.length > 0 && (
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+            DUE & OVERDUE
+          </Text>
+          <View style={styles.itemsContainer}>
+            {forecasts.map((forecast, index) => (
+              <ForecastItem
+                key={`${forecast.vaccineName}-${index}`}
+                forecast={forecast}
+                isDark={isDark}
+              />
+            ))}
+          </View>
+        </View>
+      )}
+
+      {/* History */}
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+          VACCINE HISTORY
+        </Text>
+        {vaccineGroups.length > 0 ? (
+          vaccineGroups.map(group => (
+            <VaccineGroup key={group.vaccineCode} group={group} isDark={isDark} />
+          ))
+        ) : (
+          <View
+            style={[styles.emptyContainer, { backgroundColor: isDark ? '#1F2937' : '#FFFFFF' }]}
+          >
+            <Text style={[styles.emptyText, { color: isDark ? '#6B7280' : '#9CA3AF' }]}>
+              No immunizations recorded
+            </Text>
+          </View>
+        )}
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  section: {
+    marginTop: 24,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    letterSpacing: 0.5,
+    marginBottom: 8,
+    marginHorizontal: 16,
+  },
+  itemsContainer: {
+    marginHorizontal: 16,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 14,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E5E7EB',
+  },
+  rowContent: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  rowDetail: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+  },
+  badgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  groupCard: {
+    marginHorizontal: 16,
+    marginBottom: 12,
+    padding: 14,
+    borderRadius: 12,
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  groupTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  groupCount: {
+    fontSize: 12,
+  },
+  doseRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+    paddingLeft: 28,
+  },
+  doseLabel: {
+    fontSize: 14,
+  },
+  doseDate: {
+    fontSize: 13,
+  },
+  emptyContainer: {
+    marginHorizontal: 16,
+    padding: 24,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 14,
+  },
+});
+
+export default ImmunizationsScreen;
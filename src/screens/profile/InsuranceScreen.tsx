@@ -0,0 +1,391 @@
+/**
+ * Insurance Screen
+ *
+ * Shows the patient's insurance cards (Coverage) and their claims
+ * (ExplanationOfBenefit) with billed, allowed and patient-responsibility
+ * amounts, following the CARIN Blue Button profiles.
+ */
+
+import React, { useMemo, useCallback } from 'react';
+import { View, Text, ScrollView, StyleSheet, RefreshControl } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+
+import { useAppSelector } from '../../store';
+import { selectCurrentPatient } from '../../store/slices/authSlice';
+import { selectActiveProvider } from '../../store/slices/providersSlice';
+import { selectIsDarkMode } from '../../store/slices/uiSlice';
+import { useCoverage, useClaims } from '../../query/useFHIRData';
+import { Loading } from '../../components/ui';
+import { Coverage, CoverageHelpers } from '../../domain/entities/Coverage';
+import {
+  ExplanationOfBenefit,
+  ExplanationOfBenefitHelpers,
+} from '../../domain/entities/ExplanationOfBenefit';
+
+interface CardFieldProps {
+  label: string;
+  value?: string;
+}
+
+const CardField: React.FC<CardFieldProps> = ({ label, value }) => (
+  <View style={styles.cardField}>
+    <Text style={styles.cardFieldLabel}>{label}</Text>
+    <Text style={styles.cardFieldValue}>{value || '—'}</Text>
+  </View>
+);
+
+interface InsuranceCardProps {
+  coverage: Coverage;
+  isDark: boolean;
+}
+
+const InsuranceCard: React.FC<InsuranceCardProps> = ({ coverage, isDark }) => {
+  const isActive = CoverageHelpers.isActive(coverage);
+  const type = CoverageHelpers.getTypeDisplay(coverage);
+  const plan = CoverageHelpers.getPlanDisplay(coverage);
+
+  return (
+    <View
+      style={[
+        styles.insuranceCard,
+        { backgroundColor: isActive ? (isDark ? '#1E40AF' : '#2563EB') : '#6B7280' },
+      ]}
+    >
+      <View style={styles.cardHeader}>
+        <Icon name="card-account-details-outline" size={24} color="#FFFFFF" />
+        <Text style={styles.payerName}>{CoverageHelpers.getPayerName(coverage)}</Text>
+        {!isActive && <Text style={styles.inactiveLabel}>INACTIVE</Text>}
+      </View>
+      {(type || plan) && (
+        <Text style={styles.planText}>{[type, plan].filter(Boolean).join(' • ')}</Text>
+      )}
+      <View style={styles.cardFields}>
+        <CardField label="MEMBER ID" value={CoverageHelpers.getMemberId(coverage)} />
+        <CardField label="GROUP" value={CoverageHelpers.getGroupDisplay(coverage)} />
+      </View>
+      <CardField label="COVERAGE PERIOD" value={CoverageHelpers.getPeriodDisplay(coverage)} />
+    </View>
+  );
+};
+
+interface AmountProps {
+  label: string;
+  value: string;
+  isDark: boolean;
+  highlight?: boolean;
+}
+
+const Amount: React.FC<AmountProps> = ({ label, value, isDark, highlight }) => (
+  <View style={styles.amount}>
+    <Text style={[styles.amountLabel, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>{label}</Text>
+    <Text
+      style={[
+        styles.amountValue,
+        { color: highlight ? (isDark ? '#FBBF24' : '#D97706') : isDark ? '#F9FAFB' : '#111827' },
+      ]}
+    >
+      {value}
+    </Text>
+  </View>
+);
+
+interface ClaimItemProps {
+  claim: ExplanationOfBenefit;
+  isDark: boolean;
+}
+
+const ClaimItem: React.FC<ClaimItemProps> = ({ claim, isDark }) => {
+  const { formatMoney, getTotal } = ExplanationOfBenefitHelpers;
+  const serviceDate = ExplanationOfBenefitHelpers.getServiceDate(claim);
+  const provider = ExplanationOfBenefitHelpers.getProviderDisplay(claim);
+  const services = ExplanationOfBenefitHelpers.getServices(claim);
+
+  return (
+    <View style={[styles.claim, { borderBottomColor: isDark ? '#374151' : '#E5E7EB' }]}>
+      <View style={styles.claimHeader}>
+        <Text style={[styles.claimTitle, { color: isDark ? '#F9FAFB' : '#111827' }]}>
+          {provider || ExplanationOfBenefitHelpers.getTypeDisplay(claim)}
+        </Text>
+        {serviceDate && (
+          <Text style={[styles.claimDate, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+            {serviceDate.toLocaleDateString()}
+          </Text>
+        )}
+      </View>
+      <Text
+        style={[styles.claimDetail, { color: isDark ? '#9CA3AF' : '#6B7280' }]}
+        numberOfLines={2}
+      >
+        {[ExplanationOfBenefitHelpers.getTypeDisplay(claim), ...services].join(' • ')}
+      </Text>
+      <View style={styles.amounts}>
+        <Amount label="Billed" value={formatMoney(getTotal(claim, 'BILLED'))} isDark={isDark} />
+        <Amount label="Allowed" value={formatMoney(getTotal(claim, 'ALLOWED'))} isDark={isDark} />
+        <Amount
+          label="You owe"
+          value={formatMoney(getTotal(claim, 'PATIENT_RESPONSIBILITY'))}
+          isDark={isDark}
+          highlight
+        />
+      </View>
+    </View>
+  );
+};
+
+const InsuranceScreen: React.FC = () => {
+  const insets = useSafeAreaInsets();
+
+  const patient = useAppSelector(selectCurrentPatient);
+  const provider = useAppSelector(selectActiveProvider);
+  const isDark = useAppSelector(selectIsDarkMode);
+
+  const patientId = patient?.id || '';
+  const providerId = provider?.id || '';
+  const enabled = !!patientId && !!providerId;
+
+  const {
+    data: coverageResults = [],
+    isLoading,
+    refetch: refetchCoverage,
+    isRefetching,
+  } = useCoverage(patientId, providerId, enabled);
+  const {
+    data: claimResults = [],
+    isLoading: isLoadingClaims,
+    refetch: refetchClaims,
+  } = useClaims({ patientId, providerId, enabled });
+
+  const coverages = useMemo(
+    () =>
+      coverageResults
+        .map(r => r.resource)
+        .filter(coverage => coverage.status !== 'entered-in-error')
+        .sort((a, b) => Number(CoverageHelpers.isActive(b)) - Number(CoverageHelpers.isActive(a))),
+    [coverageResults]
+  );
+
+  const claims = useMemo(
+    () =>
+      ExplanationOfBenefitHelpers.sortByServiceDate(
+        claimResults.map(r => r.resource).filter(claim => claim.status !== 'entered-in-error')
+      ),
+    [claimResults]
+  );
+
+  const handleRefresh = useCallback(() => {
+    refetchCoverage();
+    refetchClaims();
+  }, [refetchCoverage, refetchClaims]);
+
+  if (isLoading && coverageResults.length === 0) {
+    return <Loading message="Loading insurance..." />;
+  }
+
+  const { formatMoney, sumTotals } = ExplanationOfBenefitHelpers;
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: isDark ? '#111827' : '#F3F4F6' }]}
+      contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 20 }]}
+      refreshControl={
+        <RefreshControl
+          refreshing={isRefetching}
+          onRefresh={handleRefresh}
+          tintColor={isDark ? '#60A5FA' : '#3B82F6'}
+        />
+      }
+    >
+      <Text style={[styles.sectionTitle, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+        INSURANCE CARDS
+      </Text>
+      {coverages.length === 0 ? (
+        <View
+          style={[
+            styles.card,
+            styles.emptyCard,
+            { backgroundColor: isDark ? '#1F2937' : '#FFFFFF' },
+          ]}
+        >
+          <Icon name="card-off-outline" size={40} color={isDark ? '#4B5563' : '#9CA3AF'} />
+          <Text style={[styles.emptyText, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+            No insurance coverage found
+          </Text>
+        </View>
+      ) : (
+        coverages.map((coverage, index) => (
+          <InsuranceCard key={coverage.id || index} coverage={coverage} isDark={isDark} />
+        ))
+      )}
+
+      <Text style={[styles.sectionTitle, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>CLAIMS</Text>
+      {isLoadingClaims ? (
+        <Loading message="Loading claims..." />
+      ) : claims.length === 0 ? (
+        <View
+          style={[
+            styles.card,
+            styles.emptyCard,
+            { backgroundColor: isDark ? '#1F2937' : '#FFFFFF' },
+          ]}
+        >
+          <Icon name="file-document-outline" size={40} color={isDark ? '#4B5563' : '#9CA3AF'} />
+          <Text style={[styles.emptyText, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+            No claims found
+          </Text>
+        </View>
+      ) : (
+        <>
+          <View style={[styles.card, { backgroundColor: isDark ? '#1F2937' : '#FFFFFF' }]}>
+            <Text style={[styles.summaryTitle, { color: isDark ? '#F9FAFB' : '#111827' }]}>
+              {claims.length} {claims.length === 1 ? 'claim' : 'claims'}
+            </Text>
+            <View style={styles.amounts}>
+              <Amount
+                label="Total billed"
+                value={formatMoney(sumTotals(claims, 'BILLED'))}
+                isDark={isDark}
+              />
+              <Amount
+                label="Total allowed"
+                value={formatMoney(sumTotals(claims, 'ALLOWED'))}
+                isDark={isDark}
+              />
+              <Amount
+                label="Total you owe"
+                value={formatMoney(sumTotals(claims, 'PATIENT_RESPONSIBILITY'))}
+                isDark={isDark}
+                highlight
+              />
+            </View>
+          </View>
+          <View style={[styles.card, { backgroundColor: isDark ? '#1F2937' : '#FFFFFF' }]}>
+            {claims.map((claim, index) => (
+              <ClaimItem key={claim.id || index} claim={claim} isDark={isDark} />
+            ))}
+          </View>
+        </>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    letterSpacing: 0.5,
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  card: {
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  emptyCard: {
+    alignItems: 'center',
+    paddingVertical: 32,
+  },
+  emptyText: {
+    fontSize: 15,
+    fontWeight: '500',
+    marginTop: 12,
+  },
+  insuranceCard: {
+    padding: 20,
+    borderRadius: 16,
+    marginBottom: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  payerName: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    marginLeft: 10,
+  },
+  inactiveLabel: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    letterSpacing: 0.5,
+  },
+  planText: {
+    fontSize: 13,
+    color: '#DBEAFE',
+    marginTop: 6,
+  },
+  cardFields: {
+    flexDirection: 'row',
+    marginTop: 16,
+  },
+  cardField: {
+    flex: 1,
+    marginBottom: 8,
+  },
+  cardFieldLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    letterSpacing: 0.5,
+    color: '#BFDBFE',
+  },
+  cardFieldValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginTop: 2,
+  },
+  summaryTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  claim: {
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  claimHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  claimTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    marginRight: 8,
+  },
+  claimDate: {
+    fontSize: 12,
+  },
+  claimDetail: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  amounts: {
+    flexDirection: 'row',
+    marginTop: 8,
+  },
+  amount: {
+    flex: 1,
+  },
+  amountLabel: {
+    fontSize: 11,
+  },
+  amountValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+});
+
+export default InsuranceScreen;
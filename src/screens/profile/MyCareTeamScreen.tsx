@@ -0,0 +1,125 @@
+/**
+ * My Care Team Screen
+ *
+ * Lists the clinicians the patient has seen, built from the participants on
+ * their recent encounters. Practitioner references are resolved through the
+ * provider directory for specialties, addresses and phone numbers.
+ */
+
+import React, { useMemo } from 'react';
+import { View, Text, ScrollView, StyleSheet, RefreshControl } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+
+import { useAppSelector } from '../../store';
+import { selectCurrentPatient } from '../../store/slices/authSlice';
+import { selectActiveProvider } from '../../store/slices/providersSlice';
+import { selectIsDarkMode } from '../../store/slices/uiSlice';
+import { useDirectory, useEncounters } from '../../query/useFHIRData';
+import { Loading } from '../../components/ui';
+import { ContactCard } from '../../components/health';
+import { DirectoryHelpers } from '../../domain/entities/Directory';
+
+const MyCareTeamScreen: React.FC = () => {
+  const insets = useSafeAreaInsets();
+
+  const patient = useAppSelector(selectCurrentPatient);
+  const provider = useAppSelector(selectActiveProvider);
+  const isDark = useAppSelector(selectIsDarkMode);
+
+  const patientId = patient?.id || '';
+  const providerId = provider?.id || '';
+
+  const {
+    data: encounterResults = [],
+    isLoading,
+    refetch,
+    isRefetching,
+  } = useEncounters({ patientId, providerId, enabled: !!patientId && !!providerId });
+
+  const encounters = useMemo(() => encounterResults.map(r => r.resource), [encounterResults]);
+  const { data: references = {}, isLoading: isResolving } = useDirectory(
+    providerId,
+    DirectoryHelpers.getEncounterReferences(encounters),
+    encounters.length > 0
+  );
+
+  const careTeam = useMemo(
+    () => DirectoryHelpers.getCareTeam(encounters, references),
+    [encounters, references]
+  );
+
+  if ((isLoading && encounterResults.length === 0) || (isResolving && careTeam.length === 0)) {
+    return <Loading message="Loading care team..." />;
+  }
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: isDark ? '#111827' : '#F3F4F6' }]}
+      contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 20 }]}
+      refreshControl={
+        <RefreshControl
+          refreshing={isRefetching}
+          onRefresh={refetch}
+          tintColor={isDark ? '#60A5FA' : '#3B82F6'}
+        />
+      }
+    >
+      {careTeam.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Icon name="account-group-outline" size={64} color={isDark ? '#4B5563' : '#9CA3AF'} />
+          <Text style={[styles.emptyText, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+            No care team found
+          </Text>
+          <Text style={[styles.emptySubtext, { color: isDark ? '#6B7280' : '#9CA3AF' }]}>
+            Clinicians from your visits will appear here
+          </Text>
+        </View>
+      ) : (
+        careTeam.map((contact, index) => (
+          <ContactCard
+            key={contact.reference || index}
+            name={contact.name}
+            specialties={contact.specialties}
+            organization={contact.organization}
+            address={contact.address}
+            phone={contact.phone}
+            footer={[
+              `${contact.visitCount} ${contact.visitCount === 1 ? 'visit' : 'visits'}`,
+              contact.lastSeen && `Last seen ${contact.lastSeen.toLocaleDateString()}`,
+            ]
+              .filter(Boolean)
+              .join(' • ')}
+          />
+        ))
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    paddingTop: 96,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    fontSize: 14,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+});
+
+export default MyCareTeamScreen;
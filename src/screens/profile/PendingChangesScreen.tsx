@@ -0,0 +1,289 @@
+/**
+ * Pending Changes Screen
+ *
+ * Lists writes waiting in the outbox with their status. Pending writes are
+ * sent automatically when the device is online; conflicts and rejected
+ * writes can be retried, overwritten or discarded.
+ */
+
+import React, { useCallback } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+
+import { useAppSelector } from '../../store';
+import { selectIsDarkMode, selectIsOnline } from '../../store/slices/uiSlice';
+import { selectConnectedProviders } from '../../store/slices/providersSlice';
+import { useOutbox } from '../../hooks';
+import { OutboxItem, OutboxItemStatus } from '../../data/fhir/WriteOutbox';
+
+const STATUS_DISPLAY: Record<
+  OutboxItemStatus,
+  { label: string; icon: string; color: string; background: string }
+> = {
+  pending: { label: 'Waiting', icon: 'clock-outline', color: '#92400E', background: '#FEF3C7' },
+  sending: { label: 'Sending', icon: 'upload', color: '#1E40AF', background: '#DBEAFE' },
+  conflict: {
+    label: 'Conflict',
+    icon: 'source-merge',
+    color: '#991B1B',
+    background: '#FEE2E2',
+  },
+  failed: { label: 'Rejected', icon: 'alert-circle', color: '#991B1B', background: '#FEE2E2' },
+};
+
+interface OutboxItemCardProps {
+  item: OutboxItem;
+  providerName: string;
+  isDark: boolean;
+  onRetry: () => void;
+  onOverwrite: () => void;
+  onDiscard: () => void;
+}
+
+const OutboxItemCard: React.FC<OutboxItemCardProps> = ({
+  item,
+  providerName,
+  isDark,
+  onRetry,
+  onOverwrite,
+  onDiscard,
+}) => {
+  const status = STATUS_DISPLAY[item.status];
+
+  return (
+    <View style={[styles.card, { backgroundColor: isDark ? '#1F2937' : '#FFFFFF' }]}>
+      <View style={styles.header}>
+        <Icon name={status.icon} size={24} color={isDark ? '#60A5FA' : '#2563EB'} />
+        <View style={styles.headerText}>
+          <Text style={[styles.title, { color: isDark ? '#F9FAFB' : '#111827' }]}>
+            {item.description}
+          </Text>
+          <Text style={[styles.infoText, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+            {[providerName, new Date(item.createdAt).toLocaleString()].join(' • ')}
+          </Text>
+        </View>
+        <View style={[styles.statusBadge, { backgroundColor: status.background }]}>
+          {item.status === 'sending' ? (
+            <ActivityIndicator size="small" color={status.color} />
+          ) : (
+            <Text style={[styles.statusText, { color: status.color }]}>{status.label}</Text>
+          )}
+        </View>
+      </View>
+
+      {item.error && (
+        <Text style={[styles.errorText, { color: isDark ? '#FCA5A5' : '#B91C1C' }]}>
+          {item.error}
+          {item.attempts > 1 ? ` (${item.attempts} attempts)` : ''}
+        </Text>
+      )}
+
+      {item.status !== 'sending' && (
+        <View style={[styles.actions, { borderTopColor: isDark ? '#374151' : '#E5E7EB' }]}>
+          {item.status === 'conflict' && item.write.kind === 'update' && (
+            <TouchableOpacity style={styles.actionButton} onPress={onOverwrite}>
+              <Text style={[styles.actionText, { color: '#2563EB' }]}>Keep Mine</Text>
+            </TouchableOpacity>
+          )}
+          {item.status === 'failed' && (
+            <TouchableOpacity style={styles.actionButton} onPress={onRetry}>
+              <Text style={[styles.actionText, { color: '#2563EB' }]}>Retry</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.actionButton} onPress={onDiscard}>
+            <Text style={[styles.actionText, { color: '#DC2626' }]}>Discard</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const PendingChangesScreen: React.FC = () => {
+  const insets = useSafeAreaInsets();
+
+  const isDark = useAppSelector(selectIsDarkMode);
+  const isOnline = useAppSelector(selectIsOnline);
+  const providers = useAppSelector(selectConnectedProviders);
+
+  const { items, pendingCount, isReplaying, replay, retry, overwrite, discard } = useOutbox();
+
+  const getProviderName = useCallback(
+    (providerId: string) => providers.find(p => p.id === providerId)?.name || 'Unknown provider',
+    [providers]
+  );
+
+  const handleOverwrite = useCallback(
+    (item: OutboxItem) => {
+      Alert.alert(
+        'Keep Your Changes?',
+        'This replaces the version on the server, including any changes made there since you edited it.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Keep Mine', style: 'destructive', onPress: () => overwrite(item.id) },
+        ]
+      );
+    },
+    [overwrite]
+  );
+
+  const handleDiscard = useCallback(
+    (item: OutboxItem) => {
+      Alert.alert('Discard Change?', `"${item.description}" will not be sent.`, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: () => discard(item.id) },
+      ]);
+    },
+    [discard]
+  );
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: isDark ? '#111827' : '#F3F4F6' }]}
+      contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 20 }]}
+    >
+      <View style={[styles.banner, { backgroundColor: isDark ? '#1F2937' : '#FFFFFF' }]}>
+        <Icon
+          name={isOnline ? 'cloud-check-outline' : 'cloud-off-outline'}
+          size={20}
+          color={isOnline ? '#16A34A' : '#9CA3AF'}
+        />
+        <Text style={[styles.bannerText, { color: isDark ? '#E5E7EB' : '#374151' }]}>
+          {isOnline
+            ? 'Online. Waiting changes are sent automatically.'
+            : 'Offline. Changes will be sent when you reconnect.'}
+        </Text>
+        {isOnline && pendingCount > 0 && (
+          <TouchableOpacity onPress={replay} disabled={isReplaying}>
+            {isReplaying ? (
+              <ActivityIndicator size="small" color={isDark ? '#60A5FA' : '#2563EB'} />
+            ) : (
+              <Text style={[styles.actionText, { color: '#2563EB' }]}>Send Now</Text>
+            )}
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {items.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Icon name="check-circle-outline" size={64} color={isDark ? '#4B5563' : '#9CA3AF'} />
+          <Text style={[styles.emptyText, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+            All changes sent
+          </Text>
+          <Text style={[styles.emptySubtext, { color: isDark ? '#6B7280' : '#9CA3AF' }]}>
+            Changes you make while offline will wait here until they reach your provider
+          </Text>
+        </View>
+      ) : (
+        items.map(item => (
+          <OutboxItemCard
+            key={item.id}
+            item={item}
+            providerName={getProviderName(item.providerId)}
+            isDark={isDark}
+            onRetry={() => retry(item.id)}
+            onOverwrite={() => handleOverwrite(item)}
+            onDiscard={() => handleDiscard(item)}
+          />
+        ))
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  bannerText: {
+    flex: 1,
+    fontSize: 14,
+    marginHorizontal: 8,
+  },
+  card: {
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  headerText: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  infoText: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
+  statusText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  errorText: {
+    fontSize: 13,
+    marginTop: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 12,
+    paddingTop: 8,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  actionButton: {
+    marginLeft: 20,
+    paddingVertical: 4,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    paddingTop: 96,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    fontSize: 14,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+});
+
+export default PendingChangesScreen;
@@ -16,6 +16,7 @@ import { useAppSelector, useAppDispatch } from '../../store';
 import { selectIsDarkMode, setRefreshing, selectIsRefreshing } from '../../store/slices/uiSlice';
 import { selectCurrentPatient } from '../../store/slices/authSlice';
 import { selectConnectedProviders } from '../../store/slices/providersSlice';
+import { useOutbox } from '../../hooks';
 import type { ProfileStackParamList } from '../../navigation/types';
 
 type ProfileNavigationProp = NativeStackNavigationProp<ProfileStackParamList>;
@@ -77,6 +78,7 @@ const ProfileHomeScreen: React.FC = () => {
   const isRefreshing = useAppSelector(selectIsRefreshing);
   const patient = useAppSelector(selectCurrentPatient);
   const connectedProviders = useAppSelector(selectConnectedProviders);
+  const { items: outboxItems, attentionCount } = useOutbox();
 
   const handleRefresh = useCallback(() => {
     dispatch(setRefreshing(true));
@@ -201,6 +203,12 @@ const ProfileHomeScreen: React.FC = () => {
           onPress={() => navigation.navigate('Conditions')}
           isDark={isDarkMode}
         />
+        <ProfileMenuItem
+          icon="account-group"
+          label="My Care Team"
+          onPress={() => navigation.navigate('MyCareTeam')}
+          isDark={isDarkMode}
+        />
       </View>
 
       {/* Emergency Information */}
@@ -247,6 +255,19 @@ const ProfileHomeScreen: React.FC = () => {
           onPress={() => navigation.navigate('EditProfile')}
           isDark={isDarkMode}
         />
+        <ProfileMenuItem
+          icon="cloud-upload-outline"
+          label="Pending Changes"
+          value={
+            attentionCount > 0
+              ? `${attentionCount} need attention`
+              : outboxItems.length > 0
+                ? `${outboxItems.length} waiting`
+                : undefined
+          }
+          onPress={() => navigation.navigate('PendingChanges')}
+          isDark={isDarkMode}
+        />
         <ProfileMenuItem
           icon="shield-lock"
           label="Privacy & Security"
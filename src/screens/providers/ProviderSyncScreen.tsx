@@ -0,0 +1,280 @@
+/**
+ * Provider Sync Screen
+ *
+ * Sync status of a provider: when it syncs automatically next, whether it
+ * is backing off after failed syncs, and its sync history.
+ */
+
+import React, { useCallback } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRoute, RouteProp } from '@react-navigation/native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+
+import { useAppSelector } from '../../store';
+import { selectProviderById } from '../../store/slices/providersSlice';
+import { selectRecordsByProvider } from '../../store/slices/recordsSlice';
+import { selectConnectionType, selectIsDarkMode, selectIsOnline } from '../../store/slices/uiSlice';
+import { useSyncHistory, useSyncSettings } from '../../hooks';
+import { syncScheduler } from '../../query/syncScheduler';
+import { isMeteredConnection, SyncHistoryEntry, SyncTrigger } from '../../data/sync/SyncScheduler';
+import { ProvidersStackParamList } from '../../navigation/types';
+
+type ProviderSyncRouteProp = RouteProp<ProvidersStackParamList, 'ProviderSync'>;
+
+const TRIGGER_LABELS: Record<SyncTrigger, string> = {
+  manual: 'Manual',
+  interval: 'Scheduled',
+  resume: 'On app open',
+};
+
+const describeEntry = (entry: SyncHistoryEntry): string => {
+  if (entry.status === 'failed') {
+    return entry.error || 'Sync failed';
+  }
+
+  const counts = [`${entry.recordsFetched ?? 0} records`];
+  if (entry.recordsDeleted) {
+    counts.push(`${entry.recordsDeleted} removed`);
+  }
+  return `${entry.mode === 'full' ? 'Full sync' : 'Changes only'}: ${counts.join(', ')}`;
+};
+
+interface HistoryRowProps {
+  entry: SyncHistoryEntry;
+  isDark: boolean;
+  isLast: boolean;
+}
+
+const HistoryRow: React.FC<HistoryRowProps> = ({ entry, isDark, isLast }) => {
+  const succeeded = entry.status === 'success';
+  const duration = Math.max(
+    0,
+    Math.round((Date.parse(entry.finishedAt) - Date.parse(entry.startedAt)) / 1000)
+  );
+
+  return (
+    <View
+      style={[
+        styles.historyRow,
+        !isLast && { borderBottomWidth: 1, borderBottomColor: isDark ? '#374151' : '#E5E7EB' },
+      ]}
+    >
+      <Icon
+        name={succeeded ? 'check-circle' : 'alert-circle'}
+        size={20}
+        color={succeeded ? '#16A34A' : '#DC2626'}
+      />
+      <View style={styles.historyText}>
+        <Text style={[styles.historyTitle, { color: isDark ? '#F9FAFB' : '#111827' }]}>
+          {describeEntry(entry)}
+        </Text>
+        <Text style={[styles.infoText, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+          {[
+            new Date(entry.startedAt).toLocaleString(),
+            TRIGGER_LABELS[entry.trigger],
+            `${duration}s`,
+          ].join(' • ')}
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+const ProviderSyncScreen: React.FC = () => {
+  const insets = useSafeAreaInsets();
+  const route = useRoute<ProviderSyncRouteProp>();
+  const { providerId } = route.params;
+
+  const isDark = useAppSelector(selectIsDarkMode);
+  const isOnline = useAppSelector(selectIsOnline);
+  const connectionType = useAppSelector(selectConnectionType);
+  const provider = useAppSelector(state => selectProviderById(state, providerId));
+  const records = useAppSelector(selectRecordsByProvider)[providerId];
+
+  const { settings } = useSyncSettings();
+  const { history, backoffUntil } = useSyncHistory(providerId);
+
+  const isSyncing = records?.syncStatus === 'syncing';
+
+  const handleSyncNow = useCallback(() => {
+    if (provider) {
+      syncScheduler.syncNow(provider);
+    }
+  }, [provider]);
+
+  // Explain when the next automatic sync happens, or why it does not
+  const getScheduleText = (): string => {
+    if (settings.intervalMinutes <= 0) {
+      return 'Automatic sync is off';
+    }
+    if (!isOnline) {
+      return 'Waiting for a connection';
+    }
+    if (settings.respectMeteredConnection && isMeteredConnection(connectionType)) {
+      return 'Paused while on cellular data';
+    }
+
+    const due = records?.lastSync
+      ? Date.parse(records.lastSync) + settings.intervalMinutes * 60 * 1000
+      : Date.now();
+    const next = Math.max(due, backoffUntil?.getTime() ?? 0);
+    if (next <= Date.now()) {
+      return 'Next automatic sync: shortly';
+    }
+    return `Next automatic sync: ${new Date(next).toLocaleString()}`;
+  };
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: isDark ? '#111827' : '#F3F4F6' }]}
+      contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 20 }]}
+    >
+      <View style={[styles.card, { backgroundColor: isDark ? '#1F2937' : '#FFFFFF' }]}>
+        <Text style={[styles.title, { color: isDark ? '#F9FAFB' : '#111827' }]}>
+          {provider?.name || route.params.providerName}
+        </Text>
+        <Text style={[styles.infoText, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+          {records?.lastSync
+            ? `Last synced ${new Date(records.lastSync).toLocaleString()}`
+            : 'Not synced yet'}
+        </Text>
+        <Text style={[styles.infoText, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+          {getScheduleText()}
+        </Text>
+
+        {backoffUntil && (
+          <View style={[styles.banner, { backgroundColor: isDark ? '#451A03' : '#FEF3C7' }]}>
+            <Icon name="timer-sand" size={18} color={isDark ? '#FCD34D' : '#92400E'} />
+            <Text style={[styles.bannerText, { color: isDark ? '#FCD34D' : '#92400E' }]}>
+              Recent syncs failed. Automatic syncs are retried less often until one succeeds.
+            </Text>
+          </View>
+        )}
+
+        <TouchableOpacity
+          style={[styles.syncButton, { backgroundColor: isDark ? '#1E40AF' : '#2563EB' }]}
+          onPress={handleSyncNow}
+          disabled={isSyncing || !provider}
+        >
+          {isSyncing ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <>
+              <Icon name="sync" size={18} color="#FFFFFF" />
+              <Text style={styles.syncButtonText}>Sync Now</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <Text style={[styles.sectionTitle, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>HISTORY</Text>
+
+      {history.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Icon name="history" size={48} color={isDark ? '#4B5563' : '#9CA3AF'} />
+          <Text style={[styles.emptyText, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+            No syncs yet
+          </Text>
+        </View>
+      ) : (
+        <View style={[styles.card, { backgroundColor: isDark ? '#1F2937' : '#FFFFFF' }]}>
+          {history.map((entry, index) => (
+            <HistoryRow
+              key={entry.startedAt}
+              entry={entry}
+              isDark={isDark}
+              isLast={index === history.length - 1}
+            />
+          ))}
+        </View>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  card: {
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  infoText: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 8,
+    marginTop: 12,
+  },
+  bannerText: {
+    flex: 1,
+    fontSize: 13,
+    marginLeft: 8,
+  },
+  syncButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    marginTop: 16,
+    gap: 6,
+  },
+  syncButtonText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 8,
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 10,
+  },
+  historyText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  historyTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingTop: 48,
+  },
+  emptyText: {
+    fontSize: 15,
+    marginTop: 12,
+  },
+});
+
+export default ProviderSyncScreen;
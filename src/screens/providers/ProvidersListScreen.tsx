@@ -5,7 +5,7 @@
  * add new providers, sync data, and manage connections.
  */
 
-import React, { useState, useCallback } from 'react';
+import React, { useCallback } from 'react';
 import {
   View,
   Text,
@@ -19,47 +19,71 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 
-import { useAppSelector, useAppDispatch } from '../../store';
+import { useAppSelector } from '../../store';
 import { selectConnectedProviders } from '../../store/slices/providersSlice';
+import { selectRecordsByProvider, ProviderSyncProgress } from '../../store/slices/recordsSlice';
 import { selectIsDarkMode } from '../../store/slices/uiSlice';
 import { ProviderCard } from '../../components/health';
 import { Provider } from '../../domain/entities/Provider';
 import { secureStorage } from '../../infrastructure/storage/SecureStorage';
+import { encryptedRecordStore } from '../../infrastructure/storage/EncryptedRecordStore';
+import { syncScheduler } from '../../query/syncScheduler';
+import { queryClient, queryKeys } from '../../query/queryClient';
+
+/**
+ * Human readable paging progress, e.g. "Observation: page 3 (250 of 1200)"
+ */
+const formatSyncProgress = (progress?: ProviderSyncProgress): string | undefined => {
+  if (!progress) {
+    return undefined;
+  }
+
+  const count =
+    progress.total !== undefined
+      ? `${progress.recordsFetched} of ${progress.total}`
+      : `${progress.recordsFetched}`;
+
+  return `${progress.resourceType}: page ${progress.pageNumber} (${count})`;
+};
 
 const ProvidersListScreen: React.FC = () => {
   const navigation = useNavigation();
-  const _dispatch = useAppDispatch();
   const insets = useSafeAreaInsets();
 
   const providers = useAppSelector(selectConnectedProviders);
+  const recordsByProvider = useAppSelector(selectRecordsByProvider);
   const isDark = useAppSelector(selectIsDarkMode);
 
-  const [syncingProviders, setSyncingProviders] = useState<Set<string>>(new Set());
-
-  // Handle sync for a provider
-  const handleSync = useCallback(async (provider: Provider) => {
-    setSyncingProviders(prev => new Set(prev).add(provider.id));
-
-    try {
-      // In production, this would trigger a full data sync
-      await new Promise<void>(resolve => setTimeout(() => resolve(), 2000)); // Simulate sync
+  // Handle sync for a provider (incremental since the last sync unless fullResync)
+  const handleSync = useCallback(async (provider: Provider, fullResync = false) => {
+    const entry = await syncScheduler.syncNow(provider, { fullResync });
 
+    if (entry.status === 'success') {
       Alert.alert('Sync Complete', `Successfully synced data from ${provider.name}`, [
         { text: 'OK' },
       ]);
-    } catch (error) {
+    } else {
       Alert.alert('Sync Failed', `Failed to sync data from ${provider.name}. Please try again.`, [
         { text: 'OK' },
       ]);
-    } finally {
-      setSyncingProviders(prev => {
-        const next = new Set(prev);
-        next.delete(provider.id);
-        return next;
-      });
     }
   }, []);
 
+  // Offer a full resync, discarding the sync cursor
+  const handleFullResync = useCallback(
+    (provider: Provider) => {
+      Alert.alert(
+        'Full Resync',
+        `Download all records from ${provider.name} again instead of only recent changes?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Resync', onPress: () => handleSync(provider, true) },
+        ]
+      );
+    },
+    [handleSync]
+  );
+
   // Handle disconnect
   const handleDisconnect = useCallback((provider: Provider) => {
     Alert.alert(
@@ -74,6 +98,12 @@ const ProvidersListScreen: React.FC = () => {
             try {
               // Clear provider tokens
               await secureStorage.clearProviderTokens(provider.id);
+              await encryptedRecordStore.removeProvider(provider.id);
+              await syncScheduler.removeProvider(provider.id);
+
+              // A directive flagged from this provider can no longer be opened
+              await secureStorage.clearEmergencyDirective(provider.id);
+              queryClient.invalidateQueries({ queryKey: queryKeys.advanceDirectives.emergency });
 
               // In production, would dispatch action to remove from store
               Alert.alert('Disconnected', `Successfully disconnected from ${provider.name}`);
@@ -95,9 +125,18 @@ const ProvidersListScreen: React.FC = () => {
     [navigation]
   );
 
+  // Handle sync history
+  const handleSyncHistory = useCallback(
+    (provider: Provider) => {
+      // @ts-expect-error - Navigation types are complex
+      navigation.navigate('ProviderSync', { providerId: provider.id, providerName: provider.name });
+    },
+    [navigation]
+  );
+
   const renderProvider = useCallback(
     ({ item }: { item: Provider }) => {
-      const isSyncing = syncingProviders.has(item.id);
+      const isSyncing = recordsByProvider[item.id]?.syncStatus === 'syncing';
       return (
         <View style={styles.providerItem}>
           <ProviderCard
@@ -106,6 +145,7 @@ const ProvidersListScreen: React.FC = () => {
             logoUrl={item.iconUrl}
             status={isSyncing ? 'syncing' : item.isConnected ? 'connected' : 'disconnected'}
             lastSynced={item.lastSyncedAt}
+            syncProgress={formatSyncProgress(recordsByProvider[item.id]?.syncProgress)}
             onPress={() => handleProviderPress(item)}
             onSync={() => handleSync(item)}
           />
@@ -113,6 +153,7 @@ const ProvidersListScreen: React.FC = () => {
             <TouchableOpacity
               style={[styles.actionButton, { backgroundColor: isDark ? '#1E40AF' : '#2563EB' }]}
               onPress={() => handleSync(item)}
+              onLongPress={() => handleFullResync(item)}
               disabled={isSyncing}
             >
               {isSyncing ? (
@@ -125,6 +166,14 @@ const ProvidersListScreen: React.FC = () => {
               )}
             </TouchableOpacity>
 
+            <TouchableOpacity
+              style={[styles.actionButton, { backgroundColor: isDark ? '#374151' : '#6B7280' }]}
+              onPress={() => handleSyncHistory(item)}
+            >
+              <Icon name="history" size={16} color="#FFFFFF" />
+              <Text style={styles.actionButtonText}>History</Text>
+            </TouchableOpacity>
+
             <TouchableOpacity
               style={[styles.actionButton, { backgroundColor: isDark ? '#7F1D1D' : '#EF4444' }]}
               onPress={() => handleDisconnect(item)}
@@ -136,7 +185,15 @@ const ProvidersListScreen: React.FC = () => {
         </View>
       );
     },
-    [isDark, syncingProviders, handleSync, handleDisconnect, handleProviderPress]
+    [
+      isDark,
+      recordsByProvider,
+      handleSync,
+      handleFullResync,
+      handleSyncHistory,
+      handleDisconnect,
+      handleProviderPress,
+    ]
   );
 
   const renderEmptyState = () => (
@@ -0,0 +1,404 @@
+/**
+ * Appointments Screen
+ *
+ * Displays upcoming and past appointments, kept current by WebSocket
+ * appointment events. Booking and cancelling are offered when the
+ * provider's server allows Appointment create/update.
+ */
+
+import React, { useMemo, useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  SectionList,
+  TouchableOpacity,
+  StyleSheet,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+
+import { useAppSelector } from '../../store';
+import { selectCurrentPatient } from '../../store/slices/authSlice';
+import { selectActiveProvider } from '../../store/slices/providersSlice';
+import { selectIsDarkMode } from '../../store/slices/uiSlice';
+import {
+  useAppointments,
+  useAppointmentCapabilities,
+  useAppointmentUpdates,
+  useCancelAppointment,
+} from '../../query/useFHIRData';
+import { Loading } from '../../components/ui';
+import { Appointment, AppointmentHelpers } from '../../domain/entities/Appointment';
+import type { RecordsStackParamList } from '../../navigation/types';
+
+// Helper to get status color
+const getStatusColor = (appointment: Appointment, isDark: boolean): string => {
+  switch (appointment.status) {
+    case 'booked':
+    case 'arrived':
+    case 'checked-in':
+      return '#3B82F6';
+    case 'fulfilled':
+      return isDark ? '#10B981' : '#059669';
+    case 'cancelled':
+    case 'noshow':
+      return '#EF4444';
+    case 'proposed':
+    case 'pending':
+    case 'waitlist':
+      return '#F59E0B';
+    default:
+      return isDark ? '#9CA3AF' : '#6B7280';
+  }
+};
+
+interface AppointmentItemProps {
+  appointment: Appointment;
+  isDark: boolean;
+  isCancelling: boolean;
+  onCancel?: () => void;
+}
+
+const AppointmentItem: React.FC<AppointmentItemProps> = ({
+  appointment,
+  isDark,
+  isCancelling,
+  onCancel,
+}) => {
+  const practitioner = AppointmentHelpers.getPractitionerDisplay(appointment);
+  const location = AppointmentHelpers.getLocationDisplay(appointment);
+  const duration = AppointmentHelpers.getDurationMinutes(appointment);
+
+  return (
+    <View style={[styles.appointmentItem, { backgroundColor: isDark ? '#1F2937' : '#FFFFFF' }]}>
+      <View style={styles.header}>
+        <Text style={[styles.title, { color: isDark ? '#F9FAFB' : '#111827' }]} numberOfLines={2}>
+          {AppointmentHelpers.getTitle(appointment)}
+        </Text>
+        <View
+          style={[styles.statusBadge, { backgroundColor: getStatusColor(appointment, isDark) }]}
+        >
+          <Text style={styles.statusText}>{AppointmentHelpers.getStatusDisplay(appointment)}</Text>
+        </View>
+      </View>
+
+      <View style={styles.infoRow}>
+        <Icon name="calendar-clock" size={14} color={isDark ? '#6B7280' : '#9CA3AF'} />
+        <Text style={[styles.infoText, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+          {AppointmentHelpers.getDateTimeDisplay(appointment)}
+          {duration ? ` • ${duration} min` : ''}
+        </Text>
+      </View>
+
+      {practitioner && (
+        <View style={styles.infoRow}>
+          <Icon name="doctor" size={14} color={isDark ? '#6B7280' : '#9CA3AF'} />
+          <Text style={[styles.infoText, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+            {practitioner}
+          </Text>
+        </View>
+      )}
+
+      {location && (
+        <View style={styles.infoRow}>
+          <Icon name="map-marker" size={14} color={isDark ? '#6B7280' : '#9CA3AF'} />
+          <Text style={[styles.infoText, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+            {location}
+          </Text>
+        </View>
+      )}
+
+      {appointment.patientInstruction && (
+        <Text style={[styles.instruction, { color: isDark ? '#D1D5DB' : '#4B5563' }]}>
+          {appointment.patientInstruction}
+        </Text>
+      )}
+
+      {onCancel && (
+        <TouchableOpacity
+          style={styles.cancelButton}
+          onPress={onCancel}
+          disabled={isCancelling}
+          accessibilityLabel="Cancel appointment"
+        >
+          <Text style={styles.cancelButtonText}>
+            {isCancelling ? 'Cancelling...' : 'Cancel Appointment'}
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const AppointmentsScreen: React.FC = () => {
+  const navigation = useNavigation<NativeStackNavigationProp<RecordsStackParamList>>();
+  const insets = useSafeAreaInsets();
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+
+  const patient = useAppSelector(selectCurrentPatient);
+  const provider = useAppSelector(selectActiveProvider);
+  const isDark = useAppSelector(selectIsDarkMode);
+
+  const patientId = patient?.id || '';
+  const providerId = provider?.id || '';
+
+  const {
+    data: appointmentResults = [],
+    isLoading,
+    refetch,
+    isRefetching,
+  } = useAppointments({ patientId, providerId, enabled: !!patientId && !!providerId });
+  useAppointmentUpdates(patientId, providerId);
+
+  const { canBook, canCancel } = useAppointmentCapabilities(providerId);
+  const cancelAppointment = useCancelAppointment(providerId);
+
+  const sections = useMemo(() => {
+    const { upcoming, past } = AppointmentHelpers.splitUpcomingPast(
+      appointmentResults.map(r => r.resource)
+    );
+    return [
+      { title: 'UPCOMING', data: upcoming },
+      { title: 'PAST', data: past },
+    ].filter(section => section.data.length > 0);
+  }, [appointmentResults]);
+
+  const handleCancel = useCallback(
+    (appointment: Appointment) => {
+      const appointmentId = appointment.id;
+      if (!appointmentId) {
+        return;
+      }
+
+      Alert.alert(
+        'Cancel Appointment',
+        `Cancel ${AppointmentHelpers.getTitle(appointment)} on ${AppointmentHelpers.getDateTimeDisplay(appointment)}?`,
+        [
+          { text: 'Keep', style: 'cancel' },
+          {
+            text: 'Cancel Appointment',
+            style: 'destructive',
+            onPress: () => {
+              setCancellingId(appointmentId);
+              cancelAppointment.mutate(
+                { appointment, reason: 'Cancelled by patient' },
+                {
+                  onSuccess: status => {
+                    if (status === 'pending') {
+                      Alert.alert(
+                        'Cancelled Offline',
+                        "The cancellation will be sent to your provider when you're back online."
+                      );
+                    } else if (status === 'conflict') {
+                      Alert.alert(
+                        'Cancellation Failed',
+                        'This appointment was changed by your provider. Review it under Pending Changes.'
+                      );
+                      refetch();
+                    } else if (status === 'failed') {
+                      Alert.alert(
+                        'Cancellation Failed',
+                        'Your provider rejected the cancellation. Review it under Pending Changes.'
+                      );
+                    }
+                  },
+                  onError: () => {
+                    Alert.alert(
+                      'Cancellation Failed',
+                      'Unable to cancel this appointment. Please try again or contact your provider.'
+                    );
+                  },
+                  onSettled: () => setCancellingId(null),
+                }
+              );
+            },
+          },
+        ]
+      );
+    },
+    [cancelAppointment, refetch]
+  );
+
+  const renderAppointment = useCallback(
+    ({ item }: { item: Appointment }) => (
+      <AppointmentItem
+        appointment={item}
+        isDark={isDark}
+        isCancelling={cancellingId === item.id}
+        onCancel={
+          canCancel && AppointmentHelpers.canCancel(item) ? () => handleCancel(item) : undefined
+        }
+      />
+    ),
+    [isDark, cancellingId, canCancel, handleCancel]
+  );
+
+  if (isLoading && appointmentResults.length === 0) {
+    return <Loading message="Loading appointments..." />;
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: isDark ? '#111827' : '#F9FAFB' }]}>
+      {canBook && (
+        <TouchableOpacity
+          style={styles.bookButton}
+          onPress={() => navigation.navigate('BookAppointment', { providerId })}
+          accessibilityLabel="Book an appointment"
+        >
+          <Icon name="calendar-plus" size={20} color="#FFFFFF" />
+          <Text style={styles.bookButtonText}>Book Appointment</Text>
+        </TouchableOpacity>
+      )}
+
+      {sections.length > 0 ? (
+        <SectionList
+          sections={sections}
+          keyExtractor={(item, index) => item.id || String(index)}
+          renderItem={renderAppointment}
+          renderSectionHeader={({ section }) => (
+            <Text style={[styles.sectionTitle, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+              {section.title}
+            </Text>
+          )}
+          stickySectionHeadersEnabled={false}
+          contentContainerStyle={[styles.listContent, { paddingBottom: insets.bottom + 100 }]}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefetching}
+              onRefresh={refetch}
+              tintColor={isDark ? '#60A5FA' : '#2563EB'}
+            />
+          }
+          showsVerticalScrollIndicator={false}
+        />
+      ) : (
+        <View style={styles.emptyContainer}>
+          <Icon name="calendar-blank" size={64} color={isDark ? '#4B5563' : '#9CA3AF'} />
+          <Text style={[styles.emptyText, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+            No appointments found
+          </Text>
+          <Text style={[styles.emptySubtext, { color: isDark ? '#6B7280' : '#9CA3AF' }]}>
+            {canBook
+              ? 'Book a visit with your provider to see it here'
+              : 'Connect a healthcare provider to see your appointments'}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  bookButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#2563EB',
+    marginHorizontal: 16,
+    marginTop: 12,
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+  bookButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  listContent: {
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  appointmentItem: {
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 4,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    flex: 1,
+    marginRight: 8,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  statusText: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+    gap: 4,
+  },
+  infoText: {
+    fontSize: 12,
+  },
+  instruction: {
+    fontSize: 13,
+    marginTop: 8,
+    lineHeight: 18,
+  },
+  cancelButton: {
+    alignSelf: 'flex-start',
+    marginTop: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#EF4444',
+  },
+  cancelButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    fontSize: 14,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+});
+
+export default AppointmentsScreen;
@@ -0,0 +1,325 @@
+/**
+ * Book Appointment Screen
+ *
+ * Lets the patient pick a provider schedule and one of its free slots
+ * over the next two weeks, then requests an Appointment for it.
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+
+import { useAppSelector } from '../../store';
+import { selectCurrentPatient } from '../../store/slices/authSlice';
+import { selectIsDarkMode } from '../../store/slices/uiSlice';
+import { useSchedules, useAvailableSlots, useBookAppointment } from '../../query/useFHIRData';
+import { Loading } from '../../components/ui';
+import { AppointmentHelpers } from '../../domain/entities/Appointment';
+import { Schedule, ScheduleHelpers } from '../../domain/entities/Schedule';
+import { Slot, SlotHelpers } from '../../domain/entities/Slot';
+import { PatientHelpers } from '../../domain/entities/Patient';
+import type { RecordsStackParamList } from '../../navigation/types';
+
+type Props = NativeStackScreenProps<RecordsStackParamList, 'BookAppointment'>;
+
+const BOOKING_WINDOW_DAYS = 14;
+
+const formatDay = (date: string): string =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'short',
+    day: 'numeric',
+  });
+
+const BookAppointmentScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { providerId } = route.params;
+  const insets = useSafeAreaInsets();
+
+  const patient = useAppSelector(selectCurrentPatient);
+  const isDark = useAppSelector(selectIsDarkMode);
+
+  const [schedule, setSchedule] = useState<Schedule | null>(null);
+  const [slot, setSlot] = useState<Slot | null>(null);
+
+  // Fixed for the lifetime of the screen so the slot query key is stable
+  const [bookingWindow] = useState(() => {
+    const from = new Date();
+    const to = new Date(from.getTime() + BOOKING_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    return { from: from.toISOString(), to: to.toISOString() };
+  });
+
+  const { data: scheduleResults = [], isLoading: isLoadingSchedules } = useSchedules(providerId);
+  const { data: slotResults = [], isLoading: isLoadingSlots } = useAvailableSlots({
+    scheduleId: schedule?.id || '',
+    providerId,
+    dateFrom: bookingWindow.from,
+    dateTo: bookingWindow.to,
+    enabled: !!schedule?.id,
+  });
+  const bookAppointment = useBookAppointment(providerId);
+
+  const schedules = useMemo(
+    () => scheduleResults.map(r => r.resource).filter(ScheduleHelpers.isActive),
+    [scheduleResults]
+  );
+  const days = useMemo(
+    () => SlotHelpers.groupByDay(slotResults.map(r => r.resource)),
+    [slotResults]
+  );
+
+  const handleSelectSchedule = (selected: Schedule) => {
+    setSchedule(selected);
+    setSlot(null);
+  };
+
+  const handleBook = () => {
+    if (!slot || !schedule || !patient?.id) {
+      return;
+    }
+
+    const request = AppointmentHelpers.createBookingRequest(
+      slot,
+      { reference: `Patient/${patient.id}`, display: PatientHelpers.getDisplayName(patient) },
+      schedule.actor
+    );
+
+    bookAppointment.mutate(request, {
+      onSuccess: status => {
+        switch (status) {
+          case 'sent':
+            Alert.alert(
+              'Appointment Requested',
+              'Your provider will confirm the appointment shortly.',
+              [{ text: 'OK', onPress: () => navigation.goBack() }]
+            );
+            break;
+          case 'pending':
+            Alert.alert(
+              'Requested Offline',
+              "Your request will be sent to your provider when you're back online.",
+              [{ text: 'OK', onPress: () => navigation.goBack() }]
+            );
+            break;
+          default:
+            Alert.alert(
+              'Booking Failed',
+              'This time may no longer be available. Please choose another time, and discard the request under Pending Changes.'
+            );
+            setSlot(null);
+        }
+      },
+      onError: () => {
+        Alert.alert('Booking Failed', 'Unable to request this appointment. Please try again.');
+      },
+    });
+  };
+
+  if (isLoadingSchedules) {
+    return <Loading message="Loading schedules..." />;
+  }
+
+  const textColor = isDark ? '#F9FAFB' : '#111827';
+  const subtextColor = isDark ? '#9CA3AF' : '#6B7280';
+  const cardColor = isDark ? '#1F2937' : '#FFFFFF';
+
+  return (
+    <View style={[styles.container, { backgroundColor: isDark ? '#111827' : '#F9FAFB' }]}>
+      <ScrollView contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 120 }]}>
+        <Text style={[styles.sectionTitle, { color: subtextColor }]}>CHOOSE A CLINICIAN</Text>
+        {schedules.length === 0 ? (
+          <Text style={[styles.placeholder, { color: subtextColor }]}>
+            No schedules are open for online booking.
+          </Text>
+        ) : (
+          schedules.map(item => {
+            const isSelected = item.id === schedule?.id;
+            const specialty = ScheduleHelpers.getSpecialtyDisplay(item);
+            return (
+              <TouchableOpacity
+                key={item.id}
+                style={[
+                  styles.scheduleItem,
+                  { backgroundColor: cardColor },
+                  isSelected && styles.selected,
+                ]}
+                onPress={() => handleSelectSchedule(item)}
+              >
+                <Icon name="doctor" size={24} color={isDark ? '#60A5FA' : '#2563EB'} />
+                <View style={styles.scheduleText}>
+                  <Text style={[styles.scheduleName, { color: textColor }]}>
+                    {ScheduleHelpers.getDisplayName(item)}
+                  </Text>
+                  {specialty && (
+                    <Text style={[styles.scheduleDetail, { color: subtextColor }]}>
+                      {specialty}
+                    </Text>
+                  )}
+                </View>
+              </TouchableOpacity>
+            );
+          })
+        )}
+
+        {schedule && (
+          <>
+            <Text style={[styles.sectionTitle, { color: subtextColor }]}>CHOOSE A TIME</Text>
+            {isLoadingSlots ? (
+              <ActivityIndicator color="#2563EB" />
+            ) : days.length === 0 ? (
+              <Text style={[styles.placeholder, { color: subtextColor }]}>
+                No open times in the next {BOOKING_WINDOW_DAYS} days.
+              </Text>
+            ) : (
+              days.map(day => (
+                <View key={day.date} style={styles.day}>
+                  <Text style={[styles.dayTitle, { color: textColor }]}>{formatDay(day.date)}</Text>
+                  <View style={styles.slotGrid}>
+                    {day.slots.map(item => {
+                      const isSelected = item.id === slot?.id;
+                      return (
+                        <TouchableOpacity
+                          key={item.id}
+                          style={[
+                            styles.slotButton,
+                            { backgroundColor: isSelected ? '#2563EB' : cardColor },
+                          ]}
+                          onPress={() => setSlot(item)}
+                        >
+                          <Text
+                            style={[
+                              styles.slotText,
+                              { color: isSelected ? '#FFFFFF' : isDark ? '#60A5FA' : '#2563EB' },
+                            ]}
+                          >
+                            {SlotHelpers.getTimeDisplay(item)}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+              ))
+            )}
+          </>
+        )}
+      </ScrollView>
+
+      <View style={[styles.footer, { paddingBottom: insets.bottom + 16 }]}>
+        <TouchableOpacity
+          style={[styles.bookButton, (!slot || bookAppointment.isPending) && styles.disabled]}
+          onPress={handleBook}
+          disabled={!slot || bookAppointment.isPending}
+        >
+          {bookAppointment.isPending ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <Text style={styles.bookButtonText}>
+              {slot ? `Request ${SlotHelpers.getTimeDisplay(slot)}` : 'Select a Time'}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  placeholder: {
+    fontSize: 14,
+    marginBottom: 16,
+  },
+  scheduleItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 8,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  selected: {
+    borderColor: '#2563EB',
+  },
+  scheduleText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  scheduleName: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  scheduleDetail: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  day: {
+    marginBottom: 16,
+  },
+  dayTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  slotGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  slotButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#2563EB',
+  },
+  slotText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  footer: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  bookButton: {
+    backgroundColor: '#2563EB',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  bookButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
+
+export default BookAppointmentScreen;
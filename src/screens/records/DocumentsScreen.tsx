@@ -0,0 +1,220 @@
+/**
+ * Documents Screen
+ *
+ * Lists clinical notes and scanned documents (DocumentReference). Opening
+ * a document hands its primary attachment to the document viewer, which
+ * downloads it and shows it for its content type.
+ */
+
+import React, { useMemo, useCallback } from 'react';
+import { View, Text, FlatList, TouchableOpacity, StyleSheet, RefreshControl } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+
+import { useAppSelector } from '../../store';
+import { selectCurrentPatient } from '../../store/slices/authSlice';
+import { selectActiveProvider } from '../../store/slices/providersSlice';
+import { selectIsDarkMode } from '../../store/slices/uiSlice';
+import { useDocumentReferences } from '../../query/useFHIRData';
+import { useAttachmentViewer } from '../../hooks';
+import { Loading } from '../../components/ui';
+import {
+  DocumentReference,
+  DocumentReferenceHelpers,
+  DocumentViewerType,
+} from '../../domain/entities/DocumentReference';
+
+const VIEWER_ICONS: Record<DocumentViewerType, string> = {
+  pdf: 'file-pdf-box',
+  image: 'file-image-outline',
+  text: 'file-document-outline',
+  html: 'file-document-outline',
+};
+
+interface DocumentItemProps {
+  document: DocumentReference;
+  isDark: boolean;
+  onPress: () => void;
+}
+
+const DocumentItem: React.FC<DocumentItemProps> = ({ document, isDark, onPress }) => {
+  const attachment = DocumentReferenceHelpers.getPrimaryAttachment(document);
+  const viewer = DocumentReferenceHelpers.getViewerType(attachment?.contentType);
+  const date = DocumentReferenceHelpers.getDate(document);
+  const author = DocumentReferenceHelpers.getAuthorDisplay(document);
+  const category = DocumentReferenceHelpers.getCategoryDisplay(document);
+
+  return (
+    <TouchableOpacity
+      style={[styles.documentItem, { backgroundColor: isDark ? '#1F2937' : '#FFFFFF' }]}
+      onPress={onPress}
+      disabled={!viewer}
+      accessibilityLabel={`Open ${DocumentReferenceHelpers.getTitle(document)}`}
+    >
+      <Icon
+        name={viewer ? VIEWER_ICONS[viewer] : 'file-question-outline'}
+        size={28}
+        color={viewer ? (isDark ? '#60A5FA' : '#2563EB') : isDark ? '#4B5563' : '#9CA3AF'}
+      />
+      <View style={styles.documentText}>
+        <Text style={[styles.title, { color: isDark ? '#F9FAFB' : '#111827' }]} numberOfLines={2}>
+          {DocumentReferenceHelpers.getTitle(document)}
+        </Text>
+        <Text style={[styles.infoText, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+          {[date?.toLocaleDateString(), category, author].filter(Boolean).join(' • ')}
+        </Text>
+        {!viewer && (
+          <Text style={[styles.infoText, { color: isDark ? '#6B7280' : '#9CA3AF' }]}>
+            This document format can&apos;t be displayed
+          </Text>
+        )}
+      </View>
+      {viewer && <Icon name="chevron-right" size={20} color={isDark ? '#6B7280' : '#9CA3AF'} />}
+    </TouchableOpacity>
+  );
+};
+
+const DocumentsScreen: React.FC = () => {
+  const insets = useSafeAreaInsets();
+
+  const patient = useAppSelector(selectCurrentPatient);
+  const provider = useAppSelector(selectActiveProvider);
+  const isDark = useAppSelector(selectIsDarkMode);
+
+  const patientId = patient?.id || '';
+  const providerId = provider?.id || '';
+
+  const {
+    data: documentResults = [],
+    isLoading,
+    refetch,
+    isRefetching,
+  } = useDocumentReferences({ patientId, providerId, enabled: !!patientId && !!providerId });
+  const { open } = useAttachmentViewer(providerId);
+
+  const documents = useMemo(
+    () =>
+      DocumentReferenceHelpers.sortByDate(
+        documentResults
+          .map(r => r.resource)
+          .filter(document => document.status !== 'entered-in-error')
+      ),
+    [documentResults]
+  );
+
+  const handleOpen = useCallback(
+    (document: DocumentReference) => {
+      const attachment = DocumentReferenceHelpers.getPrimaryAttachment(document);
+      if (document.id && attachment) {
+        open(
+          {
+            resourceType: 'DocumentReference',
+            resourceId: document.id,
+            attachmentIndex: DocumentReferenceHelpers.getAttachments(document).indexOf(attachment),
+          },
+          DocumentReferenceHelpers.getTitle(document)
+        );
+      }
+    },
+    [open]
+  );
+
+  const renderDocument = useCallback(
+    ({ item }: { item: DocumentReference }) => (
+      <DocumentItem document={item} isDark={isDark} onPress={() => handleOpen(item)} />
+    ),
+    [isDark, handleOpen]
+  );
+
+  if (isLoading && documentResults.length === 0) {
+    return <Loading message="Loading documents..." />;
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: isDark ? '#111827' : '#F9FAFB' }]}>
+      {documents.length > 0 ? (
+        <FlatList
+          data={documents}
+          keyExtractor={(item, index) => item.id || String(index)}
+          renderItem={renderDocument}
+          contentContainerStyle={[styles.listContent, { paddingBottom: insets.bottom + 100 }]}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefetching}
+              onRefresh={refetch}
+              tintColor={isDark ? '#60A5FA' : '#2563EB'}
+            />
+          }
+          showsVerticalScrollIndicator={false}
+        />
+      ) : (
+        <View style={styles.emptyContainer}>
+          <Icon
+            name="file-document-multiple-outline"
+            size={64}
+            color={isDark ? '#4B5563' : '#9CA3AF'}
+          />
+          <Text style={[styles.emptyText, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+            No documents found
+          </Text>
+          <Text style={[styles.emptySubtext, { color: isDark ? '#6B7280' : '#9CA3AF' }]}>
+            Clinical notes and scanned documents from your providers will appear here
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  listContent: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  documentItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  documentText: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  infoText: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    fontSize: 14,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+});
+
+export default DocumentsScreen;
@@ -1,26 +1,149 @@
 /**
  * Encounter Detail Screen
+ *
+ * Shows a visit, the clinicians involved and the procedures performed
+ * during it. Practitioner and location references are resolved through the
+ * provider directory for names, specialties and contact details.
  */
 
-import React from 'react';
-import { View, Text, StyleSheet, SafeAreaView, ScrollView } from 'react-native';
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, SafeAreaView, ScrollView, ActivityIndicator } from 'react-native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { RecordsStackParamList } from '../../navigation/types';
+import { useDirectory, useEncounter, useEncounterProcedures } from '../../query/useFHIRData';
+import { EncounterHelpers } from '../../domain/entities/Encounter';
+import { ProcedureHelpers } from '../../domain/entities/Procedure';
+import { DirectoryHelpers } from '../../domain/entities/Directory';
+import { ContactCard } from '../../components/health';
 
 type Props = NativeStackScreenProps<RecordsStackParamList, 'EncounterDetail'>;
 
 const EncounterDetailScreen: React.FC<Props> = ({ route }) => {
-  const { encounterId } = route.params;
+  const { encounterId, providerId } = route.params;
+
+  const { data: encounterResult, isLoading } = useEncounter(encounterId, providerId);
+  const { data: procedureResults = [], isLoading: isLoadingProcedures } = useEncounterProcedures(
+    encounterId,
+    providerId
+  );
+
+  const encounter = encounterResult?.resource;
+  const { data: references = {} } = useDirectory(
+    providerId,
+    encounter ? DirectoryHelpers.getEncounterReferences([encounter]) : [],
+    !!encounter
+  );
+  const procedures = useMemo(
+    () =>
+      ProcedureHelpers.sortByDate(
+        procedureResults.map(r => r.resource).filter(ProcedureHelpers.isDisplayable)
+      ),
+    [procedureResults]
+  );
+
+  const participants = useMemo(
+    () =>
+      (encounter?.participant || []).flatMap(participant => {
+        const entry = DirectoryHelpers.getEntry(participant.individual, references);
+        const role = participant.type?.[0]?.text || participant.type?.[0]?.coding?.[0]?.display;
+        return entry ? [{ ...entry, role }] : [];
+      }),
+    [encounter, references]
+  );
+  const location = DirectoryHelpers.getEntry(encounter?.location?.[0]?.location, references);
+
+  const details = encounter
+    ? [
+        { label: 'Type', value: EncounterHelpers.getClassDisplay(encounter) },
+        { label: 'Date', value: EncounterHelpers.getPeriodDisplay(encounter) },
+        { label: 'Status', value: EncounterHelpers.getStatusDisplay(encounter) },
+        {
+          label: 'Provider',
+          value: EncounterHelpers.getPrimaryPractitioner(encounter, references),
+        },
+        { label: 'Location', value: EncounterHelpers.getPrimaryLocation(encounter, references) },
+        { label: 'Reason', value: EncounterHelpers.getReasonDisplay(encounter) },
+      ].filter((detail): detail is { label: string; value: string } => !!detail.value)
+    : [];
 
   return (
     <SafeAreaView style={styles.container}>
       <ScrollView contentContainerStyle={styles.content}>
         <View style={styles.card}>
-          <Text style={styles.title}>Encounter Details</Text>
-          <Text style={styles.id}>ID: {encounterId}</Text>
-          <Text style={styles.placeholder}>
-            Detailed encounter information will be displayed here.
+          <Text style={styles.title}>
+            {encounter ? EncounterHelpers.getTypeName(encounter) : 'Encounter Details'}
           </Text>
+          {isLoading ? (
+            <ActivityIndicator color="#2563EB" />
+          ) : (
+            details.map(detail => (
+              <View key={detail.label} style={styles.detailRow}>
+                <Text style={styles.detailLabel}>{detail.label}</Text>
+                <Text style={styles.detailValue}>{detail.value}</Text>
+              </View>
+            ))
+          )}
+        </View>
+
+        {participants.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Care Team</Text>
+            {participants.map((participant, index) => (
+              <ContactCard
+                key={participant.reference || index}
+                name={participant.name}
+                role={participant.role}
+                specialties={participant.specialties}
+                organization={participant.organization}
+                address={participant.address}
+                phone={participant.phone}
+              />
+            ))}
+          </>
+        )}
+
+        {location && (location.address || location.phone) && (
+          <>
+            <Text style={styles.sectionTitle}>Location</Text>
+            <ContactCard
+              name={location.name}
+              organization={location.organization}
+              address={location.address}
+              phone={location.phone}
+            />
+          </>
+        )}
+
+        <Text style={styles.sectionTitle}>Procedures</Text>
+        <View style={styles.card}>
+          {isLoadingProcedures ? (
+            <ActivityIndicator color="#2563EB" />
+          ) : procedures.length > 0 ? (
+            procedures.map((procedure, index) => {
+              const performer = ProcedureHelpers.getPerformerDisplay(procedure);
+              return (
+                <View
+                  key={procedure.id || index}
+                  style={[styles.procedure, index > 0 && styles.procedureDivider]}
+                >
+                  <Text style={styles.procedureName}>
+                    {ProcedureHelpers.getDisplayName(procedure)}
+                  </Text>
+                  <Text style={styles.procedureDetail}>
+                    {ProcedureHelpers.getPerformedDisplay(procedure)}
+                    {performer ? ` • ${performer}` : ''}
+                  </Text>
+                  {!ProcedureHelpers.isCompleted(procedure) && (
+                    <Text style={styles.procedureStatus}>
+                      {ProcedureHelpers.getStatusDisplay(procedure)}
+                    </Text>
+                  )}
+                </View>
+              );
+            })
+          ) : (
+            <Text style={styles.placeholder}>No procedures recorded for this visit.</Text>
+          )}
         </View>
       </ScrollView>
     </SafeAreaView>
@@ -31,8 +154,22 @@ const styles = StyleSheet.create({
   container: { flex: 1, backgroundColor: '#F9FAFB' },
   content: { padding: 16 },
   card: { backgroundColor: '#FFF', borderRadius: 16, padding: 24 },
-  title: { fontSize: 24, fontWeight: '700', color: '#1F2937', marginBottom: 8 },
-  id: { fontSize: 14, color: '#6B7280', marginBottom: 16 },
+  title: { fontSize: 24, fontWeight: '700', color: '#1F2937', marginBottom: 16 },
+  detailRow: { flexDirection: 'row', justifyContent: 'space-between', marginBottom: 8 },
+  detailLabel: { fontSize: 14, color: '#6B7280', marginRight: 16 },
+  detailValue: { flex: 1, fontSize: 14, color: '#1F2937', textAlign: 'right' },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+    marginTop: 24,
+    marginBottom: 8,
+  },
+  procedure: { paddingVertical: 8 },
+  procedureDivider: { borderTopWidth: 1, borderTopColor: '#E5E7EB' },
+  procedureName: { fontSize: 16, fontWeight: '600', color: '#1F2937' },
+  procedureDetail: { fontSize: 14, color: '#6B7280', marginTop: 2 },
+  procedureStatus: { fontSize: 12, color: '#D97706', marginTop: 2 },
   placeholder: { fontSize: 16, color: '#6B7280', lineHeight: 24 },
 });
 
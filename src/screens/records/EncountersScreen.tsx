@@ -8,6 +8,8 @@
 import React, { useState, useMemo, useCallback } from 'react';
 import { View, Text, FlatList, TouchableOpacity, StyleSheet, RefreshControl } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 
 import { useAppSelector } from '../../store';
@@ -17,6 +19,7 @@ import { selectIsDarkMode } from '../../store/slices/uiSlice';
 import { useEncounters } from '../../query/useFHIRData';
 import { Loading } from '../../components/ui';
 import { Encounter } from '../../domain/entities/Encounter';
+import type { RecordsStackParamList } from '../../navigation/types';
 
 type EncounterFilter = 'all' | 'inpatient' | 'outpatient' | 'emergency';
 
@@ -184,6 +187,7 @@ const EncounterItem: React.FC<EncounterItemProps> = ({ encounter, isDark, onPres
 };
 
 const EncountersScreen: React.FC = () => {
+  const navigation = useNavigation<NativeStackNavigationProp<RecordsStackParamList>>();
   const insets = useSafeAreaInsets();
   const [selectedFilter, setSelectedFilter] = useState<EncounterFilter>('all');
 
@@ -193,15 +197,16 @@ const EncountersScreen: React.FC = () => {
 
   // Fetch encounters
   const {
-    data: encounters = [],
+    data: encountersResults = [],
     isLoading,
     refetch,
     isRefetching,
   } = useEncounters({
     patientId: patient?.id || '',
-    providerBaseUrl: provider?.fhirServerUrl || '',
-    enabled: !!patient?.id && !!provider?.fhirServerUrl,
+    providerId: provider?.id || '',
+    enabled: !!patient?.id && !!provider?.id,
   });
+  const encounters = useMemo(() => encountersResults.map(r => r.resource), [encountersResults]);
 
   // Filter encounters
   const filteredEncounters = useMemo(() => {
@@ -273,11 +278,16 @@ const EncountersScreen: React.FC = () => {
         encounter={item}
         isDark={isDark}
         onPress={() => {
-          // Navigate to detail
+          if (item.id && provider?.id) {
+            navigation.navigate('EncounterDetail', {
+              encounterId: item.id,
+              providerId: provider.id,
+            });
+          }
         }}
       />
     ),
-    [isDark]
+    [isDark, navigation, provider?.id]
   );
 
   if (isLoading && encounters.length === 0) {
@@ -128,16 +128,17 @@ const LabResultsScreen: React.FC = () => {
 
   // Fetch lab results
   const {
-    data: labResults = [],
+    data: labResultsResults = [],
     isLoading,
     refetch,
     isRefetching,
   } = useObservations({
     patientId: patient?.id || '',
-    providerBaseUrl: provider?.fhirServerUrl || '',
+    providerId: provider?.id || '',
     category: 'laboratory',
-    enabled: !!patient?.id && !!provider?.fhirServerUrl,
+    enabled: !!patient?.id && !!provider?.id,
   });
+  const labResults = useMemo(() => labResultsResults.map(r => r.resource), [labResultsResults]);
 
   // Filter and sort results
   const filteredResults = useMemo(() => {
@@ -1,27 +1,117 @@
 /**
  * Medication Detail Screen
+ *
+ * Shows a prescription with its dosage and the prescriber, resolved through
+ * the provider directory for specialty and contact details.
  */
 
-import React from 'react';
-import { View, Text, StyleSheet, SafeAreaView, ScrollView } from 'react-native';
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, SafeAreaView, ScrollView, ActivityIndicator } from 'react-native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { RecordsStackParamList } from '../../navigation/types';
+import { useAppSelector } from '../../store';
+import { selectCurrentPatient } from '../../store/slices/authSlice';
+import { selectActiveProvider } from '../../store/slices/providersSlice';
+import { useAllergies, useDirectory, useMedication } from '../../query/useFHIRData';
+import { AllergyIntoleranceHelpers } from '../../domain/entities/AllergyIntolerance';
+import { MedicationRequestHelpers } from '../../domain/entities/MedicationRequest';
+import { DirectoryHelpers } from '../../domain/entities/Directory';
+import { ContactCard } from '../../components/health';
 
 type Props = NativeStackScreenProps<RecordsStackParamList, 'MedicationDetail'>;
 
 const MedicationDetailScreen: React.FC<Props> = ({ route }) => {
-  const { medicationId } = route.params;
+  const { medicationId, providerId } = route.params;
+
+  const patient = useAppSelector(selectCurrentPatient);
+  const provider = useAppSelector(selectActiveProvider);
+
+  const { data: medicationResult, isLoading } = useMedication(medicationId, providerId);
+  const medication = medicationResult?.resource;
+  const requester = medication?.requester?.reference;
+  const { data: references = {} } = useDirectory(
+    providerId,
+    requester ? [requester] : [],
+    !!requester
+  );
+  const prescriber = DirectoryHelpers.getEntry(medication?.requester, references);
+
+  const details = medication
+    ? [
+        { label: 'Status', value: MedicationRequestHelpers.getStatusDisplay(medication) },
+        { label: 'Dosage', value: MedicationRequestHelpers.getDosageInstructions(medication) },
+        {
+          label: 'Prescribed',
+          value: MedicationRequestHelpers.getAuthoredDate(medication)?.toLocaleDateString(),
+        },
+        { label: 'Reason', value: MedicationRequestHelpers.getReason(medication) },
+        {
+          label: 'Refills',
+          value: MedicationRequestHelpers.getRefillsAllowed(medication)?.toString(),
+        },
+      ].filter((detail): detail is { label: string; value: string } => !!detail.value)
+    : [];
+
+  // High-criticality allergies are shown with every medication
+  const { data: allergyResults = [] } = useAllergies({
+    patientId: patient?.id || '',
+    providerId: provider?.id || '',
+    enabled: !!patient?.id && !!provider?.id,
+  });
+  const criticalAllergies = useMemo(
+    () => allergyResults.map(r => r.resource).filter(AllergyIntoleranceHelpers.isHighCriticality),
+    [allergyResults]
+  );
 
   return (
     <SafeAreaView style={styles.container}>
       <ScrollView contentContainerStyle={styles.content}>
+        {criticalAllergies.length > 0 && (
+          <View style={styles.allergyBanner}>
+            <Text style={styles.allergyTitle}>High-Risk Allergies</Text>
+            {criticalAllergies.map((allergy, index) => {
+              const reactions = AllergyIntoleranceHelpers.getManifestations(allergy);
+              return (
+                <Text key={allergy.id || index} style={styles.allergyText}>
+                  {AllergyIntoleranceHelpers.getDisplayName(allergy)}
+                  {reactions.length > 0 ? ` (${reactions.join(', ')})` : ''}
+                </Text>
+              );
+            })}
+          </View>
+        )}
         <View style={styles.card}>
-          <Text style={styles.title}>Medication Details</Text>
-          <Text style={styles.id}>ID: {medicationId}</Text>
-          <Text style={styles.placeholder}>
-            Detailed medication information will be displayed here.
+          <Text style={styles.title}>
+            {medication
+              ? MedicationRequestHelpers.getMedicationName(medication)
+              : 'Medication Details'}
           </Text>
+          {isLoading ? (
+            <ActivityIndicator color="#2563EB" />
+          ) : medication ? (
+            details.map(detail => (
+              <View key={detail.label} style={styles.detailRow}>
+                <Text style={styles.detailLabel}>{detail.label}</Text>
+                <Text style={styles.detailValue}>{detail.value}</Text>
+              </View>
+            ))
+          ) : (
+            <Text style={styles.placeholder}>This medication could not be loaded.</Text>
+          )}
         </View>
+
+        {prescriber && (
+          <>
+            <Text style={styles.sectionTitle}>Prescriber</Text>
+            <ContactCard
+              name={prescriber.name}
+              specialties={prescriber.specialties}
+              organization={prescriber.organization}
+              address={prescriber.address}
+              phone={prescriber.phone}
+            />
+          </>
+        )}
       </ScrollView>
     </SafeAreaView>
   );
@@ -30,9 +120,28 @@ const MedicationDetailScreen: React.FC<Props> = ({ route }) => {
 const styles = StyleSheet.create({
   container: { flex: 1, backgroundColor: '#F9FAFB' },
   content: { padding: 16 },
+  allergyBanner: {
+    backgroundColor: '#FEF2F2',
+    borderLeftWidth: 4,
+    borderLeftColor: '#EF4444',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  allergyTitle: { fontSize: 16, fontWeight: '700', color: '#B91C1C', marginBottom: 4 },
+  allergyText: { fontSize: 14, color: '#7F1D1D', lineHeight: 20 },
   card: { backgroundColor: '#FFF', borderRadius: 16, padding: 24 },
-  title: { fontSize: 24, fontWeight: '700', color: '#1F2937', marginBottom: 8 },
-  id: { fontSize: 14, color: '#6B7280', marginBottom: 16 },
+  title: { fontSize: 24, fontWeight: '700', color: '#1F2937', marginBottom: 16 },
+  detailRow: { flexDirection: 'row', justifyContent: 'space-between', marginBottom: 8 },
+  detailLabel: { fontSize: 14, color: '#6B7280', marginRight: 16 },
+  detailValue: { flex: 1, fontSize: 14, color: '#1F2937', textAlign: 'right' },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+    marginTop: 24,
+    marginBottom: 8,
+  },
   placeholder: { fontSize: 16, color: '#6B7280', lineHeight: 24 },
 });
 
@@ -107,15 +107,16 @@ const MedicationsScreen: React.FC = () => {
 
   // Fetch medications
   const {
-    data: medications = [],
+    data: medicationsResults = [],
     isLoading,
     refetch,
     isRefetching,
   } = useMedications({
     patientId: patient?.id || '',
-    providerBaseUrl: provider?.fhirServerUrl || '',
-    enabled: !!patient?.id && !!provider?.fhirServerUrl,
+    providerId: provider?.id || '',
+    enabled: !!patient?.id && !!provider?.id,
   });
+  const medications = useMemo(() => medicationsResults.map(r => r.resource), [medicationsResults]);
 
   // Filter medications
   const filteredMedications = useMemo(() => {
@@ -0,0 +1,239 @@
+/**
+ * Merged Records Screen
+ *
+ * Records that arrived from more than one provider and were merged into
+ * one, with the providers each copy came from. Merges can be undone here,
+ * and copies that were unmerged can be merged again.
+ */
+
+import React, { useCallback } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+
+import { useAppSelector } from '../../store';
+import { selectIsDarkMode } from '../../store/slices/uiSlice';
+import { useDuplicateMerges } from '../../hooks';
+import { FHIRResource, SourceMetadata } from '../../domain/entities/FHIRTypes';
+import { DuplicateMatchReason } from '../../domain/entities/RecordMatching';
+import { Observation, ObservationHelpers } from '../../domain/entities/Observation';
+import { DiagnosticReport, DiagnosticReportHelpers } from '../../domain/entities/DiagnosticReport';
+import { Encounter, EncounterHelpers } from '../../domain/entities/Encounter';
+import {
+  MedicationRequest,
+  MedicationRequestHelpers,
+} from '../../domain/entities/MedicationRequest';
+import { Condition, ConditionHelpers } from '../../domain/entities/Condition';
+
+const MATCH_LABELS: Record<DuplicateMatchReason, string> = {
+  identifier: 'Same record ID',
+  clinical: 'Same test, time and result',
+};
+
+const getRecordTitle = (resource: FHIRResource): string => {
+  switch (resource.resourceType) {
+    case 'Observation':
+      return ObservationHelpers.getDisplayName(resource as Observation);
+    case 'DiagnosticReport':
+      return DiagnosticReportHelpers.getDisplayName(resource as DiagnosticReport);
+    case 'Encounter':
+      return EncounterHelpers.getTypeName(resource as Encounter);
+    case 'MedicationRequest':
+      return MedicationRequestHelpers.getMedicationName(resource as MedicationRequest);
+    case 'Condition':
+      return ConditionHelpers.getDisplayName(resource as Condition);
+    default:
+      return resource.resourceType;
+  }
+};
+
+interface RecordCardProps {
+  resource: FHIRResource;
+  sources: SourceMetadata[];
+  subtitle: string;
+  actionLabel: string;
+  isDark: boolean;
+  onAction: () => void;
+}
+
+const RecordCard: React.FC<RecordCardProps> = ({
+  resource,
+  sources,
+  subtitle,
+  actionLabel,
+  isDark,
+  onAction,
+}) => (
+  <View style={[styles.card, { backgroundColor: isDark ? '#1F2937' : '#FFFFFF' }]}>
+    <Text style={[styles.title, { color: isDark ? '#F9FAFB' : '#111827' }]}>
+      {getRecordTitle(resource)}
+    </Text>
+    <Text style={[styles.infoText, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>{subtitle}</Text>
+
+    {sources.map((source, index) => (
+      <View key={`${source.providerId}-${index}`} style={styles.sourceRow}>
+        <Icon
+          name={index === 0 ? 'star-outline' : 'content-copy'}
+          size={16}
+          color={isDark ? '#9CA3AF' : '#6B7280'}
+        />
+        <Text style={[styles.sourceText, { color: isDark ? '#E5E7EB' : '#374151' }]}>
+          {source.providerName}
+        </Text>
+      </View>
+    ))}
+
+    <View style={[styles.actions, { borderTopColor: isDark ? '#374151' : '#E5E7EB' }]}>
+      <TouchableOpacity style={styles.actionButton} onPress={onAction}>
+        <Text style={[styles.actionText, { color: '#2563EB' }]}>{actionLabel}</Text>
+      </TouchableOpacity>
+    </View>
+  </View>
+);
+
+const MergedRecordsScreen: React.FC = () => {
+  const insets = useSafeAreaInsets();
+  const isDark = useAppSelector(selectIsDarkMode);
+
+  const { merges, unmerged, unmerge, remerge } = useDuplicateMerges();
+
+  const handleUnmerge = useCallback(
+    (keys: string[], title: string) => {
+      Alert.alert(
+        'Unmerge Record?',
+        `Each provider's copy of "${title}" will be shown as a separate record.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Unmerge', onPress: () => unmerge(keys) },
+        ]
+      );
+    },
+    [unmerge]
+  );
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: isDark ? '#111827' : '#F3F4F6' }]}
+      contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 20 }]}
+    >
+      {merges.length === 0 && unmerged.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Icon name="link-variant-off" size={64} color={isDark ? '#4B5563' : '#9CA3AF'} />
+          <Text style={[styles.emptyText, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+            No merged records
+          </Text>
+          <Text style={[styles.emptySubtext, { color: isDark ? '#6B7280' : '#9CA3AF' }]}>
+            When more than one provider sends the same record, it is shown once and listed here
+          </Text>
+        </View>
+      ) : (
+        <>
+          {merges.length > 0 && (
+            <Text style={[styles.sectionTitle, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+              MERGED
+            </Text>
+          )}
+          {merges.map(merged => (
+            <RecordCard
+              key={merged.keys.join(',')}
+              resource={merged.resource}
+              sources={merged.sources}
+              subtitle={merged.matchedOn.map(reason => MATCH_LABELS[reason]).join(' • ')}
+              actionLabel="Unmerge"
+              isDark={isDark}
+              onAction={() => handleUnmerge(merged.keys, getRecordTitle(merged.resource))}
+            />
+          ))}
+
+          {unmerged.length > 0 && (
+            <Text style={[styles.sectionTitle, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+              UNMERGED
+            </Text>
+          )}
+          {unmerged.map(group => (
+            <RecordCard
+              key={group.keys.join(',')}
+              resource={group.copies[0].resource}
+              sources={group.copies.map(copy => copy.source)}
+              subtitle={`${group.copies.length} copies shown separately`}
+              actionLabel="Merge Again"
+              isDark={isDark}
+              onAction={() => remerge(group.keys)}
+            />
+          ))}
+        </>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 8,
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  card: {
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  infoText: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  sourceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  sourceText: {
+    fontSize: 14,
+    marginLeft: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 12,
+    paddingTop: 8,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  actionButton: {
+    marginLeft: 20,
+    paddingVertical: 4,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    paddingTop: 96,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    fontSize: 14,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+});
+
+export default MergedRecordsScreen;
@@ -56,6 +56,27 @@ const CATEGORIES: RecordCategory[] = [
     icon: '🏥',
     screen: 'Encounters',
   },
+  {
+    id: 'appointments',
+    title: 'Appointments',
+    description: 'Upcoming visits and scheduling',
+    icon: '📅',
+    screen: 'Appointments',
+  },
+  {
+    id: 'documents',
+    title: 'Documents',
+    description: 'Clinical notes and scanned documents',
+    icon: '📄',
+    screen: 'Documents',
+  },
+  {
+    id: 'merged',
+    title: 'Merged Records',
+    description: 'Records shared between your providers',
+    icon: '🔗',
+    screen: 'MergedRecords',
+  },
 ];
 
 const RecordsListScreen: React.FC<Props> = ({ navigation }) => {
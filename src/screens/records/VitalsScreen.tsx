@@ -104,16 +104,17 @@ const VitalsScreen: React.FC = () => {
 
   // Fetch vital signs
   const {
-    data: vitals = [],
+    data: vitalsResults = [],
     isLoading,
     refetch,
     isRefetching,
   } = useObservations({
     patientId: patient?.id || '',
-    providerBaseUrl: provider?.fhirServerUrl || '',
+    providerId: provider?.id || '',
     category: 'vital-signs',
-    enabled: !!patient?.id && !!provider?.fhirServerUrl,
+    enabled: !!patient?.id && !!provider?.id,
   });
+  const vitals = useMemo(() => vitalsResults.map(r => r.resource), [vitalsResults]);
 
   // Filter vitals based on selection
   const filteredVitals = useMemo(() => {
@@ -22,6 +22,23 @@ import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 
 import { useAppSelector, useAppDispatch } from '../../store';
 import { selectIsDarkMode, toggleDarkMode } from '../../store/slices/uiSlice';
+import { resetRecords } from '../../store/slices/recordsSlice';
+import { clearPersistedQueryCache } from '../../query/queryPersister';
+import { encryptedRecordStore } from '../../infrastructure/storage/EncryptedRecordStore';
+import { useSyncSettings } from '../../hooks';
+
+// Automatic sync intervals offered, in minutes (0 = off)
+const SYNC_INTERVAL_OPTIONS = [0, 15, 30, 60, 240];
+
+const formatSyncInterval = (minutes: number): string => {
+  if (minutes <= 0) {
+    return 'Off';
+  }
+  if (minutes % 60 === 0) {
+    return minutes === 60 ? 'Every hour' : `Every ${minutes / 60} hours`;
+  }
+  return `Every ${minutes} min`;
+};
 
 interface SettingsSectionProps {
   title: string;
@@ -97,6 +114,7 @@ const SettingsScreen: React.FC = () => {
   const insets = useSafeAreaInsets();
 
   const isDark = useAppSelector(selectIsDarkMode);
+  const { settings: syncSettings, updateSettings: updateSyncSettings } = useSyncSettings();
 
   // Handle dark mode toggle
   const handleDarkModeToggle = useCallback(() => {
@@ -118,6 +136,17 @@ const SettingsScreen: React.FC = () => {
     navigation.navigate('PrivacySettings' as never);
   }, [navigation]);
 
+  // Handle automatic sync interval
+  const handleSyncInterval = useCallback(() => {
+    Alert.alert('Automatic Sync', 'How often should your providers be synced in the background?', [
+      ...SYNC_INTERVAL_OPTIONS.map(intervalMinutes => ({
+        text: formatSyncInterval(intervalMinutes),
+        onPress: () => updateSyncSettings({ intervalMinutes }),
+      })),
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  }, [updateSyncSettings]);
+
   // Handle data export
   const handleExportData = useCallback(() => {
     Alert.alert('Export Data', 'Export all your health data in FHIR JSON format?', [
@@ -143,13 +172,19 @@ const SettingsScreen: React.FC = () => {
           text: 'Clear',
           style: 'destructive',
           onPress: async () => {
-            // In production, this would clear the cache
-            Alert.alert('Cache Cleared', 'All cached data has been cleared.');
+            try {
+              await clearPersistedQueryCache();
+              await encryptedRecordStore.clear();
+              dispatch(resetRecords());
+              Alert.alert('Cache Cleared', 'All cached data has been cleared.');
+            } catch (error) {
+              Alert.alert('Error', 'Failed to clear cached data');
+            }
           },
         },
       ]
     );
-  }, []);
+  }, [dispatch]);
 
   // Handle delete account
   const handleDeleteAccount = useCallback(() => {
@@ -252,6 +287,34 @@ const SettingsScreen: React.FC = () => {
         />
       </SettingsSection>
 
+      {/* Sync */}
+      <SettingsSection title="SYNC" isDark={isDark}>
+        <SettingsRow
+          icon="sync"
+          label="Automatic Sync"
+          value={formatSyncInterval(syncSettings.intervalMinutes)}
+          onPress={handleSyncInterval}
+          isDark={isDark}
+        />
+        <SettingsRow
+          icon="signal-cellular-outline"
+          label="Pause on Cellular Data"
+          showChevron={false}
+          rightElement={
+            <Switch
+              value={syncSettings.respectMeteredConnection}
+              onValueChange={respectMeteredConnection =>
+                updateSyncSettings({ respectMeteredConnection })
+              }
+              trackColor={{ false: '#D1D5DB', true: '#3B82F6' }}
+              thumbColor="#FFFFFF"
+            />
+          }
+          isDark={isDark}
+          isLast={true}
+        />
+      </SettingsSection>
+
       {/* Data & Privacy */}
       <SettingsSection title="DATA & PRIVACY" isDark={isDark}>
         <SettingsRow
@@ -8,7 +8,8 @@
  */
 
 import { createSlice, PayloadAction, createSelector } from '@reduxjs/toolkit';
-import { Provider } from '../../domain/entities/Provider';
+import { Provider, ProviderHelpers } from '../../domain/entities/Provider';
+import { ServerCapabilities } from '../../domain/entities/CapabilityStatement';
 
 // Provider with extra UI status
 interface ProviderWithStatus extends Provider {
@@ -136,6 +137,28 @@ const providersSlice = createSlice({
       }
     },
 
+    setProviderTokenExpired: (state: ProvidersSliceState, action: PayloadAction<string>) => {
+      const provider = state.providers.find(p => p.id === action.payload);
+      if (provider) {
+        provider.connectionStatus = 'token_expired';
+        provider.errorMessage = 'Session expired. Please reconnect.';
+      }
+    },
+
+    // Capabilities
+    setProviderCapabilities: (
+      state: ProvidersSliceState,
+      action: PayloadAction<{ providerId: string; capabilities: ServerCapabilities }>
+    ) => {
+      const index = state.providers.findIndex(p => p.id === action.payload.providerId);
+      if (index !== -1) {
+        state.providers[index] = {
+          ...state.providers[index],
+          ...ProviderHelpers.withCapabilities(state.providers[index], action.payload.capabilities),
+        };
+      }
+    },
+
     // Active provider
     setActiveProvider: (state: ProvidersSliceState, action: PayloadAction<string | null>) => {
       state.activeProviderId = action.payload;
@@ -163,6 +186,8 @@ export const {
   setProviderConnected,
   setProviderDisconnected,
   setProviderError,
+  setProviderTokenExpired,
+  setProviderCapabilities,
   setActiveProvider,
   setSearchQuery,
   resetProviders,
@@ -186,6 +211,17 @@ export const selectActiveProvider = createSelector(
   (providers, activeProviderId) => providers.find(p => p.id === activeProviderId)
 );
 
+export const selectProviderById = (state: { providers: ProvidersSliceState }, providerId: string) =>
+  state.providers.providers.find(p => p.id === providerId);
+
+export const selectProviderByServerUrl = (
+  state: { providers: ProvidersSliceState },
+  serverUrl: string
+) =>
+  state.providers.providers.find(
+    p => p.fhirServerUrl.replace(/\/$/, '') === serverUrl.replace(/\/$/, '')
+  );
+
 export const selectProvidersLoading = (state: { providers: ProvidersSliceState }) =>
   state.providers.isLoading;
 
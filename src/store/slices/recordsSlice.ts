@@ -7,15 +7,29 @@
  * - Diagnostic reports
  * - Encounters
  * - Medications
+ * - Conditions (problem list)
  * - Record sync status by provider
+ * - Duplicates across providers, merged unless the user unmerged them
  */
 
-import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { createSelector, createSlice, PayloadAction } from '@reduxjs/toolkit';
 import { Patient } from '../../domain/entities/Patient';
 import { Observation } from '../../domain/entities/Observation';
 import { DiagnosticReport } from '../../domain/entities/DiagnosticReport';
 import { Encounter } from '../../domain/entities/Encounter';
 import { MedicationRequest } from '../../domain/entities/MedicationRequest';
+import { Condition } from '../../domain/entities/Condition';
+import { FHIRResource, SourceMetadata } from '../../domain/entities/FHIRTypes';
+import { Provider } from '../../domain/entities/Provider';
+import { MergedRecord, getRecordKey, mergeDuplicates } from '../../domain/entities/RecordMatching';
+
+// Paging progress of an in-flight provider sync
+export interface ProviderSyncProgress {
+  resourceType: string;
+  pageNumber: number;
+  recordsFetched: number;
+  total?: number;
+}
 
 // Records organized by provider
 interface ProviderRecords {
@@ -23,6 +37,7 @@ interface ProviderRecords {
   providerName: string;
   lastSync: string | null;
   syncStatus: 'idle' | 'syncing' | 'success' | 'error';
+  syncProgress?: ProviderSyncProgress;
   errorMessage?: string;
 
   patient: Patient | null;
@@ -30,6 +45,7 @@ interface ProviderRecords {
   diagnosticReports: DiagnosticReport[];
   encounters: Encounter[];
   medications: MedicationRequest[];
+  conditions: Condition[];
 }
 
 interface RecordsSliceState {
@@ -59,8 +75,48 @@ interface RecordsSliceState {
 
   // View preferences
   viewMode: 'timeline' | 'category' | 'provider';
+
+  // Record keys of merged duplicates the user split apart, one list per merge
+  unmergedDuplicates: string[][];
 }
 
+// Whether `incoming` is the same version as `existing` or newer
+const isSameOrNewer = (existing: FHIRResource, incoming: FHIRResource): boolean => {
+  const existingVersion = Number(existing.meta?.versionId);
+  const incomingVersion = Number(incoming.meta?.versionId);
+  if (!isNaN(existingVersion) && !isNaN(incomingVersion)) {
+    return incomingVersion >= existingVersion;
+  }
+
+  const existingUpdated = Date.parse(existing.meta?.lastUpdated ?? '');
+  const incomingUpdated = Date.parse(incoming.meta?.lastUpdated ?? '');
+  if (!isNaN(existingUpdated) && !isNaN(incomingUpdated)) {
+    return incomingUpdated >= existingUpdated;
+  }
+
+  return true;
+};
+
+// Merge resources by id, keeping the newest version and dropping deleted ones
+const mergeById = <T extends FHIRResource>(
+  existing: T[],
+  incoming: T[] | undefined,
+  deleted: Set<string>
+): T[] => {
+  const merged = existing.filter(r => !deleted.has(`${r.resourceType}/${r.id}`));
+
+  incoming?.forEach(resource => {
+    const index = merged.findIndex(r => r.id === resource.id);
+    if (index === -1) {
+      merged.push(resource);
+    } else if (isSameOrNewer(merged[index], resource)) {
+      merged[index] = resource;
+    }
+  });
+
+  return merged;
+};
+
 const initialState: RecordsSliceState = {
   recordsByProvider: {},
   dateRange: { start: null, end: null },
@@ -74,6 +130,7 @@ const initialState: RecordsSliceState = {
   selectedEncounterId: null,
   selectedMedicationId: null,
   viewMode: 'timeline',
+  unmergedDuplicates: [],
 };
 
 const recordsSlice = createSlice({
@@ -110,6 +167,7 @@ const recordsSlice = createSlice({
           diagnosticReports: [],
           encounters: [],
           medications: [],
+          conditions: [],
         };
       }
     },
@@ -119,10 +177,21 @@ const recordsSlice = createSlice({
       const records = state.recordsByProvider[action.payload];
       if (records) {
         records.syncStatus = 'syncing';
+        records.syncProgress = undefined;
         records.errorMessage = undefined;
       }
     },
 
+    setProviderSyncProgress: (
+      state: RecordsSliceState,
+      action: PayloadAction<{ providerId: string; progress: ProviderSyncProgress }>
+    ) => {
+      const records = state.recordsByProvider[action.payload.providerId];
+      if (records && records.syncStatus === 'syncing') {
+        records.syncProgress = action.payload.progress;
+      }
+    },
+
     setProviderSyncSuccess: (
       state: RecordsSliceState,
       action: PayloadAction<{ providerId: string; lastSync: string }>
@@ -130,6 +199,7 @@ const recordsSlice = createSlice({
       const records = state.recordsByProvider[action.payload.providerId];
       if (records) {
         records.syncStatus = 'success';
+        records.syncProgress = undefined;
         records.lastSync = action.payload.lastSync;
       }
     },
@@ -141,6 +211,7 @@ const recordsSlice = createSlice({
       const records = state.recordsByProvider[action.payload.providerId];
       if (records) {
         records.syncStatus = 'error';
+        records.syncProgress = undefined;
         records.errorMessage = action.payload.error;
       }
     },
@@ -252,6 +323,17 @@ const recordsSlice = createSlice({
       }
     },
 
+    // Conditions
+    setConditions: (
+      state: RecordsSliceState,
+      action: PayloadAction<{ providerId: string; conditions: Condition[] }>
+    ) => {
+      const records = state.recordsByProvider[action.payload.providerId];
+      if (records) {
+        records.conditions = action.payload.conditions;
+      }
+    },
+
     // Filters
     setDateRange: (
       state: RecordsSliceState,
@@ -306,6 +388,94 @@ const recordsSlice = createSlice({
       state.viewMode = action.payload;
     },
 
+    // Incremental sync: merge changed resources by id/version and drop deleted ones
+    mergeProviderRecords: (
+      state: RecordsSliceState,
+      action: PayloadAction<{
+        providerId: string;
+        observations?: Observation[];
+        diagnosticReports?: DiagnosticReport[];
+        encounters?: Encounter[];
+        medications?: MedicationRequest[];
+        conditions?: Condition[];
+        /** "Type/id" of resources deleted on the server */
+        deleted?: string[];
+      }>
+    ) => {
+      const records = state.recordsByProvider[action.payload.providerId];
+      if (records) {
+        const deleted = new Set(action.payload.deleted ?? []);
+        records.observations = mergeById(
+          records.observations,
+          action.payload.observations,
+          deleted
+        );
+        records.diagnosticReports = mergeById(
+          records.diagnosticReports,
+          action.payload.diagnosticReports,
+          deleted
+        );
+        records.encounters = mergeById(records.encounters, action.payload.encounters, deleted);
+        records.medications = mergeById(records.medications, action.payload.medications, deleted);
+        records.conditions = mergeById(records.conditions, action.payload.conditions, deleted);
+      }
+    },
+
+    // Restore records saved on the device; providers already synced this session are kept
+    hydrateRecords: (
+      state: RecordsSliceState,
+      action: PayloadAction<
+        Array<{
+          providerId: string;
+          providerName: string;
+          lastSync: string | null;
+          resources: FHIRResource[];
+        }>
+      >
+    ) => {
+      action.payload.forEach(({ providerId, providerName, lastSync, resources }) => {
+        if (state.recordsByProvider[providerId]) {
+          return;
+        }
+
+        const ofType = <T extends FHIRResource>(resourceType: string) =>
+          resources.filter(r => r.resourceType === resourceType) as T[];
+
+        state.recordsByProvider[providerId] = {
+          providerId,
+          providerName,
+          lastSync,
+          syncStatus: 'idle',
+          patient: ofType<Patient>('Patient')[0] ?? null,
+          observations: ofType<Observation>('Observation'),
+          diagnosticReports: ofType<DiagnosticReport>('DiagnosticReport'),
+          encounters: ofType<Encounter>('Encounter'),
+          medications: ofType<MedicationRequest>('MedicationRequest'),
+          conditions: ofType<Condition>('Condition'),
+        };
+      });
+    },
+
+    // Keep the copies of a merged record apart
+    unmergeDuplicates: (state: RecordsSliceState, action: PayloadAction<string[]>) => {
+      const key = [...action.payload].sort().join(',');
+      if (!state.unmergedDuplicates.some(group => [...group].sort().join(',') === key)) {
+        state.unmergedDuplicates.push(action.payload);
+      }
+    },
+
+    // Let unmerged copies be merged again
+    remergeDuplicates: (state: RecordsSliceState, action: PayloadAction<string[]>) => {
+      const key = [...action.payload].sort().join(',');
+      state.unmergedDuplicates = state.unmergedDuplicates.filter(
+        group => [...group].sort().join(',') !== key
+      );
+    },
+
+    setUnmergedDuplicates: (state: RecordsSliceState, action: PayloadAction<string[][]>) => {
+      state.unmergedDuplicates = action.payload;
+    },
+
     // Remove provider records
     removeProviderRecords: (state: RecordsSliceState, action: PayloadAction<string>) => {
       delete state.recordsByProvider[action.payload];
@@ -322,6 +492,7 @@ export const {
   setError,
   initializeProvider,
   setProviderSyncing,
+  setProviderSyncProgress,
   setProviderSyncSuccess,
   setProviderSyncError,
   setPatient,
@@ -333,6 +504,7 @@ export const {
   addEncounter,
   setMedications,
   addMedication,
+  setConditions,
   setDateRange,
   setCategoryFilter,
   setStatusFilter,
@@ -343,6 +515,11 @@ export const {
   setSelectedMedication,
   clearSelection,
   setViewMode,
+  mergeProviderRecords,
+  hydrateRecords,
+  unmergeDuplicates,
+  remergeDuplicates,
+  setUnmergedDuplicates,
   removeProviderRecords,
   resetRecords,
 } = recordsSlice.actions;
@@ -356,17 +533,84 @@ export const selectRecordsByProvider = (state: { records: RecordsSliceState }) =
 export const selectProviderRecords = (state: { records: RecordsSliceState }, providerId: string) =>
   state.records.recordsByProvider[providerId];
 
-export const selectAllObservations = (state: { records: RecordsSliceState }) =>
-  Object.values(state.records.recordsByProvider).flatMap(r => r.observations);
-
-export const selectAllDiagnosticReports = (state: { records: RecordsSliceState }) =>
-  Object.values(state.records.recordsByProvider).flatMap(r => r.diagnosticReports);
+export const selectProviderSyncProgress = (
+  state: { records: RecordsSliceState },
+  providerId: string
+) => state.records.recordsByProvider[providerId]?.syncProgress;
 
-export const selectAllEncounters = (state: { records: RecordsSliceState }) =>
-  Object.values(state.records.recordsByProvider).flatMap(r => r.encounters);
+// Selectors over every provider's records, with duplicates across providers merged
+type MergedRecordsState = {
+  records: RecordsSliceState;
+  providers: { providers: Provider[] };
+};
 
-export const selectAllMedications = (state: { records: RecordsSliceState }) =>
-  Object.values(state.records.recordsByProvider).flatMap(r => r.medications);
+export const selectUnmergedDuplicates = (state: { records: RecordsSliceState }) =>
+  state.records.unmergedDuplicates;
+
+const selectProviders = (state: MergedRecordsState) => state.providers.providers;
+
+// Every synced record with the provider it came from
+const selectSourcedRecords = createSelector(
+  [selectRecordsByProvider, selectProviders],
+  (recordsByProvider, providers) =>
+    Object.values(recordsByProvider).flatMap(records => {
+      const provider = providers.find(p => p.id === records.providerId);
+      const source: SourceMetadata = {
+        providerId: records.providerId,
+        providerName: records.providerName,
+        providerIconUrl: provider?.iconUrl,
+        serverUrl: provider?.fhirServerUrl ?? '',
+        fetchedAt: records.lastSync ?? '',
+      };
+
+      return [
+        ...records.observations,
+        ...records.diagnosticReports,
+        ...records.encounters,
+        ...records.medications,
+        ...records.conditions,
+      ].map(resource => ({ resource: resource as FHIRResource, source }));
+    })
+);
+
+export const selectMergedRecords = createSelector(
+  [selectSourcedRecords, selectUnmergedDuplicates],
+  (records, unmerged) => mergeDuplicates(records, unmerged)
+);
+
+// Records merged from copies at more than one provider
+export const selectDuplicateMerges = createSelector([selectMergedRecords], merged =>
+  merged.filter(record => record.copies.length > 1)
+);
+
+// Copies the user unmerged, per unmerge, for merging again
+export const selectUnmergedCopies = createSelector(
+  [selectSourcedRecords, selectUnmergedDuplicates],
+  (records, unmerged) =>
+    unmerged
+      .map(keys => ({
+        keys,
+        copies: records.filter(record => keys.includes(getRecordKey(record))),
+      }))
+      .filter(group => group.copies.length > 1)
+);
+
+const selectMergedOfType = <T extends FHIRResource>(resourceType: T['resourceType']) =>
+  createSelector([selectMergedRecords], merged =>
+    merged
+      .filter(record => record.resource.resourceType === resourceType)
+      .map(record => record.resource as T)
+  );
+
+export const selectAllObservations = selectMergedOfType<Observation>('Observation');
+
+export const selectAllDiagnosticReports = selectMergedOfType<DiagnosticReport>('DiagnosticReport');
+
+export const selectAllEncounters = selectMergedOfType<Encounter>('Encounter');
+
+export const selectAllMedications = selectMergedOfType<MedicationRequest>('MedicationRequest');
+
+export const selectAllConditions = selectMergedOfType<Condition>('Condition');
 
 export const selectRecordsLoading = (state: { records: RecordsSliceState }) =>
   state.records.isLoading;
@@ -383,64 +627,64 @@ export const selectDateRange = (state: { records: RecordsSliceState }) => state.
 export const selectCategoryFilter = (state: { records: RecordsSliceState }) =>
   state.records.categoryFilter;
 
-// Get timeline of all records sorted by date
-export const selectTimelineRecords = (state: { records: RecordsSliceState }) => {
+// Get timeline of all records sorted by date, one item per merged record
+export const selectTimelineRecords = createSelector([selectMergedRecords], merged => {
   interface TimelineItem {
     type: 'observation' | 'report' | 'encounter' | 'medication';
     date: string;
     providerId: string;
     providerName: string;
+    /** Every provider the record came from */
+    sources: SourceMetadata[];
+    /** Record keys of merged copies, for unmerging */
+    mergedKeys: string[];
     data: Observation | DiagnosticReport | Encounter | MedicationRequest;
   }
 
   const timeline: TimelineItem[] = [];
 
-  Object.values(state.records.recordsByProvider).forEach(providerRecords => {
-    // Add observations
-    providerRecords.observations.forEach(obs => {
-      timeline.push({
-        type: 'observation',
-        date: obs.effectiveDateTime || obs.issued || '',
-        providerId: providerRecords.providerId,
-        providerName: providerRecords.providerName,
-        data: obs,
-      });
-    });
-
-    // Add diagnostic reports
-    providerRecords.diagnosticReports.forEach(report => {
-      timeline.push({
-        type: 'report',
-        date: report.effectiveDateTime || report.issued || '',
-        providerId: providerRecords.providerId,
-        providerName: providerRecords.providerName,
-        data: report,
-      });
-    });
-
-    // Add encounters
-    providerRecords.encounters.forEach(enc => {
-      timeline.push({
-        type: 'encounter',
-        date: enc.period?.start || '',
-        providerId: providerRecords.providerId,
-        providerName: providerRecords.providerName,
-        data: enc,
-      });
-    });
-
-    // Add medications
-    providerRecords.medications.forEach(med => {
-      timeline.push({
-        type: 'medication',
-        date: med.authoredOn || '',
-        providerId: providerRecords.providerId,
-        providerName: providerRecords.providerName,
-        data: med,
-      });
-    });
+  merged.forEach(({ resource, sources, keys }: MergedRecord) => {
+    const item = {
+      providerId: sources[0].providerId,
+      providerName: sources[0].providerName,
+      sources,
+      mergedKeys: keys.length > 1 ? keys : [],
+    };
+
+    switch (resource.resourceType) {
+      case 'Observation': {
+        const obs = resource as Observation;
+        timeline.push({
+          ...item,
+          type: 'observation',
+          date: obs.effectiveDateTime || obs.issued || '',
+          data: obs,
+        });
+        break;
+      }
+      case 'DiagnosticReport': {
+        const report = resource as DiagnosticReport;
+        timeline.push({
+          ...item,
+          type: 'report',
+          date: report.effectiveDateTime || report.issued || '',
+          data: report,
+        });
+        break;
+      }
+      case 'Encounter': {
+        const enc = resource as Encounter;
+        timeline.push({ ...item, type: 'encounter', date: enc.period?.start || '', data: enc });
+        break;
+      }
+      case 'MedicationRequest': {
+        const med = resource as MedicationRequest;
+        timeline.push({ ...item, type: 'medication', date: med.authoredOn || '', data: med });
+        break;
+      }
+    }
   });
 
   // Sort by date descending
   return timeline.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-};
+});
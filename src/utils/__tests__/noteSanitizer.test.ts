@@ -0,0 +1,57 @@
+/**
+ * Note Sanitizer Tests
+ */
+
+import { Buffer } from 'buffer';
+import { decodeNoteContent, sanitizeHtmlNote, sanitizeNote } from '../noteSanitizer';
+
+describe('noteSanitizer', () => {
+  describe('sanitizeHtmlNote', () => {
+    it('should split headings, paragraphs and list items', () => {
+      const blocks = sanitizeHtmlNote(
+        '<h2>Assessment</h2><p>Blood pressure&nbsp;is <b>stable</b>.<br/>Continue meds.</p>' +
+          '<ul><li>Lisinopril 10 mg</li><li>Follow up in 3 months</li></ul>'
+      );
+
+      expect(blocks).toEqual([
+        { type: 'heading', text: 'Assessment' },
+        { type: 'paragraph', text: 'Blood pressure is stable.\nContinue meds.' },
+        { type: 'listItem', text: 'Lisinopril 10 mg' },
+        { type: 'listItem', text: 'Follow up in 3 months' },
+      ]);
+    });
+
+    it('should drop scripts, styles, embedded content and event handlers', () => {
+      const blocks = sanitizeHtmlNote(
+        '<style>p { color: red }</style><script>alert("x")</script>' +
+          '<p onclick="steal()">Visit note</p><iframe src="https://evil.example"></iframe>' +
+          '<img src="x" onerror="steal()"><script>unterminated'
+      );
+
+      expect(blocks).toEqual([{ type: 'paragraph', text: 'Visit note' }]);
+    });
+
+    it('should decode entities without turning them back into markup', () => {
+      const [block] = sanitizeHtmlNote('<p>&lt;script&gt; BP &lt; 120 &amp; HR &#8805; 60</p>');
+
+      expect(block.text).toBe('<script> BP < 120 & HR ≥ 60');
+    });
+  });
+
+  describe('sanitizeNote', () => {
+    it('should split plain text into paragraphs', () => {
+      expect(
+        sanitizeNote('Subjective:\r\nFeels well.\r\n\r\n\r\nPlan: none\u0007', 'text/plain')
+      ).toEqual([
+        { type: 'paragraph', text: 'Subjective:\nFeels well.' },
+        { type: 'paragraph', text: 'Plan: none' },
+      ]);
+    });
+
+    it('should decode base64 content as UTF-8', () => {
+      const base64 = Buffer.from('Température 37°C', 'utf-8').toString('base64');
+
+      expect(decodeNoteContent(base64)).toBe('Température 37°C');
+    });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Note Sanitizer
+ *
+ * Converts clinical note content (plain text or HTML) into text blocks for
+ * native rendering. HTML is never rendered as markup: scripts, styles and
+ * embedded content are dropped, tags are stripped and entities decoded, so
+ * nothing in a note can execute or load remote resources.
+ */
+
+import { Buffer } from 'buffer';
+
+export type NoteBlockType = 'heading' | 'paragraph' | 'listItem';
+
+export interface NoteBlock {
+  type: NoteBlockType;
+  text: string;
+}
+
+/**
+ * Elements removed together with their content
+ */
+const REMOVED_ELEMENTS =
+  /<(script|style|head|title|iframe|object|embed|svg|math|template|noscript)\b[\s\S]*?<\/\1\s*>/gi;
+
+/**
+ * An opening removed element with no closing tag; drop everything after it
+ */
+const UNCLOSED_REMOVED_ELEMENT = /<(script|style|iframe|object|embed|svg|template)\b[\s\S]*$/i;
+
+const TAG = /<\/?([a-zA-Z][a-zA-Z0-9]*)\b[^>]*>/g;
+
+const BLOCK_ELEMENTS = new Set([
+  'address',
+  'article',
+  'blockquote',
+  'div',
+  'dl',
+  'dt',
+  'dd',
+  'footer',
+  'header',
+  'hr',
+  'li',
+  'ol',
+  'p',
+  'pre',
+  'section',
+  'table',
+  'tr',
+  'ul',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  deg: '°',
+  plusmn: '±',
+  micro: 'µ',
+  middot: '·',
+  bull: '•',
+  hellip: '…',
+  le: '≤',
+  ge: '≥',
+};
+
+/**
+ * Decode HTML character references
+ */
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity.startsWith('#')) {
+      const codePoint =
+        entity[1].toLowerCase() === 'x'
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : '';
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+/**
+ * Convert an HTML note into text blocks
+ */
+export const sanitizeHtmlNote = (html: string): NoteBlock[] => {
+  const source = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(REMOVED_ELEMENTS, '')
+    .replace(UNCLOSED_REMOVED_ELEMENT, '');
+
+  const blocks: NoteBlock[] = [];
+  let type: NoteBlockType = 'paragraph';
+  let buffer = '';
+
+  const flush = () => {
+    const text = decodeEntities(buffer)
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean)
+      .join('\n');
+    if (text) {
+      blocks.push({ type, text });
+    }
+    buffer = '';
+  };
+
+  let lastIndex = 0;
+  for (const match of source.matchAll(TAG)) {
+    buffer += source.slice(lastIndex, match.index).replace(/\s+/g, ' ');
+    lastIndex = (match.index ?? 0) + match[0].length;
+
+    const tagName = match[1].toLowerCase();
+    const isClosing = match[0].startsWith('</');
+
+    if (tagName === 'br') {
+      buffer += '\n';
+    } else if (tagName === 'td' || tagName === 'th') {
+      buffer += ' ';
+    } else if (BLOCK_ELEMENTS.has(tagName)) {
+      flush();
+      if (isClosing) {
+        type = 'paragraph';
+      } else if (/^h[1-6]$/.test(tagName)) {
+        type = 'heading';
+      } else if (tagName === 'li') {
+        type = 'listItem';
+      }
+    }
+  }
+  buffer += source.slice(lastIndex).replace(/\s+/g, ' ');
+  flush();
+
+  return blocks;
+};
+
+/**
+ * Convert a plain-text note into paragraphs
+ */
+export const sanitizeTextNote = (text: string): NoteBlock[] =>
+  text
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/[ \t]+$/gm, '').trim())
+    .filter(Boolean)
+    .map(paragraph => ({ type: 'paragraph', text: paragraph }));
+
+/**
+ * Decode base64 attachment data as UTF-8 note text
+ */
+export const decodeNoteContent = (base64: string): string =>
+  Buffer.from(base64, 'base64').toString('utf-8');
+
+/**
+ * Convert note content to text blocks based on its content type
+ */
+export const sanitizeNote = (content: string, contentType: string): NoteBlock[] =>
+  /html/i.test(contentType) ? sanitizeHtmlNote(content) : sanitizeTextNote(content);